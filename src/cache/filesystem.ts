@@ -0,0 +1,184 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { CacheItem } from "./types";
+import { CacheIndex, CacheOptions, IndexedCache } from "./indexed";
+
+const INDEX_FILE = "index.json";
+const ITEMS_DIRECTORY = "items";
+const LOCK_FILE = ".lock";
+
+// how long to wait for another process to release the lock
+const LOCK_TIMEOUT = 10_000;
+const LOCK_RETRY_DELAY = 25;
+// a lock older than this was left behind by a process that crashed
+const STALE_LOCK_AGE = 30_000;
+
+/**
+ * Caches data as JSON files in a directory, so several VS Code windows or a dev
+ * container with the directory mounted share the cache. Files are written
+ * atomically and changes are locked across processes with a lock file.
+ */
+export class FileSystemCache extends IndexedCache {
+  constructor(
+    private readonly directory: string,
+    options: CacheOptions = {},
+    now?: () => number,
+  ) {
+    super(options, now);
+  }
+
+  protected async readItem<T>(key: string): Promise<CacheItem<T> | undefined> {
+    return this.readJSON<CacheItem<T>>(this.itemPath(key));
+  }
+
+  protected async writeItem<T>(key: string, item: CacheItem<T>): Promise<void> {
+    await this.writeJSON(this.itemPath(key), item);
+  }
+
+  protected async deleteItem(key: string): Promise<void> {
+    await fs.promises.rm(this.itemPath(key), { force: true });
+  }
+
+  protected async readIndex(): Promise<CacheIndex> {
+    return (
+      (await this.readJSON<CacheIndex>(
+        path.join(this.directory, INDEX_FILE),
+      )) ?? {}
+    );
+  }
+
+  protected async writeIndex(index: CacheIndex): Promise<void> {
+    await this.writeJSON(path.join(this.directory, INDEX_FILE), index);
+  }
+
+  /**
+   * Holds the lock file while the change runs. The lock is created exclusively
+   * with a token of its owner so only one process can hold it, stale locks of
+   * crashed processes are taken over.
+   */
+  protected async lock<T>(change: () => Promise<T>): Promise<T> {
+    const lockPath = path.join(this.directory, LOCK_FILE);
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const owner = `${process.pid}.${crypto.randomUUID()}`;
+    const deadline = Date.now() + LOCK_TIMEOUT;
+    for (;;) {
+      try {
+        await fs.promises.writeFile(lockPath, owner, { flag: "wx" });
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+      }
+
+      const staleOwner = await readStaleLock(lockPath);
+      if (staleOwner !== undefined) {
+        console.debug(`Removing stale cache lock ${lockPath}`);
+        await releaseLock(lockPath, staleOwner);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for the cache lock ${lockPath}`);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_DELAY));
+    }
+
+    try {
+      return await change();
+    } finally {
+      if (!(await releaseLock(lockPath, owner))) {
+        console.warn(`The cache lock ${lockPath} was taken over`);
+      }
+    }
+  }
+
+  private itemPath(key: string): string {
+    // keys contain paths, so the file name is a hash of the key
+    const name = crypto.createHash("sha256").update(key).digest("hex");
+    return path.join(this.directory, ITEMS_DIRECTORY, `${name}.json`);
+  }
+
+  private async readJSON<T>(file: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(file, "utf8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Error reading cache file ${file}:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes a file atomically by renaming a temporary file over it, so readers
+   * never see a partially written file
+   */
+  private async writeJSON(file: string, value: unknown): Promise<void> {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+
+    const temporary = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    try {
+      await fs.promises.writeFile(temporary, JSON.stringify(value));
+      await fs.promises.rename(temporary, file);
+    } catch (error) {
+      await fs.promises.rm(temporary, { force: true });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Reads the owner of a lock that is older than a lock is held for
+ * @returns The owner token, undefined if the lock isn't stale or was released
+ */
+const readStaleLock = async (lockPath: string): Promise<string | undefined> => {
+  let handle: fs.promises.FileHandle | undefined;
+  try {
+    // the age and the owner are read from the same file
+    handle = await fs.promises.open(lockPath, "r");
+    const stat = await handle.stat();
+    return Date.now() - stat.mtimeMs > STALE_LOCK_AGE
+      ? await handle.readFile("utf8")
+      : undefined;
+  } catch {
+    // the lock was released in the meantime
+    return undefined;
+  } finally {
+    await handle?.close();
+  }
+};
+
+/**
+ * Removes a lock if it is held by an owner. The lock is moved away atomically
+ * first, and put back if another process holds it by then.
+ * @returns Whether the lock was held by the owner
+ */
+const releaseLock = async (
+  lockPath: string,
+  owner: string,
+): Promise<boolean> => {
+  const claimed = `${lockPath}.${crypto.randomUUID()}`;
+  try {
+    await fs.promises.rename(lockPath, claimed);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return false;
+    }
+    throw error;
+  }
+
+  try {
+    if ((await fs.promises.readFile(claimed, "utf8")) === owner) {
+      return true;
+    }
+
+    // a lock that was taken in the meantime is kept
+    await fs.promises.link(claimed, lockPath).catch(() => undefined);
+    return false;
+  } finally {
+    await fs.promises.rm(claimed, { force: true });
+  }
+};
@@ -1,2 +1,4 @@
 export * from "./types";
+export * from "./indexed";
 export * from "./vscode-storage";
+export * from "./filesystem";
@@ -0,0 +1,388 @@
+import * as crypto from "crypto";
+import { CliCache, CacheItem, CacheEntryInfo, CacheSetOptions } from "./types";
+
+// keys of cache items start with this so they can be told apart from other stored data
+export const KEY_PREFIX = "dagger.cache:";
+
+export interface CacheOptions {
+  /**
+   * How long items are kept in milliseconds, 0 keeps them until they are evicted
+   * Default: 7 days
+   */
+  ttl?: number;
+
+  /**
+   * The most items to keep, the least recently used are evicted first
+   * Default: 200
+   */
+  maxEntries?: number;
+
+  /**
+   * The most bytes of serialized data to keep
+   * Default: 10 MB
+   */
+  maxBytes?: number;
+}
+
+const DEFAULT_OPTIONS: Required<CacheOptions> = {
+  ttl: 7 * 24 * 60 * 60 * 1000,
+  maxEntries: 200,
+  maxBytes: 10 * 1024 * 1024,
+};
+
+// the details of every cached item, so the cache can be listed and evicted without reading the items
+export type CacheIndex = Record<string, CacheEntryInfo>;
+
+/**
+ * A cache that keeps an index of its items for TTLs, LRU eviction and
+ * namespaces. Backends implement how items and the index are stored.
+ */
+export abstract class IndexedCache implements CliCache {
+  private readonly options: Required<CacheOptions>;
+  private pending: Promise<unknown> = Promise.resolve();
+  // when items were read since the index was last written, written with the next change
+  private readonly accesses = new Map<string, number>();
+
+  constructor(
+    options: CacheOptions = {},
+    private readonly now: () => number = Date.now,
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  protected abstract readItem<T>(
+    key: string,
+  ): Promise<CacheItem<T> | undefined>;
+  protected abstract writeItem<T>(
+    key: string,
+    item: CacheItem<T>,
+  ): Promise<void>;
+  protected abstract deleteItem(key: string): Promise<void>;
+  protected abstract readIndex(): Promise<CacheIndex>;
+  protected abstract writeIndex(index: CacheIndex): Promise<void>;
+
+  /**
+   * Locks the store for a change, backends that are shared between processes
+   * override this. Changes within this process are already serialized.
+   */
+  protected lock<T>(change: () => Promise<T>): Promise<T> {
+    return change();
+  }
+
+  /**
+   * Runs a change to the items and index without other writers interleaving
+   */
+  private exclusive<T>(change: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(() => this.lock(change));
+    this.pending = run.catch(() => undefined);
+
+    return run;
+  }
+
+  /**
+   * Generates a SHA256 hash of the given data
+   * @param data The data to hash
+   * @returns The SHA256 hash as a hex string
+   */
+  private generateSHA256(data: any): string {
+    let serialized: string;
+    if (typeof data === "object" && data !== null) {
+      const keys = Object.keys(data).sort();
+      const values = keys.map((k) => (data as any)[k]);
+      serialized = JSON.stringify({ keys, values });
+    } else {
+      serialized = JSON.stringify(data);
+    }
+    return crypto.createHash("sha256").update(serialized).digest("hex");
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const item = await this.read<T>(key);
+      if (!item) {
+        return undefined;
+      }
+
+      // record the access for LRU eviction, reads don't write the index
+      this.accesses.set(key, this.now());
+
+      return item.data;
+    } catch (error) {
+      console.error(`Error getting cache item for key ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  async set<T>(
+    key: string,
+    value: T,
+    options?: CacheSetOptions,
+  ): Promise<void> {
+    try {
+      const sha256 = this.generateSHA256(value);
+      const item: CacheItem<T> = {
+        data: value,
+        sha256,
+      };
+
+      const now = this.now();
+      const ttl = options?.ttl ?? this.options.ttl;
+      const { prefix, namespace } = parseKey(key);
+      const info: CacheEntryInfo = {
+        key,
+        prefix,
+        namespace,
+        size: Buffer.byteLength(JSON.stringify(value) ?? ""),
+        createdAt: now,
+        accessedAt: now,
+        expiresAt: ttl > 0 ? now + ttl : undefined,
+      };
+
+      await this.exclusive(async () => {
+        await this.writeItem(key, item);
+        await this.writeIndex({
+          ...(await this.readIndexWithAccesses()),
+          [key]: info,
+        });
+        await this.evict();
+      });
+    } catch (error) {
+      console.error(`Error setting cache item for key ${key}:`, error);
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    try {
+      await this.exclusive(() => this.removeKeys([key]));
+    } catch (error) {
+      console.error(`Error removing cache item for key ${key}:`, error);
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.exclusive(async () =>
+        this.removeKeys(Object.keys(await this.readIndex())),
+      );
+    } catch (error) {
+      console.error("Error clearing cache:", error);
+      throw error;
+    }
+  }
+
+  async clearNamespace(namespace: string): Promise<void> {
+    try {
+      await this.exclusive(async () => {
+        const index = await this.readIndex();
+        await this.removeKeys(
+          Object.values(index)
+            .filter((entry) => entry.namespace === namespace)
+            .map((entry) => entry.key),
+        );
+      });
+    } catch (error) {
+      console.error(`Error clearing cache namespace ${namespace}:`, error);
+      throw error;
+    }
+  }
+
+  async entries(namespace?: string): Promise<CacheEntryInfo[]> {
+    const now = this.now();
+
+    return Object.values(withAccesses(await this.readIndex(), this.accesses))
+      .filter((entry) => !isExpired(entry, now))
+      .filter(
+        (entry) => namespace === undefined || entry.namespace === namespace,
+      )
+      .sort((a, b) => b.accessedAt - a.accessedAt);
+  }
+
+  async has(key: string): Promise<boolean> {
+    const item = await this.read(key);
+    return item !== undefined;
+  }
+
+  /**
+   * Gets the SHA256 hash of a cached item without returning the data
+   * @param key The cache key
+   * @returns The SHA256 hash or undefined if not found
+   */
+  async getSHA256(key: string): Promise<string | undefined> {
+    try {
+      const item = await this.read(key);
+
+      if (!item) {
+        return undefined;
+      }
+
+      return item.sha256;
+    } catch (error) {
+      console.error(`Error getting SHA256 for key ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Compares the SHA256 hash of new data with the cached version
+   * @param key The cache key
+   * @param newData The new data to compare
+   * @returns True if the data has changed, false if it's the same
+   */
+  async hasDataChanged<T>(key: string, newData: T): Promise<boolean> {
+    const cachedSHA256 = await this.getSHA256(key);
+    if (!cachedSHA256) {
+      return true; // No cached data, so it's "changed"
+    }
+
+    const newSHA256 = this.generateSHA256(newData);
+    return cachedSHA256 !== newSHA256;
+  }
+
+  /**
+   * Generates a cache key based on a prefix and path
+   * @param prefix The prefix for the cache key
+   * @param path The path to include in the key, it is the namespace of the key
+   * @returns A unique cache key
+   */
+  generateKey(prefix: string, path: string): string {
+    return `${KEY_PREFIX}${prefix}:${path}`;
+  }
+
+  /**
+   * Writes the accesses recorded since the last change to the index
+   */
+  async dispose(): Promise<void> {
+    if (this.accesses.size === 0) {
+      return;
+    }
+
+    try {
+      await this.exclusive(async () =>
+        this.writeIndex(await this.readIndexWithAccesses()),
+      );
+    } catch (error) {
+      console.error("Error writing the cache index:", error);
+    }
+  }
+
+  /**
+   * Removes items and their index entries, the caller must hold exclusive access
+   */
+  protected async removeKeys(keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+
+    const index = await this.readIndexWithAccesses();
+    for (const key of keys) {
+      delete index[key];
+    }
+
+    await this.writeIndex(index);
+    await Promise.all(keys.map((key) => this.deleteItem(key)));
+  }
+
+  /**
+   * Reads the index with the recorded accesses, which are written with it. The
+   * caller must hold exclusive access and write the index.
+   */
+  private async readIndexWithAccesses(): Promise<CacheIndex> {
+    const index = withAccesses(await this.readIndex(), this.accesses);
+    this.accesses.clear();
+
+    return index;
+  }
+
+  /**
+   * Reads an item, removing it when it has expired
+   */
+  private async read<T>(key: string): Promise<CacheItem<T> | undefined> {
+    const item = await this.readItem<T>(key);
+    if (!item) {
+      return undefined;
+    }
+
+    const info = (await this.readIndex())[key];
+    if (info && isExpired(info, this.now())) {
+      console.debug(`Cache item for key ${key} has expired`);
+      await this.exclusive(() => this.removeKeys([key]));
+      return undefined;
+    }
+
+    return item;
+  }
+
+  /**
+   * Removes expired items, then the least recently used items until the cache
+   * fits its budget. The caller must hold exclusive access.
+   */
+  private async evict(): Promise<void> {
+    const now = this.now();
+    const entries = Object.values(await this.readIndex());
+    const expired = entries.filter((entry) => isExpired(entry, now));
+
+    // least recently used last, so they are popped first
+    const remaining = entries
+      .filter((entry) => !isExpired(entry, now))
+      .sort((a, b) => b.accessedAt - a.accessedAt);
+    let bytes = remaining.reduce((sum, entry) => sum + entry.size, 0);
+
+    const evicted: CacheEntryInfo[] = [];
+    while (
+      remaining.length > this.options.maxEntries ||
+      (remaining.length > 0 && bytes > this.options.maxBytes)
+    ) {
+      const entry = remaining.pop()!;
+      bytes -= entry.size;
+      evicted.push(entry);
+    }
+
+    if (expired.length > 0 || evicted.length > 0) {
+      console.debug(
+        `Evicting ${expired.length} expired and ${evicted.length} least recently used cache items`,
+      );
+      await this.removeKeys([...expired, ...evicted].map((entry) => entry.key));
+    }
+  }
+}
+
+/**
+ * Splits a key made by generateKey into its prefix and namespace
+ * @param key The cache key
+ */
+const parseKey = (key: string): { prefix: string; namespace: string } => {
+  if (!key.startsWith(KEY_PREFIX)) {
+    return { prefix: "", namespace: "" };
+  }
+
+  const rest = key.slice(KEY_PREFIX.length);
+  const separator = rest.indexOf(":");
+  return separator === -1
+    ? { prefix: rest, namespace: "" }
+    : {
+        prefix: rest.slice(0, separator),
+        namespace: rest.slice(separator + 1),
+      };
+};
+
+/**
+ * Copies an index with the times items were accessed at
+ */
+const withAccesses = (
+  index: CacheIndex,
+  accesses: ReadonlyMap<string, number>,
+): CacheIndex => {
+  const updated = { ...index };
+  for (const [key, accessedAt] of accesses) {
+    if (updated[key] && updated[key].accessedAt < accessedAt) {
+      updated[key] = { ...updated[key], accessedAt };
+    }
+  }
+
+  return updated;
+};
+
+const isExpired = (entry: CacheEntryInfo, now: number): boolean =>
+  entry.expiresAt !== undefined && entry.expiresAt <= now;
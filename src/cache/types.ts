@@ -3,6 +3,26 @@ export interface CacheItem<T> {
   readonly sha256: string; // SHA256 hash of the serialized data
 }
 
+/**
+ * Details about a cached item, without its data
+ */
+export interface CacheEntryInfo {
+  readonly key: string;
+  readonly prefix: string; // the kind of data, e.g. functions or directory
+  readonly namespace: string; // what the data belongs to, e.g. the module path
+  readonly size: number; // bytes of the serialized data
+  readonly createdAt: number; // epoch milliseconds
+  readonly accessedAt: number; // epoch milliseconds, used for LRU eviction
+  readonly expiresAt?: number; // epoch milliseconds, never expires when not set
+}
+
+export interface CacheSetOptions {
+  /**
+   * How long the item is kept in milliseconds, overrides the default TTL of the cache
+   */
+  ttl?: number;
+}
+
 export interface CliCache {
   /**
    * Gets an item from the cache
@@ -15,8 +35,9 @@ export interface CliCache {
    * Sets an item in the cache
    * @param key The cache key
    * @param value The value to cache
+   * @param options Options such as the TTL of the item
    */
-  set<T>(key: string, value: T): Promise<void>;
+  set<T>(key: string, value: T, options?: CacheSetOptions): Promise<void>;
 
   /**
    * Removes an item from the cache
@@ -29,6 +50,18 @@ export interface CliCache {
    */
   clear(): Promise<void>;
 
+  /**
+   * Removes all items in a namespace, e.g. everything cached for a module
+   * @param namespace The namespace, the path passed to generateKey
+   */
+  clearNamespace(namespace: string): Promise<void>;
+
+  /**
+   * Lists the cached items without their data, expired items are left out
+   * @param namespace Only list the items in this namespace
+   */
+  entries(namespace?: string): Promise<CacheEntryInfo[]>;
+
   /**
    * Checks if an item exists in the cache
    * @param key The cache key
@@ -51,7 +84,8 @@ export interface CliCache {
   hasDataChanged<T>(key: string, newData: T): Promise<boolean>;
 
   /**
-   * Generates a cache key based on a prefix and path
+   * Generates a cache key based on a prefix and path. The path is the namespace
+   * of the key so everything cached for it can be listed and cleared together.
    *
    * @param prefix The prefix for the cache key
    * @param path The path to include in the key
@@ -1,129 +1,77 @@
 import * as vscode from "vscode";
-import * as crypto from "crypto";
-import { CliCache, CacheItem } from "./types";
+import { CacheItem } from "./types";
+import { CacheIndex, CacheOptions, IndexedCache, KEY_PREFIX } from "./indexed";
 
-export class VSCodeWorkspaceCache implements CliCache {
+const INDEX_KEY = "dagger.cache.index";
+
+/**
+ * Caches data in a Memento, e.g. the workspace state of the extension
+ */
+export class VSCodeWorkspaceCache extends IndexedCache {
   private readonly storage: vscode.Memento;
 
-  constructor(storage: vscode.Memento) {
+  constructor(
+    storage: vscode.Memento,
+    options: CacheOptions = {},
+    now?: () => number,
+  ) {
+    super(options, now);
     this.storage = storage;
   }
 
-  /**
-   * Generates a SHA256 hash of the given data
-   * @param data The data to hash
-   * @returns The SHA256 hash as a hex string
-   */
-  private generateSHA256(data: any): string {
-    let serialized: string;
-    if (typeof data === "object" && data !== null) {
-      const keys = Object.keys(data).sort();
-      const values = keys.map((k) => (data as any)[k]);
-      serialized = JSON.stringify({ keys, values });
-    } else {
-      serialized = JSON.stringify(data);
-    }
-    return crypto.createHash("sha256").update(serialized).digest("hex");
-  }
-
-  async get<T>(key: string): Promise<T | undefined> {
-    try {
-      const item = this.storage.get<CacheItem<T>>(key);
-
-      if (!item) {
-        return undefined;
-      }
-
-      return item.data;
-    } catch (error) {
-      console.error(`Error getting cache item for key ${key}:`, error);
-      return undefined;
-    }
-  }
-
-  async set<T>(key: string, value: T): Promise<void> {
-    try {
-      const sha256 = this.generateSHA256(value);
-      const item: CacheItem<T> = {
-        data: value,
-        sha256,
-      };
-
-      await this.storage.update(key, item);
-    } catch (error) {
-      console.error(`Error setting cache item for key ${key}:`, error);
-      throw error;
-    }
-  }
-
-  async remove(key: string): Promise<void> {
-    try {
-      await this.storage.update(key, undefined);
-    } catch (error) {
-      console.error(`Error removing cache item for key ${key}:`, error);
-      throw error;
-    }
-  }
-
   async clear(): Promise<void> {
+    await super.clear();
+
     try {
-      // Get all keys and remove them
-      const keys = this.storage.keys();
-      await Promise.all(keys.map((key) => this.remove(key)));
+      // items written before the cache had an index are only found by their value
+      const legacyKeys = this.storage
+        .keys()
+        .filter(
+          (key) =>
+            key !== INDEX_KEY &&
+            !key.startsWith(KEY_PREFIX) &&
+            isCacheItem(this.storage.get(key)),
+        );
+      await Promise.all(
+        legacyKeys.map((key) => this.storage.update(key, undefined)),
+      );
     } catch (error) {
       console.error("Error clearing cache:", error);
       throw error;
     }
   }
 
-  async has(key: string): Promise<boolean> {
-    const item = await this.get(key);
-    return item !== undefined;
+  protected async readItem<T>(key: string): Promise<CacheItem<T> | undefined> {
+    return this.storage.get<CacheItem<T>>(key);
   }
 
-  /**
-   * Gets the SHA256 hash of a cached item without returning the data
-   * @param key The cache key
-   * @returns The SHA256 hash or undefined if not found
-   */
-  async getSHA256(key: string): Promise<string | undefined> {
-    try {
-      const item = this.storage.get<CacheItem<any>>(key);
-
-      if (!item) {
-        return undefined;
-      }
-
-      return item.sha256;
-    } catch (error) {
-      console.error(`Error getting SHA256 for key ${key}:`, error);
-      return undefined;
-    }
+  protected async writeItem<T>(key: string, item: CacheItem<T>): Promise<void> {
+    await this.storage.update(key, item);
   }
 
-  /**
-   * Compares the SHA256 hash of new data with the cached version
-   * @param key The cache key
-   * @param newData The new data to compare
-   * @returns True if the data has changed, false if it's the same
-   */
-  async hasDataChanged<T>(key: string, newData: T): Promise<boolean> {
-    const cachedSHA256 = await this.getSHA256(key);
-    if (!cachedSHA256) {
-      return true; // No cached data, so it's "changed"
-    }
+  protected async deleteItem(key: string): Promise<void> {
+    await this.storage.update(key, undefined);
+  }
 
-    const newSHA256 = this.generateSHA256(newData);
-    return cachedSHA256 !== newSHA256;
+  protected async readIndex(): Promise<CacheIndex> {
+    return this.storage.get<CacheIndex>(INDEX_KEY, {});
   }
 
-  /**
-   * Generates a cache key based on a prefix and path
-   * @param prefix The prefix for the cache key
-   * @param path The path to include in the key
-   * @returns A unique cache key
-   */
-  generateKey(prefix: string, path: string): string {
-    return crypto.createHash("md5").update(`${prefix}-${path}`).digest("hex");
+  protected async writeIndex(index: CacheIndex): Promise<void> {
+    await this.storage.update(
+      INDEX_KEY,
+      Object.keys(index).length > 0 ? index : undefined,
+    );
   }
 }
+
+/**
+ * Checks if a stored value was written by the cache
+ * @param value The stored value
+ * @returns True if the value is a CacheItem
+ */
+const isCacheItem = (value: unknown): value is CacheItem<unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  "data" in value &&
+  "sha256" in value;
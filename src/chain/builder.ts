@@ -0,0 +1,193 @@
+import * as vscode from "vscode";
+import { DaggerCLI } from "../cli";
+import { DaggerChainCall } from "../tasks";
+import { FunctionInfo, TypeInfo } from "../types/types";
+import {
+  buildCommandArgs,
+  buildFunctionCommandArgs,
+  collectFunctionArgValues,
+  FunctionInputOptions,
+} from "../utils/function-helpers";
+import { typeInfoFromName } from "../utils/type-helpers";
+
+// calls that keep running until they are stopped, they need a terminal
+const INTERACTIVE_CALLS = new Set(["terminal", "up"]);
+
+/**
+ * A function of the chain and the argument values it is called with
+ */
+export interface ChainStep {
+  readonly functionInfo: FunctionInfo;
+  readonly argValues: Record<string, string>;
+}
+
+interface ChainQuickPickItem extends vscode.QuickPickItem {
+  readonly action?: "run" | "undo";
+  readonly functionInfo?: FunctionInfo;
+}
+
+/**
+ * Gets the type a function returns, falling back to its type name
+ * @param functionInfo The function
+ */
+export const chainResultType = (functionInfo: FunctionInfo): TypeInfo =>
+  functionInfo.returnTypeInfo ?? typeInfoFromName(functionInfo.returnType);
+
+/**
+ * Checks if more functions can be called on the result of a function, which
+ * is the case for objects like Container, Directory or objects of the module
+ * @param functionInfo The function
+ */
+export const isChainable = (functionInfo: FunctionInfo): boolean => {
+  const { kind } = chainResultType(functionInfo);
+
+  return kind === "Object" || kind === "Interface";
+};
+
+/**
+ * Checks if the last call of a chain keeps running, e.g. terminal or up
+ * @param steps The steps of the chain
+ */
+export const isInteractiveChain = (steps: readonly ChainStep[]): boolean =>
+  steps.length > 1 &&
+  INTERACTIVE_CALLS.has(steps[steps.length - 1].functionInfo.name);
+
+/**
+ * Builds the `dagger call` command arguments for a chain, the first step is
+ * called with its module path and the others are called on the result
+ * @param steps The steps of the chain
+ * @returns Command arguments array
+ */
+export const buildChainCommandArgs = (
+  steps: readonly ChainStep[],
+): string[] => {
+  const [first, ...rest] = steps;
+
+  return [
+    ...buildFunctionCommandArgs(first.functionInfo, first.argValues),
+    // drop the leading `dagger call`
+    ...rest.flatMap((step) =>
+      buildCommandArgs(step.functionInfo.name, step.argValues).slice(2),
+    ),
+  ];
+};
+
+/**
+ * Converts the steps after the first function to the chain of a `dagger` task
+ * @param steps The steps called on the result of the function
+ */
+export const toChainCalls = (
+  steps: readonly ChainStep[],
+): (string | DaggerChainCall)[] =>
+  steps.map(({ functionInfo, argValues }) =>
+    Object.keys(argValues).length > 0
+      ? { function: functionInfo.name, args: argValues }
+      : functionInfo.name,
+  );
+
+/**
+ * Builds a chain of calls step by step. After each call the functions of the
+ * object it returns are introspected, and the user picks the next function
+ * and its arguments until they run the chain.
+ */
+export class ChainBuilder {
+  constructor(
+    private readonly dagger: DaggerCLI,
+    private readonly path: string,
+    private readonly options: FunctionInputOptions = {},
+  ) {}
+
+  /**
+   * Continues a chain from a function the user already picked
+   * @param first The function and its argument values
+   * @returns The steps of the chain, or undefined if cancelled
+   */
+  async build(first: ChainStep): Promise<ChainStep[] | undefined> {
+    const steps = [first];
+
+    for (;;) {
+      const last = steps[steps.length - 1].functionInfo;
+      if (!isChainable(last) || isInteractiveChain(steps)) {
+        return steps;
+      }
+
+      const typeName = chainResultType(last).name;
+      let functions: FunctionInfo[];
+      try {
+        functions = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Window,
+            title: `Dagger: Loading functions of ${typeName}`,
+          },
+          () => this.dagger.getTypeFunctions(this.path, typeName),
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(
+          `Failed to get the functions of ${typeName}: ${errorMessage}`,
+        );
+        console.error(`Error loading functions of ${typeName}:`, error);
+        return undefined;
+      }
+
+      const picked = await this.pickNextCall(steps, typeName, functions);
+      if (!picked) {
+        return undefined;
+      }
+      if (picked.action === "run") {
+        return steps;
+      }
+      if (picked.action === "undo") {
+        steps.pop();
+        continue;
+      }
+
+      const functionInfo = picked.functionInfo!;
+      const argValues = await collectFunctionArgValues(functionInfo, {
+        ...this.options,
+        workspacePath: this.options.workspacePath ?? this.path,
+      });
+      // cancelling the arguments goes back to picking the function
+      if (argValues) {
+        steps.push({ functionInfo, argValues });
+      }
+    }
+  }
+
+  private async pickNextCall(
+    steps: readonly ChainStep[],
+    typeName: string,
+    functions: FunctionInfo[],
+  ): Promise<ChainQuickPickItem | undefined> {
+    const last = steps[steps.length - 1].functionInfo;
+    const items: ChainQuickPickItem[] = [
+      {
+        label: "$(play) Run",
+        description: `returns ${typeName}`,
+        action: "run",
+      },
+      ...(steps.length > 1
+        ? [
+            {
+              label: `$(discard) Remove \`${last.name}\``,
+              action: "undo" as const,
+            },
+          ]
+        : []),
+      { label: typeName, kind: vscode.QuickPickItemKind.Separator },
+      ...functions.map((fn) => ({
+        label: fn.name,
+        description: fn.returnType,
+        detail: fn.description?.split("\n")[0],
+        functionInfo: fn,
+      })),
+    ];
+
+    return vscode.window.showQuickPick(items, {
+      title: buildChainCommandArgs(steps).join(" "),
+      placeHolder: `Select a function of ${typeName} to call next, or run the chain`,
+      matchOnDescription: true,
+    });
+  }
+}
@@ -0,0 +1,278 @@
+import * as vscode from "vscode";
+import { DaggerCLI } from "../cli";
+import { FunctionInfo } from "../types/types";
+import { buildCommandArgs } from "../utils/function-helpers";
+import { CHAT_PARTICIPANT_ID, ICON_PATH } from "../const";
+import { ActiveModule } from "../workspace";
+
+type ChatCommand = "functions" | "call" | "explain";
+
+const SYSTEM_PROMPT = `You are the Dagger assistant inside VS Code. Answer questions about the Dagger functions in the user's workspace.
+Only use the functions listed below; do not invent functions or arguments. When suggesting how to run a function, use the \`dagger call\` CLI syntax with kebab-case argument flags.`;
+
+/**
+ * Registers the `@dagger` chat participant
+ * @param context The extension context
+ * @param daggerCli The Dagger CLI instance used to load the module functions
+ * @param activeModule Resolves the module to answer questions about
+ */
+export const registerChatParticipant = (
+  context: vscode.ExtensionContext,
+  daggerCli: DaggerCLI,
+  activeModule: ActiveModule,
+): void => {
+  const handler: vscode.ChatRequestHandler = async (
+    request,
+    _context,
+    stream,
+    token,
+  ): Promise<vscode.ChatResult> => {
+    const path = await activeModule.resolve();
+    if (path === undefined) {
+      return {};
+    }
+
+    let functions: FunctionInfo[];
+    try {
+      stream.progress("Loading Dagger functions...");
+      functions = await daggerCli.getFunctions(path);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error("Failed to load functions for chat:", error);
+
+      return { errorDetails: { message: errorMessage } };
+    }
+
+    if (token.isCancellationRequested) {
+      return {};
+    }
+
+    switch (request.command as ChatCommand | undefined) {
+      case "functions":
+        stream.markdown(formatFunctionList(functions));
+        return { metadata: { command: "functions" } };
+      case "call": {
+        const functionInfo = findFunction(functions, request.prompt);
+        if (!functionInfo) {
+          // let the model pick the function from the natural language prompt
+          return askModel(request, stream, token, functions);
+        }
+
+        stream.markdown(
+          `\`${functionInfo.name}\` can be called with:\n\n\`\`\`sh\n${formatCallCommand(functionInfo)}\n\`\`\`\n`,
+        );
+        stream.button({
+          command: "dagger.call",
+          title: "Call Function",
+          arguments: [functionInfo, path],
+        });
+        return { metadata: { command: "call", function: functionInfo.name } };
+      }
+      case "explain": {
+        const functionInfo = findFunction(functions, request.prompt);
+        if (!functionInfo) {
+          return askModel(request, stream, token, functions);
+        }
+
+        stream.markdown(formatFunctionDetails(functionInfo));
+        return {
+          metadata: { command: "explain", function: functionInfo.name },
+        };
+      }
+      default:
+        return askModel(request, stream, token, functions);
+    }
+  };
+
+  const participant = vscode.chat.createChatParticipant(
+    CHAT_PARTICIPANT_ID,
+    handler,
+  );
+  participant.iconPath = vscode.Uri.joinPath(context.extensionUri, ICON_PATH);
+  participant.followupProvider = {
+    provideFollowups: (result) => {
+      if (result.metadata?.command === "call") {
+        return [
+          {
+            prompt: result.metadata.function,
+            command: "explain",
+            label: `Explain ${result.metadata.function}`,
+          },
+        ];
+      }
+
+      return [];
+    },
+  };
+
+  context.subscriptions.push(participant);
+};
+
+/**
+ * Sends the request to the language model selected in chat, using the workspace functions as context
+ */
+const askModel = async (
+  request: vscode.ChatRequest,
+  stream: vscode.ChatResponseStream,
+  token: vscode.CancellationToken,
+  functions: readonly FunctionInfo[],
+): Promise<vscode.ChatResult> => {
+  const messages = [
+    vscode.LanguageModelChatMessage.User(
+      `${SYSTEM_PROMPT}\n\nFunctions:\n${formatFunctionCatalog(functions)}`,
+    ),
+    vscode.LanguageModelChatMessage.User(request.prompt),
+  ];
+
+  try {
+    const response = await request.model.sendRequest(messages, {}, token);
+    for await (const fragment of response.text) {
+      stream.markdown(fragment);
+    }
+  } catch (error) {
+    if (error instanceof vscode.LanguageModelError) {
+      console.error("Language model error:", error.message, error.code);
+
+      return { errorDetails: { message: error.message } };
+    }
+
+    throw error;
+  }
+
+  return { metadata: { command: request.command } };
+};
+
+/**
+ * Finds the function referenced in a chat prompt. The prompt can contain
+ * the function name on its own (`build`) or prefixed with its module (`go build`).
+ * @param functions The functions to search
+ * @param prompt The chat prompt
+ * @returns The matching function or undefined if none match
+ */
+export const findFunction = (
+  functions: readonly FunctionInfo[],
+  prompt: string,
+): FunctionInfo | undefined => {
+  const words = prompt
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((word) => word.length > 0);
+  if (words.length === 0) {
+    return undefined;
+  }
+
+  const [first, second] = words;
+
+  // prefer a module qualified match so `go build` does not resolve to the root `build`
+  if (second) {
+    const qualified = functions.find(
+      (fn) =>
+        fn.module?.toLowerCase() === first && fn.name.toLowerCase() === second,
+    );
+    if (qualified) {
+      return qualified;
+    }
+  }
+
+  return (
+    functions.find((fn) => !fn.module && fn.name.toLowerCase() === first) ??
+    functions.find((fn) => fn.name.toLowerCase() === first)
+  );
+};
+
+/**
+ * Builds an example `dagger call` command with placeholders for the required arguments
+ * @param functionInfo The function to build the command for
+ * @returns The command line as a string
+ */
+export const formatCallCommand = (functionInfo: FunctionInfo): string => {
+  const placeholders = Object.fromEntries(
+    functionInfo.args
+      .filter((arg) => arg.required)
+      .map((arg) => [arg.name, `<${arg.type}>`]),
+  );
+
+  return buildCommandArgs(
+    functionInfo.name,
+    placeholders,
+    functionInfo.module,
+  ).join(" ");
+};
+
+/**
+ * Formats the functions as a markdown list grouped by module
+ * @param functions The functions to format
+ * @returns The markdown string
+ */
+export const formatFunctionList = (
+  functions: readonly FunctionInfo[],
+): string => {
+  if (functions.length === 0) {
+    return "No functions were found in this Dagger module.";
+  }
+
+  const modules = new Map<string, FunctionInfo[]>();
+  for (const fn of functions) {
+    const moduleKey = fn.module ?? "";
+    modules.set(moduleKey, [...(modules.get(moduleKey) ?? []), fn]);
+  }
+
+  const sections: string[] = [];
+  for (const [moduleName, moduleFunctions] of modules.entries()) {
+    const lines = moduleFunctions.map(
+      (fn) =>
+        `- \`${fn.name}\` → \`${fn.returnType}\`${fn.description ? ` — ${fn.description.split("\n")[0]}` : ""}`,
+    );
+    sections.push(
+      `${moduleName ? `**${moduleName}**` : "**Root module**"}\n\n${lines.join("\n")}`,
+    );
+  }
+
+  return sections.join("\n\n");
+};
+
+/**
+ * Formats a single function with its arguments and an example call
+ * @param functionInfo The function to format
+ * @returns The markdown string
+ */
+export const formatFunctionDetails = (functionInfo: FunctionInfo): string => {
+  let markdown = `### \`${functionInfo.name}\`\n\n`;
+  if (functionInfo.description) {
+    markdown += `${functionInfo.description}\n\n`;
+  }
+  markdown += `**Returns:** \`${functionInfo.returnType}\`\n\n`;
+
+  if (functionInfo.args.length > 0) {
+    markdown += "| Argument | Type | Required |\n| --- | --- | --- |\n";
+    for (const arg of functionInfo.args) {
+      markdown += `| \`--${arg.name}\` | \`${arg.type}\` | ${arg.required ? "yes" : "no"} |\n`;
+    }
+    markdown += "\n";
+  } else {
+    markdown += "This function takes no arguments.\n\n";
+  }
+
+  markdown += `\`\`\`sh\n${formatCallCommand(functionInfo)}\n\`\`\`\n`;
+
+  return markdown;
+};
+
+/**
+ * Formats the functions as plain text for the language model prompt
+ */
+const formatFunctionCatalog = (functions: readonly FunctionInfo[]): string =>
+  functions
+    .map((fn) => {
+      const args = fn.args
+        .map(
+          (arg) =>
+            `--${arg.name}: ${arg.type}${arg.required ? " (required)" : ""}${arg.defaultValue !== undefined ? ` = ${arg.defaultValue}` : ""}`,
+        )
+        .join(", ");
+
+      return `- ${fn.module ? `${fn.module} ` : ""}${fn.name}(${args}) -> ${fn.returnType}${fn.description ? `: ${fn.description}` : ""}`;
+    })
+    .join("\n");
@@ -6,14 +6,22 @@ import {
   ModuleResult,
   FunctionArg,
   ModuleFunction,
+  FunctionSourceMap,
+  SourceMapResult,
+  TypeFieldsResult,
 } from "./types/types";
 import { DaggerSettings } from "./settings";
-import { CliCache } from "./cache";
+import { CacheEntryInfo, CliCache } from "./cache";
 import {
   functionArgTypeToFunctionArgument,
   getReturnTypeName,
+  graphQLTypeToTypeDef,
+  typeDefToTypeInfo,
 } from "./utils/type-helpers";
 import { nameToKebabCase } from "./utils/modules";
+import { ManagedProcess, ProcessOptions, startProcess } from "./utils/process";
+import { ErrorReporter } from "./diagnostics/types";
+import { hashModuleSource } from "./utils/module-source";
 
 export interface Output {
   exitCode: number;
@@ -21,14 +29,25 @@ export interface Output {
   stderr: string;
 }
 
-export interface RunOptions {
-  cwd: string;
-  stdin?: string;
-  env?: Record<string, string>;
-  timeout?: number;
+export type RunOptions = Omit<ProcessOptions, "shell">;
+
+/**
+ * The cached functions of a module and the hash of the source they were loaded from
+ */
+interface CachedFunctions {
+  readonly sourceHash?: string;
+  readonly functions: FunctionInfo[];
+}
+
+/**
+ * The cached source maps of a module and the hash of the source they were loaded from
+ */
+interface CachedSourceMaps {
+  readonly sourceHash?: string;
+  readonly sourceMaps: FunctionSourceMap[];
 }
 
-const queryHostDirectory = `query hostDirectory($path: String!) {
+export const queryHostDirectory = `query hostDirectory($path: String!) {
     host {
         directory(path: $path) {
             id
@@ -36,7 +55,66 @@ const queryHostDirectory = `query hostDirectory($path: String!) {
     }
 }`;
 
-const queryFunctions = `query directoryAsModule($id: DirectoryID!) {
+/**
+ * Builds the query that lists the functions of a module. Lists are nested up
+ * to three levels deep, which covers lists of lists of lists.
+ * @param newerFields Whether to select asInput, asEnum.members and defaultPath,
+ * which older Dagger versions don't have
+ */
+const buildFunctionsQuery = (
+  newerFields: boolean,
+): string => `fragment TypeDefInfo on TypeDef {
+  kind
+  optional
+  asObject {
+    name
+  }
+  asInterface {
+    name
+  }${
+    newerFields
+      ? `
+  asInput {
+    name
+  }`
+      : ""
+  }
+  asScalar {
+    name
+  }
+  asEnum {
+    name${
+      newerFields
+        ? `
+    members {
+      name
+      description
+    }`
+        : ""
+    }
+  }
+}
+
+fragment FullTypeDef on TypeDef {
+  ...TypeDefInfo
+  asList {
+    elementTypeDef {
+      ...TypeDefInfo
+      asList {
+        elementTypeDef {
+          ...TypeDefInfo
+          asList {
+            elementTypeDef {
+              ...TypeDefInfo
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+query directoryAsModule($id: DirectoryID!) {
   loadDirectoryFromID(id: $id) {
     name
     asModule {
@@ -50,21 +128,19 @@ const queryFunctions = `query directoryAsModule($id: DirectoryID!) {
             name
             description
             returnType {
-              kind
-              optional
-              asObject {
-                name
-              }
+              ...FullTypeDef
             }
             args {
               name
               description
+              defaultValue${
+                newerFields
+                  ? `
+              defaultPath`
+                  : ""
+              }
               typeDef {
-                asObject {
-                  name
-                }
-                kind
-                optional
+                ...FullTypeDef
               }
             }
           }
@@ -74,10 +150,99 @@ const queryFunctions = `query directoryAsModule($id: DirectoryID!) {
   }
 }`;
 
+export const queryFunctions = buildFunctionsQuery(true);
+
+// older Dagger versions fail the whole query on the fields they don't have
+const queryFunctionsWithoutNewerFields = buildFunctionsQuery(false);
+const UNKNOWN_FIELD_ERROR =
+  /Cannot query field "(asInput|members|defaultPath)"/;
+
+// sourceMap is only available in newer Dagger versions, so it isn't part of queryFunctions
+const querySourceMaps = `fragment SourceMapInfo on SourceMap {
+  module
+  filename
+  line
+  column
+}
+
+query directorySourceMaps($id: DirectoryID!) {
+  loadDirectoryFromID(id: $id) {
+    asModule {
+      name
+      objects {
+        asObject {
+          name
+          functions {
+            name
+            sourceMap {
+              ...SourceMapInfo
+            }
+            args {
+              name
+              sourceMap {
+                ...SourceMapInfo
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+// the fields of core types like Container aren't in the module's type
+// definitions, so the types are looked up with GraphQL introspection
+const queryTypeFunctions = `fragment TypeRef on __Type {
+  kind
+  name
+  ofType {
+    kind
+    name
+    ofType {
+      kind
+      name
+      ofType {
+        kind
+        name
+        ofType {
+          kind
+          name
+        }
+      }
+    }
+  }
+}
+
+query typeFunctions($name: String!) {
+  __type(name: $name) {
+    name
+    fields {
+      name
+      description
+      type {
+        ...TypeRef
+      }
+      args {
+        name
+        description
+        defaultValue
+        type {
+          ...TypeRef
+        }
+      }
+    }
+  }
+}`;
+
 export class DaggerCLI {
+  private readonly loading = new Map<string, Promise<FunctionInfo[]>>();
+  private readonly revalidating = new Map<string, Promise<void>>();
+  private readonly revalidateListeners = new Set<(path: string) => void>();
+
   constructor(
     private cache: CliCache,
     private settings: DaggerSettings,
+    private errors?: ErrorReporter,
   ) {
     this.cache = cache;
     this.settings = settings;
@@ -92,9 +257,72 @@ export class DaggerCLI {
     console.log("Cache cleared successfully.");
   }
 
+  /**
+   * Removes the cached data of a module, e.g. after its source changed.
+   *
+   * @param path The path to the Dagger project.
+   */
+  async invalidateCache(path: string): Promise<void> {
+    await this.cache.clearNamespace(path);
+    console.debug(`Invalidated cache for module at ${path}`);
+  }
+
+  /**
+   * Removes the cached data of a module that isn't checked against the hash
+   * of its source, e.g. the directory ID, after its source changed. The cached
+   * functions and source maps are kept so they can be shown while they are
+   * loaded again.
+   *
+   * @param path The path to the Dagger project.
+   */
+  async invalidateSource(path: string): Promise<void> {
+    await this.cache.remove(this.cache.generateKey("directory", path));
+    console.debug(`Invalidated the source of module at ${path}`);
+  }
+
+  /**
+   * Lists the cached data, most recently used first.
+   *
+   * @returns A promise that resolves to the details of the cached entries.
+   */
+  getCacheEntries(): Promise<CacheEntryInfo[]> {
+    return this.cache.entries();
+  }
+
+  /**
+   * Removes cached entries.
+   *
+   * @param keys The keys of the entries to remove.
+   */
+  async removeCacheEntries(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => this.cache.remove(key)));
+  }
+
+  /**
+   * Reports the errors found in the output of a failed command, e.g. as diagnostics.
+   *
+   * @param output The stdout and stderr of the failed command.
+   * @param cwd The directory the command ran in.
+   */
+  reportErrors(output: string, cwd: string): void {
+    this.errors?.report(output, cwd);
+  }
+
+  /**
+   * Clears the errors reported for a directory.
+   *
+   * @param cwd The directory the command ran in.
+   */
+  clearErrors(cwd: string): void {
+    this.errors?.clear(cwd);
+  }
+
   /**
    * Retrieves the functions defined in the Dagger project at the specified path.
-   * This method executes a GraphQL query to fetch the functions and their details.
+   * The functions are cached with a hash of the module source. When the source
+   * changed the cached functions are returned straight away and loaded again in
+   * the background, listeners of onDidRevalidateFunctions are called once the
+   * current functions are cached.
    *
    * @param path The path to the Dagger project.
    * @returns A promise that resolves to an array of FunctionInfo objects.
@@ -108,14 +336,142 @@ export class DaggerCLI {
       );
     }
 
+    const cacheKey = this.cache.generateKey("functions", path);
+    const sourceHash = await hashModuleSource(path);
+    if (this.settings.enableCache) {
+      const cached = await this.cache.get<CachedFunctions>(cacheKey);
+      if (cached && sourceHash && cached.sourceHash === sourceHash) {
+        console.debug(`Using cached functions for key: ${cacheKey}`);
+
+        return cached.functions;
+      }
+
+      if (cached) {
+        console.debug(`Using stale functions for key: ${cacheKey}`);
+        this.revalidateFunctions(path, cacheKey, sourceHash);
+
+        return cached.functions;
+      }
+    }
+
+    return this.loadFunctionsOnce(path, cacheKey, sourceHash);
+  }
+
+  /**
+   * Retrieves the functions of a module that are already loaded, without
+   * waiting for the module to load. Stale functions are returned and loaded
+   * again in the background. When none are cached they are loaded in the
+   * background, listeners of onDidRevalidateFunctions are called once they are.
+   *
+   * @param path The path to the Dagger project.
+   * @returns A promise that resolves to the functions, or undefined if they aren't loaded yet.
+   */
+  async getLoadedFunctions(path: string): Promise<FunctionInfo[] | undefined> {
+    if (!(await this.isDaggerProject(path))) {
+      return undefined;
+    }
+
+    // the functions are always cached once loaded, even if the cache is disabled
+    const cacheKey = this.cache.generateKey("functions", path);
+    const sourceHash = await hashModuleSource(path);
+    const cached = await this.cache.get<CachedFunctions>(cacheKey);
+    if (!cached || !sourceHash || cached.sourceHash !== sourceHash) {
+      this.revalidateFunctions(path, cacheKey, sourceHash);
+    }
+
+    return cached?.functions;
+  }
+
+  /**
+   * Registers a listener that is called when the functions of a module were
+   * loaded again in the background after stale functions were returned.
+   *
+   * @param listener Called with the path of the module.
+   * @returns A disposable that removes the listener.
+   */
+  onDidRevalidateFunctions(listener: (path: string) => void): {
+    dispose(): void;
+  } {
+    this.revalidateListeners.add(listener);
+
+    return { dispose: () => this.revalidateListeners.delete(listener) };
+  }
+
+  /**
+   * Loads the functions of a module in the background, once per module at a time.
+   */
+  private revalidateFunctions(
+    path: string,
+    cacheKey: string,
+    sourceHash: string | undefined,
+  ): void {
+    if (this.revalidating.has(path)) {
+      return;
+    }
+
+    const revalidation = this.loadFunctionsOnce(path, cacheKey, sourceHash)
+      .then(() =>
+        this.revalidateListeners.forEach((listener) => listener(path)),
+      )
+      .catch((error) =>
+        console.error(`Failed to revalidate functions for ${path}:`, error),
+      )
+      .finally(() => this.revalidating.delete(path));
+
+    this.revalidating.set(path, revalidation);
+  }
+
+  /**
+   * Loads the functions of a module, sharing the load that is in progress for
+   * the module so the tree, the code lenses and the tasks run one query.
+   */
+  private loadFunctionsOnce(
+    path: string,
+    cacheKey: string,
+    sourceHash: string | undefined,
+  ): Promise<FunctionInfo[]> {
+    let loading = this.loading.get(path);
+    if (!loading) {
+      loading = this.loadFunctions(path, cacheKey, sourceHash).finally(() =>
+        this.loading.delete(path),
+      );
+      this.loading.set(path, loading);
+    }
+
+    return loading;
+  }
+
+  /**
+   * Loads the functions of a module with a GraphQL query and caches them.
+   */
+  private async loadFunctions(
+    path: string,
+    cacheKey: string,
+    sourceHash: string | undefined,
+  ): Promise<FunctionInfo[]> {
     const directoryId = await this.getDirectoryID(path);
 
-    const { stdout, stderr, exitCode } = await this.execQuery(
+    let output = await this.execQuery(
       queryFunctions,
       { id: directoryId },
       path,
+      { reportErrors: false },
     );
+    if (
+      output.exitCode !== 0 &&
+      UNKNOWN_FIELD_ERROR.test(`${output.stderr}\n${output.stdout}`)
+    ) {
+      console.debug("Listing functions without the fields Dagger doesn't have");
+      output = await this.execQuery(
+        queryFunctionsWithoutNewerFields,
+        { id: directoryId },
+        path,
+      );
+    } else if (output.exitCode !== 0) {
+      this.reportErrors(`${output.stderr}\n${output.stdout}`, path);
+    }
 
+    const { stdout, stderr, exitCode } = output;
     if (exitCode !== 0) {
       throw new Error(`Failed to get functions: ${stderr}`);
     }
@@ -136,8 +492,6 @@ export class DaggerCLI {
         "Unable to determine root module name or ID from GraphQL response",
       );
     }
-    const rootModuleNameKebab = nameToKebabCase(rootModuleName);
-
     const functions: FunctionInfo[] = [];
 
     result.loadDirectoryFromID.asModule.objects.forEach((mod: ModuleObject) => {
@@ -146,35 +500,8 @@ export class DaggerCLI {
         return;
       }
 
-      const originalModuleNameKebab = nameToKebabCase(mod.asObject.name);
-      const isRootModule = originalModuleNameKebab === rootModuleNameKebab;
-
-      let functionModule: string | undefined;
-      let functionParentModule: string | undefined;
-
-      // if this is the root module, set the modules on the function to undefined
-      if (isRootModule) {
-        functionParentModule = undefined; // Root module has no parent so we set it to undefined
-        functionModule = undefined; // Root module functions do not have a module name
-
-        console.debug(
-          `Module ${mod.asObject.name} is the root module, setting function module to undefined`,
-        );
-      } else if (originalModuleNameKebab.startsWith(rootModuleNameKebab)) {
-        // if the module name starts with the root module name, it is a submodule of the root module
-        // so we need to strip the root module name from the module name
-        functionModule = originalModuleNameKebab.replace(
-          new RegExp(`^${rootModuleNameKebab}-`),
-          "",
-        );
-
-        console.debug(
-          `Module ${mod.asObject.name} is a submodule of root module ${rootModuleName}, setting parent module to root`,
-        );
-      } else {
-        // its not a submodule of the root module, so we set the parent module to the original module name
-        functionParentModule = originalModuleNameKebab;
-      }
+      const { module: functionModule, parentModule: functionParentModule } =
+        objectModules(mod.asObject.name, rootModuleName);
 
       mod.asObject.functions.forEach((fn: ModuleFunction) => {
         functions.push({
@@ -182,6 +509,7 @@ export class DaggerCLI {
           name: nameToKebabCase(fn.name),
           description: fn.description,
           returnType: getReturnTypeName(fn.returnType),
+          returnTypeInfo: typeDefToTypeInfo(fn.returnType),
           args: fn.args.map((arg: FunctionArg) =>
             functionArgTypeToFunctionArgument(arg),
           ),
@@ -191,6 +519,171 @@ export class DaggerCLI {
       });
     });
 
+    // the module loaded so any errors reported for it are fixed
+    this.clearErrors(path);
+
+    // always set the cache, even if not enabled. This is to ensure that the cache is always up-to-date if enabled later
+    const cached: CachedFunctions = { sourceHash, functions };
+    try {
+      await this.cache.set(cacheKey, cached);
+    } catch {
+      // the cache logs the error, the functions are still usable
+    }
+
+    return functions;
+  }
+
+  /**
+   * Retrieves where the functions of a module and their arguments are declared
+   * from the source maps of Dagger introspection. The source maps are cached
+   * with a hash of the module source, like the functions.
+   *
+   * @param path The path to the Dagger project.
+   * @returns A promise that resolves to the source maps of the functions.
+   * @throws If the module can't be loaded or the Dagger version has no source maps.
+   */
+  async getSourceMaps(path: string): Promise<FunctionSourceMap[]> {
+    const cacheKey = this.cache.generateKey("sourceMaps", path);
+    const sourceHash = await hashModuleSource(path);
+    if (this.settings.enableCache) {
+      const cached = await this.cache.get<CachedSourceMaps>(cacheKey);
+      if (cached && sourceHash && cached.sourceHash === sourceHash) {
+        return cached.sourceMaps;
+      }
+    }
+
+    const directoryId = await this.getDirectoryID(path);
+
+    // older versions fail with a GraphQL error that isn't a problem in the module
+    const { stdout, stderr, exitCode } = await this.execQuery(
+      querySourceMaps,
+      { id: directoryId },
+      path,
+      { reportErrors: false },
+    );
+    if (exitCode !== 0) {
+      throw new Error(`Failed to get source maps: ${stderr}`);
+    }
+
+    let result: SourceMapResult;
+    try {
+      result = JSON.parse(stdout);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to parse source maps result: ${errorMessage}`);
+    }
+
+    const rootModuleName = result.loadDirectoryFromID?.asModule?.name;
+    if (!rootModuleName) {
+      throw new Error(
+        "Unable to determine root module name from GraphQL response",
+      );
+    }
+
+    const sourceMaps = result.loadDirectoryFromID.asModule.objects.flatMap(
+      ({ asObject }) =>
+        (asObject?.functions ?? []).map(
+          (fn): FunctionSourceMap => ({
+            name: nameToKebabCase(fn.name),
+            ...objectModules(asObject!.name, rootModuleName),
+            sourceMap: fn.sourceMap ?? undefined,
+            args: Object.fromEntries(
+              fn.args.flatMap((arg) =>
+                arg.sourceMap
+                  ? [[nameToKebabCase(arg.name), arg.sourceMap]]
+                  : [],
+              ),
+            ),
+          }),
+        ),
+    );
+
+    try {
+      await this.cache.set(cacheKey, { sourceHash, sourceMaps });
+    } catch {
+      // the cache logs the error, the source maps are still usable
+    }
+
+    return sourceMaps;
+  }
+
+  /**
+   * Retrieves the functions that can be called on an object returned by a
+   * function, e.g. the functions of Container or of an object of the module.
+   * They are cached with a hash of the module source, like the functions.
+   *
+   * @param path The path to the Dagger project.
+   * @param typeName The name of the object, e.g. Container.
+   * @returns A promise that resolves to the functions of the object.
+   */
+  async getTypeFunctions(
+    path: string,
+    typeName: string,
+  ): Promise<FunctionInfo[]> {
+    const cacheKey = this.cache.generateKey(`typeFunctions.${typeName}`, path);
+    const sourceHash = await hashModuleSource(path);
+    if (this.settings.enableCache) {
+      const cached = await this.cache.get<CachedFunctions>(cacheKey);
+      if (cached && sourceHash && cached.sourceHash === sourceHash) {
+        return cached.functions;
+      }
+    }
+
+    // the query runs in the module so its objects are part of the schema
+    const { stdout, stderr, exitCode } = await this.execQuery(
+      queryTypeFunctions,
+      { name: typeName },
+      path,
+    );
+    if (exitCode !== 0) {
+      throw new Error(`Failed to get functions of ${typeName}: ${stderr}`);
+    }
+
+    let result: TypeFieldsResult;
+    try {
+      result = JSON.parse(stdout);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Failed to parse functions of ${typeName} result: ${errorMessage}`,
+      );
+    }
+
+    if (!result.__type) {
+      throw new Error(`Type ${typeName} not found`);
+    }
+
+    const functions = (result.__type.fields ?? []).map(
+      (field): FunctionInfo => {
+        // returned IDs are printed, they can't be chained like the object
+        const returnType = graphQLTypeToTypeDef(field.type, false);
+
+        return {
+          id: `${typeName}.${field.name}`,
+          name: nameToKebabCase(field.name),
+          description: field.description ?? undefined,
+          returnType: getReturnTypeName(returnType),
+          returnTypeInfo: typeDefToTypeInfo(returnType),
+          args: field.args.map((arg) =>
+            functionArgTypeToFunctionArgument({
+              name: arg.name,
+              description: arg.description ?? undefined,
+              defaultValue: arg.defaultValue,
+              typeDef: graphQLTypeToTypeDef(arg.type),
+            }),
+          ),
+        };
+      },
+    );
+
+    try {
+      await this.cache.set(cacheKey, { sourceHash, functions });
+    } catch {
+      // the cache logs the error, the functions are still usable
+    }
+
     return functions;
   }
 
@@ -229,14 +722,14 @@ export class DaggerCLI {
   }
 
   /**
-   * Runs a command using the Dagger CLI.
+   * Runs a command using the Dagger CLI and waits for it to finish.
    *
    * @param args The arguments to pass to the Dagger CLI command.
    * @param options Options for running the command, including working directory, environment variables, and timeout.
    * @returns A promise that resolves to the output of the command execution.
    */
   async run(args: string[], options: RunOptions): Promise<Output> {
-    const { cwd, env, timeout = 30_000 } = options;
+    const { timeout = 30_000 } = options;
     const shell = process.env.SHELL;
     if (!shell) {
       console.error("SHELL environment variable is not set.");
@@ -244,91 +737,13 @@ export class DaggerCLI {
     }
 
     try {
-      let stdout = "";
-      let stderr = "";
-      let hasError = false;
-
-      let child = require("child_process").spawn("dagger", args, {
-        cwd,
-        env: { ...process.env, ...env },
+      const { exitCode, stdout, stderr } = await this.stream(args, {
+        ...options,
         timeout,
         shell,
-        stdio: ["pipe", "pipe", "pipe"],
-      });
-
-      child.stdout.on("data", (data: Buffer) => {
-        stdout += data.toString();
-      });
-
-      child.stderr.on("data", (data: Buffer) => {
-        stderr += data.toString();
-      });
-
-      // Handle process errors (including SIGPIPE)
-      child.on("error", (error: Error) => {
-        hasError = true;
-        console.error("Child process error:", error.message);
-      });
-
-      // Handle stdin pipe errors
-      child.stdin.on("error", (error: Error) => {
-        if (
-          error.message.includes("EPIPE") ||
-          error.message.includes("SIGPIPE")
-        ) {
-          console.warn(
-            "SIGPIPE/EPIPE error when writing to stdin, child process may have exited early",
-          );
-        } else {
-          console.error("Stdin pipe error:", error.message);
-        }
-      });
-
-      // if options.stdin is provided, write it to the child's stdin
-      if (options.stdin) {
-        try {
-          child.stdin.write(options.stdin);
-          child.stdin.end();
-        } catch (error) {
-          if (
-            error instanceof Error &&
-            (error.message.includes("EPIPE") ||
-              error.message.includes("SIGPIPE"))
-          ) {
-            console.warn(
-              "SIGPIPE/EPIPE error when writing to stdin, child process may have exited early",
-            );
-          } else {
-            throw error;
-          }
-        }
-      }
+      }).result;
 
-      const exitCode = await new Promise<number>((resolve, reject) => {
-        child.on("close", (code: number, signal: string) => {
-          if (signal) {
-            console.warn(`Child process terminated by signal: ${signal}`);
-          }
-          resolve(code || 0);
-        });
-
-        child.on("exit", (code: number, signal: string) => {
-          if (signal) {
-            console.warn(`Child process exited with signal: ${signal}`);
-          }
-          resolve(code || 0);
-        });
-
-        child.on("error", (error: Error) => {
-          reject(error);
-        });
-      });
-
-      return {
-        exitCode,
-        stdout: stdout.toString(),
-        stderr: stderr.toString(),
-      };
+      return { exitCode, stdout, stderr };
     } catch (error) {
       console.error("Error executing Dagger CLI command:", error);
 
@@ -353,26 +768,53 @@ export class DaggerCLI {
     }
   }
 
+  /**
+   * Starts a Dagger CLI command and streams its output. Use this for long
+   * running commands such as `dagger listen` or `up`, the returned handle can
+   * stop the command and everything it started.
+   *
+   * @param args The arguments to pass to the Dagger CLI command.
+   * @param options Options for running the command, including output callbacks, cancellation and timeout.
+   * @returns A handle to the running command.
+   */
+  stream(args: string[], options: ProcessOptions): ManagedProcess {
+    return startProcess("dagger", args, options);
+  }
+
   /**
    * Executes a query against the Dagger API.
    *
    * @param query The GraphQL query string.
    * @param variables The variables for the query.
    * @param cwd The current working directory for the command execution.
+   * @param options Set reportErrors to false for queries that are allowed to fail,
+   * and timeout for queries that take longer than commands usually do.
    * @returns A promise that resolves to the output of the query execution.
    */
   async execQuery(
     query: string,
     variables: Record<string, any>,
     cwd: string,
+    {
+      reportErrors = true,
+      timeout,
+    }: { reportErrors?: boolean; timeout?: number } = {},
   ): Promise<Output> {
-    const vars = Object.entries(variables)
-      .map(([key, value]) => `${JSON.stringify(key)}=${JSON.stringify(value)}`)
-      .join(" ");
-    const { stdout, stderr, exitCode } = await this.run(
-      ["query", "--var", vars],
-      { cwd, stdin: query },
-    );
+    // one --var flag per variable, quoted for the shell run() uses
+    const vars = Object.entries(variables).flatMap(([key, value]) => [
+      "--var",
+      quoteShellArg(`${key}=${value}`),
+    ]);
+    const { stdout, stderr, exitCode } = await this.run(["query", ...vars], {
+      cwd,
+      stdin: query,
+      timeout,
+    });
+
+    // module compile errors and GraphQL errors surface here
+    if (exitCode !== 0 && reportErrors) {
+      this.reportErrors(`${stderr}\n${stdout}`, cwd);
+    }
 
     return {
       exitCode,
@@ -480,3 +922,54 @@ export const kebab = (text: string): string => {
     .replace(/_/g, "-")
     .replace(/\.|,/g, "-");
 };
+
+/**
+ * Works out how the functions of an object are called: functions of the root
+ * module have no module, submodules are called by their name without the root
+ * module prefix and other modules are their parent module.
+ *
+ * @param objectName The name of the object that declares the functions
+ * @param rootModuleName The name of the module that was loaded
+ */
+const objectModules = (
+  objectName: string,
+  rootModuleName: string,
+): { module?: string; parentModule?: string } => {
+  const rootModuleNameKebab = nameToKebabCase(rootModuleName);
+  const originalModuleNameKebab = nameToKebabCase(objectName);
+
+  // if this is the root module, set the modules on the function to undefined
+  if (originalModuleNameKebab === rootModuleNameKebab) {
+    console.debug(
+      `Module ${objectName} is the root module, setting function module to undefined`,
+    );
+
+    // Root module functions have no parent and no module name
+    return {};
+  }
+
+  if (originalModuleNameKebab.startsWith(rootModuleNameKebab)) {
+    console.debug(
+      `Module ${objectName} is a submodule of root module ${rootModuleName}, setting parent module to root`,
+    );
+
+    // if the module name starts with the root module name, it is a submodule of the root module
+    // so we need to strip the root module name from the module name
+    return {
+      module: originalModuleNameKebab.replace(
+        new RegExp(`^${rootModuleNameKebab}-`),
+        "",
+      ),
+    };
+  }
+
+  // its not a submodule of the root module, so we set the parent module to the original module name
+  return { parentModule: originalModuleNameKebab };
+};
+
+/**
+ * Quotes an argument for the shell so that `$`, backticks, quotes and
+ * backslashes are passed as they are
+ */
+const quoteShellArg = (value: string): string =>
+  `"${value.replace(/(["\\$`])/g, "\\$1")}"`;
@@ -0,0 +1,198 @@
+import { FunctionInfo } from "../types/types";
+import { nameToKebabCase } from "../utils/modules";
+
+// func (m *MyModule) Build(ctx context.Context) *dagger.Container {
+const GO_METHOD =
+  /^func\s+\(\s*\w+\s+\*?(\w+)(?:\[[^\]]*\])?\s*\)\s+([A-Z]\w*)\s*[[(]/gm;
+
+// @func() async build(source: Directory): Promise<Container> {
+// @func("alias") name: string
+const TS_FUNCTION =
+  /@func\(\s*(?:["'`]([^"'`]+)["'`])?[^)]*\)\s*(?:(?:public|async|static|readonly)\s+)*(\w+)\s*[?!]?\s*[(:<=]/g;
+
+// @function
+// @dagger.function(name="alias")
+// async def build(self, source: dagger.Directory) -> dagger.Container:
+const PY_FUNCTION =
+  /^[ \t]*@(?:dagger\.)?function\b(?:\(([^)]*)\))?\s*(?:^[ \t]*@.*\n\s*)*^[ \t]*(?:async\s+)?def\s+(\w+)/gm;
+const PY_NAME_OPTION = /\bname\s*=\s*["']([^"']+)["']/;
+
+const CLASS_DECLARATION = /^[ \t]*(?:export\s+)?class\s+(\w+)/gm;
+
+/**
+ * A Dagger function declared in module source
+ */
+export interface FunctionDeclaration {
+  readonly name: string; // name as written in the source, e.g. BuildContainer
+  readonly functionName: string; // kebab-case name used by the CLI, e.g. build-container
+  readonly objectName?: string; // the type or class the function is declared on
+  readonly line: number; // 0-based line of the name
+  readonly character: number; // 0-based column of the name
+}
+
+/**
+ * Finds the Dagger functions declared in the source of a Go, TypeScript or
+ * Python module. Only the declarations are matched, so the source doesn't
+ * have to compile.
+ *
+ * @param text The source of the file
+ * @param languageId The VS Code language id of the file
+ * @returns The declarations in the order they appear in the file
+ */
+export const findFunctionDeclarations = (
+  text: string,
+  languageId: string,
+): FunctionDeclaration[] => {
+  switch (languageId) {
+    case "go":
+      return [...text.matchAll(GO_METHOD)].map((match) =>
+        toDeclaration(text, match, match[2], {
+          functionName: nameToKebabCase(match[2]),
+          objectName: match[1],
+        }),
+      );
+    case "typescript":
+    case "javascript":
+      return [...text.matchAll(TS_FUNCTION)].map((match) =>
+        toDeclaration(text, match, match[2], {
+          functionName: nameToKebabCase(match[1] ?? match[2]),
+          objectName: findEnclosingClass(text, match.index ?? 0),
+        }),
+      );
+    case "python":
+      return [...text.matchAll(PY_FUNCTION)].map((match) => {
+        const alias = match[1]?.match(PY_NAME_OPTION)?.[1];
+        return toDeclaration(text, match, match[2], {
+          functionName: nameToKebabCase(alias ?? snakeToCamelCase(match[2])),
+          objectName: findEnclosingClass(text, match.index ?? 0),
+        });
+      });
+    default:
+      return [];
+  }
+};
+
+/**
+ * Finds the function a declaration refers to. Functions of the main object
+ * have no module, functions of other objects are matched by the object name.
+ * A declaration on another object only matches the functions of that object.
+ *
+ * @param declaration The declaration found in the source
+ * @param functions The functions of the module from DaggerCLI.getFunctions
+ * @returns The function, or undefined if the declaration isn't a Dagger function
+ */
+export const matchFunction = (
+  declaration: FunctionDeclaration,
+  functions: FunctionInfo[],
+): FunctionInfo | undefined => {
+  // objects other than the main object are prefixed with the module name, e.g. MyModuleBuilder
+  const objectName = declaration.objectName
+    ? nameToKebabCase(declaration.objectName)
+    : undefined;
+  const isObject = (fn: FunctionInfo) =>
+    fn.module !== undefined &&
+    !fn.parentModule &&
+    objectName !== undefined &&
+    (objectName === fn.module || objectName.endsWith(`-${fn.module}`));
+
+  const candidates = functions.filter(
+    (fn) => fn.name === declaration.functionName && !fn.parentModule,
+  );
+  return functions.some(isObject)
+    ? candidates.find(isObject)
+    : candidates.find((fn) => fn.module === undefined);
+};
+
+/**
+ * Finds an argument in the parameter list of a declaration
+ *
+ * @param text The source of the file the declaration was found in
+ * @param declaration The declaration of the function
+ * @param argumentName The kebab-case argument name used by the CLI
+ * @returns The 0-based position of the parameter name, or undefined if it isn't found
+ */
+export const findArgumentDeclaration = (
+  text: string,
+  declaration: FunctionDeclaration,
+  argumentName: string,
+): { line: number; character: number } | undefined => {
+  const lines = text.split("\n");
+  const offset =
+    lines
+      .slice(0, declaration.line)
+      .reduce((sum, line) => sum + line.length + 1, 0) + declaration.character;
+
+  // the parameter list is between the first parenthesis after the name and its match
+  const open = text.indexOf("(", offset + declaration.name.length);
+  if (open === -1) {
+    return undefined;
+  }
+  let close = open;
+  for (let depth = 0; close < text.length; close++) {
+    depth += text[close] === "(" ? 1 : text[close] === ")" ? -1 : 0;
+    if (depth === 0) {
+      break;
+    }
+  }
+
+  // compare names without separators, so source-dir matches sourceDir and source_dir
+  const normalize = (name: string) => name.replace(/[-_]/g, "").toLowerCase();
+  const wanted = normalize(argumentName);
+  for (const match of text.slice(open, close).matchAll(/\b[A-Za-z_]\w*/g)) {
+    if (normalize(match[0]) === wanted) {
+      const before = text.slice(0, open + (match.index ?? 0));
+      return {
+        line: before.split("\n").length - 1,
+        character: before.length - (before.lastIndexOf("\n") + 1),
+      };
+    }
+  }
+
+  return undefined;
+};
+
+const toDeclaration = (
+  text: string,
+  match: RegExpMatchArray,
+  name: string,
+  details: Pick<FunctionDeclaration, "functionName" | "objectName">,
+): FunctionDeclaration => {
+  // the name is the last group of every pattern, so search for it from the end
+  const offset = (match.index ?? 0) + match[0].lastIndexOf(name);
+  const before = text.slice(0, offset);
+  const line = before.split("\n").length - 1;
+
+  return {
+    name,
+    ...details,
+    line,
+    character: offset - (before.lastIndexOf("\n") + 1),
+  };
+};
+
+/**
+ * Finds the class a declaration is in, the last class declared before it
+ */
+const findEnclosingClass = (
+  text: string,
+  offset: number,
+): string | undefined => {
+  let name: string | undefined;
+  for (const match of text.matchAll(CLASS_DECLARATION)) {
+    if ((match.index ?? 0) > offset) {
+      break;
+    }
+    name = match[1];
+  }
+
+  return name;
+};
+
+/**
+ * Converts a Python name to the camelCase name the SDK registers, e.g.
+ * build_container to buildContainer and import_ to import
+ */
+const snakeToCamelCase = (name: string): string =>
+  name
+    .replace(/_+$/, "")
+    .replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
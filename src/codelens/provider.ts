@@ -0,0 +1,199 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { DaggerCLI } from "../cli";
+import { DaggerSettings } from "../settings";
+import {
+  ContainerType,
+  DirectoryType,
+  FileType,
+  FunctionInfo,
+} from "../types/types";
+import { isGeneratedPath } from "../utils/module-source";
+import { ModuleRegistry, ModuleWatcher } from "../workspace";
+import { findFunctionDeclarations, matchFunction } from "./parser";
+
+// languages of the SDKs that declare functions the parser understands
+const DOCUMENT_SELECTOR: vscode.DocumentSelector = [
+  { scheme: "file", language: "go" },
+  { scheme: "file", language: "typescript" },
+  { scheme: "file", language: "javascript" },
+  { scheme: "file", language: "python" },
+];
+
+/**
+ * Shows Call, Export, Terminal and Save Task actions above the Dagger
+ * functions declared in the source of a module
+ */
+export class DaggerCodeLensProvider
+  implements vscode.CodeLensProvider, vscode.Disposable
+{
+  private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses: vscode.Event<void> =
+    this._onDidChangeCodeLenses.event;
+
+  private readonly disposables: { dispose(): void }[];
+
+  constructor(
+    private readonly dagger: DaggerCLI,
+    private readonly modules: ModuleRegistry,
+    private readonly settings: DaggerSettings,
+    watcher?: ModuleWatcher,
+  ) {
+    const refresh = () => this._onDidChangeCodeLenses.fire();
+    this.disposables = [
+      modules.onDidChange(refresh),
+      dagger.onDidRevalidateFunctions(refresh),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("dagger.enableCodeLens")) {
+          refresh();
+        }
+      }),
+    ];
+    if (watcher) {
+      this.disposables.push(watcher.onDidChange(refresh));
+    }
+  }
+
+  async provideCodeLenses(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.CodeLens[]> {
+    if (!this.settings.enableCodeLens) {
+      return [];
+    }
+
+    const module = this.modules.findModule(document.uri);
+    if (!module || !isModuleSource(module.source ?? module.path, document)) {
+      return [];
+    }
+
+    const declarations = findFunctionDeclarations(
+      document.getText(),
+      document.languageId,
+    );
+    if (declarations.length === 0) {
+      return [];
+    }
+
+    // the lenses don't wait for the module to load, they are refreshed once it has
+    let functions: FunctionInfo[] | undefined;
+    try {
+      functions = await this.dagger.getLoadedFunctions(module.path);
+    } catch (error) {
+      console.debug(`No code lenses for ${document.uri.fsPath}:`, error);
+      return [];
+    }
+    if (!functions || token.isCancellationRequested) {
+      return [];
+    }
+
+    return declarations.flatMap((declaration) => {
+      const functionInfo = matchFunction(declaration, functions);
+      if (!functionInfo) {
+        return [];
+      }
+
+      const range = new vscode.Range(
+        declaration.line,
+        declaration.character,
+        declaration.line,
+        declaration.character + declaration.name.length,
+      );
+      return buildCommands(functionInfo, module.path).map(
+        (command) => new vscode.CodeLens(range, command),
+      );
+    });
+  }
+
+  dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this._onDidChangeCodeLenses.dispose();
+  }
+}
+
+/**
+ * Checks if a document is in the source directory of a module and wasn't
+ * generated by the SDK, which declares methods on the core types
+ */
+const isModuleSource = (
+  sourcePath: string,
+  document: vscode.TextDocument,
+): boolean => {
+  const relativePath = path.relative(sourcePath, document.uri.fsPath);
+  return (
+    !relativePath.startsWith("..") &&
+    !path.isAbsolute(relativePath) &&
+    !isGeneratedPath(relativePath)
+  );
+};
+
+/**
+ * Builds the actions for a function, the commands receive the function and
+ * the module path so they skip the function and module pickers
+ */
+const buildCommands = (
+  functionInfo: FunctionInfo,
+  modulePath: string,
+): vscode.Command[] => {
+  const args = [functionInfo, modulePath];
+  const commands: vscode.Command[] = [
+    {
+      title: "▶ Call",
+      command: "dagger.call",
+      tooltip: `Call \`${functionInfo.name}\``,
+      arguments: args,
+    },
+  ];
+
+  if (
+    functionInfo.returnType === DirectoryType ||
+    functionInfo.returnType === FileType
+  ) {
+    commands.push({
+      title: "⇪ Export",
+      command: "dagger.export",
+      tooltip: `Export the ${functionInfo.returnType} returned by \`${functionInfo.name}\``,
+      arguments: args,
+    });
+  }
+
+  if (functionInfo.returnType === ContainerType) {
+    commands.push({
+      title: "⎋ Terminal",
+      command: "dagger.terminal",
+      tooltip: `Open a terminal in the container returned by \`${functionInfo.name}\``,
+      arguments: args,
+    });
+  }
+
+  commands.push({
+    title: "Save Task",
+    command: "dagger.saveTask",
+    tooltip: `Save \`${functionInfo.name}\` as a VS Code task`,
+    arguments: args,
+  });
+
+  return commands;
+};
+
+/**
+ * Registers the code lens provider for the source files of the modules
+ */
+export const registerCodeLensProvider = (
+  context: vscode.ExtensionContext,
+  dagger: DaggerCLI,
+  modules: ModuleRegistry,
+  settings: DaggerSettings,
+  watcher?: ModuleWatcher,
+): void => {
+  const provider = new DaggerCodeLensProvider(
+    dagger,
+    modules,
+    settings,
+    watcher,
+  );
+  context.subscriptions.push(
+    provider,
+    vscode.languages.registerCodeLensProvider(DOCUMENT_SELECTOR, provider),
+  );
+};
@@ -1,37 +1,93 @@
 import * as vscode from "vscode";
 import { DaggerCLI } from "../cli";
+import { CacheEntryInfo } from "../cache";
+import { formatAge } from "../tree/history";
 import { Command } from "./types";
 
-interface ClearCacheMessageItem extends vscode.MessageItem {
-  title: string;
+interface CacheQuickPickItem extends vscode.QuickPickItem {
+  entry?: CacheEntryInfo;
 }
 
-const YES_OPTION: ClearCacheMessageItem = { title: "Yes" };
-const NO_OPTION: ClearCacheMessageItem = { title: "No" };
-
 export class CacheCommand implements Command {
   constructor(private dagger: DaggerCLI) {}
 
   execute = async (): Promise<void> => {
-    const response = await vscode.window.showWarningMessage(
-      "Are you sure you want to clear the Dagger cache? This will remove all cached function data.",
-      { modal: true },
-      YES_OPTION,
-      NO_OPTION,
+    const entries = await this.dagger.getCacheEntries();
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage("The Dagger cache is empty.");
+      return;
+    }
+
+    const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const selected = await vscode.window.showQuickPick(
+      buildCacheItems(entries),
+      {
+        title: `Dagger Cache: ${entries.length} entries, ${formatBytes(totalSize)}`,
+        placeHolder: "Select the cached entries to clear",
+        canPickMany: true,
+        matchOnDescription: true,
+        matchOnDetail: true,
+      },
     );
 
-    if (!response || response.title === NO_OPTION.title) {
+    const keys = (selected ?? []).flatMap((item) =>
+      item.entry ? [item.entry.key] : [],
+    );
+    if (keys.length === 0) {
       // User cancelled the prompt
       return;
     }
 
-    this.dagger.clearCache();
+    await this.dagger.removeCacheEntries(keys);
 
     vscode.window.showInformationMessage(
-      "Cache cleared... Reloading functions",
+      `Cleared ${keys.length} cache ${keys.length === 1 ? "entry" : "entries"}... Reloading functions`,
     );
 
     // call the reload command to refresh the tree view
     await vscode.commands.executeCommand("dagger.reload");
   };
 }
+
+/**
+ * Builds the quick pick items for the cached entries, grouped by namespace
+ * @param entries The cached entries, most recently used first
+ */
+const buildCacheItems = (entries: CacheEntryInfo[]): CacheQuickPickItem[] => {
+  const namespaces = new Map<string, CacheEntryInfo[]>();
+  for (const entry of entries) {
+    namespaces.set(entry.namespace, [
+      ...(namespaces.get(entry.namespace) ?? []),
+      entry,
+    ]);
+  }
+
+  return [...namespaces.entries()].flatMap(([namespace, namespaceEntries]) => [
+    {
+      label: namespace ? vscode.workspace.asRelativePath(namespace) : "Other",
+      kind: vscode.QuickPickItemKind.Separator,
+    },
+    ...namespaceEntries.map((entry) => ({
+      label: entry.prefix || entry.key,
+      description: `${formatBytes(entry.size)} · used ${formatAge(entry.accessedAt)}`,
+      detail: entry.expiresAt
+        ? `Expires ${new Date(entry.expiresAt).toLocaleString()}`
+        : undefined,
+      entry,
+    })),
+  ]);
+};
+
+/**
+ * Formats a size in bytes, e.g. 512 B, 1.5 KB or 2.3 MB
+ */
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
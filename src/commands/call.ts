@@ -10,22 +10,57 @@ import {
 import { DaggerTreeItem } from "../tree/provider";
 import { DaggerSettings } from "../settings";
 import { DaggerCLI } from "../cli";
-import {
-  askForPorts,
-  askForExportPath,
-  askForFileName,
-} from "../utils/user-input";
+import { askForExportPath, askForFileName } from "../utils/user-input";
 import { Command } from "./types";
+import { PresetStore } from "../presets";
+import { HistoryStore } from "../history";
+import { ResultStore } from "../results";
+import { SecretStore } from "../secrets";
+import {
+  askForServicePorts,
+  PortProfileStore,
+  serviceTaskChain,
+  ServiceManager,
+  startService,
+} from "../services";
+import {
+  buildChainCommandArgs,
+  chainResultType,
+  ChainBuilder,
+  ChainStep,
+  isChainable,
+  isInteractiveChain,
+  toChainCalls,
+} from "../chain";
 import * as path from "path";
 
-export class CallCommand implements Command<DaggerTreeItem> {
+/**
+ * How a function is called
+ */
+export interface CallOptions {
+  /** Collect the arguments with the webview form instead of prompts */
+  useForm?: boolean;
+  /** Pick functions to call on the result before running */
+  buildChain?: boolean;
+  /** Run with --json and open the result in the result viewer */
+  json?: boolean;
+}
+
+export class CallCommand implements Command<DaggerTreeItem | FunctionInfo> {
   constructor(
     private dagger: DaggerCLI,
     private path: string,
     private settings: DaggerSettings,
+    private presets: PresetStore,
+    private history: HistoryStore,
+    private results: ResultStore,
+    private secrets: SecretStore,
+    private services: ServiceManager,
+    private portProfiles: PortProfileStore,
+    private options: CallOptions = {},
   ) {}
 
-  async execute(input?: DaggerTreeItem): Promise<void> {
+  async execute(input?: DaggerTreeItem | FunctionInfo): Promise<void> {
     let functionInfo: FunctionInfo | undefined;
     let functionInput: CollectedFunctionInput | undefined;
     const alwaysPrompt: boolean = this.settings.alwaysPromptFunctionActions;
@@ -44,6 +79,11 @@ export class CallCommand implements Command<DaggerTreeItem> {
       functionInfo = input.functionInfo;
     }
 
+    // was a function passed directly (e.g. from the chat participant)?
+    if (input !== undefined && !(input instanceof DaggerTreeItem)) {
+      functionInfo = input;
+    }
+
     // we should have a functionInfo at this point
     if (!functionInfo) {
       vscode.window.showErrorMessage(
@@ -69,12 +109,47 @@ export class CallCommand implements Command<DaggerTreeItem> {
     }
 
     // get the user input for the function
-    functionInput = await collectFunctionInput(token, functionInfo);
+    functionInput = await collectFunctionInput(token, functionInfo, {
+      workspacePath: this.path,
+      presets: this.presets,
+      useForm: this.options.useForm,
+      secrets: this.secrets,
+    });
     if (!functionInput) {
       console.log("Function call cancelled by user during input collection");
       return;
     }
 
+    // terminal needs a TTY, so its output can't be captured
+    let interactive = options.OpenTerminal === true;
+
+    // call more functions on the result, e.g. build with-exec stdout
+    let chain: ChainStep[] = [];
+    if (this.options.buildChain || options.BuildChain) {
+      const steps = await new ChainBuilder(this.dagger, this.path, {
+        workspacePath: this.path,
+        presets: this.presets,
+        secrets: this.secrets,
+      }).build({ functionInfo, argValues: functionInput.argValues });
+      if (!steps) {
+        console.log("Function call cancelled by user during chain building");
+        return;
+      }
+
+      chain = steps.slice(1);
+      if (chain.length > 0) {
+        const last = steps[steps.length - 1].functionInfo;
+        functionInput = {
+          ...functionInput,
+          commandArgs: buildChainCommandArgs(steps),
+          resultTypeInfo: chainResultType(last),
+        };
+      }
+      // terminal and up keep running, like the actions above
+      options.SkipProgress = isInteractiveChain(steps);
+      interactive = isInteractiveChain(steps);
+    }
+
     // add the command to run the function
     if (options.CommandArgsToAppend && options.CommandArgsToAppend.length > 0) {
       // append the command to run the function
@@ -84,9 +159,56 @@ export class CallCommand implements Command<DaggerTreeItem> {
     let functionName: string = functionInfo.name;
     let moduleName: string | undefined = functionInfo.module;
 
+    // exposed services are tracked in the Services view until they are stopped
+    if (options.ExposeService) {
+      // starts from the ports the function was last exposed with
+      const ports = await askForServicePorts(
+        this.portProfiles,
+        this.path,
+        functionInfo,
+      );
+      if (!ports) {
+        console.debug("Port selection cancelled by user");
+        return;
+      }
+
+      const service = await startService(
+        this.services,
+        {
+          functionName,
+          moduleName,
+          functionInfo,
+          argValues: functionInput.argValues,
+          commandArgs: functionInput.commandArgs,
+          workspacePath: this.path,
+          ports,
+        },
+        this.portProfiles,
+      );
+      if (
+        service &&
+        service.status !== "failed" &&
+        this.settings.saveTaskPromptDismissed !== true
+      ) {
+        await showSaveTaskPrompt(
+          functionInfo,
+          functionInput.argValues,
+          this.path,
+          this.settings,
+          { chain: serviceTaskChain(functionInfo.returnType, service.ports) },
+        );
+      }
+
+      return;
+    }
+
     // skip progress if the user has selected options that are long running such as running in terminal or exposing as service
     if (options.SkipProgress) {
-      const result = await runFunction(token, this.path, functionInput);
+      const result = await runFunction(token, this.path, functionInput, {
+        history: this.history,
+        secrets: this.secrets,
+        interactive,
+      });
       if (!result) {
         vscode.window.showErrorMessage(
           `Failed to run function \`${functionInfo.name}\`. Please check the output for details.`,
@@ -114,7 +236,15 @@ export class CallCommand implements Command<DaggerTreeItem> {
             return;
           }
 
-          const result = await runFunction(token, this.path, functionInput);
+          // JSON results are always captured
+          const captureOutput =
+            this.settings.runMode === "output" || this.options.json === true;
+          const result = await runFunction(token, this.path, functionInput, {
+            history: this.history,
+            cli: captureOutput ? this.dagger : undefined,
+            results: this.options.json ? this.results : undefined,
+            secrets: this.secrets,
+          });
           if (!result) {
             vscode.window.showErrorMessage(
               `Failed to run function \`${functionName}\`. Please check the output for details.`,
@@ -122,6 +252,12 @@ export class CallCommand implements Command<DaggerTreeItem> {
             return;
           }
 
+          if (captureOutput && !result.Result.success) {
+            vscode.window.showErrorMessage(
+              `Function \`${functionName}\` failed with exit code ${result.Result.exitCode}. Check the Dagger output for details.`,
+            );
+          }
+
           return;
         } catch (error) {
           // Don't show error if the operation was cancelled
@@ -144,11 +280,11 @@ export class CallCommand implements Command<DaggerTreeItem> {
     // if successful and the prompt is not dismissed
     if (this.settings.saveTaskPromptDismissed !== true) {
       await showSaveTaskPrompt(
-        functionName!,
+        functionInfo,
         functionInput.argValues,
         this.path,
         this.settings,
-        moduleName,
+        chain.length > 0 ? { chain: toChainCalls(chain) } : {},
       );
     }
   }
@@ -157,9 +293,9 @@ export class CallCommand implements Command<DaggerTreeItem> {
 export interface SelectedActions {
   OpenTerminal?: boolean;
   ExposeService?: boolean;
-  Ports?: Record<number, number>;
   CommandArgsToAppend?: string[];
   SkipProgress?: boolean;
+  BuildChain?: boolean;
 }
 
 /**
@@ -167,6 +303,7 @@ export interface SelectedActions {
  * - If the function returns a Container, ask if they want to run it in a terminal or expose it as a service
  * - If the function returns a Service, ask if they want to expose it
  * - If the function returns a File or Directory, ask if they want to export it to a local path
+ * - If the function returns any object, ask if they want to call more functions on it
  *
  * @param token
  * @param workspacePath
@@ -197,6 +334,11 @@ const preRunOptions = async (
       optionItems.push("Export to Host");
       break;
     default:
+      // objects of the module can only be chained
+      if (isChainable(functionInfo)) {
+        break;
+      }
+
       // do nothing and return
       console.debug(
         `Function \`${functionInfo.name}\` has an unsupported return type: ${returnType}`,
@@ -205,6 +347,10 @@ const preRunOptions = async (
       return selectedActions;
   }
 
+  if (isChainable(functionInfo)) {
+    optionItems.push("Chain Calls...");
+  }
+
   // always add the option to ignore extra steps
   optionItems.push("Ignore and continue");
 
@@ -233,15 +379,6 @@ const preRunOptions = async (
         selectedActions.CommandArgsToAppend = ["up"];
       }
       selectedActions.SkipProgress = true;
-
-      const ports = await askForPorts(functionInfo.name);
-      if (ports && selectedActions.CommandArgsToAppend) {
-        selectedActions.CommandArgsToAppend!.push(
-          "--ports",
-          `${ports.join(",")}`,
-        );
-      }
-
       break;
     case "Export to Host":
       let exportPath = await askForExportPath();
@@ -266,6 +403,10 @@ const preRunOptions = async (
 
       selectedActions.CommandArgsToAppend!.push("export", "--path", exportPath);
 
+      break;
+    case "Chain Calls...":
+      selectedActions.BuildChain = true;
+      selectedActions.SkipProgress = false;
       break;
     case "Ignore and continue":
       selectedActions.SkipProgress = false;
@@ -1,72 +1,58 @@
 import * as vscode from "vscode";
-import { DaggerCLI } from "../cli";
-import { DaggerSettings } from "../settings";
+import { ActiveModule, DaggerModule, describeModule } from "../workspace";
 import { Command } from "./types";
 
 export class ContextDirectoryCommand implements Command {
-  constructor(
-    private _dagger: DaggerCLI,
-    private path: string,
-    private settings: DaggerSettings,
-  ) {}
+  constructor(private active: ActiveModule) {}
 
   execute = async (): Promise<void> => {
-    vscode.window.showInformationMessage(
-      `Setting context directory is: ${this.settings.contextDirectory}`,
-    );
-
-    // find all subdirectories at the given path
-    const subdirs = await vscode.workspace.fs.readDirectory(
-      vscode.Uri.file(this.path),
-    );
-
-    let daggerDirectories: string[] = [];
-
-    // check if they have a dagger.json file
-    for (const [name, type] of subdirs) {
-      if (type === vscode.FileType.Directory) {
-        const hasDaggerFile = await this.checkForDaggerFile(name);
-        if (hasDaggerFile) {
-          daggerDirectories.push(name);
-        }
-      }
+    const modules = await this.active.modules.getModules();
+    if (modules.length === 0) {
+      vscode.window.showWarningMessage(
+        "No dagger.json files found in the workspace.",
+      );
+      return;
     }
 
-    if (daggerDirectories.length === 0) {
-      vscode.window.showWarningMessage(
-        `No dagger.json files found in subdirectories of: ${this.path}`,
+    const current = this.active.current;
+    const items: (vscode.QuickPickItem & { module?: DaggerModule })[] =
+      modules.map((module) => ({
+        label: module.name,
+        description: describeModule(module),
+        detail:
+          module.path === current?.path
+            ? this.active.pinned
+              ? "Current context directory"
+              : "Current module, follows the active editor"
+            : undefined,
+        module,
+      }));
+
+    // unpinning lets the active module follow the editor again
+    if (this.active.pinned) {
+      items.push(
+        { label: "", kind: vscode.QuickPickItemKind.Separator },
+        {
+          label: "$(pin) Follow the active editor",
+          description: "Clear the context directory",
+        },
       );
     }
 
-    // show a quick pick
-    const selected = await vscode.window.showQuickPick(daggerDirectories, {
+    const selected = await vscode.window.showQuickPick(items, {
       placeHolder: "Select the Context Directory",
-      canPickMany: false,
+      matchOnDescription: true,
     });
-
     if (!selected) {
-      vscode.window.showWarningMessage("No Context Directory selected.");
       return;
     }
 
-    this.settings.update(
-      "contextDirectory",
-      selected,
-      vscode.ConfigurationTarget.Workspace,
-    );
+    await this.active.select(selected.module);
 
     vscode.window.showInformationMessage(
-      `Context directory set to: ${selected}`,
+      selected.module
+        ? `Context directory set to: ${describeModule(selected.module)}`
+        : "Context directory cleared, commands run in the module of the active editor.",
     );
   };
-
-  private async checkForDaggerFile(subdirName: string): Promise<boolean> {
-    const dirPath = vscode.Uri.file(`${this.path}/${subdirName}/dagger.json`);
-    try {
-      await vscode.workspace.fs.stat(dirPath);
-      return true;
-    } catch (err) {
-      return false;
-    }
-  }
 }
@@ -2,6 +2,9 @@ import * as vscode from "vscode";
 import { DaggerCLI } from "../cli";
 import { DaggerSettings } from "../settings";
 import { Command } from "./types";
+import { PresetStore } from "../presets";
+import { HistoryStore } from "../history";
+import { SecretStore } from "../secrets";
 import {
   collectFunctionInput,
   createPropertyFilter,
@@ -9,18 +12,21 @@ import {
   showSaveTaskPrompt,
   showSelectFunctionQuickPick,
 } from "../utils";
-import { DirectoryType, FileType } from "../types/types";
+import { DirectoryType, FileType, FunctionInfo } from "../types/types";
 import path from "path";
 import { askForExportPath, askForFileName } from "../utils/user-input";
 
-export class ExportCommand implements Command {
+export class ExportCommand implements Command<FunctionInfo> {
   constructor(
     private dagger: DaggerCLI,
     private path: string,
     private settings: DaggerSettings,
+    private presets: PresetStore,
+    private history: HistoryStore,
+    private secrets: SecretStore,
   ) {}
 
-  execute = async (): Promise<void> => {
+  execute = async (input?: FunctionInfo): Promise<void> => {
     await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
@@ -37,12 +43,14 @@ export class ExportCommand implements Command {
           return;
         }
 
-        // prompt the user to select a function
-        // that returns a ServiceType or ContainerType
-        const functionInfo = await showSelectFunctionQuickPick(
-          functions,
-          createPropertyFilter("returnType", [DirectoryType, FileType]),
-        );
+        // prompt the user to select a function that returns a Directory or
+        // File, unless one was passed in (e.g. from a code lens)
+        const functionInfo =
+          input ??
+          (await showSelectFunctionQuickPick(
+            functions,
+            createPropertyFilter("returnType", [DirectoryType, FileType]),
+          ));
         if (!functionInfo) {
           console.debug("No function selected for export command");
 
@@ -57,7 +65,11 @@ export class ExportCommand implements Command {
         });
 
         // get the function input
-        let functionInput = await collectFunctionInput(token, functionInfo);
+        let functionInput = await collectFunctionInput(token, functionInfo, {
+          workspacePath: this.path,
+          presets: this.presets,
+          secrets: this.secrets,
+        });
         if (!functionInput) {
           console.log(
             "Function call cancelled by user during input collection",
@@ -97,7 +109,10 @@ export class ExportCommand implements Command {
 
         functionInput.commandArgs.push("export", "--path", exportPath);
 
-        const result = await runFunction(token, this.path, functionInput);
+        const result = await runFunction(token, this.path, functionInput, {
+          history: this.history,
+          secrets: this.secrets,
+        });
         if (!result) {
           console.error(
             `Failed to run function \`${functionInfo.name}\`. Please check the output for details.`,
@@ -117,11 +132,11 @@ export class ExportCommand implements Command {
         // if successful and the prompt is not dismissed
         if (this.settings.saveTaskPromptDismissed !== true) {
           await showSaveTaskPrompt(
-            functionInfo.name,
+            functionInfo,
             functionInput.argValues,
             this.path,
             this.settings,
-            functionInfo.module,
+            { export: exportPath },
           );
         }
       },
@@ -2,7 +2,6 @@ import * as vscode from "vscode";
 import {
   collectFunctionInput,
   createPropertyFilter,
-  runFunction,
   showSaveTaskPrompt,
   showSelectFunctionQuickPick,
 } from "../utils/function-helpers";
@@ -10,13 +9,25 @@ import { DaggerSettings } from "../settings";
 import { DaggerCLI } from "../cli";
 import { ContainerType, ServiceType } from "../types/types";
 import { Command } from "./types";
-import { askForPorts } from "../utils/user-input";
+import { PresetStore } from "../presets";
+import { SecretStore } from "../secrets";
+import {
+  askForServicePorts,
+  PortProfileStore,
+  serviceTaskChain,
+  ServiceManager,
+  startService,
+} from "../services";
 
 export class ExposeCommand implements Command {
   constructor(
     private dagger: DaggerCLI,
     private path: string,
     private settings: DaggerSettings,
+    private presets: PresetStore,
+    private secrets: SecretStore,
+    private services: ServiceManager,
+    private portProfiles: PortProfileStore,
   ) {}
 
   execute = async (): Promise<void> => {
@@ -43,15 +54,27 @@ export class ExposeCommand implements Command {
     }
 
     // get the function input
-    let functionInput = await collectFunctionInput(token, functionInfo);
+    let functionInput = await collectFunctionInput(token, functionInfo, {
+      workspacePath: this.path,
+      presets: this.presets,
+      secrets: this.secrets,
+    });
     if (!functionInput) {
       console.log("Function call cancelled by user during input collection");
       return;
     }
 
-    // prompt for ports
-    const ports = await askForPorts(functionInfo.name);
-    if (!ports || ports.length === 0) {
+    // prompt for ports, starting from the ones the function was last exposed with
+    const ports = await askForServicePorts(
+      this.portProfiles,
+      this.path,
+      functionInfo,
+    );
+    if (!ports) {
+      console.debug("Port selection cancelled by user");
+      return;
+    }
+    if (ports.length === 0) {
       vscode.window.showInformationMessage(
         `No ports specified for function \`${functionInfo.name}\`.`,
       );
@@ -74,35 +97,33 @@ export class ExposeCommand implements Command {
         return;
     }
 
-    // Add each port mapping individually with its own --ports flag
-    if (ports && ports.length > 0) {
-      ports.forEach((mapping) => {
-        functionInput.commandArgs.push("--ports", mapping);
-      });
-    }
-
-    // run the function with the provided inputs
-    const result = await runFunction(token, this.path, functionInput);
-    if (!result) {
-      console.error(
-        `Failed to run function \`${functionInfo.name}\`. Please check the output for details.`,
-      );
-
-      vscode.window.showErrorMessage(
-        `Failed to run function \`${functionInfo.name}\`. Please check the output for details.`,
-      );
-
+    // start the service in the Services view, which adds a --ports flag per mapping
+    const service = await startService(
+      this.services,
+      {
+        functionName: functionInfo.name,
+        moduleName: functionInfo.module,
+        functionInfo,
+        argValues: functionInput.argValues,
+        commandArgs: functionInput.commandArgs,
+        workspacePath: this.path,
+        ports,
+      },
+      this.portProfiles,
+    );
+    if (!service || service.status === "failed") {
       return;
     }
 
     // if successful and the prompt is not dismissed
     if (this.settings.saveTaskPromptDismissed !== true) {
+      // the saved task runs the service the same way, with the ports it was started with
       await showSaveTaskPrompt(
-        functionInfo.name,
+        functionInfo,
         functionInput.argValues,
         this.path,
         this.settings,
-        functionInfo.module,
+        { chain: serviceTaskChain(functionInfo.returnType, service.ports) },
       );
     }
 
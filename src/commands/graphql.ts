@@ -1,48 +1,88 @@
 import * as vscode from "vscode";
 import { DaggerCLI } from "../cli";
-import { executeTaskAndWait } from "../utils";
+import {
+  DEFAULT_LISTEN_HOST,
+  DEFAULT_LISTEN_PORT,
+  ListenSession,
+  queryEndpoint,
+} from "../listen";
 import { Command } from "./types";
 
 export class GraphQLCommand implements Command {
   constructor(
     private _dagger: DaggerCLI,
     private path: string,
+    private session: ListenSession,
   ) {}
 
   public execute = async (): Promise<void> => {
-    let command = ["dagger", "listen"];
-
-    await allowCorsPrompt(command);
-
-    await allowLLMPrompt(command);
+    if (this.session.running) {
+      const replace = await vscode.window.showWarningMessage(
+        `A GraphQL server is already running on ${this.session.address}. Stop it and start a new one?`,
+        { modal: true },
+        "Start New Server",
+      );
+      if (replace !== "Start New Server") {
+        return;
+      }
+    }
 
-    await listenAddressPrompt(command, "127.0.0.1:8080");
+    const allowCors = await allowCorsPrompt();
 
-    const auth = await basicAuthPrompt();
+    const allowLLM = await allowLLMPrompt();
 
-    vscode.window.showInformationMessage(
-      "Starting GraphQL server:\n" + `Basic Auth: ${auth.token}`,
+    const address = await listenAddressPrompt(
+      `${DEFAULT_LISTEN_HOST}:${DEFAULT_LISTEN_PORT}`,
     );
 
-    const token = new vscode.CancellationTokenSource().token;
+    if (!(await sessionTokenPrompt(this.session))) {
+      console.debug("Session token prompt cancelled by user");
+      return;
+    }
 
-    // put env DAGGER_SESSION_TOKEN=auth.value in the beginning of the command array
-    command = ["env", "DAGGER_SESSION_TOKEN=" + auth.value, ...command];
+    const [host, port] = address.split(":");
+    const requestedPort = Number(port);
+    const state = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Dagger",
+      },
+      async (progress) => {
+        progress.report({ message: "Starting GraphQL server..." });
+        await this.session.start({
+          workspacePath: this.path,
+          host,
+          port: requestedPort,
+          allowCors,
+          allowLLM,
+        });
+        // the server is started once it listens on its port
+        return this.session.whenStarted();
+      },
+    );
+    if (state?.status !== "running") {
+      vscode.window.showErrorMessage(
+        "Failed to start the GraphQL server. Check the Dagger output for details.",
+      );
+      return;
+    }
 
-    executeTaskAndWait(token, command.join(" "), {
-      runInBackground: false,
-      workingDirectory: this.path,
-    });
+    const selected = await vscode.window.showInformationMessage(
+      `GraphQL server started on ${queryEndpoint(this.session.address!)}` +
+        (state.port !== requestedPort
+          ? ` (port ${requestedPort} is in use).`
+          : "."),
+      "Copy Token",
+    );
+    if (selected === "Copy Token") {
+      await vscode.commands.executeCommand("dagger.graphql.copyToken");
+    }
   };
 }
 
-const listenAddressPrompt = async (
-  commandArgs: string[],
-  defaultAddress: string,
-) => {
+const listenAddressPrompt = async (defaultAddress: string): Promise<string> => {
   if (process.env.DAGGER_LISTEN_ADDRESS) {
-    commandArgs.push("--listen", process.env.DAGGER_LISTEN_ADDRESS);
-    return;
+    return process.env.DAGGER_LISTEN_ADDRESS;
   }
 
   const address = await vscode.window.showInputBox({
@@ -64,16 +104,15 @@ const listenAddressPrompt = async (
 
   if (!address) {
     console.debug("No address specified, using default");
-    return;
+    return defaultAddress;
   }
 
-  commandArgs.push("--listen", address);
+  return address;
 };
 
-const allowCorsPrompt = async (commandArgs: string[]) => {
+const allowCorsPrompt = async (): Promise<boolean> => {
   if (process.env.DAGGER_ALLOW_CORS === "true") {
-    commandArgs.push("--allow-cors");
-    return;
+    return true;
   }
 
   const allowCors = await vscode.window.showQuickPick(["Yes", "No"], {
@@ -81,15 +120,12 @@ const allowCorsPrompt = async (commandArgs: string[]) => {
     canPickMany: false,
   });
 
-  if (allowCors === "Yes") {
-    commandArgs.push("--allow-cors");
-  }
+  return allowCors === "Yes";
 };
 
-const allowLLMPrompt = async (commandArgs: string[]) => {
+const allowLLMPrompt = async (): Promise<string[] | undefined> => {
   if (process.env.DAGGER_ALLOW_LLM === "true") {
-    commandArgs.push("--allow-llm=all");
-    return;
+    return ["all"];
   }
 
   const allowLLM = await vscode.window.showQuickPick(["Yes", "No"], {
@@ -123,49 +159,47 @@ const allowLLMPrompt = async (commandArgs: string[]) => {
       vscode.window.showWarningMessage(
         "No modules specified for LLM connections.",
       );
+    } else if (modules.toLowerCase() === "all") {
+      return ["all"];
     } else {
-      if (modules.toLowerCase() === "all") {
-        commandArgs.push("--allow-llm=all");
-      } else {
-        const moduleList = modules.split(",").map((m) => m.trim());
-        commandArgs.push("--allow-llm=", ...moduleList);
-      }
+      return modules
+        .split(",")
+        .map((m) => m.trim())
+        .filter(Boolean);
     }
   }
-};
 
-interface AuthPromptResult {
-  token: string;
-  value: string;
-}
+  return undefined;
+};
 
-const basicAuthPrompt = async (): Promise<AuthPromptResult> => {
+/**
+ * Asks for the session token clients authenticate with, the stored token is
+ * the default and the entered one is stored for the next session
+ * @returns false if cancelled
+ */
+const sessionTokenPrompt = async (session: ListenSession): Promise<boolean> => {
   if (process.env.DAGGER_SESSION_TOKEN) {
-    return {
-      token: Buffer.from(process.env.DAGGER_SESSION_TOKEN).toString("base64"),
-      value: process.env.DAGGER_SESSION_TOKEN,
-    };
+    return true;
   }
 
-  const auth = await vscode.window.showInputBox({
-    placeHolder: "Set Basic Auth Token (optional)",
-    value: "test",
-    prompt: "Enable Basic Auth for the GraphQL server",
+  const token = await vscode.window.showInputBox({
+    title: "Session Token",
+    prompt:
+      "Token clients use as the basic auth user name, kept in the secret storage",
+    value: await session.getToken(),
+    password: true,
+    ignoreFocusOut: true,
     validateInput: (value) => {
       if (!value) {
-        return "No Basic Auth token specified.";
+        return "No session token specified.";
       }
       return null; // No error
     },
   });
-
-  // get the auth token and create the value
-  if (!auth) {
-    return { token: "", value: "" };
+  if (!token) {
+    return false;
   }
 
-  return {
-    token: Buffer.from(`${auth}`).toString("base64"),
-    value: auth,
-  };
+  await session.setToken(token);
+  return true;
 };
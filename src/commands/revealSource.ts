@@ -0,0 +1,56 @@
+import * as vscode from "vscode";
+import { DaggerCLI } from "../cli";
+import { DaggerTreeItem } from "../tree/provider";
+import { FunctionInfo } from "../types/types";
+import { showSelectFunctionQuickPick } from "../utils/function-helpers";
+import { revealSourceLocation, SourceLocator } from "../source";
+import { Command } from "./types";
+
+export class RevealSourceCommand implements Command<DaggerTreeItem> {
+  constructor(
+    private dagger: DaggerCLI,
+    private path: string,
+    private locator: SourceLocator,
+  ) {}
+
+  execute = async (input?: DaggerTreeItem): Promise<void> => {
+    let functionInfo: FunctionInfo | undefined;
+    let argumentName: string | undefined;
+
+    if (input instanceof DaggerTreeItem && input.type === "argument") {
+      // arguments are children of their function
+      functionInfo = input.parent?.functionInfo;
+      argumentName = input.argument?.name;
+    } else if (input instanceof DaggerTreeItem) {
+      functionInfo = input.functionInfo;
+    } else {
+      functionInfo = await showSelectFunctionQuickPick(
+        await this.dagger.getFunctions(this.path),
+      );
+      if (!functionInfo) {
+        return; // User cancelled
+      }
+    }
+
+    if (!functionInfo) {
+      vscode.window.showErrorMessage("No function selected.");
+      return;
+    }
+
+    const location = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Window,
+        title: `Finding the source of \`${functionInfo.name}\``,
+      },
+      () => this.locator.locate(this.path, functionInfo, argumentName),
+    );
+    if (!location) {
+      vscode.window.showWarningMessage(
+        `Could not find where \`${functionInfo.name}\` is declared in the module source.`,
+      );
+      return;
+    }
+
+    await revealSourceLocation(location);
+  };
+}
@@ -0,0 +1,103 @@
+import * as vscode from "vscode";
+import { secretReference, SecretStore } from "../secrets";
+import { askForNewSecret } from "../utils/user-input";
+import { Command } from "./types";
+
+interface SecretQuickPickItem extends vscode.QuickPickItem {
+  name?: string; // unset for the option that adds a secret
+}
+
+export class SecretsCommand implements Command {
+  constructor(private secrets: SecretStore) {}
+
+  execute = async (): Promise<void> => {
+    const names = this.secrets.list();
+    const items: SecretQuickPickItem[] = [
+      ...names.map((name) => ({
+        label: `$(key) ${name}`,
+        description: secretReference(name),
+        name,
+      })),
+      { label: "$(add) Add Secret..." },
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+      title: `Dagger Secrets: ${names.length} stored`,
+      placeHolder: "Select a secret to manage or add a new one",
+      matchOnDescription: true,
+    });
+    if (!selected) {
+      return;
+    }
+
+    if (!selected.name) {
+      await addSecret(this.secrets);
+      return;
+    }
+
+    await manageSecret(this.secrets, selected.name);
+  };
+}
+
+/**
+ * Asks for a new secret and stores it
+ * @param secrets The store to add the secret to
+ */
+export const addSecret = async (secrets: SecretStore): Promise<void> => {
+  const name = await askForNewSecret(secrets);
+  if (name) {
+    vscode.window.showInformationMessage(
+      `Secret \`${name}\` stored. Use \`${secretReference(name)}\` for Secret arguments.`,
+    );
+  }
+};
+
+/**
+ * Copies the reference of a secret, replaces its value or deletes it
+ * @param secrets The store of the secret
+ * @param name The name of the secret
+ */
+const manageSecret = async (
+  secrets: SecretStore,
+  name: string,
+): Promise<void> => {
+  const action = await vscode.window.showQuickPick(
+    ["Copy Reference", "Update Value", "Delete"],
+    { title: `Secret: ${name}`, placeHolder: secretReference(name) },
+  );
+
+  switch (action) {
+    case "Copy Reference":
+      await vscode.env.clipboard.writeText(secretReference(name));
+      vscode.window.showInformationMessage(
+        `\`${secretReference(name)}\` copied to clipboard.`,
+      );
+      break;
+    case "Update Value": {
+      const value = await vscode.window.showInputBox({
+        title: `Secret: ${name}`,
+        prompt: `Enter the new value of ${name}, it replaces the stored value`,
+        password: true,
+        ignoreFocusOut: true,
+        validateInput: (input) =>
+          input ? undefined : "A secret value is required.",
+      });
+      if (value) {
+        await secrets.set(name, value);
+        vscode.window.showInformationMessage(`Secret \`${name}\` updated.`);
+      }
+      break;
+    }
+    case "Delete": {
+      const confirm = await vscode.window.showWarningMessage(
+        `Delete the secret \`${name}\`? Calls and tasks that reference it will read ${name} from the environment instead.`,
+        { modal: true },
+        "Delete",
+      );
+      if (confirm === "Delete") {
+        await secrets.delete(name);
+      }
+      break;
+    }
+  }
+};
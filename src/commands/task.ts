@@ -1,29 +1,45 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import {
-  buildCommandArgs,
-  collectArgumentValues,
-  selectOptionalArguments,
+  collectFunctionArgValues,
+  FunctionInputOptions,
   showSelectFunctionQuickPick,
 } from "../utils/function-helpers";
+import { PresetStore } from "../presets";
+import { SecretStore } from "../secrets";
 import { DaggerCLI } from "../cli";
 import { DaggerTreeItem } from "../tree/provider";
 import { FunctionInfo } from "../types/types";
 import { Command } from "./types";
+import { DAGGER_PROBLEM_MATCHERS } from "../const";
+import {
+  DAGGER_TASK_TYPE,
+  DaggerTaskDefinition,
+  functionPath,
+  taskModulePath,
+} from "../tasks";
 
 interface TaskCreationResult {
   readonly taskName: string;
-  readonly command: string;
+  readonly task: SavedTask;
   readonly cancelled: boolean;
 }
 
-export class TaskCommand implements Command<DaggerTreeItem | undefined> {
+// what a saved task calls, the module is the directory the task is saved for
+export type SavedTask = Pick<
+  DaggerTaskDefinition,
+  "function" | "args" | "chain" | "export"
+>;
+
+export class TaskCommand implements Command<DaggerTreeItem | FunctionInfo> {
   constructor(
     private dagger: DaggerCLI,
     private path: string,
+    private presets: PresetStore,
+    private secrets: SecretStore,
   ) {}
 
-  execute = async (input?: DaggerTreeItem): Promise<void> => {
+  execute = async (input?: DaggerTreeItem | FunctionInfo): Promise<void> => {
     let functionInfo: FunctionInfo | undefined;
 
     // if there was no input
@@ -44,6 +60,15 @@ export class TaskCommand implements Command<DaggerTreeItem | undefined> {
       functionInfo = selected;
     }
 
+    if (input instanceof DaggerTreeItem && input.functionInfo !== undefined) {
+      functionInfo = input.functionInfo;
+    }
+
+    // was a function passed directly (e.g. from a code lens)?
+    if (input !== undefined && !(input instanceof DaggerTreeItem)) {
+      functionInfo = input;
+    }
+
     if (!functionInfo) {
       vscode.window.showErrorMessage("No function selected.");
       return;
@@ -58,7 +83,11 @@ export class TaskCommand implements Command<DaggerTreeItem | undefined> {
         },
         async (progress, token) => {
           // Collect arguments and build task
-          const result = await collectArgumentsForTask(functionInfo);
+          const result = await collectArgumentsForTask(functionInfo, {
+            workspacePath: this.path,
+            presets: this.presets,
+            secrets: this.secrets,
+          });
           if (result.cancelled) {
             return;
           }
@@ -70,7 +99,7 @@ export class TaskCommand implements Command<DaggerTreeItem | undefined> {
           progress.report({ message: "Saving task..." });
 
           // Save the task
-          await saveTaskToTasksJson(result.taskName, result.command, this.path);
+          await saveTaskToTasksJson(result.taskName, result.task, this.path);
 
           progress.report({ message: "Task saved successfully" });
 
@@ -93,18 +122,18 @@ export class TaskCommand implements Command<DaggerTreeItem | undefined> {
 /**
  * Collects function argument values and builds the command for saving as a task
  * @param func The function information including name, module, and arguments
+ * @param options Options for collecting the argument values, such as the preset store
  * @returns Task creation result with command string
  */
 const collectArgumentsForTask = async (
   func: FunctionInfo,
+  options: FunctionInputOptions,
 ): Promise<TaskCreationResult> => {
-  const { name: functionName, args, module: moduleName } = func;
+  const { name: functionName, args } = func;
 
   // Handle the case where there are no arguments
   if (args.length === 0) {
-    // Build the command using the utility function that handles module names properly
-    const commandArgs = buildCommandArgs(functionName, {}, moduleName);
-    const command = commandArgs.join(" ");
+    const task: SavedTask = { function: functionPath(func) };
 
     // Get task name from user with default
     const defaultTaskName = `dagger-${functionName}`;
@@ -117,32 +146,24 @@ const collectArgumentsForTask = async (
     });
 
     if (!taskName) {
-      return { taskName: "", command: "", cancelled: true };
+      return { taskName: "", task, cancelled: true };
     }
 
-    return { taskName, command, cancelled: false };
+    return { taskName, task, cancelled: false };
   }
 
-  // Separate required and optional arguments
-  const requiredArgs = args.filter((arg) => arg.required);
-  const optionalArgs = args.filter((arg) => !arg.required);
-
-  // Select optional arguments to include
-  const selectedOptionalArgs = await selectOptionalArguments(optionalArgs);
-
-  // Combine required and selected optional arguments
-  const allSelectedArgs = [...requiredArgs, ...selectedOptionalArgs];
+  // Collect values for all arguments from a preset, the form or prompts
+  const argValues = await collectFunctionArgValues(func, options);
 
-  // Collect values for all arguments
-  const { argValues, cancelled } = await collectArgumentValues(allSelectedArgs);
-
-  if (cancelled) {
-    return { taskName: "", command: "", cancelled: true };
+  if (!argValues) {
+    return {
+      taskName: "",
+      task: { function: functionPath(func) },
+      cancelled: true,
+    };
   }
 
-  // Build the command using the utility function that handles module names properly
-  const commandArgs = buildCommandArgs(functionName, argValues, moduleName);
-  const command = commandArgs.join(" ");
+  const task: SavedTask = { function: functionPath(func), args: argValues };
 
   // Get task name from user with default
   const defaultTaskName = `dagger-${functionName}`;
@@ -162,21 +183,21 @@ const collectArgumentsForTask = async (
   });
 
   if (!taskName) {
-    return { taskName: "", command: "", cancelled: true };
+    return { taskName: "", task, cancelled: true };
   }
 
-  return { taskName: taskName.trim(), command, cancelled: false };
+  return { taskName: taskName.trim(), task, cancelled: false };
 };
 
 /**
- * Creates or updates the tasks.json file with a new Dagger task
+ * Creates or updates the tasks.json file with a new `dagger` task
  * @param taskName The name of the task
- * @param command The command to execute
- * @param workspace The workspace path
+ * @param task The function the task calls, its arguments and what to do with the result
+ * @param workspace The path of the module the task runs
  */
 export const saveTaskToTasksJson = async (
   taskName: string,
-  command: string,
+  task: SavedTask,
   workspace: string,
 ): Promise<void> => {
   const workspaceFolder = vscode.workspace.getWorkspaceFolder(
@@ -220,9 +241,11 @@ export const saveTaskToTasksJson = async (
   // Create new task
   const newTask = {
     label: taskName,
-    type: "shell",
-    command: command,
+    type: DAGGER_TASK_TYPE,
+    module: taskModulePath(workspaceFolder, workspace),
+    ...task,
     group: "build",
+    problemMatcher: DAGGER_PROBLEM_MATCHERS,
     presentation: {
       echo: true,
       reveal: "always",
@@ -231,9 +254,6 @@ export const saveTaskToTasksJson = async (
       showReuseMessage: true,
       clear: false,
     },
-    options: {
-      cwd: "${workspaceFolder}",
-    },
   };
 
   // Remove any existing task with the same label
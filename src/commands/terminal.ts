@@ -10,16 +10,18 @@ import {
   executeTaskAndWait,
   showSelectFunctionQuickPick,
 } from "../utils";
-import { ContainerType } from "../types/types";
+import { ContainerType, FunctionInfo } from "../types/types";
+import { SecretStore } from "../secrets";
 
-export class TerminalCommand implements Command {
+export class TerminalCommand implements Command<FunctionInfo> {
   constructor(
     private dagger: DaggerCLI,
     private path: string,
     private _settings: DaggerSettings,
+    private secrets: SecretStore,
   ) {}
 
-  execute = async (): Promise<void> => {
+  execute = async (input?: FunctionInfo): Promise<void> => {
     // get the functions from the Dagger CLI
     const functions = await this.dagger.getFunctions(this.path);
     if (!functions || functions.length === 0) {
@@ -29,12 +31,14 @@ export class TerminalCommand implements Command {
       return;
     }
 
-    // prompt the user to select a function
-    // that returns a ServiceType or ContainerType
-    const functionInfo = await showSelectFunctionQuickPick(
-      functions,
-      createPropertyFilter("returnType", [ContainerType]),
-    );
+    // prompt the user to select a function that returns a Container, unless
+    // one was passed in (e.g. from a code lens)
+    const functionInfo =
+      input ??
+      (await showSelectFunctionQuickPick(
+        functions,
+        createPropertyFilter("returnType", [ContainerType]),
+      ));
     if (!functionInfo) {
       console.debug("No function selected for terminal command");
 
@@ -44,7 +48,10 @@ export class TerminalCommand implements Command {
     let functionInput: CollectedFunctionInput | undefined;
     const token = new vscode.CancellationTokenSource().token;
 
-    functionInput = await collectFunctionInput(token, functionInfo);
+    functionInput = await collectFunctionInput(token, functionInfo, {
+      workspacePath: this.path,
+      secrets: this.secrets,
+    });
     if (!functionInput) {
       console.log("Function call cancelled by user during input collection");
       return;
@@ -71,6 +78,7 @@ export class TerminalCommand implements Command {
     executeTaskAndWait(token, commandArgs.join(" "), {
       workingDirectory: this.path,
       runInBackground: false,
+      environment: await this.secrets.environment(commandArgs),
       // get the function input
     });
   };
@@ -4,7 +4,7 @@ import { Command } from "./types";
 export class DaggerViewFunctions implements Command {
   execute = async (): Promise<void> => {
     // call the refresh command to ensure the tree view is up-to-date in the background
-    vscode.commands.executeCommand("dagger.reloadFunctions");
+    vscode.commands.executeCommand("dagger.reload");
 
     await vscode.commands.executeCommand(
       "workbench.view.extension.daggerViewContainer",
@@ -35,7 +35,14 @@ export const DISCUSSIONS_URL =
 export const CHAT_PARTICIPANT_ID = "dagger";
 export const CHAT_PARTICIPANT_NAME = "@dagger";
 export const CHAT_PARTICIPANT_DESCRIPTION =
-  "Searches docs.dagger.io for information on developing Dagger modules.";
+  "Ask questions about the Dagger functions in your workspace.";
 export const CHAT_PARTICIPANT_ICON_DEFAULT = "source-control";
 
+// Problem matchers contributed in package.json for module compile errors
+export const DAGGER_PROBLEM_MATCHERS = [
+  "$dagger-go",
+  "$dagger-typescript",
+  "$dagger-python",
+];
+
 // Add more shared constants as needed for future extensions
@@ -0,0 +1,93 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { parseDaggerErrors, resolveErrorFile } from "./parser";
+import { DaggerError, ErrorReporter } from "./types";
+
+/**
+ * Reports errors from Dagger CLI output as diagnostics in the Problems panel.
+ * Errors that don't point to a source file, such as failed exec steps, are
+ * reported on the module's dagger.json.
+ */
+export class DaggerDiagnostics implements ErrorReporter, vscode.Disposable {
+  private readonly collection: vscode.DiagnosticCollection;
+  // the files diagnostics were reported on per directory
+  private readonly reported = new Map<string, vscode.Uri[]>();
+
+  constructor(name: string) {
+    this.collection = vscode.languages.createDiagnosticCollection(name);
+  }
+
+  report(output: string, cwd: string): void {
+    this.clear(cwd);
+
+    const sourceDir = readModuleSource(cwd);
+    const diagnostics = new Map<string, vscode.Diagnostic[]>();
+    for (const error of parseDaggerErrors(output)) {
+      const resolved = error.file
+        ? resolveErrorFile(error.file, cwd, sourceDir)
+        : undefined;
+      const file = resolved ?? path.join(cwd, "dagger.json");
+      if (!fs.existsSync(file)) {
+        console.debug(`Skipping diagnostic without a file: ${error.message}`);
+        continue;
+      }
+
+      diagnostics.set(file, [
+        ...(diagnostics.get(file) ?? []),
+        toDiagnostic(error, resolved === undefined),
+      ]);
+    }
+
+    const uris = [...diagnostics.keys()].map((file) => vscode.Uri.file(file));
+    for (const uri of uris) {
+      this.collection.set(uri, diagnostics.get(uri.fsPath));
+    }
+    this.reported.set(cwd, uris);
+  }
+
+  clear(cwd: string): void {
+    for (const uri of this.reported.get(cwd) ?? []) {
+      this.collection.delete(uri);
+    }
+    this.reported.delete(cwd);
+  }
+
+  dispose(): void {
+    this.collection.dispose();
+  }
+}
+
+/**
+ * @param onModuleFile Whether the error is reported on dagger.json instead of the line it refers to
+ */
+const toDiagnostic = (
+  error: DaggerError,
+  onModuleFile: boolean,
+): vscode.Diagnostic => {
+  const line = onModuleFile ? 0 : Math.max((error.line ?? 1) - 1, 0);
+  const column = onModuleFile ? 0 : Math.max((error.column ?? 1) - 1, 0);
+  const diagnostic = new vscode.Diagnostic(
+    new vscode.Range(line, column, line, column),
+    error.message,
+    vscode.DiagnosticSeverity.Error,
+  );
+  diagnostic.source = `dagger (${error.source})`;
+  diagnostic.code = error.code;
+
+  return diagnostic;
+};
+
+/**
+ * Reads the source directory of the module from dagger.json
+ */
+const readModuleSource = (cwd: string): string | undefined => {
+  try {
+    const config = JSON.parse(
+      fs.readFileSync(path.join(cwd, "dagger.json"), "utf8"),
+    );
+    return typeof config.source === "string" ? config.source : undefined;
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,175 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DaggerError } from "./types";
+
+// the progress output of the CLI prefixes lines with tree characters
+const LINE_PREFIX = /^[\s│┃|!✘✔>]*/;
+
+// ./main.go:12:5: undefined: foo
+const GO_ERROR = /^((?:\.{0,2}\/)?[^\s:]+\.go):(\d+):(\d+):\s+(.*)$/;
+
+// src/index.ts(12,5): error TS2304: Cannot find name 'foo'.
+// src/index.ts:12:5 - error TS2304: Cannot find name 'foo'.
+const TS_ERROR =
+  /^([^\s(:]+\.[cm]?tsx?)(?:\((\d+),(\d+)\)|:(\d+):(\d+) -):? error (TS\d+): (.*)$/;
+
+// File "/src/.dagger/src/main/__init__.py", line 12, in build
+const PY_FRAME = /^File "([^"]+\.py)", line (\d+)/;
+
+// NameError: name 'foo' is not defined
+const PY_ERROR = /^([A-Za-z_][\w.]*(?:Error|Exception)): (.*)$/;
+
+// process "go test ./..." did not complete successfully: exit code: 1
+const EXEC_ERROR =
+  /process "(.*)" did not complete successfully: exit code: (\d+)/;
+
+// Error: input:1: Cannot query field "foo" on type "Query".
+const GRAPHQL_ERROR = /^(?:Error: )?input:(\d+)(?::(\d+))?: (.*)$/;
+
+/**
+ * Parses errors from the output of the Dagger CLI. It recognizes module
+ * compile errors from the Go, TypeScript and Python SDKs, failed exec steps
+ * and GraphQL errors.
+ *
+ * @param output The stdout and stderr of a failed command
+ * @returns The errors found, without duplicates
+ */
+export const parseDaggerErrors = (output: string): DaggerError[] => {
+  const errors: DaggerError[] = [];
+  // the most recent Python frame outside of installed packages
+  let pythonFrame: { file: string; line: number } | undefined;
+
+  for (const rawLine of output.split(/\r?\n/)) {
+    const line = rawLine.replace(LINE_PREFIX, "").trimEnd();
+    let match: RegExpMatchArray | null;
+
+    if ((match = line.match(GO_ERROR))) {
+      errors.push({
+        source: "go",
+        file: match[1],
+        line: Number(match[2]),
+        column: Number(match[3]),
+        message: match[4],
+      });
+    } else if ((match = line.match(TS_ERROR))) {
+      errors.push({
+        source: "typescript",
+        file: match[1],
+        line: Number(match[2] ?? match[4]),
+        column: Number(match[3] ?? match[5]),
+        code: match[6],
+        message: match[7],
+      });
+    } else if ((match = line.match(PY_FRAME))) {
+      if (!/site-packages|\/lib\/python/.test(match[1])) {
+        pythonFrame = { file: match[1], line: Number(match[2]) };
+      }
+    } else if ((match = line.match(PY_ERROR)) && pythonFrame) {
+      errors.push({
+        source: "python",
+        file: pythonFrame.file,
+        line: pythonFrame.line,
+        message: `${match[1]}: ${match[2]}`,
+      });
+      pythonFrame = undefined;
+    } else if ((match = line.match(EXEC_ERROR))) {
+      errors.push({
+        source: "exec",
+        message: `\`${match[1]}\` failed with exit code ${match[2]}`,
+      });
+    } else if ((match = line.match(GRAPHQL_ERROR))) {
+      errors.push({
+        source: "graphql",
+        line: Number(match[1]),
+        column: match[2] ? Number(match[2]) : undefined,
+        message: match[3],
+      });
+    }
+  }
+
+  errors.push(...parseGraphQLResponseErrors(output));
+
+  return dedupe(errors);
+};
+
+/**
+ * Parses the errors of a GraphQL response, e.g. {"errors": [{"message": "..."}]}
+ */
+const parseGraphQLResponseErrors = (output: string): DaggerError[] => {
+  const trimmed = output.trim();
+  if (!trimmed.startsWith("{")) {
+    return [];
+  }
+
+  try {
+    const response = JSON.parse(trimmed);
+    if (!Array.isArray(response.errors)) {
+      return [];
+    }
+
+    return response.errors
+      .filter((error: any) => typeof error?.message === "string")
+      .map(
+        (error: any): DaggerError => ({
+          source: "graphql",
+          message: error.message,
+          line: error.locations?.[0]?.line,
+          column: error.locations?.[0]?.column,
+        }),
+      );
+  } catch {
+    return [];
+  }
+};
+
+const dedupe = (errors: DaggerError[]): DaggerError[] => {
+  const seen = new Set<string>();
+
+  return errors.filter((error) => {
+    const key = [error.file, error.line, error.column, error.message].join(":");
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+
+    return true;
+  });
+};
+
+/**
+ * Finds the workspace file an error points to. Errors from the module
+ * container use paths like /src/.dagger/main.go, so leading directories are
+ * dropped until the rest of the path exists in the workspace or the module source.
+ *
+ * @param file The path printed by the CLI
+ * @param cwd The directory the command ran in
+ * @param sourceDir The source directory of the module, relative to cwd
+ * @param exists Checks if a path exists
+ * @returns The absolute path of the file or undefined if it can't be found
+ */
+export const resolveErrorFile = (
+  file: string,
+  cwd: string,
+  sourceDir?: string,
+  exists: (path: string) => boolean = fs.existsSync,
+): string | undefined => {
+  const roots = sourceDir ? [cwd, path.resolve(cwd, sourceDir)] : [cwd];
+  const parts = file
+    .split(/[\\/]/)
+    .filter((part) => part !== "" && part !== ".");
+
+  if (path.isAbsolute(file) && exists(file)) {
+    return file;
+  }
+
+  for (let start = 0; start < parts.length; start++) {
+    for (const root of roots) {
+      const candidate = path.join(root, ...parts.slice(start));
+      if (exists(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  return undefined;
+};
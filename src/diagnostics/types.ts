@@ -0,0 +1,36 @@
+export type DaggerErrorSource =
+  | "go"
+  | "typescript"
+  | "python"
+  | "exec"
+  | "graphql";
+
+/**
+ * An error parsed from the output of the Dagger CLI
+ */
+export interface DaggerError {
+  readonly source: DaggerErrorSource;
+  readonly message: string;
+  readonly file?: string; // path as printed by the CLI, may be a path inside the module container
+  readonly line?: number; // 1-based
+  readonly column?: number; // 1-based
+  readonly code?: string; // compiler error code such as TS2304
+}
+
+/**
+ * Reports errors from Dagger CLI output, for example as VS Code diagnostics
+ */
+export interface ErrorReporter {
+  /**
+   * Replaces the errors reported for a directory with the errors found in the output
+   * @param output The stdout and stderr of the failed command
+   * @param cwd The directory the command ran in
+   */
+  report(output: string, cwd: string): void;
+
+  /**
+   * Clears the errors reported for a directory
+   * @param cwd The directory the command ran in
+   */
+  clear(cwd: string): void;
+}
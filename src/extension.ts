@@ -1,10 +1,10 @@
 import * as vscode from "vscode";
-import { registerTreeView } from "./tree/provider";
+import { DaggerTreeItem, registerTreeView } from "./tree/provider";
 import { checkInstallation, InstallResult } from "./utils/installation";
 import * as os from "os";
 import { EXTENSION_NAME } from "./const";
 import { registerTerminalProvider } from "./terminal";
-import { VSCodeWorkspaceCache } from "./cache";
+import { FileSystemCache, IndexedCache, VSCodeWorkspaceCache } from "./cache";
 import { DaggerSettingsProvider, setGlobalSettings } from "./settings";
 import { DaggerCLI } from "./cli";
 import { CacheCommand } from "./commands/cache";
@@ -14,7 +14,7 @@ import { ExposeCommand } from "./commands/expose";
 import { DaggerViewFunctions } from "./commands/viewFunctions";
 import { UninstallCommand } from "./commands/uninstall";
 import { VersionCommand } from "./commands/version";
-import { CallCommand } from "./commands/call";
+import { CallCommand, CallOptions } from "./commands/call";
 import { DevelopCommand } from "./commands/develop";
 import { InitCommand } from "./commands/init";
 import { InstallCommand } from "./commands/install";
@@ -26,27 +26,94 @@ import { UpdateCommand } from "./commands/update";
 import { ExportCommand } from "./commands/export";
 import { TerminalCommand } from "./commands/terminal";
 import { ContextDirectoryCommand } from "./commands/context";
+import { registerChatParticipant } from "./chat";
+import { PresetStore } from "./presets";
+import { HistoryStore } from "./history";
+import { registerHistoryView } from "./tree/history";
+import { registerResultView } from "./tree/result";
+import { ResultStore } from "./results";
+import { SecretStore } from "./secrets";
+import { SecretsCommand, addSecret } from "./commands/secrets";
+import { PortProfileStore, ServiceManager } from "./services";
+import { ListenSession, registerListenSession } from "./listen";
+import { registerPlayground } from "./playground";
+import { registerServicesView } from "./tree/services";
+import { disposeOutputChannel } from "./output";
+import { DaggerDiagnostics } from "./diagnostics";
+import { registerCodeLensProvider } from "./codelens";
+import { registerTaskDefinitionProvider, SourceLocator } from "./source";
+import { RevealSourceCommand } from "./commands/revealSource";
+import { registerDaggerTaskProvider } from "./tasks";
+import { isFunctionInfo } from "./utils/function-helpers";
+import { FunctionInfo } from "./types/types";
+import {
+  ActiveModule,
+  ModuleRegistry,
+  ModuleWatcher,
+  registerActiveModuleStatusBar,
+} from "./workspace";
+
+// what module commands are invoked on: a tree item, a function passed by a
+// code lens or the chat participant, or a file in the explorer
+type ModuleCommandTarget =
+  | DaggerTreeItem
+  | FunctionInfo
+  | vscode.Uri
+  | undefined;
 
 export async function activate(context: vscode.ExtensionContext) {
   try {
-    const cache = new VSCodeWorkspaceCache(context.workspaceState);
-
     // Initialize settings provider
     const settings = new DaggerSettingsProvider();
 
     // Set global settings instance
     setGlobalSettings(settings);
 
-    const daggerCli = new DaggerCLI(cache, settings);
+    const cache = createCache(context, settings);
+    // writes when the cached items were last used
+    context.subscriptions.push(cache);
 
-    // Get workspace path
-    let path = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? "";
+    // errors from failed calls and module loads are shown in the Problems panel
+    const diagnostics = new DaggerDiagnostics("dagger");
+    context.subscriptions.push(diagnostics);
 
-    // check if the context directory is set for the workspace TMEP
-    if (settings.contextDirectory && !settings.contextDirectory.includes("<workspacePath>")) {
-      // If context directory is set, use it
-      path = settings.contextDirectory;
-    }
+    const daggerCli = new DaggerCLI(cache, settings, diagnostics);
+
+    // argument presets are saved per function in the workspace state
+    const presets = new PresetStore(context.workspaceState);
+    // function calls are recorded so they can be re-run from the history view
+    const history = new HistoryStore(
+      context.workspaceState,
+      // windows without a folder keep the output in the global storage
+      vscode.Uri.joinPath(
+        context.storageUri ?? context.globalStorageUri,
+        "history",
+      ).fsPath,
+    );
+    context.subscriptions.push(history, { dispose: disposeOutputChannel });
+    // JSON results are shown in the result view and can be pinned to functions
+    const results = new ResultStore(context.workspaceState);
+    context.subscriptions.push(results);
+    // the values are in the secret storage, the global state only lists the names
+    const secrets = new SecretStore(context.secrets, context.globalState);
+    context.subscriptions.push(secrets);
+    // exposed services run until they are stopped from the Services view or the extension stops
+    const services = new ServiceManager(daggerCli, history, secrets, settings);
+    context.subscriptions.push(services);
+    // the ports each function was last exposed with
+    const portProfiles = new PortProfileStore(context.workspaceState);
+    // the GraphQL server of `dagger listen`, its session token is in the secret storage
+    const listenSession = new ListenSession(daggerCli, context.secrets);
+    context.subscriptions.push(listenSession);
+
+    // discovers the Dagger modules in every workspace folder
+    const modules = new ModuleRegistry();
+    // the module commands run in by default, shown in the status bar
+    const activeModule = new ActiveModule(modules, settings);
+    // reloads functions when dagger.json or the module source changes
+    const watcher = new ModuleWatcher(modules, settings);
+    context.subscriptions.push(modules, activeModule, watcher);
+    registerActiveModuleStatusBar(context, activeModule);
 
     // Register configuration change listener to reload settings
     context.subscriptions.push(
@@ -54,9 +121,39 @@ export async function activate(context: vscode.ExtensionContext) {
         if (event.affectsConfiguration("dagger")) {
           settings.reload();
         }
+        // switch modules without reloading the window
+        if (event.affectsConfiguration("dagger.contextDirectory")) {
+          activeModule.update();
+        }
+        if (
+          event.affectsConfiguration("dagger.cacheBackend") ||
+          event.affectsConfiguration("dagger.cacheDirectory")
+        ) {
+          promptReload("The Dagger cache changes after reloading the window.");
+        }
       }),
     );
 
+    // commands run in the module they were invoked on, the active module, or a
+    // module picked from the workspace
+    const registerModuleCommand = (
+      command: string,
+      callback: (path: string, target: ModuleCommandTarget) => unknown,
+    ) =>
+      context.subscriptions.push(
+        vscode.commands.registerCommand(
+          command,
+          async (target?: ModuleCommandTarget, modulePath?: string) => {
+            const path = modulePath ?? (await activeModule.resolve(target));
+            if (path === undefined) {
+              return;
+            }
+
+            return callback(path, target);
+          },
+        ),
+      );
+
     // register the install command
     context.subscriptions.push(
       vscode.commands.registerCommand("dagger.install", () =>
@@ -69,15 +166,27 @@ export async function activate(context: vscode.ExtensionContext) {
       ),
     );
     registerCloudCommand(context, daggerCli, settings);
-    context.subscriptions.push(
-      vscode.commands.registerCommand("dagger.call", (treeItem) =>
-        new CallCommand(daggerCli, path, settings).execute(treeItem),
-      ),
-    );
-    context.subscriptions.push(
-      vscode.commands.registerCommand("dagger.develop", () =>
-        new DevelopCommand(daggerCli, path, settings).execute(),
-      ),
+    const registerCallCommand = (command: string, options?: CallOptions) =>
+      registerModuleCommand(command, (path, target) =>
+        new CallCommand(
+          daggerCli,
+          path,
+          settings,
+          presets,
+          history,
+          results,
+          secrets,
+          services,
+          portProfiles,
+          options,
+        ).execute(target instanceof vscode.Uri ? undefined : target),
+      );
+    registerCallCommand("dagger.call");
+    registerCallCommand("dagger.callForm", { useForm: true });
+    registerCallCommand("dagger.callChain", { buildChain: true });
+    registerCallCommand("dagger.callJson", { json: true });
+    registerModuleCommand("dagger.develop", (path) =>
+      new DevelopCommand(daggerCli, path, settings).execute(),
     );
     context.subscriptions.push(
       vscode.commands.registerCommand("dagger.functions", () =>
@@ -85,40 +194,51 @@ export async function activate(context: vscode.ExtensionContext) {
       ),
     );
     context.subscriptions.push(
-      vscode.commands.registerCommand("dagger.init", () =>
-        new InitCommand(daggerCli, path).execute(),
-      ),
+      vscode.commands.registerCommand("dagger.init", async () => {
+        const path = await modules.resolveWorkspaceFolder();
+        if (path !== undefined) {
+          await new InitCommand(daggerCli, path).execute();
+        }
+      }),
     );
-    context.subscriptions.push(
-      vscode.commands.registerCommand("dagger.installModule", () =>
-        new InstallModuleCommand(daggerCli, path).execute(),
-      ),
+    registerModuleCommand("dagger.installModule", (path) =>
+      new InstallModuleCommand(daggerCli, path).execute(),
     );
-    context.subscriptions.push(
-      vscode.commands.registerCommand("dagger.addMcpModule", () =>
-        new McpCommand(daggerCli, path, settings).execute(),
-      ),
+    registerModuleCommand("dagger.addMcpModule", (path) =>
+      new McpCommand(daggerCli, path, settings).execute(),
     );
     context.subscriptions.push(
       vscode.commands.registerCommand("dagger.context", () =>
-        new ContextDirectoryCommand(daggerCli, path, settings).execute(),
+        new ContextDirectoryCommand(activeModule).execute(),
       ),
     );
-    context.subscriptions.push(
-      vscode.commands.registerCommand("dagger.expose", () =>
-        new ExposeCommand(daggerCli, path, settings).execute(),
-      ),
+    registerModuleCommand("dagger.expose", (path) =>
+      new ExposeCommand(
+        daggerCli,
+        path,
+        settings,
+        presets,
+        secrets,
+        services,
+        portProfiles,
+      ).execute(),
     );
-    context.subscriptions.push(
-      vscode.commands.registerCommand("dagger.saveTask", (treeItem) =>
-        new TaskCommand(daggerCli, path).execute(treeItem),
+    registerModuleCommand("dagger.saveTask", (path, target) =>
+      new TaskCommand(daggerCli, path, presets, secrets).execute(
+        target instanceof vscode.Uri ? undefined : target,
       ),
     );
-    context.subscriptions.push(
-      vscode.commands.registerCommand("dagger.shell", () =>
-        new ShellCommand(context, path).execute(),
+    // finds where functions are declared, from introspection or by scanning the source
+    const sourceLocator = new SourceLocator(daggerCli, modules);
+    registerModuleCommand("dagger.revealSource", (path, treeItem) =>
+      new RevealSourceCommand(daggerCli, path, sourceLocator).execute(
+        treeItem instanceof DaggerTreeItem ? treeItem : undefined,
       ),
     );
+    registerTaskDefinitionProvider(context, daggerCli, modules, sourceLocator);
+    registerModuleCommand("dagger.shell", (path) =>
+      new ShellCommand(context, path).execute(),
+    );
     context.subscriptions.push(
       vscode.commands.registerCommand("dagger.uninstall", () =>
         new UninstallCommand(settings).execute(),
@@ -126,30 +246,66 @@ export async function activate(context: vscode.ExtensionContext) {
     );
     context.subscriptions.push(
       vscode.commands.registerCommand("dagger.update", () =>
-        new UpdateCommand(daggerCli, path, settings).execute(),
+        new UpdateCommand(
+          daggerCli,
+          activeModule.defaultPath,
+          settings,
+        ).execute(),
       ),
     );
-    context.subscriptions.push(
-      vscode.commands.registerCommand("dagger.terminal", () =>
-        new TerminalCommand(daggerCli, path, settings).execute(),
+    registerModuleCommand("dagger.terminal", (path, functionInfo) =>
+      new TerminalCommand(daggerCli, path, settings, secrets).execute(
+        isFunctionInfo(functionInfo) ? functionInfo : undefined,
       ),
     );
     context.subscriptions.push(
       vscode.commands.registerCommand("dagger.version", () =>
-        new VersionCommand(daggerCli, path).execute(),
+        new VersionCommand(daggerCli, activeModule.defaultPath).execute(),
       ),
     );
-    context.subscriptions.push(
-      vscode.commands.registerCommand("dagger.graphql", () =>
-        new GraphQLCommand(daggerCli, path).execute(),
-      ),
+    registerModuleCommand("dagger.graphql", (path) =>
+      new GraphQLCommand(daggerCli, path, listenSession).execute(),
+    );
+    registerModuleCommand("dagger.export", (path, functionInfo) =>
+      new ExportCommand(
+        daggerCli,
+        path,
+        settings,
+        presets,
+        history,
+        secrets,
+      ).execute(isFunctionInfo(functionInfo) ? functionInfo : undefined),
     );
+
     context.subscriptions.push(
-      vscode.commands.registerCommand("dagger.export", () =>
-        new ExportCommand(daggerCli, path, settings).execute(),
+      vscode.commands.registerCommand("dagger.secrets", () =>
+        new SecretsCommand(secrets).execute(),
+      ),
+      vscode.commands.registerCommand("dagger.addSecret", () =>
+        addSecret(secrets),
       ),
     );
 
+    // register the @dagger chat participant
+    registerChatParticipant(context, daggerCli, activeModule);
+
+    // register the call history view
+    registerHistoryView(context, {
+      history,
+      presets,
+      daggerCli,
+      secrets,
+      settings,
+    });
+    registerResultView(context, { results });
+    registerServicesView(context, { services, settings, portProfiles });
+    registerListenSession(context, listenSession);
+    registerPlayground(context, {
+      dagger: daggerCli,
+      session: listenSession,
+      activeModule,
+    });
+
     // Check installation status before setting up other commands and views
     const result = await checkInstallation(os.platform());
     if (!result.hasCorrectBinary) {
@@ -158,7 +314,7 @@ export async function activate(context: vscode.ExtensionContext) {
         result,
         settings,
         daggerCli,
-        path,
+        activeModule,
       );
 
       return;
@@ -167,9 +323,11 @@ export async function activate(context: vscode.ExtensionContext) {
     // Register tree view with settings
     registerTreeView(context, {
       daggerCli,
-      path: path,
+      activeModule,
+      watcher,
       registerTreeCommands: true,
       settings,
+      results,
     });
 
     // Show Dagger Shell terminal when opened (including from profile quick pick)
@@ -181,6 +339,12 @@ export async function activate(context: vscode.ExtensionContext) {
       }),
     );
 
+    // run functions from actions above their declaration in the module source
+    registerCodeLensProvider(context, daggerCli, modules, settings, watcher);
+
+    // provide a task for every function and run the dagger tasks in tasks.json
+    registerDaggerTaskProvider(context, daggerCli, modules, settings, secrets);
+
     // register the terminal profile provider
     registerTerminalProvider(context);
 
@@ -200,16 +364,43 @@ export async function activate(context: vscode.ExtensionContext) {
   }
 }
 
+/**
+ * Creates the cache backend chosen in the settings
+ */
+const createCache = (
+  context: vscode.ExtensionContext,
+  settings: DaggerSettingsProvider,
+): IndexedCache => {
+  if (settings.cacheBackend === "filesystem") {
+    return new FileSystemCache(
+      settings.cacheDirectory ||
+        vscode.Uri.joinPath(context.globalStorageUri, "cache").fsPath,
+    );
+  }
+
+  return new VSCodeWorkspaceCache(context.workspaceState);
+};
+
+const promptReload = async (message: string): Promise<void> => {
+  const reload = await vscode.window.showInformationMessage(
+    message,
+    "Reload Window",
+  );
+  if (reload) {
+    await vscode.commands.executeCommand("workbench.action.reloadWindow");
+  }
+};
+
 const handleMissingInstallation = async (
   context: vscode.ExtensionContext,
   installResult: InstallResult,
   settings: DaggerSettingsProvider,
   daggerCli: DaggerCLI,
-  path: string,
+  activeModule: ActiveModule,
 ): Promise<void> => {
   registerTreeView(context, {
     daggerCli,
-    path: path,
+    activeModule,
     registerTreeCommands: false,
     settings,
   });
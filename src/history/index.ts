@@ -0,0 +1,179 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { FunctionInfo } from "../types/types";
+
+const HISTORY_KEY = "dagger.history";
+const MAX_ENTRIES = 100;
+const MAX_OUTPUT_LENGTH = 100_000; // characters kept per entry
+
+/**
+ * A recorded function call
+ */
+export interface HistoryEntry {
+  readonly id: string;
+  readonly functionName: string;
+  readonly moduleName?: string;
+  readonly functionInfo?: FunctionInfo; // used to edit the arguments and re-run
+  readonly argValues: Record<string, string>;
+  readonly commandArgs: string[];
+  readonly commandLine: string;
+  readonly workspacePath: string;
+  readonly exitCode?: number;
+  readonly startedAt: number; // epoch milliseconds
+  readonly duration: number; // milliseconds
+  readonly outputFile?: string; // name of the file the output is kept in, read it with getOutput
+}
+
+/**
+ * A function call to record, with its output
+ */
+export type HistoryRecord = Omit<HistoryEntry, "id" | "outputFile"> & {
+  readonly output?: string;
+};
+
+/**
+ * Stores the history of function calls in the workspace state. The output of
+ * the calls is kept in files, so the state stays small.
+ */
+export class HistoryStore {
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  /**
+   * @param storage The state the entries are stored in
+   * @param outputDirectory The directory the output of the calls is kept in
+   */
+  constructor(
+    private readonly storage: vscode.Memento,
+    private readonly outputDirectory: string,
+  ) {}
+
+  /**
+   * Lists the recorded calls, most recent first
+   */
+  list(): HistoryEntry[] {
+    return this.storage.get<HistoryEntry[]>(HISTORY_KEY, []);
+  }
+
+  /**
+   * Gets a recorded call by ID
+   * @param id The ID of the entry
+   */
+  get(id: string): HistoryEntry | undefined {
+    return this.list().find((entry) => entry.id === id);
+  }
+
+  /**
+   * Reads the output of a recorded call
+   * @param entry The recorded call
+   * @returns The output, undefined if it wasn't captured or is gone
+   */
+  async getOutput(entry: HistoryEntry): Promise<string | undefined> {
+    if (entry.outputFile === undefined) {
+      return undefined;
+    }
+
+    try {
+      return await fs.promises.readFile(
+        path.join(this.outputDirectory, entry.outputFile),
+        "utf8",
+      );
+    } catch (error) {
+      console.error(
+        `Failed to read the output of ${entry.functionName}:`,
+        error,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Records a function call. Only the most recent entries are kept and long output is truncated.
+   * @param record The call to record
+   * @returns The recorded entry
+   */
+  async add(record: HistoryRecord): Promise<HistoryEntry> {
+    const { output, ...entry } = record;
+    const id = crypto.randomUUID();
+    const outputFile =
+      output !== undefined ? await this.writeOutput(id, output) : undefined;
+    const recorded: HistoryEntry = { ...entry, id, outputFile };
+
+    const entries = [recorded, ...this.list()];
+    await this.storage.update(HISTORY_KEY, entries.slice(0, MAX_ENTRIES));
+    await this.deleteOutputs(entries.slice(MAX_ENTRIES));
+    this._onDidChange.fire();
+
+    return recorded;
+  }
+
+  /**
+   * Removes a recorded call
+   * @param id The ID of the entry
+   */
+  async remove(id: string): Promise<void> {
+    const entries = this.list();
+    await this.storage.update(
+      HISTORY_KEY,
+      entries.filter((entry) => entry.id !== id),
+    );
+    await this.deleteOutputs(entries.filter((entry) => entry.id === id));
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Removes all recorded calls
+   */
+  async clear(): Promise<void> {
+    const entries = this.list();
+    await this.storage.update(HISTORY_KEY, undefined);
+    await this.deleteOutputs(entries);
+    this._onDidChange.fire();
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+
+  /**
+   * Writes the output of a call to its file
+   * @returns The name of the file, undefined if it couldn't be written
+   */
+  private async writeOutput(
+    id: string,
+    output: string,
+  ): Promise<string | undefined> {
+    const outputFile = `${id}.log`;
+    const truncated =
+      output.length > MAX_OUTPUT_LENGTH
+        ? `${output.slice(0, MAX_OUTPUT_LENGTH)}\n... output truncated ...`
+        : output;
+    try {
+      await fs.promises.mkdir(this.outputDirectory, { recursive: true });
+      await fs.promises.writeFile(
+        path.join(this.outputDirectory, outputFile),
+        truncated,
+      );
+      return outputFile;
+    } catch (error) {
+      console.error("Failed to store the output of the call:", error);
+      return undefined;
+    }
+  }
+
+  private async deleteOutputs(entries: HistoryEntry[]): Promise<void> {
+    await Promise.all(
+      entries.flatMap(({ outputFile }) =>
+        outputFile !== undefined
+          ? [
+              fs.promises.rm(path.join(this.outputDirectory, outputFile), {
+                force: true,
+              }),
+            ]
+          : [],
+      ),
+    );
+  }
+}
@@ -0,0 +1,272 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import { DaggerCLI } from "../cli";
+import { ManagedProcess } from "../utils/process";
+import { getOutputChannel } from "../output";
+import { findAvailablePort, isPortAvailable } from "../services/ports";
+import { checkTcp } from "../services/probes";
+
+const TOKEN_KEY = "dagger.listen.sessionToken";
+const PROBE_INTERVAL = 1_000; // until the server accepts connections
+
+export const DEFAULT_LISTEN_HOST = "127.0.0.1";
+export const DEFAULT_LISTEN_PORT = 8080;
+
+export type ListenStatus = "starting" | "running" | "stopped" | "failed";
+
+/**
+ * How `dagger listen` is started
+ */
+export interface ListenOptions {
+  readonly workspacePath: string;
+  readonly host: string;
+  readonly port: number; // the next free port is used when it is taken
+  readonly allowCors?: boolean;
+  readonly allowLLM?: string[]; // modules allowed to connect to LLMs, or ["all"]
+}
+
+/**
+ * The GraphQL server started with `dagger listen`
+ */
+export interface ListenState {
+  readonly options: ListenOptions;
+  readonly port: number; // the port the server listens on
+  readonly status: ListenStatus;
+  readonly startedAt: number; // epoch milliseconds
+  readonly exitCode?: number;
+}
+
+/**
+ * Builds the arguments of `dagger listen`
+ * @param options How the server is started
+ * @param port The port to listen on
+ */
+export const buildListenArgs = (
+  options: ListenOptions,
+  port: number,
+): string[] => [
+  "listen",
+  "--listen",
+  `${options.host}:${port}`,
+  ...(options.allowCors ? ["--allow-cors"] : []),
+  ...(options.allowLLM && options.allowLLM.length > 0
+    ? [`--allow-llm=${options.allowLLM.join(",")}`]
+    : []),
+];
+
+/**
+ * Builds the Authorization header of a session, the token is the basic auth user name
+ * @param token The session token
+ */
+export const basicAuthHeader = (token: string): string =>
+  `Basic ${Buffer.from(`${token}:`).toString("base64")}`;
+
+/**
+ * Runs one `dagger listen` server at a time as a process of the extension.
+ * The session token is kept in the secret storage and reused across restarts.
+ */
+export class ListenSession {
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  private current?: ListenState;
+  private process?: ManagedProcess;
+  private timer?: NodeJS.Timeout; // the next check of the port
+
+  /**
+   * @param dagger The CLI the server is started with
+   * @param secrets The secret storage the session token is kept in
+   */
+  constructor(
+    private readonly dagger: DaggerCLI,
+    private readonly secrets: vscode.SecretStorage,
+  ) {}
+
+  /**
+   * The server that was started last, undefined if none was started
+   */
+  get state(): ListenState | undefined {
+    return this.current;
+  }
+
+  /**
+   * The address the server listens on, e.g. 127.0.0.1:8080
+   */
+  get address(): string | undefined {
+    return this.current
+      ? `${this.current.options.host}:${this.current.port}`
+      : undefined;
+  }
+
+  /**
+   * Checks if the server process is running
+   */
+  get running(): boolean {
+    return this.process?.running === true;
+  }
+
+  /**
+   * Gets the session token, DAGGER_SESSION_TOKEN when it is set, otherwise the
+   * stored token, creating one the first time
+   */
+  async getToken(): Promise<string> {
+    if (process.env.DAGGER_SESSION_TOKEN) {
+      return process.env.DAGGER_SESSION_TOKEN;
+    }
+
+    const token = await this.secrets.get(TOKEN_KEY);
+    if (token) {
+      return token;
+    }
+
+    const created = crypto.randomBytes(16).toString("hex");
+    await this.secrets.store(TOKEN_KEY, created);
+    return created;
+  }
+
+  /**
+   * Stores the session token, used the next time the server starts
+   * @param token The session token
+   */
+  async setToken(token: string): Promise<void> {
+    await this.secrets.store(TOKEN_KEY, token);
+  }
+
+  /**
+   * Starts the server, stopping the one that is running
+   * @param options How the server is started
+   * @returns The state of the server
+   */
+  async start(options: ListenOptions): Promise<ListenState> {
+    await this.stop();
+
+    const port = (await isPortAvailable(options.port))
+      ? options.port
+      : ((await findAvailablePort(options.port)) ?? options.port);
+    const args = buildListenArgs(options, port);
+    const token = await this.getToken();
+    const startedAt = Date.now();
+
+    const channel = getOutputChannel();
+    channel.appendLine(
+      `[${new Date(startedAt).toLocaleTimeString()}] $ dagger ${args.join(" ")}`,
+    );
+
+    const state: ListenState = { options, port, status: "starting", startedAt };
+    let handle: ManagedProcess;
+    try {
+      handle = this.dagger.stream(args, {
+        cwd: options.workspacePath,
+        env: { DAGGER_SESSION_TOKEN: token },
+        onStdout: (chunk) => channel.append(chunk),
+        onStderr: (chunk) => channel.append(chunk),
+      });
+    } catch (error) {
+      console.error("Failed to start dagger listen:", error);
+      this.update({ ...state, status: "failed" });
+      return this.current!;
+    }
+
+    this.process = handle;
+    this.update(state);
+    this.waitUntilListening(handle);
+
+    handle.result
+      .then(
+        ({ exitCode, cancelled }) => ({ exitCode, stopped: cancelled }),
+        () => ({ exitCode: 1, stopped: false }),
+      )
+      .then(({ exitCode, stopped }) => {
+        channel.appendLine(
+          `[dagger listen ${stopped ? "stopped" : `exited with code ${exitCode}`}]`,
+        );
+
+        // a restart replaces the process, only the current one updates the state
+        if (this.process === handle) {
+          clearTimeout(this.timer);
+          this.update({
+            ...this.current!,
+            status: stopped || exitCode === 0 ? "stopped" : "failed",
+            exitCode,
+          });
+        }
+      });
+
+    return this.current!;
+  }
+
+  /**
+   * Waits until the server that is starting listens on its port or exits
+   * @returns The state of the server once it is no longer starting
+   */
+  whenStarted(): Promise<ListenState | undefined> {
+    if (this.current?.status !== "starting") {
+      return Promise.resolve(this.current);
+    }
+
+    return new Promise((resolve) => {
+      const listener = this.onDidChange(() => {
+        if (this.current?.status !== "starting") {
+          listener.dispose();
+          resolve(this.current);
+        }
+      });
+    });
+  }
+
+  /**
+   * Stops the server if it is running
+   */
+  async stop(): Promise<void> {
+    clearTimeout(this.timer);
+    const handle = this.process;
+    if (handle?.running) {
+      handle.stop();
+      await handle.result.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Stops the server and starts it again with the same options
+   * @returns The state of the server, undefined if it was never started
+   */
+  async restart(): Promise<ListenState | undefined> {
+    return this.current ? this.start(this.current.options) : undefined;
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.process?.stop();
+    this._onDidChange.dispose();
+  }
+
+  /**
+   * Checks the port until the server accepts connections
+   */
+  private waitUntilListening(handle: ManagedProcess): void {
+    const tick = async () => {
+      if (this.process !== handle || !handle.running) {
+        return;
+      }
+
+      const { options, port } = this.current!;
+      if (await checkTcp(options.host, port)) {
+        if (this.process === handle && handle.running) {
+          this.update({ ...this.current!, status: "running" });
+        }
+        return;
+      }
+
+      if (this.process === handle && handle.running) {
+        this.timer = setTimeout(tick, PROBE_INTERVAL);
+      }
+    };
+
+    void tick();
+  }
+
+  private update(state: ListenState): void {
+    this.current = state;
+    this._onDidChange.fire();
+  }
+}
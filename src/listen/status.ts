@@ -0,0 +1,119 @@
+import * as vscode from "vscode";
+import { basicAuthHeader, ListenSession } from "./session";
+
+const STATUS_BAR_ID = "dagger.listen";
+const STATUS_BAR_PRIORITY = 99; // after the active module
+
+/**
+ * Gets the endpoint GraphQL clients send queries to
+ * @param address The address the server listens on, e.g. 127.0.0.1:8080
+ */
+export const queryEndpoint = (address: string): string =>
+  `http://${address}/query`;
+
+/**
+ * Shows the GraphQL server in the status bar while it runs and registers the
+ * commands to stop, restart and connect to it
+ * @param context The extension context
+ * @param session The GraphQL server session
+ */
+export const registerListenSession = (
+  context: vscode.ExtensionContext,
+  session: ListenSession,
+): void => {
+  const item = vscode.window.createStatusBarItem(
+    STATUS_BAR_ID,
+    vscode.StatusBarAlignment.Left,
+    STATUS_BAR_PRIORITY,
+  );
+  item.name = "Dagger GraphQL Server";
+  item.command = "dagger.graphql.showSession";
+
+  const update = () => {
+    const state = session.state;
+    if (!state || !session.running) {
+      item.hide();
+      return;
+    }
+
+    const starting = state.status === "starting";
+    item.text = `${starting ? "$(loading~spin)" : "$(globe)"} ${session.address}`;
+    item.tooltip = new vscode.MarkdownString(
+      [
+        `**Dagger GraphQL server:** ${starting ? "starting" : "listening"}`,
+        "",
+        `Endpoint: \`${queryEndpoint(session.address!)}\``,
+        "",
+        "Clients authenticate with the session token as the basic auth user name.",
+        "",
+        "Click to copy the token or the Authorization header, restart or stop the server.",
+      ].join("\n"),
+    );
+    item.show();
+  };
+
+  const copyToken = async () => {
+    await vscode.env.clipboard.writeText(await session.getToken());
+    vscode.window.showInformationMessage(
+      "Session token copied to the clipboard.",
+    );
+  };
+
+  update();
+  context.subscriptions.push(
+    item,
+    session.onDidChange(update),
+    vscode.commands.registerCommand("dagger.graphql.stop", async () => {
+      if (!session.running) {
+        vscode.window.showInformationMessage(
+          "The GraphQL server is not running.",
+        );
+        return;
+      }
+
+      await session.stop();
+    }),
+    vscode.commands.registerCommand("dagger.graphql.restart", async () => {
+      if (!(await session.restart())) {
+        vscode.window.showInformationMessage(
+          "The GraphQL server has not been started yet. Run `Dagger: Start GraphQL Server` first.",
+        );
+        return;
+      }
+
+      const state = await session.whenStarted();
+      if (state?.status !== "running") {
+        vscode.window.showErrorMessage(
+          "Failed to restart the GraphQL server. Check the Dagger output for details.",
+        );
+      }
+    }),
+    vscode.commands.registerCommand("dagger.graphql.copyToken", copyToken),
+    vscode.commands.registerCommand("dagger.graphql.showSession", async () => {
+      if (!session.running) {
+        return;
+      }
+
+      const actions: Record<string, () => Thenable<unknown>> = {
+        "$(copy) Copy Endpoint": async () => {
+          await vscode.env.clipboard.writeText(queryEndpoint(session.address!));
+        },
+        "$(key) Copy Token": copyToken,
+        "$(shield) Copy Authorization Header": async () => {
+          await vscode.env.clipboard.writeText(
+            `Authorization: ${basicAuthHeader(await session.getToken())}`,
+          );
+        },
+        "$(debug-restart) Restart Server": () =>
+          vscode.commands.executeCommand("dagger.graphql.restart"),
+        "$(debug-stop) Stop Server": () => session.stop(),
+      };
+      const selected = await vscode.window.showQuickPick(Object.keys(actions), {
+        placeHolder: `GraphQL server on ${session.address}`,
+      });
+      if (selected) {
+        await actions[selected]();
+      }
+    }),
+  );
+};
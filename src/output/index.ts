@@ -0,0 +1,65 @@
+import * as vscode from "vscode";
+import { EXTENSION_NAME } from "../const";
+import { TypeInfo } from "../types/types";
+import { getResultLanguage, getResultView } from "../utils/result-helpers";
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+/**
+ * Gets the shared Dagger output channel, creating it on first use
+ */
+export const getOutputChannel = (): vscode.OutputChannel => {
+  if (!outputChannel) {
+    outputChannel = vscode.window.createOutputChannel(EXTENSION_NAME);
+  }
+
+  return outputChannel;
+};
+
+/**
+ * Disposes the shared output channel
+ */
+export const disposeOutputChannel = (): void => {
+  outputChannel?.dispose();
+  outputChannel = undefined;
+};
+
+/**
+ * Shows the result of a function call based on its return type
+ * @param functionName The name of the function that was called
+ * @param typeInfo The return type of the function
+ * @param output The stdout of the function call
+ */
+export const showFunctionResult = async (
+  functionName: string,
+  typeInfo: TypeInfo,
+  output: string,
+): Promise<void> => {
+  const result = output.trim();
+  if (result === "") {
+    return;
+  }
+
+  switch (getResultView(typeInfo)) {
+    case "editor": {
+      const document = await vscode.workspace.openTextDocument({
+        content: result,
+        language: getResultLanguage(result, typeInfo),
+      });
+      await vscode.window.showTextDocument(document, { preview: false });
+      break;
+    }
+    case "message": {
+      const selection = await vscode.window.showInformationMessage(
+        `\`${functionName}\` returned ${result}`,
+        "Copy",
+      );
+      if (selection === "Copy") {
+        await vscode.env.clipboard.writeText(result);
+      }
+      break;
+    }
+    case "none":
+      break;
+  }
+};
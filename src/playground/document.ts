@@ -0,0 +1,220 @@
+export type OperationKind = "query" | "mutation" | "subscription" | "fragment";
+
+/**
+ * A top level definition of a GraphQL document
+ */
+export interface GraphQLOperation {
+  readonly kind: OperationKind;
+  readonly name?: string;
+  readonly start: number; // offset of the first character
+  readonly end: number; // offset after the closing brace
+  readonly text: string;
+}
+
+/**
+ * A variable declared by an operation, e.g. $path: String!
+ */
+export interface DeclaredVariable {
+  readonly name: string;
+  readonly type: string;
+}
+
+const DEFINITION_PATTERN =
+  /^(query|mutation|subscription|fragment)\b\s*([_A-Za-z][_0-9A-Za-z]*)?/;
+const VARIABLE_PATTERN = /\$([_A-Za-z][_0-9A-Za-z]*)\s*:\s*([^,)=\s]+)/g;
+const VARIABLES_COMMENT = /^#\s*variables\s*:?/i;
+
+/**
+ * Splits a document into its operations and fragments. Comments and strings
+ * are skipped, so braces in them don't end a definition. A definition that
+ * isn't closed yet runs to the end of the document.
+ * @param text The text of the document
+ */
+export const parseOperations = (text: string): GraphQLOperation[] => {
+  const operations: GraphQLOperation[] = [];
+  let depth = 0;
+  let start: number | undefined;
+
+  for (let offset = 0; offset < text.length; offset++) {
+    const char = text[offset];
+    if (char === "#") {
+      offset = lineEnd(text, offset) - 1;
+      continue;
+    }
+    if (char === '"') {
+      offset = stringEnd(text, offset) - 1;
+      continue;
+    }
+    if (depth === 0 && start === undefined && /\S/.test(char)) {
+      start = offset;
+    }
+    if (char === "{") {
+      depth++;
+    } else if (char === "}" && depth > 0 && --depth === 0) {
+      operations.push(toOperation(text, start!, offset + 1));
+      start = undefined;
+    }
+  }
+
+  // the definition that is being typed
+  if (start !== undefined && depth > 0) {
+    operations.push(toOperation(text, start, text.length));
+  }
+
+  return operations;
+};
+
+/**
+ * Finds the operation at an offset, or the one before it when the offset is between operations
+ * @param operations The operations of the document
+ * @param offset The offset, e.g. of the cursor
+ */
+export const findOperation = (
+  operations: readonly GraphQLOperation[],
+  offset: number,
+): GraphQLOperation | undefined => {
+  const runnable = operations.filter(({ kind }) => kind !== "fragment");
+  return (
+    runnable.find(({ start, end }) => offset >= start && offset <= end) ??
+    [...runnable].reverse().find(({ end }) => end <= offset) ??
+    runnable[0]
+  );
+};
+
+/**
+ * Builds the query that is sent for an operation, with the fragments of the
+ * document since only one operation is sent at a time
+ * @param operations The operations of the document
+ * @param operation The operation to run
+ */
+export const buildOperationQuery = (
+  operations: readonly GraphQLOperation[],
+  operation: GraphQLOperation,
+): string =>
+  [
+    operation.text,
+    ...operations
+      .filter(({ kind }) => kind === "fragment")
+      .map(({ text }) => text),
+  ].join("\n\n");
+
+/**
+ * Lists the variables an operation declares
+ * @param operation The operation
+ */
+export const declaredVariables = (
+  operation: GraphQLOperation,
+): DeclaredVariable[] => {
+  const open = operation.text.indexOf("(");
+  const body = operation.text.indexOf("{");
+  if (open < 0 || open > body) {
+    return [];
+  }
+
+  const declarations = operation.text.slice(
+    open,
+    operation.text.indexOf(")", open),
+  );
+  return [...declarations.matchAll(VARIABLE_PATTERN)].map((match) => ({
+    name: match[1],
+    type: match[2],
+  }));
+};
+
+/**
+ * Reads the variables of an operation from the last variables comment
+ * between the previous operation and this one, e.g.
+ *
+ *     # variables: { "path": "." }
+ *     query hostDirectory($path: String!) { ... }
+ *
+ * The JSON can continue on the following comment lines, and fragments can
+ * be declared between the comment and the operation.
+ *
+ * @param text The text of the document
+ * @param operations The operations of the document
+ * @param operation The operation
+ * @returns The variables, undefined if there are none
+ * @throws If the variables aren't a JSON object
+ */
+export const parseVariables = (
+  text: string,
+  operations: readonly GraphQLOperation[],
+  operation: GraphQLOperation,
+): Record<string, unknown> | undefined => {
+  const previous = operations
+    .filter(({ kind, end }) => kind !== "fragment" && end <= operation.start)
+    .pop();
+  const lines = text
+    .slice(previous?.end ?? 0, operation.start)
+    .split(/\r?\n/)
+    .map((line) => line.trim());
+
+  const index = lines.reduce(
+    (found, line, current) => (VARIABLES_COMMENT.test(line) ? current : found),
+    -1,
+  );
+  if (index < 0) {
+    return undefined;
+  }
+
+  const continued = lines.slice(index + 1);
+  const end = continued.findIndex((line) => !line.startsWith("#"));
+  const json = [
+    lines[index].replace(VARIABLES_COMMENT, ""),
+    ...continued
+      .slice(0, end < 0 ? undefined : end)
+      .map((line) => line.slice(1)),
+  ]
+    .join("\n")
+    .trim();
+  const variables = JSON.parse(json);
+  if (
+    typeof variables !== "object" ||
+    variables === null ||
+    Array.isArray(variables)
+  ) {
+    throw new Error("The variables must be a JSON object.");
+  }
+
+  return variables;
+};
+
+const toOperation = (
+  text: string,
+  start: number,
+  end: number,
+): GraphQLOperation => {
+  const definition = text.slice(start, end);
+  const match = DEFINITION_PATTERN.exec(definition);
+  return {
+    kind: (match?.[1] as OperationKind | undefined) ?? "query", // { ... } is a query
+    name: match?.[2],
+    start,
+    end,
+    text: definition,
+  };
+};
+
+const lineEnd = (text: string, offset: number): number => {
+  const end = text.indexOf("\n", offset);
+  return end < 0 ? text.length : end;
+};
+
+const stringEnd = (text: string, offset: number): number => {
+  // block strings end at the next """
+  if (text.startsWith('"""', offset)) {
+    const end = text.indexOf('"""', offset + 3);
+    return end < 0 ? text.length : end + 3;
+  }
+
+  for (let index = offset + 1; index < text.length; index++) {
+    if (text[index] === "\\") {
+      index++;
+    } else if (text[index] === '"' || text[index] === "\n") {
+      return index + 1;
+    }
+  }
+
+  return text.length;
+};
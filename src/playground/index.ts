@@ -0,0 +1,5 @@
+export * from "./document";
+export * from "./provider";
+export * from "./runner";
+export * from "./samples";
+export * from "./schema";
@@ -0,0 +1,397 @@
+import * as vscode from "vscode";
+import { DaggerCLI } from "../cli";
+import { ListenSession } from "../listen";
+import { ActiveModule } from "../workspace";
+import {
+  buildOperationQuery,
+  declaredVariables,
+  findOperation,
+  GraphQLOperation,
+  parseOperations,
+  parseVariables,
+} from "./document";
+import { runQuery } from "./runner";
+import { PLAYGROUND_SAMPLES } from "./samples";
+import {
+  findCompletionTarget,
+  formatTypeRef,
+  GraphQLSchema,
+  introspectionQuery,
+  namedType,
+  parseSchema,
+  SchemaField,
+} from "./schema";
+
+export const PLAYGROUND_LANGUAGE_ID = "dagger-graphql";
+const RESULT_SCHEME = "dagger-playground";
+
+interface PlaygroundConfig {
+  dagger: DaggerCLI;
+  session: ListenSession;
+  activeModule: ActiveModule;
+}
+
+/**
+ * Serves the results of the queries as read-only documents, one per playground document
+ */
+class QueryResultProvider implements vscode.TextDocumentContentProvider {
+  private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private readonly results = new Map<string, string>();
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.results.get(uri.toString()) ?? "";
+  }
+
+  update(uri: vscode.Uri, content: string): void {
+    this.results.set(uri.toString(), content);
+    this._onDidChange.fire(uri);
+  }
+}
+
+/**
+ * Shows Run Query above each operation of a playground document
+ */
+class RunQueryCodeLensProvider implements vscode.CodeLensProvider {
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    return parseOperations(document.getText())
+      .filter(({ kind }) => kind !== "fragment")
+      .map((operation) => {
+        const position = document.positionAt(operation.start);
+        return new vscode.CodeLens(new vscode.Range(position, position), {
+          title: "$(play) Run Query",
+          command: "dagger.playground.run",
+          arguments: [document.uri, operation.start],
+        });
+      });
+  }
+}
+
+/**
+ * Completes fields and arguments from the schema of the module the document belongs to
+ */
+class SchemaCompletionProvider implements vscode.CompletionItemProvider {
+  constructor(
+    private readonly schemaFor: () => Promise<GraphQLSchema | undefined>,
+  ) {}
+
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.CompletionItem[]> {
+    const offset = document.offsetAt(position);
+    const operation = parseOperations(document.getText()).find(
+      ({ start, end }) => offset > start && offset <= end,
+    );
+    const schema = operation ? await this.schemaFor() : undefined;
+    if (!operation || !schema) {
+      return [];
+    }
+
+    const target = findCompletionTarget(schema, operation, offset);
+    switch (target?.kind) {
+      case "field":
+        return (target.type.fields ?? []).map((field) =>
+          toFieldItem(schema, field),
+        );
+      case "argument":
+        return target.field.args
+          .filter((arg) => !target.used.includes(arg.name))
+          .map((arg) => {
+            const item = new vscode.CompletionItem(
+              arg.name,
+              vscode.CompletionItemKind.Property,
+            );
+            item.detail = formatTypeRef(arg.type);
+            item.documentation = arg.description ?? undefined;
+            item.insertText = `${arg.name}: `;
+            return item;
+          });
+      default:
+        return [];
+    }
+  }
+}
+
+/**
+ * Registers the GraphQL playground, `.dagger.graphql` documents whose queries
+ * run against the GraphQL server when it is running or with `dagger query`
+ * @param context The extension context
+ * @param config The CLI, the GraphQL server session and the active module
+ */
+export const registerPlayground = (
+  context: vscode.ExtensionContext,
+  config: PlaygroundConfig,
+): void => {
+  const { dagger, session, activeModule } = config;
+  const results = new QueryResultProvider();
+  // the schema of each module, loaded once
+  const schemas = new Map<string, Promise<GraphQLSchema | undefined>>();
+
+  const loadSchema = (workspacePath: string) => {
+    let schema = schemas.get(workspacePath);
+    if (!schema) {
+      schema = runQuery(dagger, session, workspacePath, introspectionQuery)
+        .then((result) =>
+          result.success ? parseSchema(result.output) : undefined,
+        )
+        .catch((error) => {
+          console.error("Failed to introspect the schema:", error);
+          return undefined;
+        });
+      schemas.set(workspacePath, schema);
+      // failed introspections are retried the next time
+      void schema.then((loaded) => {
+        if (!loaded) {
+          schemas.delete(workspacePath);
+        }
+      });
+    }
+
+    return schema;
+  };
+
+  const selector: vscode.DocumentSelector = {
+    language: PLAYGROUND_LANGUAGE_ID,
+  };
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(
+      RESULT_SCHEME,
+      results,
+    ),
+    vscode.languages.registerCodeLensProvider(
+      selector,
+      new RunQueryCodeLensProvider(),
+    ),
+    vscode.languages.registerCompletionItemProvider(
+      selector,
+      // the active module follows the editor, completion doesn't ask for a module
+      new SchemaCompletionProvider(async () => {
+        const workspacePath = activeModule.current?.path;
+        return workspacePath !== undefined
+          ? loadSchema(workspacePath)
+          : undefined;
+      }),
+      "{",
+      "(",
+    ),
+    vscode.commands.registerCommand("dagger.playground.open", async () => {
+      const sample = await vscode.window.showQuickPick(
+        PLAYGROUND_SAMPLES.map((sample) => ({ ...sample })),
+        { placeHolder: "Select a query to start from" },
+      );
+      if (!sample) {
+        return;
+      }
+
+      const document = await vscode.workspace.openTextDocument({
+        language: PLAYGROUND_LANGUAGE_ID,
+        content: sample.content,
+      });
+      await vscode.window.showTextDocument(document);
+    }),
+    vscode.commands.registerCommand(
+      "dagger.playground.run",
+      async (uri?: vscode.Uri, offset?: unknown) => {
+        const editor = vscode.window.activeTextEditor;
+        const document = uri
+          ? vscode.workspace.textDocuments.find(
+              (document) => document.uri.toString() === uri.toString(),
+            )
+          : editor?.document;
+        if (!document || document.languageId !== PLAYGROUND_LANGUAGE_ID) {
+          vscode.window.showInformationMessage(
+            "Open a Dagger GraphQL document to run a query.",
+          );
+          return;
+        }
+
+        const text = document.getText();
+        const operations = parseOperations(text);
+        // the editor title passes the URI and the editor group, Run Query the offset
+        const cursor =
+          (typeof offset === "number" ? offset : undefined) ??
+          (editor?.document === document
+            ? document.offsetAt(editor.selection.active)
+            : 0);
+        const operation = findOperation(operations, cursor);
+        if (!operation) {
+          vscode.window.showInformationMessage(
+            "The document has no query to run.",
+          );
+          return;
+        }
+
+        const variables = await collectVariables(text, operations, operation);
+        if (!variables) {
+          return;
+        }
+
+        const workspacePath = await activeModule.resolve(document.uri);
+        if (workspacePath === undefined) {
+          return;
+        }
+
+        const name = operation.name ?? "query";
+        const result = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: "Dagger",
+          },
+          async (progress) => {
+            progress.report({ message: `Running \`${name}\`...` });
+            return runQuery(
+              dagger,
+              session,
+              workspacePath,
+              buildOperationQuery(operations, operation),
+              variables,
+            );
+          },
+        );
+
+        const resultUri = vscode.Uri.from({
+          scheme: RESULT_SCHEME,
+          path: `/${name} Result.json`,
+          query: document.uri.toString(),
+        });
+        results.update(resultUri, result.output);
+        const resultDocument = await vscode.languages.setTextDocumentLanguage(
+          await vscode.workspace.openTextDocument(resultUri),
+          "json",
+        );
+        await vscode.window.showTextDocument(resultDocument, {
+          viewColumn: vscode.ViewColumn.Beside,
+          preview: true,
+          preserveFocus: true,
+        });
+        vscode.window.setStatusBarMessage(
+          `$(${result.success ? "check" : "error"}) \`${name}\` ${result.success ? "ran" : "failed"} ${result.via === "session" ? "on the GraphQL server" : "with dagger query"} in ${result.duration} ms`,
+          5_000,
+        );
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dagger.playground.refreshSchema",
+      async () => {
+        schemas.clear();
+        const workspacePath = await activeModule.resolve(
+          vscode.window.activeTextEditor?.document.uri,
+        );
+        if (workspacePath === undefined) {
+          return;
+        }
+
+        const schema = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: "Dagger",
+          },
+          async (progress) => {
+            progress.report({ message: "Loading the GraphQL schema..." });
+            return loadSchema(workspacePath);
+          },
+        );
+        if (!schema) {
+          vscode.window.showErrorMessage(
+            "Failed to load the GraphQL schema. Check the Dagger output for details.",
+          );
+        }
+      },
+    ),
+  );
+};
+
+/**
+ * Gets the variables of an operation from its variables comment, and asks
+ * for the declared variables that are missing
+ * @returns The variables, or undefined if cancelled or the comment is invalid
+ */
+const collectVariables = async (
+  text: string,
+  operations: GraphQLOperation[],
+  operation: GraphQLOperation,
+): Promise<Record<string, unknown> | undefined> => {
+  let variables: Record<string, unknown>;
+  try {
+    variables = parseVariables(text, operations, operation) ?? {};
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Invalid query variables: ${message}`);
+    return undefined;
+  }
+
+  for (const { name, type } of declaredVariables(operation)) {
+    if (name in variables) {
+      continue;
+    }
+
+    const value = await vscode.window.showInputBox({
+      title: `Variable $${name}`,
+      prompt: `Enter the value of $${name} (${type})`,
+      ignoreFocusOut: true,
+    });
+    if (value === undefined) {
+      return undefined;
+    }
+
+    // strings and IDs are taken as is, other types as JSON
+    variables[name] = /^(String|ID|\w+ID)!?$/.test(type)
+      ? value
+      : parseJsonValue(value);
+  }
+
+  return variables;
+};
+
+const parseJsonValue = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const toFieldItem = (
+  schema: GraphQLSchema,
+  field: SchemaField,
+): vscode.CompletionItem => {
+  const item = new vscode.CompletionItem(
+    field.name,
+    vscode.CompletionItemKind.Field,
+  );
+  item.detail = formatTypeRef(field.type);
+  item.documentation = field.description
+    ? new vscode.MarkdownString(field.description)
+    : undefined;
+  if (field.isDeprecated) {
+    item.tags = [vscode.CompletionItemTag.Deprecated];
+  }
+
+  // required arguments and the selection set of objects are inserted as placeholders
+  const required = field.args.filter(
+    (arg) => arg.type.kind === "NON_NULL" && !arg.defaultValue,
+  );
+  const type = schema.types.get(namedType(field.type) ?? "");
+  const hasFields = (type?.fields?.length ?? 0) > 0;
+  if (required.length > 0 || hasFields) {
+    const snippet = new vscode.SnippetString(field.name);
+    if (required.length > 0) {
+      snippet.appendText("(");
+      required.forEach((arg, index) => {
+        snippet.appendText(`${index > 0 ? ", " : ""}${arg.name}: `);
+        snippet.appendPlaceholder("");
+      });
+      snippet.appendText(")");
+    }
+    if (hasFields) {
+      snippet.appendText(" {\n\t");
+      snippet.appendTabstop(0);
+      snippet.appendText("\n}");
+    }
+    item.insertText = snippet;
+  }
+
+  return item;
+};
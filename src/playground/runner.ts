@@ -0,0 +1,138 @@
+import * as http from "http";
+import { DaggerCLI } from "../cli";
+import { basicAuthHeader, ListenSession, queryEndpoint } from "../listen";
+
+const REQUEST_TIMEOUT = 120_000; // milliseconds, queries can build containers
+
+/**
+ * The result of a query sent from the playground
+ */
+export interface QueryResult {
+  readonly success: boolean;
+  readonly output: string; // the JSON the server returned, or the error output
+  readonly via: "session" | "cli"; // the running GraphQL server or `dagger query`
+  readonly duration: number; // milliseconds
+}
+
+/**
+ * Runs a query against the GraphQL server when it is running, otherwise with `dagger query`
+ * @param dagger The CLI to run `dagger query` with
+ * @param session The GraphQL server session
+ * @param workspacePath The module the query runs in when the CLI is used
+ * @param query The query, with the fragments it uses
+ * @param variables The variables of the query
+ */
+export const runQuery = async (
+  dagger: DaggerCLI,
+  session: ListenSession,
+  workspacePath: string,
+  query: string,
+  variables: Record<string, unknown> = {},
+): Promise<QueryResult> => {
+  const startedAt = Date.now();
+
+  if (session.running && session.state?.status === "running") {
+    try {
+      const { status, body } = await postQuery(
+        queryEndpoint(session.address!),
+        await session.getToken(),
+        query,
+        variables,
+      );
+      return {
+        success: status === 200 && !hasErrors(body),
+        output: formatJson(body),
+        via: "session",
+        duration: Date.now() - startedAt,
+      };
+    } catch (error) {
+      console.error("Failed to query the GraphQL server:", error);
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        output: message,
+        via: "session",
+        duration: Date.now() - startedAt,
+      };
+    }
+  }
+
+  // the CLI takes the variables as strings
+  const { exitCode, stdout, stderr } = await dagger.execQuery(
+    query,
+    Object.fromEntries(
+      Object.entries(variables).map(([name, value]) => [
+        name,
+        typeof value === "string" ? value : JSON.stringify(value),
+      ]),
+    ),
+    workspacePath,
+    { reportErrors: false, timeout: REQUEST_TIMEOUT },
+  );
+  return {
+    success: exitCode === 0,
+    output: exitCode === 0 ? formatJson(stdout) : (stderr || stdout).trim(),
+    via: "cli",
+    duration: Date.now() - startedAt,
+  };
+};
+
+/**
+ * Sends a query to the HTTP endpoint of `dagger listen`
+ * @returns The status and the body of the response
+ */
+const postQuery = (
+  endpoint: string,
+  token: string,
+  query: string,
+  variables: Record<string, unknown>,
+): Promise<{ status: number; body: string }> =>
+  new Promise((resolve, reject) => {
+    const payload = JSON.stringify({ query, variables });
+    const request = http.request(
+      endpoint,
+      {
+        method: "POST",
+        timeout: REQUEST_TIMEOUT,
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Length": Buffer.byteLength(payload),
+          Authorization: basicAuthHeader(token),
+        },
+      },
+      (response) => {
+        const chunks: Buffer[] = [];
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("end", () =>
+          resolve({
+            status: response.statusCode ?? 0,
+            body: Buffer.concat(chunks).toString("utf8"),
+          }),
+        );
+        response.on("error", reject);
+      },
+    );
+    request.once("timeout", () =>
+      request.destroy(new Error("The GraphQL server did not respond in time.")),
+    );
+    request.once("error", reject);
+    request.end(payload);
+  });
+
+const hasErrors = (body: string): boolean => {
+  try {
+    const errors = JSON.parse(body)?.errors;
+    return Array.isArray(errors) && errors.length > 0;
+  } catch {
+    return true;
+  }
+};
+
+// results are shown indented, output that isn't JSON is shown as is
+const formatJson = (output: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(output), null, 2);
+  } catch {
+    return output.trim();
+  }
+};
@@ -0,0 +1,47 @@
+import { queryFunctions, queryHostDirectory } from "../cli";
+
+/**
+ * A query the playground can be opened with
+ */
+export interface PlaygroundSample {
+  readonly label: string;
+  readonly description: string;
+  readonly content: string;
+}
+
+/**
+ * The queries the extension runs itself, with variables to run them in the playground
+ */
+export const PLAYGROUND_SAMPLES: readonly PlaygroundSample[] = [
+  {
+    label: "Empty Query",
+    description: "Start from the root of the schema",
+    content: `# Run a query with the Run Query lens or Dagger: Run GraphQL Query.
+# Variables are read from a "# variables:" comment above the query.
+
+query {
+  version
+}
+`,
+  },
+  {
+    label: "Host Directory",
+    description: "The ID of the module directory, as loaded by the extension",
+    content: `# Loads the directory of the module from the host, its ID is the input of
+# the Module Functions sample.
+# variables: { "path": "." }
+
+${queryHostDirectory}
+`,
+  },
+  {
+    label: "Module Functions",
+    description: "The functions of a module, as listed in the Functions view",
+    content: `# Lists the functions of the module in a directory. Run the Host Directory
+# sample first and paste the directory ID below.
+# variables: { "id": "<DirectoryID>" }
+
+${queryFunctions}
+`,
+  },
+];
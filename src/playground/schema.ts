@@ -0,0 +1,258 @@
+import { GraphQLOperation } from "./document";
+
+/**
+ * Introspects the types of the schema with their fields and arguments, the
+ * schema includes the types of the module the query runs in
+ */
+export const introspectionQuery = `fragment TypeRef on __Type {
+  kind
+  name
+  ofType {
+    kind
+    name
+    ofType {
+      kind
+      name
+      ofType {
+        kind
+        name
+      }
+    }
+  }
+}
+
+query introspection {
+  __schema {
+    queryType {
+      name
+    }
+    mutationType {
+      name
+    }
+    types {
+      kind
+      name
+      description
+      fields {
+        name
+        description
+        isDeprecated
+        args {
+          name
+          description
+          defaultValue
+          type {
+            ...TypeRef
+          }
+        }
+        type {
+          ...TypeRef
+        }
+      }
+    }
+  }
+}`;
+
+/**
+ * A reference to a type, wrapped in NON_NULL and LIST
+ */
+export interface SchemaTypeRef {
+  readonly kind: string;
+  readonly name: string | null;
+  readonly ofType?: SchemaTypeRef | null;
+}
+
+export interface SchemaArgument {
+  readonly name: string;
+  readonly description?: string | null;
+  readonly defaultValue?: string | null;
+  readonly type: SchemaTypeRef;
+}
+
+export interface SchemaField {
+  readonly name: string;
+  readonly description?: string | null;
+  readonly isDeprecated?: boolean;
+  readonly args: SchemaArgument[];
+  readonly type: SchemaTypeRef;
+}
+
+export interface SchemaType {
+  readonly kind: string;
+  readonly name: string;
+  readonly description?: string | null;
+  readonly fields?: SchemaField[] | null;
+}
+
+/**
+ * The introspected schema, with the types by name
+ */
+export interface GraphQLSchema {
+  readonly queryType: string;
+  readonly mutationType?: string;
+  readonly types: ReadonlyMap<string, SchemaType>;
+}
+
+/**
+ * What can be completed at a position of an operation
+ */
+export type CompletionTarget =
+  | { readonly kind: "field"; readonly type: SchemaType }
+  | {
+      readonly kind: "argument";
+      readonly field: SchemaField;
+      readonly used: string[]; // arguments that are already set
+    };
+
+/**
+ * Parses the result of {@link introspectionQuery}
+ * @param output The JSON output of the query
+ * @returns The schema, or undefined if the output isn't an introspection result
+ */
+export const parseSchema = (output: string): GraphQLSchema | undefined => {
+  let result: unknown;
+  try {
+    result = JSON.parse(output);
+  } catch {
+    return undefined;
+  }
+
+  // dagger query prints the data, the HTTP endpoint wraps it in data
+  const data = isRecord(result) && isRecord(result.data) ? result.data : result;
+  const schema = isRecord(data) ? data.__schema : undefined;
+  if (
+    !isRecord(schema) ||
+    !isRecord(schema.queryType) ||
+    typeof schema.queryType.name !== "string" ||
+    !Array.isArray(schema.types)
+  ) {
+    return undefined;
+  }
+
+  return {
+    queryType: schema.queryType.name,
+    mutationType:
+      isRecord(schema.mutationType) &&
+      typeof schema.mutationType.name === "string"
+        ? schema.mutationType.name
+        : undefined,
+    types: new Map(
+      (schema.types as SchemaType[]).map((type) => [type.name, type]),
+    ),
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Gets the name of the type a reference points to, without NON_NULL and LIST
+ */
+export const namedType = (ref: SchemaTypeRef): string | undefined =>
+  ref.name ?? (ref.ofType ? namedType(ref.ofType) : undefined);
+
+/**
+ * Formats a type reference as it is written in GraphQL, e.g. [String!]!
+ */
+export const formatTypeRef = (ref: SchemaTypeRef): string => {
+  switch (ref.kind) {
+    case "NON_NULL":
+      return `${ref.ofType ? formatTypeRef(ref.ofType) : "?"}!`;
+    case "LIST":
+      return `[${ref.ofType ? formatTypeRef(ref.ofType) : "?"}]`;
+    default:
+      return ref.name ?? "?";
+  }
+};
+
+/**
+ * Finds what can be completed at an offset of an operation, by following the
+ * fields that are selected from the root type down to the cursor
+ * @param schema The schema
+ * @param operation The operation the cursor is in
+ * @param offset The offset of the cursor in the document
+ * @returns The target, or undefined if nothing can be completed there
+ */
+export const findCompletionTarget = (
+  schema: GraphQLSchema,
+  operation: GraphQLOperation,
+  offset: number,
+): CompletionTarget | undefined => {
+  const text = operation.text.slice(0, offset - operation.start);
+  const root =
+    operation.kind === "fragment"
+      ? /^fragment\s+\w+\s+on\s+(\w+)/.exec(operation.text)?.[1]
+      : operation.kind === "mutation"
+        ? schema.mutationType
+        : schema.queryType;
+
+  // the type of each selection set the cursor is in, and the field being selected
+  const stack: (SchemaType | undefined)[] = [];
+  const type = root ? schema.types.get(root) : undefined;
+  let last: SchemaField | undefined; // the last field of the selection set
+  let condition: string | undefined; // the type of an inline fragment, ... on Container
+  let spread = false; // after ... on
+  let args: { field?: SchemaField; start: number } | undefined;
+  let header = true; // before the selection set of the operation
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (char === "#") {
+      const end = text.indexOf("\n", index);
+      if (end < 0) {
+        return undefined; // in a comment
+      }
+      index = end;
+    } else if (char === '"') {
+      const end = text.indexOf('"', index + 1);
+      if (end < 0) {
+        return undefined; // in a string
+      }
+      index = end;
+    } else if (char === "(") {
+      args = { field: header ? undefined : last, start: index + 1 };
+    } else if (char === ")") {
+      args = undefined;
+    } else if (char === "{" && !args) {
+      if (header) {
+        header = false;
+        stack.push(type);
+      } else {
+        const name = condition ?? (last ? namedType(last.type) : undefined);
+        stack.push(name ? schema.types.get(name) : undefined);
+      }
+      last = undefined;
+      condition = undefined;
+    } else if (char === "}" && !args) {
+      stack.pop();
+      last = undefined;
+    } else if (!header && !args && /[_A-Za-z]/.test(char)) {
+      const name = /^[_A-Za-z][_0-9A-Za-z]*/.exec(text.slice(index))![0];
+      const alias = /^\s*:/.test(text.slice(index + name.length));
+      if (spread) {
+        condition = name;
+        spread = false;
+      } else if (name === "on" && /\.\.\.\s*$/.test(text.slice(0, index))) {
+        spread = true;
+      } else if (index + name.length < text.length && !alias) {
+        last = stack[stack.length - 1]?.fields?.find(
+          (field) => field.name === name,
+        );
+      }
+      index += name.length - 1;
+    }
+  }
+
+  if (args) {
+    if (!args.field) {
+      return undefined; // the variables of the operation
+    }
+    const used = [
+      ...text.slice(args.start).matchAll(/([_A-Za-z][_0-9A-Za-z]*)\s*:/g),
+    ].map((match) => match[1]);
+    return { kind: "argument", field: args.field, used };
+  }
+
+  const current = stack[stack.length - 1];
+  return !header && current ? { kind: "field", type: current } : undefined;
+};
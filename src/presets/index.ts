@@ -0,0 +1,92 @@
+import * as vscode from "vscode";
+import { FunctionInfo } from "../types/types";
+
+const PRESETS_KEY_PREFIX = "dagger.presets";
+
+/**
+ * A named set of argument values for a function
+ */
+export interface ArgumentPreset {
+  readonly name: string;
+  readonly argValues: Record<string, string>;
+  readonly updatedAt: number; // epoch milliseconds
+}
+
+/**
+ * Stores named argument presets per function in the workspace state
+ */
+export class PresetStore {
+  constructor(private readonly storage: vscode.Memento) {}
+
+  /**
+   * Lists the presets saved for a function, most recently updated first
+   * @param functionInfo The function to list presets for
+   * @returns The saved presets
+   */
+  list(functionInfo: FunctionInfo): ArgumentPreset[] {
+    const presets = this.storage.get<ArgumentPreset[]>(
+      this.key(functionInfo),
+      [],
+    );
+
+    return [...presets].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Gets a preset by name
+   * @param functionInfo The function the preset belongs to
+   * @param name The name of the preset
+   * @returns The preset or undefined if not found
+   */
+  get(functionInfo: FunctionInfo, name: string): ArgumentPreset | undefined {
+    return this.list(functionInfo).find((preset) => preset.name === name);
+  }
+
+  /**
+   * Saves a preset, replacing any existing preset with the same name
+   * @param functionInfo The function the preset belongs to
+   * @param name The name of the preset
+   * @param argValues The argument values to store
+   */
+  async save(
+    functionInfo: FunctionInfo,
+    name: string,
+    argValues: Record<string, string>,
+  ): Promise<void> {
+    const presets = this.list(functionInfo).filter(
+      (preset) => preset.name !== name,
+    );
+    presets.push({ name, argValues: { ...argValues }, updatedAt: Date.now() });
+
+    await this.storage.update(this.key(functionInfo), presets);
+  }
+
+  /**
+   * Removes a preset
+   * @param functionInfo The function the preset belongs to
+   * @param name The name of the preset
+   */
+  async remove(functionInfo: FunctionInfo, name: string): Promise<void> {
+    const presets = this.list(functionInfo).filter(
+      (preset) => preset.name !== name,
+    );
+
+    await this.storage.update(
+      this.key(functionInfo),
+      presets.length > 0 ? presets : undefined,
+    );
+  }
+
+  /**
+   * Presets are keyed by the full call path of the function so functions with
+   * the same name in different modules do not share presets
+   */
+  private key(functionInfo: FunctionInfo): string {
+    return [
+      PRESETS_KEY_PREFIX,
+      functionInfo.parentModule ?? "",
+      functionInfo.module ?? "",
+      functionInfo.name,
+    ].join(":");
+  }
+}
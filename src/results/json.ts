@@ -0,0 +1,76 @@
+/**
+ * A property of an object or an element of an array in a JSON result
+ */
+export interface JsonEntry {
+  readonly key: string; // property name, or the index of array elements
+  readonly value: unknown;
+  readonly path: string; // e.g. $.containers[0].name
+}
+
+/**
+ * Parses the output of a call with --json
+ * @param output The stdout of the call
+ * @returns The parsed value, or undefined if the output isn't JSON
+ */
+export const parseJsonOutput = (output: string): unknown => {
+  const trimmed = output.trim();
+  if (trimmed === "") {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Checks if a value has entries that can be expanded, i.e. objects and arrays
+ */
+export const isJsonContainer = (
+  value: unknown,
+): value is Record<string, unknown> | unknown[] =>
+  typeof value === "object" && value !== null;
+
+/**
+ * Lists the properties of an object or the elements of an array
+ * @param value The value to list the entries of
+ * @param path The path of the value, $ for the result itself
+ */
+export const jsonEntries = (value: unknown, path = "$"): JsonEntry[] => {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => ({
+      key: String(index),
+      value: item,
+      path: `${path}[${index}]`,
+    }));
+  }
+  if (isJsonContainer(value)) {
+    return Object.entries(value).map(([key, item]) => ({
+      key,
+      value: item,
+      path: /^[A-Za-z_$][\w$]*$/.test(key)
+        ? `${path}.${key}`
+        : `${path}[${JSON.stringify(key)}]`,
+    }));
+  }
+
+  return [];
+};
+
+/**
+ * Describes a value in one line, e.g. {3 properties}, [2 items] or "text"
+ * @param value The value to describe
+ */
+export const describeJsonValue = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.length} ${value.length === 1 ? "item" : "items"}]`;
+  }
+  if (isJsonContainer(value)) {
+    const count = Object.keys(value).length;
+    return `{${count} ${count === 1 ? "property" : "properties"}}`;
+  }
+
+  return JSON.stringify(value) ?? "undefined";
+};
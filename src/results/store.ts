@@ -0,0 +1,114 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+
+const PINNED_KEY = "dagger.pinnedResults";
+
+/**
+ * The JSON result of a function call
+ */
+export interface FunctionResult {
+  readonly id: string;
+  readonly functionName: string;
+  readonly functionPath: string; // how the function is called, e.g. "sub test"
+  readonly workspacePath: string; // the module the function belongs to
+  readonly commandLine: string;
+  readonly json: string; // formatted JSON
+  readonly createdAt: number; // epoch milliseconds
+}
+
+/**
+ * Keeps the latest JSON result in memory, and the results pinned to a
+ * function in the workspace state
+ */
+export class ResultStore {
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  private latestResult?: FunctionResult;
+
+  constructor(private readonly storage: vscode.Memento) {}
+
+  /**
+   * The result of the most recent call
+   */
+  get latest(): FunctionResult | undefined {
+    return this.latestResult;
+  }
+
+  /**
+   * Records the result of a call as the latest result
+   * @param result The result without its ID
+   * @returns The recorded result
+   */
+  add(result: Omit<FunctionResult, "id">): FunctionResult {
+    this.latestResult = { ...result, id: crypto.randomUUID() };
+    this._onDidChange.fire();
+
+    return this.latestResult;
+  }
+
+  /**
+   * Gets the latest or a pinned result by ID
+   * @param id The ID of the result
+   */
+  get(id: string): FunctionResult | undefined {
+    return this.latestResult?.id === id
+      ? this.latestResult
+      : this.listPinned().find((result) => result.id === id);
+  }
+
+  /**
+   * Lists the pinned results, one per function
+   */
+  listPinned(): FunctionResult[] {
+    return this.storage.get<FunctionResult[]>(PINNED_KEY, []);
+  }
+
+  /**
+   * Gets the result pinned to a function
+   * @param workspacePath The module the function belongs to
+   * @param functionPath How the function is called, e.g. "sub test"
+   */
+  pinned(
+    workspacePath: string,
+    functionPath: string,
+  ): FunctionResult | undefined {
+    return this.listPinned().find(
+      (result) =>
+        result.workspacePath === workspacePath &&
+        result.functionPath === functionPath,
+    );
+  }
+
+  /**
+   * Pins a result to its function, replacing the result pinned before
+   * @param result The result to pin
+   */
+  async pin(result: FunctionResult): Promise<void> {
+    await this.storage.update(PINNED_KEY, [
+      result,
+      ...this.listPinned().filter(
+        (pinned) =>
+          pinned.workspacePath !== result.workspacePath ||
+          pinned.functionPath !== result.functionPath,
+      ),
+    ]);
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Removes a pinned result
+   * @param id The ID of the result
+   */
+  async unpin(id: string): Promise<void> {
+    await this.storage.update(
+      PINNED_KEY,
+      this.listPinned().filter((result) => result.id !== id),
+    );
+    this._onDidChange.fire();
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+}
@@ -0,0 +1,134 @@
+import * as vscode from "vscode";
+
+const SECRET_KEY_PREFIX = "dagger.secret:";
+const NAMES_KEY = "dagger.secretNames"; // only the names, the values are in the secret storage
+
+// secrets are passed as environment variables, so their names must be valid ones
+export const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// env:NAME or env://NAME, also inside quotes or after --flag=
+const ENV_REFERENCE_PATTERN =
+  /(?:^|[\s"'=])env:(?:\/\/)?([A-Za-z_][A-Za-z0-9_]*)/g;
+
+/**
+ * Gets the reference `dagger call` reads a stored secret from
+ * @param name The name of the secret
+ */
+export const secretReference = (name: string): string => `env:${name}`;
+
+/**
+ * Finds the environment variables referenced by secret arguments
+ * @param values Command arguments or argument values, e.g. --token env:GITHUB_TOKEN
+ * @returns The names of the variables, without duplicates
+ */
+export const findSecretReferences = (values: Iterable<unknown>): string[] => {
+  const names = new Set<string>();
+  for (const value of values) {
+    const items = Array.isArray(value) ? value : [value];
+    for (const item of items) {
+      if (typeof item !== "string") {
+        continue;
+      }
+      for (const match of item.matchAll(ENV_REFERENCE_PATTERN)) {
+        names.add(match[1]);
+      }
+    }
+  }
+
+  return [...names];
+};
+
+/**
+ * Stores secrets in the VS Code secret storage. Calls reference them with
+ * env:NAME and the values are passed as environment variables of the call,
+ * so they are never written to tasks.json, the history or presets.
+ */
+export class SecretStore {
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  /**
+   * @param secrets The secret storage of the extension
+   * @param state The global state the names of the secrets are listed in
+   */
+  constructor(
+    private readonly secrets: vscode.SecretStorage,
+    private readonly state: vscode.Memento,
+  ) {}
+
+  /**
+   * Lists the names of the stored secrets, sorted
+   */
+  list(): string[] {
+    return [...this.state.get<string[]>(NAMES_KEY, [])].sort();
+  }
+
+  /**
+   * Gets the value of a secret
+   * @param name The name of the secret
+   */
+  async get(name: string): Promise<string | undefined> {
+    return this.secrets.get(`${SECRET_KEY_PREFIX}${name}`);
+  }
+
+  /**
+   * Stores a secret, replacing the value of a secret with the same name
+   * @param name The name of the secret, also the name of its environment variable
+   * @param value The value of the secret
+   */
+  async set(name: string, value: string): Promise<void> {
+    if (!SECRET_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid secret name ${name}, use letters, numbers and underscores`,
+      );
+    }
+
+    await this.secrets.store(`${SECRET_KEY_PREFIX}${name}`, value);
+    if (!this.list().includes(name)) {
+      await this.state.update(NAMES_KEY, [...this.list(), name]);
+    }
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Deletes a secret
+   * @param name The name of the secret
+   */
+  async delete(name: string): Promise<void> {
+    await this.secrets.delete(`${SECRET_KEY_PREFIX}${name}`);
+    await this.state.update(
+      NAMES_KEY,
+      this.list().filter((stored) => stored !== name),
+    );
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Gets the environment variables for the stored secrets a call references,
+   * references to other variables are left to the environment
+   * @param values The command arguments or argument values of the call
+   * @returns The variables to add to the environment of the call
+   */
+  async environment(
+    values: Iterable<unknown>,
+  ): Promise<Record<string, string>> {
+    const stored = new Set(this.list());
+    const environment: Record<string, string> = {};
+    for (const name of findSecretReferences(values)) {
+      if (!stored.has(name)) {
+        continue;
+      }
+
+      const value = await this.get(name);
+      if (value !== undefined) {
+        environment[name] = value;
+      }
+    }
+
+    return environment;
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+}
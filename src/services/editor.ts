@@ -0,0 +1,287 @@
+import * as vscode from "vscode";
+import {
+  findAvailablePort,
+  formatPortMapping,
+  isPortAvailable,
+  isSameHostPort,
+  isValidPort,
+  PortMapping,
+  PortProtocol,
+} from "./ports";
+import { PortProfileStore } from "./profiles";
+import { FunctionInfo } from "../types/types";
+import { functionPath } from "../tasks";
+
+const DEFAULT_PORTS: readonly PortMapping[] = [{ host: 8080, container: 8080 }];
+
+interface PortQuickPickItem extends vscode.QuickPickItem {
+  action: "done" | "add" | "findFree" | "edit";
+  index?: number; // the row to edit
+}
+
+type RowAction = "host" | "container" | "protocol" | "findFree" | "remove";
+
+/**
+ * Asks for the ports to expose a function with, starting from the ports it
+ * was last exposed with
+ * @param profiles The saved ports of each function
+ * @param workspacePath The module the function belongs to
+ * @param functionInfo The function that starts the service
+ * @returns The mappings, or undefined if cancelled
+ */
+export const askForServicePorts = (
+  profiles: PortProfileStore,
+  workspacePath: string,
+  functionInfo: FunctionInfo,
+): Promise<PortMapping[] | undefined> =>
+  editPortMappings(
+    functionInfo.name,
+    profiles.get(workspacePath, functionPath(functionInfo)) ?? DEFAULT_PORTS,
+  );
+
+/**
+ * Edits the port mappings of a service as rows of host port, container port
+ * and protocol. Host ports that are in use are marked and can be moved to a
+ * free port.
+ *
+ * @param functionName The function that starts the service
+ * @param initial The mappings to start with, e.g. the ones the function was last exposed with
+ * @returns The mappings, or undefined if cancelled
+ */
+export const editPortMappings = async (
+  functionName: string,
+  initial: readonly PortMapping[],
+): Promise<PortMapping[] | undefined> => {
+  const title = `Ports: ${functionName}`;
+  const rows = [...initial];
+
+  for (;;) {
+    const inUse = await Promise.all(
+      rows.map(
+        async (mapping) =>
+          !(await isPortAvailable(mapping.host, mapping.protocol)),
+      ),
+    );
+
+    const items: PortQuickPickItem[] = [
+      {
+        label: "$(check) Done",
+        description:
+          rows.length > 0
+            ? rows.map(formatPortMapping).join(", ")
+            : "no ports mapped to the host",
+        action: "done",
+      },
+      { label: "$(add) Add Port Mapping...", action: "add" },
+      ...(inUse.some(Boolean)
+        ? [
+            {
+              label: "$(search) Find Free Host Ports",
+              description: "for the ports in use",
+              action: "findFree" as const,
+            },
+          ]
+        : []),
+      ...(rows.length > 0
+        ? [
+            {
+              label: "Mappings",
+              kind: vscode.QuickPickItemKind.Separator,
+              action: "edit" as const,
+            },
+          ]
+        : []),
+      ...rows.map((mapping, index) => ({
+        label: `${inUse[index] ? "$(warning)" : "$(plug)"} localhost:${mapping.host} → ${mapping.container}`,
+        description: [
+          (mapping.protocol ?? "tcp").toUpperCase(),
+          inUse[index] ? "host port in use" : undefined,
+        ]
+          .filter(Boolean)
+          .join(" · "),
+        action: "edit" as const,
+        index,
+      })),
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+      title,
+      placeHolder: "Select a mapping to edit, or Done to use these ports",
+      ignoreFocusOut: true,
+    });
+    if (!picked) {
+      return undefined;
+    }
+
+    switch (picked.action) {
+      case "done":
+        return rows;
+      case "add": {
+        const mapping = await askForNewMapping(title, rows);
+        if (mapping) {
+          rows.push(mapping);
+        }
+        break;
+      }
+      case "findFree":
+        for (const [index, mapping] of rows.entries()) {
+          if (inUse[index]) {
+            rows[index] = (await withFreeHostPort(mapping, rows)) ?? mapping;
+          }
+        }
+        break;
+      case "edit":
+        await editRow(title, rows, picked.index!);
+        break;
+    }
+  }
+};
+
+/**
+ * Prompts for the container port of a new mapping, and the host port it is mapped to
+ */
+const askForNewMapping = async (
+  title: string,
+  rows: readonly PortMapping[],
+): Promise<PortMapping | undefined> => {
+  const container = await askForPort(
+    title,
+    "Enter the port the service listens on",
+    undefined,
+  );
+  if (container === undefined) {
+    return undefined;
+  }
+
+  const host = await askForPort(
+    title,
+    `Enter the host port that forwards to ${container}`,
+    String(container),
+    (port) =>
+      rows.some((row) => isSameHostPort(row, { host: port, container }))
+        ? `Host port ${port} is already mapped.`
+        : undefined,
+  );
+  if (host === undefined) {
+    return undefined;
+  }
+
+  return { host, container };
+};
+
+/**
+ * Edits the host port, container port or protocol of a row, or removes it
+ */
+const editRow = async (
+  title: string,
+  rows: PortMapping[],
+  index: number,
+): Promise<void> => {
+  const mapping = rows[index];
+  const protocol: PortProtocol = mapping.protocol === "udp" ? "tcp" : "udp";
+  const picked = await vscode.window.showQuickPick(
+    [
+      { label: "Change Host Port", action: "host" as RowAction },
+      { label: "Change Container Port", action: "container" as RowAction },
+      {
+        label: `Use ${protocol.toUpperCase()}`,
+        action: "protocol" as RowAction,
+      },
+      { label: "Find a Free Host Port", action: "findFree" as RowAction },
+      { label: "Remove", action: "remove" as RowAction },
+    ],
+    { title, placeHolder: formatPortMapping(mapping) },
+  );
+
+  const others = rows.filter((_, row) => row !== index);
+  switch (picked?.action) {
+    case "host": {
+      const host = await askForPort(
+        title,
+        `Enter the host port that forwards to ${mapping.container}`,
+        String(mapping.host),
+        (port) =>
+          others.some((row) => isSameHostPort(row, { ...mapping, host: port }))
+            ? `Host port ${port} is already mapped.`
+            : undefined,
+      );
+      if (host !== undefined) {
+        rows[index] = { ...mapping, host };
+      }
+      break;
+    }
+    case "container": {
+      const container = await askForPort(
+        title,
+        `Enter the port the service listens on, forwarded from ${mapping.host}`,
+        String(mapping.container),
+      );
+      if (container !== undefined) {
+        rows[index] = { ...mapping, container };
+      }
+      break;
+    }
+    case "protocol":
+      if (others.some((row) => isSameHostPort(row, { ...mapping, protocol }))) {
+        vscode.window.showWarningMessage(
+          `Host port ${mapping.host} is already mapped with ${protocol.toUpperCase()}.`,
+        );
+        break;
+      }
+      rows[index] =
+        protocol === "udp"
+          ? { ...mapping, protocol }
+          : { host: mapping.host, container: mapping.container };
+      break;
+    case "findFree":
+      rows[index] = (await withFreeHostPort(mapping, rows)) ?? mapping;
+      break;
+    case "remove":
+      rows.splice(index, 1);
+      break;
+  }
+};
+
+/**
+ * Moves a mapping to the next free host port that no other row uses
+ */
+const withFreeHostPort = async (
+  mapping: PortMapping,
+  rows: readonly PortMapping[],
+): Promise<PortMapping | undefined> => {
+  const taken = new Set(
+    rows
+      .filter((row) => (row.protocol ?? "tcp") === (mapping.protocol ?? "tcp"))
+      .map((row) => row.host),
+  );
+  const host = await findAvailablePort(mapping.host, taken, mapping.protocol);
+  if (host === undefined) {
+    vscode.window.showErrorMessage(
+      `No free host port found after ${mapping.host}.`,
+    );
+    return undefined;
+  }
+
+  return { ...mapping, host };
+};
+
+const askForPort = async (
+  title: string,
+  prompt: string,
+  value: string | undefined,
+  validate?: (port: number) => string | undefined,
+): Promise<number | undefined> => {
+  const input = await vscode.window.showInputBox({
+    title,
+    prompt,
+    value,
+    placeHolder: "8080",
+    ignoreFocusOut: true,
+    validateInput: (text) =>
+      /^\d+$/.test(text.trim()) && isValidPort(Number(text))
+        ? validate?.(Number(text))
+        : "Enter a port between 1 and 65535.",
+  });
+
+  return input ? Number(input) : undefined;
+};
@@ -0,0 +1,6 @@
+export * from "./editor";
+export * from "./launch";
+export * from "./manager";
+export * from "./ports";
+export * from "./probes";
+export * from "./profiles";
@@ -0,0 +1,176 @@
+import * as vscode from "vscode";
+import {
+  PortConflict,
+  ServiceDefinition,
+  ServiceInfo,
+  ServiceManager,
+} from "./manager";
+import { findAvailablePort, formatPortMapping, PortMapping } from "./ports";
+import { PortProfileStore } from "./profiles";
+import { ContainerType } from "../types/types";
+import { DaggerChainCall, functionPath } from "../tasks";
+
+/**
+ * Starts a service after checking that its host ports are free. When a port
+ * is taken the user can stop the service using it, map the next free port, or
+ * start anyway.
+ *
+ * @param services The service manager
+ * @param definition The call that starts the service and its port mappings
+ * @param profiles Where to remember the ports the service started with
+ * @returns The started service or undefined if cancelled
+ */
+export const startService = async (
+  services: ServiceManager,
+  definition: ServiceDefinition,
+  profiles?: PortProfileStore,
+): Promise<ServiceInfo | undefined> => {
+  const ports = await resolvePortConflicts(services, definition.ports);
+  if (!ports) {
+    return undefined;
+  }
+
+  const service = await services.start({ ...definition, ports });
+  if (service.status === "failed") {
+    vscode.window.showErrorMessage(
+      `Failed to start the service of \`${definition.functionName}\`. Check the Dagger output for details.`,
+    );
+  } else {
+    await saveServicePorts(profiles, service);
+  }
+
+  return service;
+};
+
+/**
+ * Remembers the ports of a service as the default of its function
+ * @param profiles The saved ports of each function
+ * @param service The service
+ */
+export const saveServicePorts = async (
+  profiles: PortProfileStore | undefined,
+  service: ServiceInfo,
+): Promise<void> => {
+  await profiles?.save({
+    workspacePath: service.workspacePath,
+    functionPath: service.functionInfo
+      ? functionPath(service.functionInfo)
+      : service.functionName,
+    ports: service.ports,
+  });
+};
+
+/**
+ * Builds the calls a saved task makes on the result of a function to run it
+ * as a service with the given ports, `as-service up` for containers
+ * @param returnType The return type of the function
+ * @param ports The port mappings of the service
+ */
+export const serviceTaskChain = (
+  returnType: string,
+  ports: readonly PortMapping[],
+): (string | DaggerChainCall)[] => {
+  const up: DaggerChainCall = {
+    function: "up",
+    ...(ports.length > 0
+      ? { args: { ports: ports.map(formatPortMapping) } }
+      : {}),
+  };
+
+  return returnType === ContainerType ? ["as-service", up] : [up];
+};
+
+/**
+ * Checks the host ports of a service and asks how to resolve the conflicts
+ * @param services The service manager
+ * @param ports The port mappings of the service
+ * @param ignore The ID of a service whose ports don't count, e.g. the one being restarted
+ * @returns The port mappings to use or undefined if cancelled
+ */
+export const resolvePortConflicts = async (
+  services: ServiceManager,
+  ports: PortMapping[],
+  ignore?: string,
+): Promise<PortMapping[] | undefined> => {
+  const conflicts = await services.findConflicts(ports, ignore);
+  if (conflicts.length === 0) {
+    return ports;
+  }
+
+  const owners = [
+    ...new Map(
+      conflicts.flatMap(({ service }) =>
+        service ? [[service.id, service] as const] : [],
+      ),
+    ).values(),
+  ];
+  const actions = [
+    ...(owners.length > 0
+      ? [owners.length === 1 ? "Stop Service" : "Stop Services"]
+      : []),
+    "Use Free Ports",
+    "Start Anyway",
+  ];
+
+  const selected = await vscode.window.showWarningMessage(
+    describeConflicts(conflicts),
+    { modal: true },
+    ...actions,
+  );
+  switch (selected) {
+    case "Stop Service":
+    case "Stop Services":
+      await Promise.all(owners.map((service) => services.stop(service.id)));
+      // other processes may still use some of the ports
+      return resolvePortConflicts(services, ports, ignore);
+    case "Use Free Ports":
+      return remapConflicts(ports, conflicts);
+    case "Start Anyway":
+      return ports;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Maps the conflicting host ports to the next free ports
+ */
+const remapConflicts = async (
+  ports: PortMapping[],
+  conflicts: PortConflict[],
+): Promise<PortMapping[] | undefined> => {
+  const conflicting = new Set(conflicts.map(({ mapping }) => mapping));
+  const taken = new Set(ports.map((mapping) => mapping.host));
+  const remapped: PortMapping[] = [];
+  for (const mapping of ports) {
+    if (!conflicting.has(mapping)) {
+      remapped.push(mapping);
+      continue;
+    }
+
+    const host = await findAvailablePort(mapping.host, taken, mapping.protocol);
+    if (host === undefined) {
+      vscode.window.showErrorMessage(
+        `No free host port found for port ${mapping.container}.`,
+      );
+      return undefined;
+    }
+
+    taken.add(host);
+    remapped.push({ ...mapping, host });
+  }
+
+  vscode.window.showInformationMessage(
+    `Using ports ${remapped.map(formatPortMapping).join(", ")}.`,
+  );
+  return remapped;
+};
+
+const describeConflicts = (conflicts: PortConflict[]): string =>
+  conflicts
+    .map(({ mapping, service }) =>
+      service
+        ? `Port ${mapping.host} is used by the service of \`${service.functionName}\`.`
+        : `Port ${mapping.host} is used by another process.`,
+    )
+    .join("\n");
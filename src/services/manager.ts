@@ -0,0 +1,421 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import { DaggerCLI } from "../cli";
+import { HistoryStore } from "../history";
+import { SecretStore } from "../secrets";
+import { FunctionInfo } from "../types/types";
+import { DaggerSettings } from "../settings";
+import { functionPath } from "../tasks";
+import { ManagedProcess } from "../utils/process";
+import { getOutputChannel } from "../output";
+import {
+  buildPortArgs,
+  isPortAvailable,
+  isSameHostPort,
+  PortMapping,
+} from "./ports";
+import {
+  checkProbe,
+  createLogMatcher,
+  probeTimeout,
+  ReadinessProbe,
+  resolveProbe,
+} from "./probes";
+
+const PROBE_INTERVAL = 1_000; // while the service is starting
+const HEALTH_CHECK_INTERVAL = 10_000; // once the service is ready
+
+// running services without a probe stay "running"
+export type ServiceStatus =
+  | "starting"
+  | "ready"
+  | "unhealthy"
+  | "running"
+  | "stopped"
+  | "failed";
+
+/**
+ * What to run to start a service
+ */
+export interface ServiceDefinition {
+  readonly functionName: string;
+  readonly moduleName?: string;
+  readonly functionInfo?: FunctionInfo;
+  readonly argValues: Record<string, string>;
+  readonly commandArgs: string[]; // dagger call ... up, without the --ports flags
+  readonly workspacePath: string;
+  readonly ports: PortMapping[];
+}
+
+/**
+ * A service started from the extension
+ */
+export interface ServiceInfo extends ServiceDefinition {
+  readonly id: string;
+  readonly status: ServiceStatus;
+  readonly startedAt: number; // epoch milliseconds
+  readonly readyAt?: number; // when the probe first passed
+  readonly stoppedAt?: number;
+  readonly exitCode?: number;
+  readonly probe?: ReadinessProbe;
+}
+
+/**
+ * Checks if the process of a service is running, whatever its probe says
+ */
+export const isServiceRunning = (service: ServiceInfo): boolean =>
+  service.status !== "stopped" && service.status !== "failed";
+
+/**
+ * A host port that a service wants to use but is taken
+ */
+export interface PortConflict {
+  readonly mapping: PortMapping;
+  readonly service?: ServiceInfo; // the running service that uses it, unset for other processes
+}
+
+interface TrackedService {
+  info: ServiceInfo;
+  process?: ManagedProcess;
+  timer?: NodeJS.Timeout; // the next probe
+}
+
+/**
+ * Starts services with `up` and tracks them until they are stopped. The
+ * services run as processes of the extension and are stopped with it. A
+ * readiness probe tells when a service is ready, and keeps checking it after.
+ */
+export class ServiceManager {
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+  private readonly _onDidBecomeReady = new vscode.EventEmitter<ServiceInfo>();
+  /** Fires the first time the probe of a service passes */
+  readonly onDidBecomeReady: vscode.Event<ServiceInfo> =
+    this._onDidBecomeReady.event;
+
+  private readonly services = new Map<string, TrackedService>();
+
+  /**
+   * @param dagger The CLI the services are started with
+   * @param history Where the calls are recorded once the service stops
+   * @param secrets The stored secrets the calls can reference
+   * @param settings The settings the readiness probes are configured in
+   */
+  constructor(
+    private readonly dagger: DaggerCLI,
+    private readonly history?: HistoryStore,
+    private readonly secrets?: SecretStore,
+    private readonly settings?: DaggerSettings,
+  ) {}
+
+  /**
+   * Lists the services, most recently started first
+   */
+  list(): ServiceInfo[] {
+    return [...this.services.values()]
+      .map((service) => service.info)
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /**
+   * Gets a service by ID
+   * @param id The ID of the service
+   */
+  get(id: string): ServiceInfo | undefined {
+    return this.services.get(id)?.info;
+  }
+
+  /**
+   * Finds the host ports of a service that running services or other processes use
+   * @param ports The port mappings of the service to start
+   * @param ignore The ID of a service whose ports don't count, e.g. the one being restarted
+   */
+  async findConflicts(
+    ports: readonly PortMapping[],
+    ignore?: string,
+  ): Promise<PortConflict[]> {
+    const conflicts: PortConflict[] = [];
+    for (const mapping of ports) {
+      const service = this.list().find(
+        (info) =>
+          info.id !== ignore &&
+          isServiceRunning(info) &&
+          info.ports.some((port) => isSameHostPort(port, mapping)),
+      );
+      if (service) {
+        conflicts.push({ mapping, service });
+      } else if (!(await isPortAvailable(mapping.host, mapping.protocol))) {
+        conflicts.push({ mapping });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Starts a service
+   * @param definition The call that starts the service and its port mappings
+   * @returns The started service
+   */
+  async start(definition: ServiceDefinition): Promise<ServiceInfo> {
+    const id = crypto.randomUUID();
+    await this.launch(id, definition);
+
+    return this.services.get(id)!.info;
+  }
+
+  /**
+   * Stops a running service
+   * @param id The ID of the service
+   */
+  async stop(id: string): Promise<void> {
+    const service = this.services.get(id);
+    clearTimeout(service?.timer);
+    const handle = service?.process;
+    if (handle?.running) {
+      handle.stop();
+      await handle.result.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Stops a service if it is running and starts it again with the same ports
+   * @param id The ID of the service
+   * @param ports Port mappings to use instead, e.g. after a conflict
+   */
+  async restart(id: string, ports?: PortMapping[]): Promise<void> {
+    const service = this.services.get(id);
+    if (!service) {
+      return;
+    }
+
+    const { functionName, moduleName, functionInfo, argValues } = service.info;
+    const { commandArgs, workspacePath } = service.info;
+    await this.stop(id);
+    await this.launch(id, {
+      functionName,
+      moduleName,
+      functionInfo,
+      argValues,
+      commandArgs,
+      workspacePath,
+      ports: ports ?? service.info.ports,
+    });
+  }
+
+  /**
+   * Forgets a service that is no longer running
+   * @param id The ID of the service
+   */
+  remove(id: string): void {
+    if (this.services.get(id)?.process?.running) {
+      return;
+    }
+
+    this.services.delete(id);
+    this._onDidChange.fire();
+  }
+
+  dispose(): void {
+    for (const service of this.services.values()) {
+      clearTimeout(service.timer);
+      service.process?.stop();
+    }
+    this._onDidChange.dispose();
+    this._onDidBecomeReady.dispose();
+  }
+
+  private async launch(
+    id: string,
+    definition: ServiceDefinition,
+  ): Promise<void> {
+    const { commandArgs, workspacePath, ports } = definition;
+    const args = [...commandArgs, ...buildPortArgs(ports)];
+    const commandLine = args.join(" ");
+    const startedAt = Date.now();
+    const env = this.secrets ? await this.secrets.environment(args) : {};
+
+    const channel = getOutputChannel();
+    channel.appendLine(
+      `[${new Date(startedAt).toLocaleTimeString()}] $ ${commandLine}`,
+    );
+
+    const probe = resolveProbe(this.configuredProbe(definition), ports);
+    const info: ServiceInfo = {
+      ...definition,
+      id,
+      status: probe ? "starting" : "running",
+      startedAt,
+      probe,
+    };
+    const matchLog =
+      probe?.type === "log" ? createLogMatcher(probe.pattern) : undefined;
+    const onOutput = (chunk: string) => {
+      channel.append(chunk);
+      if (matchLog?.(chunk)) {
+        this.setStatus(id, handle, "ready");
+      }
+    };
+
+    let handle: ManagedProcess;
+    try {
+      // the command args start with the dagger binary, run through the shell like the terminal task
+      handle = this.dagger.stream(args.slice(1), {
+        cwd: workspacePath,
+        env,
+        shell: process.env.SHELL ?? true,
+        onStdout: onOutput,
+        onStderr: onOutput,
+      });
+    } catch (error) {
+      console.error(
+        `Failed to start service ${definition.functionName}:`,
+        error,
+      );
+      this.update(id, { ...info, status: "failed", stoppedAt: Date.now() });
+      return;
+    }
+
+    clearTimeout(this.services.get(id)?.timer);
+    this.services.set(id, { info, process: handle });
+    this._onDidChange.fire();
+    if (probe) {
+      this.monitor(id, handle, probe, startedAt + probeTimeout(probe));
+    }
+
+    handle.result
+      .then(
+        ({ exitCode, cancelled }) => ({ exitCode, stopped: cancelled }),
+        () => ({ exitCode: 1, stopped: false }),
+      )
+      .then(async ({ exitCode, stopped }) => {
+        const stoppedAt = Date.now();
+        channel.appendLine(
+          `[${definition.functionName} ${stopped ? "stopped" : `exited with code ${exitCode}`}]`,
+        );
+
+        // a restart replaces the process, only the current one updates the service
+        if (this.services.get(id)?.process === handle) {
+          this.update(id, {
+            ...this.services.get(id)!.info,
+            status: stopped || exitCode === 0 ? "stopped" : "failed",
+            stoppedAt,
+            exitCode,
+          });
+        }
+
+        await this.history?.add({
+          functionName: definition.functionName,
+          moduleName: definition.moduleName,
+          functionInfo: definition.functionInfo,
+          argValues: definition.argValues,
+          commandArgs: args,
+          commandLine,
+          workspacePath,
+          exitCode,
+          startedAt,
+          duration: stoppedAt - startedAt,
+        });
+      })
+      .catch((error) =>
+        console.error(
+          `Failed to record service ${definition.functionName}:`,
+          error,
+        ),
+      );
+  }
+
+  /**
+   * Runs the probe of a service until it is stopped. Log probes are matched as
+   * the output is received, so only their timeout is checked here.
+   * @param deadline When a service that is still starting becomes unhealthy
+   */
+  private monitor(
+    id: string,
+    handle: ManagedProcess,
+    probe: ReadinessProbe,
+    deadline: number,
+  ): void {
+    const tick = async () => {
+      const service = this.services.get(id);
+      if (service?.process !== handle || !handle.running) {
+        return;
+      }
+
+      const starting = service.info.status === "starting";
+      if (probe.type !== "log") {
+        const passed = await checkProbe(probe, service.info.ports);
+        if (passed) {
+          this.setStatus(id, handle, "ready");
+        } else if (!starting || Date.now() >= deadline) {
+          this.setStatus(id, handle, "unhealthy");
+        }
+      } else if (starting && Date.now() >= deadline) {
+        this.setStatus(id, handle, "unhealthy");
+      }
+
+      const current = this.services.get(id);
+      if (current?.process !== handle || !handle.running) {
+        return;
+      }
+      // log probes only need to check their deadline
+      const delay =
+        probe.type === "log"
+          ? deadline - Date.now()
+          : current.info.status === "starting"
+            ? PROBE_INTERVAL
+            : HEALTH_CHECK_INTERVAL;
+      if (probe.type !== "log" || current.info.status === "starting") {
+        current.timer = setTimeout(tick, Math.max(delay, 0));
+      }
+    };
+
+    void tick();
+  }
+
+  /**
+   * Updates the status of a running service, unless it was restarted since
+   */
+  private setStatus(
+    id: string,
+    handle: ManagedProcess,
+    status: ServiceStatus,
+  ): void {
+    const service = this.services.get(id);
+    if (service?.process !== handle || service.info.status === status) {
+      return;
+    }
+
+    const firstReady = status === "ready" && service.info.readyAt === undefined;
+    service.info = {
+      ...service.info,
+      status,
+      readyAt: firstReady ? Date.now() : service.info.readyAt,
+    };
+    this._onDidChange.fire();
+    if (firstReady) {
+      this._onDidBecomeReady.fire(service.info);
+    }
+  }
+
+  /**
+   * Gets the probe configured for the function of a service, by the path it
+   * is called with, e.g. "backend serve", or by its name
+   */
+  private configuredProbe(
+    definition: ServiceDefinition,
+  ): ReadinessProbe | undefined {
+    const probes = this.settings?.readinessProbes ?? {};
+    const path = definition.functionInfo
+      ? functionPath(definition.functionInfo)
+      : definition.functionName;
+
+    return probes[path] ?? probes[definition.functionName];
+  }
+
+  private update(id: string, info: ServiceInfo): void {
+    clearTimeout(this.services.get(id)?.timer);
+    this.services.set(id, { info });
+    this._onDidChange.fire();
+  }
+}
@@ -0,0 +1,114 @@
+import * as net from "net";
+import * as dgram from "dgram";
+
+export type PortProtocol = "tcp" | "udp";
+
+/**
+ * A port of a service that is forwarded to the host
+ */
+export interface PortMapping {
+  readonly host: number;
+  readonly container: number;
+  readonly protocol?: PortProtocol; // tcp when not set
+}
+
+// 8080, 8080:80 or 8080:80/udp
+const PORT_MAPPING_PATTERN = /^(\d+)(?::(\d+))?(?:\/(tcp|udp))?$/i;
+
+/**
+ * Checks if a number is a valid port
+ */
+export const isValidPort = (port: number): boolean =>
+  Number.isInteger(port) && port > 0 && port <= 65535;
+
+/**
+ * Parses port mappings like 8080:80, 8080 when both ports are the same, or 5353:53/udp
+ * @param ports The mappings, as passed to `up --ports`
+ * @returns The valid mappings, later mappings of the same host port and protocol win
+ */
+export const parsePortMappings = (ports: readonly string[]): PortMapping[] => {
+  const byHost = new Map<string, PortMapping>();
+  for (const port of ports.flatMap((value) => value.split(","))) {
+    const match = PORT_MAPPING_PATTERN.exec(port.trim());
+    if (!match) {
+      continue;
+    }
+
+    const host = Number(match[1]);
+    const container = Number(match[2] ?? match[1]);
+    const protocol = match[3]?.toLowerCase() === "udp" ? "udp" : undefined;
+    if (isValidPort(host) && isValidPort(container)) {
+      byHost.set(`${host}/${protocol ?? "tcp"}`, {
+        host,
+        container,
+        ...(protocol ? { protocol } : {}),
+      });
+    }
+  }
+
+  return [...byHost.values()];
+};
+
+/**
+ * Formats a port mapping the way `up --ports` takes it, e.g. 8080:80 or 5353:53/udp
+ */
+export const formatPortMapping = (mapping: PortMapping): string =>
+  `${mapping.host}:${mapping.container}${mapping.protocol === "udp" ? "/udp" : ""}`;
+
+/**
+ * Checks if two mappings use the same host port
+ */
+export const isSameHostPort = (a: PortMapping, b: PortMapping): boolean =>
+  a.host === b.host && (a.protocol ?? "tcp") === (b.protocol ?? "tcp");
+
+/**
+ * Builds the `--ports` flags of `up`, one flag per mapping
+ */
+export const buildPortArgs = (mappings: readonly PortMapping[]): string[] =>
+  mappings.flatMap((mapping) => ["--ports", formatPortMapping(mapping)]);
+
+/**
+ * Checks if nothing is listening on a host port by briefly listening on it
+ * @param port The host port
+ * @param protocol The protocol of the port
+ */
+export const isPortAvailable = (
+  port: number,
+  protocol: PortProtocol = "tcp",
+): Promise<boolean> =>
+  new Promise((resolve) => {
+    if (protocol === "udp") {
+      const socket = dgram.createSocket("udp4");
+      socket.once("error", () => {
+        socket.close();
+        resolve(false);
+      });
+      socket.bind(port, () => socket.close(() => resolve(true)));
+      return;
+    }
+
+    const server = net.createServer();
+    server.once("error", () => resolve(false));
+    server.once("listening", () => server.close(() => resolve(true)));
+    server.listen(port);
+  });
+
+/**
+ * Finds the first available host port after a port
+ * @param port The port to start after
+ * @param taken Ports that are considered taken, e.g. by services that are starting
+ * @param protocol The protocol of the port
+ */
+export const findAvailablePort = async (
+  port: number,
+  taken: ReadonlySet<number> = new Set(),
+  protocol: PortProtocol = "tcp",
+): Promise<number | undefined> => {
+  for (let candidate = port + 1; candidate <= 65535; candidate++) {
+    if (!taken.has(candidate) && (await isPortAvailable(candidate, protocol))) {
+      return candidate;
+    }
+  }
+
+  return undefined;
+};
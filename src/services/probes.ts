@@ -0,0 +1,195 @@
+import * as net from "net";
+import * as http from "http";
+import { PortMapping } from "./ports";
+
+const DEFAULT_PROBE_TIMEOUT = 300; // seconds, services are often built first
+const CHECK_TIMEOUT = 2_000; // milliseconds per connection attempt
+
+/**
+ * How to tell that a service is ready, configured per function in `dagger.readinessProbes`
+ */
+export type ReadinessProbe = (
+  | {
+      readonly type: "tcp";
+      readonly port?: number; // host port, the first mapped port when not set
+    }
+  | {
+      readonly type: "http";
+      readonly port?: number; // host port, the first mapped port when not set
+      readonly path?: string; // defaults to /
+      readonly status?: number; // expected status, any 2xx or 3xx when not set
+    }
+  | {
+      readonly type: "log";
+      readonly pattern: string; // regular expression matched against each output line
+    }
+) & {
+  readonly timeout?: number; // seconds until a starting service is unhealthy
+};
+
+/**
+ * Gets the probe of a service, a TCP probe of the first mapped TCP port when
+ * none is configured or the pattern of the configured log probe is invalid
+ * @param probe The configured probe
+ * @param ports The port mappings of the service
+ * @returns The probe, or undefined if there is nothing to probe
+ */
+export const resolveProbe = (
+  probe: ReadinessProbe | undefined,
+  ports: readonly PortMapping[],
+): ReadinessProbe | undefined => {
+  if (probe?.type === "log" && !isValidPattern(probe.pattern)) {
+    console.error(`Invalid readiness probe pattern: ${probe.pattern}`);
+  } else if (probe) {
+    return probe;
+  }
+
+  return tcpPorts(ports).length > 0 ? { type: "tcp" } : undefined;
+};
+
+/**
+ * How long a starting service has to pass its probe, in milliseconds
+ */
+export const probeTimeout = (probe: ReadinessProbe): number =>
+  (probe.timeout ?? DEFAULT_PROBE_TIMEOUT) * 1000;
+
+/**
+ * Describes a probe in one line, e.g. GET :8080/health
+ * @param probe The probe
+ * @param ports The port mappings of the service
+ */
+export const describeProbe = (
+  probe: ReadinessProbe,
+  ports: readonly PortMapping[],
+): string => {
+  switch (probe.type) {
+    case "tcp":
+      return `TCP :${probePort(probe, ports) ?? "?"}`;
+    case "http":
+      return `GET :${probePort(probe, ports) ?? "?"}${probe.path ?? "/"}${probe.status ? ` → ${probe.status}` : ""}`;
+    case "log":
+      return `log /${probe.pattern}/`;
+  }
+};
+
+/**
+ * Gets the host port a service is reached on, the port its probe checks or the
+ * first TCP port
+ * @param probe The probe of the service
+ * @param ports The port mappings of the service
+ * @returns The port, undefined if the service has no TCP port
+ */
+export const servicePort = (
+  probe: ReadinessProbe | undefined,
+  ports: readonly PortMapping[],
+): number | undefined =>
+  probe && probe.type !== "log"
+    ? probePort(probe, ports)
+    : tcpPorts(ports)[0]?.host;
+
+/**
+ * Runs a TCP or HTTP probe once. Log probes are matched with {@link createLogMatcher}.
+ * @param probe The probe
+ * @param ports The port mappings of the service
+ * @param host The host the ports are mapped on
+ * @returns Whether the service passed the probe
+ */
+export const checkProbe = async (
+  probe: ReadinessProbe,
+  ports: readonly PortMapping[],
+  host = "localhost",
+): Promise<boolean> => {
+  if (probe.type === "log") {
+    return false;
+  }
+
+  const port = probePort(probe, ports);
+  if (port === undefined) {
+    return false;
+  }
+
+  return probe.type === "tcp"
+    ? checkTcp(host, port)
+    : checkHttp(host, port, probe.path ?? "/", probe.status);
+};
+
+/**
+ * Checks if a connection to a port can be opened
+ */
+export const checkTcp = (host: string, port: number): Promise<boolean> =>
+  new Promise((resolve) => {
+    const socket = net.connect({ host, port });
+    const done = (result: boolean) => {
+      socket.destroy();
+      resolve(result);
+    };
+    socket.setTimeout(CHECK_TIMEOUT, () => done(false));
+    socket.once("connect", () => done(true));
+    socket.once("error", () => done(false));
+  });
+
+/**
+ * Checks if a GET request returns the expected status
+ * @param status The expected status, any 2xx or 3xx when not set
+ */
+export const checkHttp = (
+  host: string,
+  port: number,
+  path: string,
+  status?: number,
+): Promise<boolean> =>
+  new Promise((resolve) => {
+    const request = http.get(
+      { host, port, path, timeout: CHECK_TIMEOUT },
+      (response) => {
+        response.resume();
+        const code = response.statusCode ?? 0;
+        resolve(
+          status !== undefined ? code === status : code >= 200 && code < 400,
+        );
+      },
+    );
+    request.once("timeout", () => request.destroy());
+    request.once("error", () => resolve(false));
+  });
+
+/**
+ * Creates a function that is fed the output of a service and tells when a line matches
+ * @param pattern The regular expression of the line
+ * @returns A function that returns true once a line has matched
+ */
+export const createLogMatcher = (
+  pattern: string,
+): ((chunk: string) => boolean) => {
+  const regex = new RegExp(pattern);
+  let partial = "";
+  let matched = false;
+
+  return (chunk) => {
+    if (matched) {
+      return true;
+    }
+
+    const lines = (partial + chunk).split(/\r?\n/);
+    partial = lines.pop() ?? "";
+    matched = [...lines, partial].some((line) => regex.test(line));
+    return matched;
+  };
+};
+
+const probePort = (
+  probe: { port?: number },
+  ports: readonly PortMapping[],
+): number | undefined => probe.port ?? tcpPorts(ports)[0]?.host;
+
+const tcpPorts = (ports: readonly PortMapping[]): PortMapping[] =>
+  ports.filter((mapping) => mapping.protocol !== "udp");
+
+const isValidPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
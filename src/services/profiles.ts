@@ -0,0 +1,56 @@
+import * as vscode from "vscode";
+import { PortMapping } from "./ports";
+
+const PROFILES_KEY = "dagger.portProfiles";
+
+/**
+ * The ports a function was last exposed with
+ */
+export interface PortProfile {
+  readonly workspacePath: string; // the module the function belongs to
+  readonly functionPath: string; // how the function is called, e.g. "sub serve"
+  readonly ports: PortMapping[];
+}
+
+/**
+ * Remembers the ports of each function in the workspace state, they are the
+ * default the next time the function is exposed
+ */
+export class PortProfileStore {
+  constructor(private readonly storage: vscode.Memento) {}
+
+  /**
+   * Lists the saved profiles
+   */
+  list(): PortProfile[] {
+    return this.storage.get<PortProfile[]>(PROFILES_KEY, []);
+  }
+
+  /**
+   * Gets the ports a function was last exposed with
+   * @param workspacePath The module the function belongs to
+   * @param functionPath How the function is called, e.g. "sub serve"
+   */
+  get(workspacePath: string, functionPath: string): PortMapping[] | undefined {
+    return this.list().find(
+      (profile) =>
+        profile.workspacePath === workspacePath &&
+        profile.functionPath === functionPath,
+    )?.ports;
+  }
+
+  /**
+   * Saves the ports of a function, replacing the ones saved before
+   * @param profile The function and its ports
+   */
+  async save(profile: PortProfile): Promise<void> {
+    await this.storage.update(PROFILES_KEY, [
+      profile,
+      ...this.list().filter(
+        (saved) =>
+          saved.workspacePath !== profile.workspacePath ||
+          saved.functionPath !== profile.functionPath,
+      ),
+    ]);
+  }
+}
@@ -1,4 +1,9 @@
 import * as vscode from "vscode";
+import { ReadinessProbe } from "../services/probes";
+
+export type RunMode = "terminal" | "output";
+
+export type CacheBackend = "workspace" | "filesystem";
 
 /**
  * Interface defining the Dagger extension settings
@@ -16,6 +21,17 @@ export interface DaggerSettings {
    */
   readonly enableCache: boolean;
 
+  /**
+   * Where cached data is stored: the workspace state, or files shared between windows
+   * Default: 'workspace'
+   */
+  readonly cacheBackend: CacheBackend;
+
+  /**
+   * The directory of the filesystem cache, the extension's global storage when empty
+   */
+  readonly cacheDirectory: string;
+
   /**
    * Method to use when installing Dagger CLI
    * Default: 'brew'
@@ -39,6 +55,42 @@ export interface DaggerSettings {
    */
   readonly contextDirectory: string;
 
+  /**
+   * Where function calls run: in a terminal task or captured into the Dagger output channel
+   * Default: 'terminal'
+   */
+  readonly runMode: RunMode;
+
+  /**
+   * Whether to reload functions when dagger.json or the module source changes
+   * Default: true
+   */
+  readonly autoRefresh: boolean;
+
+  /**
+   * How long to wait for more changes before reloading functions, in milliseconds
+   * Default: 1000
+   */
+  readonly autoRefreshDelay: number;
+
+  /**
+   * Whether to show actions above Dagger functions in the module source
+   * Default: true
+   */
+  readonly enableCodeLens: boolean;
+
+  /**
+   * Whether to provide a `dagger` task for every function
+   * Default: true
+   */
+  readonly autoDetectTasks: boolean;
+
+  /**
+   * Readiness probes of exposed services, by the path the function is called with
+   * Default: {} (services with ports are probed with TCP on their first port)
+   */
+  readonly readinessProbes: Readonly<Record<string, ReadinessProbe>>;
+
   /**
    * Reload settings from VS Code configuration
    */
@@ -62,11 +114,19 @@ export interface DaggerSettings {
  */
 export class DaggerSettingsProvider implements DaggerSettings {
   private _enableCache: boolean = true;
+  private _cacheBackend: CacheBackend = "workspace";
+  private _cacheDirectory: string = "";
   private _installMethod: "brew" | "curl" = "brew";
   private _cloudNotificationDismissed: boolean = false;
   private _saveTaskPromptDismissed: boolean = false;
   private _alwaysPromptFunctionActions: boolean = true;
   private _contextDirectory: string = "";
+  private _runMode: RunMode = "terminal";
+  private _autoRefresh: boolean = true;
+  private _autoRefreshDelay: number = 1000;
+  private _enableCodeLens: boolean = true;
+  private _autoDetectTasks: boolean = true;
+  private _readinessProbes: Record<string, ReadinessProbe> = {};
 
   constructor() {
     this.reload();
@@ -86,6 +146,20 @@ export class DaggerSettingsProvider implements DaggerSettings {
     return this._enableCache;
   }
 
+  /**
+   * Where cached data is stored
+   */
+  public get cacheBackend(): CacheBackend {
+    return this._cacheBackend;
+  }
+
+  /**
+   * The directory of the filesystem cache
+   */
+  public get cacheDirectory(): string {
+    return this._cacheDirectory;
+  }
+
   /**
    * Method to use when installing Dagger CLI
    */
@@ -114,12 +188,56 @@ export class DaggerSettingsProvider implements DaggerSettings {
     return this._contextDirectory;
   }
 
+  /**
+   * Where function calls run
+   */
+  public get runMode(): RunMode {
+    return this._runMode;
+  }
+
+  /**
+   * Whether to reload functions when the module changes
+   */
+  public get autoRefresh(): boolean {
+    return this._autoRefresh;
+  }
+
+  /**
+   * How long to wait for more changes before reloading functions
+   */
+  public get autoRefreshDelay(): number {
+    return this._autoRefreshDelay;
+  }
+
+  /**
+   * Whether to show actions above Dagger functions in the module source
+   */
+  public get enableCodeLens(): boolean {
+    return this._enableCodeLens;
+  }
+
+  /**
+   * Whether to provide a `dagger` task for every function
+   */
+  public get autoDetectTasks(): boolean {
+    return this._autoDetectTasks;
+  }
+
+  /**
+   * Readiness probes of exposed services
+   */
+  public get readinessProbes(): Readonly<Record<string, ReadinessProbe>> {
+    return this._readinessProbes;
+  }
+
   /**
    * Reloads settings from the VS Code configuration
    */
   public reload(): void {
     const config = vscode.workspace.getConfiguration("dagger");
     this._enableCache = config.get<boolean>("enableCache", true);
+    this._cacheBackend = config.get<CacheBackend>("cacheBackend", "workspace");
+    this._cacheDirectory = config.get<string>("cacheDirectory", "") || "";
     this._installMethod = config.get<"brew" | "curl">("installMethod", "brew");
     this._cloudNotificationDismissed = config.get<boolean>(
       "cloudNotificationDismissed",
@@ -134,6 +252,15 @@ export class DaggerSettingsProvider implements DaggerSettings {
       true,
     );
     this._contextDirectory = config.get<string>("contextDirectory", "") || "";
+    this._runMode = config.get<RunMode>("runMode", "terminal");
+    this._autoRefresh = config.get<boolean>("autoRefresh", true);
+    this._autoRefreshDelay = config.get<number>("autoRefreshDelay", 1000);
+    this._enableCodeLens = config.get<boolean>("enableCodeLens", true);
+    this._autoDetectTasks = config.get<boolean>("autoDetectTasks", true);
+    this._readinessProbes = config.get<Record<string, ReadinessProbe>>(
+      "readinessProbes",
+      {},
+    );
   }
 
   /**
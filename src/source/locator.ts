@@ -0,0 +1,218 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { DaggerCLI } from "../cli";
+import { FunctionInfo, FunctionSourceMap, SourceMapInfo } from "../types/types";
+import { listSourceFiles } from "../utils/module-source";
+import { ModuleRegistry } from "../workspace";
+import {
+  findArgumentDeclaration,
+  findFunctionDeclarations,
+  matchFunction,
+} from "../codelens/parser";
+
+// languages the source scanner understands, by file extension
+const SOURCE_LANGUAGES: Record<string, string> = {
+  ".go": "go",
+  ".ts": "typescript",
+  ".mts": "typescript",
+  ".js": "javascript",
+  ".mjs": "javascript",
+  ".py": "python",
+};
+
+/**
+ * A position in a source file
+ */
+export interface SourceLocation {
+  readonly file: string; // absolute path
+  readonly line: number; // 0-based
+  readonly character: number; // 0-based
+}
+
+/**
+ * Finds where functions and their arguments are declared in the module source.
+ * The source maps from Dagger introspection are used where the Dagger version
+ * has them, otherwise the source files are scanned for the declaration.
+ */
+export class SourceLocator {
+  constructor(
+    private readonly dagger: DaggerCLI,
+    private readonly modules: ModuleRegistry,
+  ) {}
+
+  /**
+   * Finds the declaration of a function or one of its arguments
+   * @param modulePath The path of the module the function belongs to
+   * @param functionInfo The function
+   * @param argumentName The kebab-case name of an argument of the function
+   * @returns The location, or undefined if the declaration wasn't found
+   */
+  async locate(
+    modulePath: string,
+    functionInfo: FunctionInfo,
+    argumentName?: string,
+  ): Promise<SourceLocation | undefined> {
+    const sourceMap = await this.findSourceMap(modulePath, functionInfo);
+    const exact = argumentName
+      ? sourceMap?.args[argumentName]
+      : sourceMap?.sourceMap;
+
+    return (
+      (exact && this.toLocation(modulePath, exact)) ??
+      (await this.scan(modulePath, functionInfo, argumentName)) ??
+      // the argument wasn't found, the function is the next best thing
+      (sourceMap?.sourceMap && this.toLocation(modulePath, sourceMap.sourceMap))
+    );
+  }
+
+  private async findSourceMap(
+    modulePath: string,
+    functionInfo: FunctionInfo,
+  ): Promise<FunctionSourceMap | undefined> {
+    try {
+      const sourceMaps = await this.dagger.getSourceMaps(modulePath);
+      return sourceMaps.find(
+        (sourceMap) =>
+          sourceMap.name === functionInfo.name &&
+          sourceMap.module === functionInfo.module &&
+          sourceMap.parentModule === functionInfo.parentModule,
+      );
+    } catch (error) {
+      console.debug(
+        `No source maps for ${modulePath}, scanning the source instead:`,
+        error,
+      );
+      return undefined;
+    }
+  }
+
+  private toLocation(
+    modulePath: string,
+    sourceMap: SourceMapInfo,
+  ): SourceLocation | undefined {
+    const file = resolveSourceFile(
+      sourceMap.filename,
+      this.searchDirectories(modulePath),
+    );
+    if (!file) {
+      console.debug(`Source file ${sourceMap.filename} not found`);
+      return undefined;
+    }
+
+    return {
+      file,
+      line: Math.max(sourceMap.line - 1, 0),
+      character: Math.max(sourceMap.column - 1, 0),
+    };
+  }
+
+  /**
+   * Scans the source files of the module for the declaration of the function
+   */
+  private async scan(
+    modulePath: string,
+    functionInfo: FunctionInfo,
+    argumentName?: string,
+  ): Promise<SourceLocation | undefined> {
+    const module = this.modules.findModule(vscode.Uri.file(modulePath));
+    const sourcePath = module?.source ?? modulePath;
+
+    // functions of other objects can have the same name
+    let functions: FunctionInfo[];
+    try {
+      functions = await this.dagger.getFunctions(modulePath);
+    } catch {
+      functions = [functionInfo];
+    }
+
+    for (const file of await listSourceFiles(sourcePath)) {
+      const languageId = SOURCE_LANGUAGES[path.extname(file)];
+      if (!languageId) {
+        continue;
+      }
+
+      let text: string;
+      try {
+        text = await fs.promises.readFile(file, "utf8");
+      } catch {
+        continue;
+      }
+
+      for (const declaration of findFunctionDeclarations(text, languageId)) {
+        const matched = matchFunction(declaration, functions);
+        if (
+          matched?.name !== functionInfo.name ||
+          matched.module !== functionInfo.module
+        ) {
+          continue;
+        }
+
+        const position =
+          (argumentName &&
+            findArgumentDeclaration(text, declaration, argumentName)) ||
+          declaration;
+        return { file, line: position.line, character: position.character };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * The directories source map file names can be relative to: the source and
+   * module directories, then their parents up to the workspace folder
+   */
+  private searchDirectories(modulePath: string): string[] {
+    const module = this.modules.findModule(vscode.Uri.file(modulePath));
+    const root = vscode.workspace.getWorkspaceFolder(
+      vscode.Uri.file(modulePath),
+    )?.uri.fsPath;
+
+    const directories = module?.source ? [module.source] : [];
+    let directory = modulePath;
+    directories.push(directory);
+    while (
+      root &&
+      directory !== root &&
+      path.dirname(directory) !== directory
+    ) {
+      directory = path.dirname(directory);
+      directories.push(directory);
+    }
+
+    return directories;
+  }
+}
+
+/**
+ * Resolves a file name from a source map against the directories it can be
+ * relative to
+ * @param filename The absolute or relative file name
+ * @param directories The directories to try, in order
+ * @returns The path of the first file that exists
+ */
+export const resolveSourceFile = (
+  filename: string,
+  directories: string[],
+): string | undefined => {
+  const candidates = path.isAbsolute(filename)
+    ? [filename]
+    : directories.map((directory) => path.resolve(directory, filename));
+
+  return candidates.find((candidate) => fs.existsSync(candidate));
+};
+
+/**
+ * Opens a source file and selects the location
+ * @param location The location to reveal
+ */
+export const revealSourceLocation = async (
+  location: SourceLocation,
+): Promise<void> => {
+  const position = new vscode.Position(location.line, location.character);
+  await vscode.window.showTextDocument(vscode.Uri.file(location.file), {
+    selection: new vscode.Range(position, position),
+    preview: true,
+  });
+};
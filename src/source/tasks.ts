@@ -0,0 +1,302 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { DaggerCLI } from "../cli";
+import { FunctionInfo } from "../types/types";
+import { ModuleRegistry, resolveContextDirectory } from "../workspace";
+import { DAGGER_TASK_TYPE } from "../tasks";
+import { SourceLocator } from "./locator";
+
+// flags of `dagger` and `dagger call` that take a value
+const VALUE_FLAGS = new Set(["-m", "--mod", "--progress", "--workdir"]);
+// the command ends here, e.g. dagger call build && echo done
+const COMMAND_SEPARATORS = new Set(["&&", "||", "|", ";"]);
+
+/**
+ * A word of a command line and where it is
+ */
+export interface CommandToken {
+  readonly text: string;
+  readonly start: number; // offset of the first character in the line
+  readonly end: number; // offset after the last character
+}
+
+/**
+ * The parts of a `dagger call` command line that refer to module source
+ */
+export interface CallCommand {
+  readonly module?: string; // value of -m or --mod
+  readonly chain: CommandToken[]; // the submodules and functions before the first argument
+  readonly args: CommandToken[]; // argument names without the leading dashes
+}
+
+/**
+ * Parses a `dagger call` command line, e.g. the command of a saved task. The
+ * line may be a line of JSON, quotes and commas around the command are ignored.
+ *
+ * @param line The line that contains the command
+ * @returns The command, or undefined if the line has no `dagger call`
+ */
+export const parseCallCommand = (line: string): CallCommand | undefined => {
+  const tokens: CommandToken[] = [...line.matchAll(/[^\s"',]+/g)].map(
+    (match) => ({
+      text: match[0],
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+    }),
+  );
+
+  const dagger = tokens.findIndex(
+    (token) => token.text === "dagger" || token.text.endsWith("/dagger"),
+  );
+  if (dagger === -1) {
+    return undefined;
+  }
+
+  let module: string | undefined;
+  let called = false;
+  const chain: CommandToken[] = [];
+  const args: CommandToken[] = [];
+
+  for (let i = dagger + 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (COMMAND_SEPARATORS.has(token.text)) {
+      break;
+    }
+
+    if (token.text.startsWith("-")) {
+      const [flag, value] = token.text.split("=", 2);
+      const takesValue =
+        value === undefined && !tokens[i + 1]?.text.startsWith("-");
+
+      // flags before the function belong to dagger or dagger call
+      if (chain.length === 0) {
+        if (flag === "-m" || flag === "--mod") {
+          module = value ?? tokens[i + 1]?.text;
+        }
+        if (VALUE_FLAGS.has(flag) && takesValue) {
+          i++;
+        }
+        continue;
+      }
+
+      const dashes = flag.length - flag.replace(/^-+/, "").length;
+      args.push({
+        text: flag.slice(dashes),
+        start: token.start + dashes,
+        end: token.start + flag.length,
+      });
+      if (takesValue) {
+        i++; // the argument value
+      }
+      continue;
+    }
+
+    if (!called) {
+      if (token.text !== "call") {
+        return undefined; // another dagger command
+      }
+      called = true;
+      continue;
+    }
+
+    // functions after the arguments are called on the result, e.g. export
+    if (args.length > 0) {
+      break;
+    }
+    chain.push(token);
+  }
+
+  return chain.length > 0 ? { module, chain, args } : undefined;
+};
+
+/**
+ * Parses the function of a `dagger` task, e.g. `"function": "sub test"`
+ *
+ * @param line The line of tasks.json
+ * @returns The function as a command without arguments, or undefined if the line has no function
+ */
+export const parseTaskFunction = (line: string): CallCommand | undefined => {
+  const match = line.match(/("function"\s*:\s*")([^"]+)"/);
+  if (!match) {
+    return undefined;
+  }
+
+  const offset = (match.index ?? 0) + match[1].length;
+  const chain = [...match[2].matchAll(/\S+/g)].map((word) => ({
+    text: word[0],
+    start: offset + (word.index ?? 0),
+    end: offset + (word.index ?? 0) + word[0].length,
+  }));
+
+  return chain.length > 0 ? { chain, args: [] } : undefined;
+};
+
+/**
+ * Finds the function a command calls. The chain can start with a submodule,
+ * and can continue with functions of the result, e.g. `build terminal`.
+ *
+ * @param chain The chain of the command
+ * @param functions The functions of the module
+ * @returns The function and the token of its name
+ */
+export const resolveCallFunction = (
+  chain: CommandToken[],
+  functions: FunctionInfo[],
+): { functionInfo: FunctionInfo; token: CommandToken } | undefined => {
+  for (let i = 0; i < chain.length; i++) {
+    const [module, parentModule] = chain.slice(0, i).map((token) => token.text);
+    const functionInfo = functions.find(
+      (fn) =>
+        fn.name === chain[i].text &&
+        fn.module === module &&
+        fn.parentModule === parentModule,
+    );
+    if (functionInfo) {
+      return { functionInfo, token: chain[i] };
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Goes to the declaration of the function or argument under the cursor in the
+ * `dagger call` commands and `dagger` tasks of tasks.json
+ */
+export class TaskDefinitionProvider implements vscode.DefinitionProvider {
+  constructor(
+    private readonly dagger: DaggerCLI,
+    private readonly modules: ModuleRegistry,
+    private readonly locator: SourceLocator,
+  ) {}
+
+  async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.DefinitionLink[] | undefined> {
+    const line = document.lineAt(position.line).text;
+    const command = parseCallCommand(line) ?? parseTaskFunction(line);
+    if (!command) {
+      return undefined;
+    }
+
+    const directory = path.resolve(
+      taskDirectory(document, line),
+      command.module ?? ".",
+    );
+    await this.modules.getModules();
+    const module = this.modules.findModule(vscode.Uri.file(directory));
+    if (!module) {
+      return undefined;
+    }
+
+    let functions: FunctionInfo[];
+    try {
+      functions = await this.dagger.getFunctions(module.path);
+    } catch (error) {
+      console.debug(`No definition in ${document.uri.fsPath}:`, error);
+      return undefined;
+    }
+
+    const target = resolveCallFunction(command.chain, functions);
+    if (!target) {
+      return undefined;
+    }
+
+    const contains = (token: CommandToken) =>
+      token.start <= position.character && position.character <= token.end;
+    const argument = command.args.find(contains);
+    const origin =
+      argument ?? (contains(target.token) ? target.token : undefined);
+    if (!origin) {
+      return undefined;
+    }
+
+    const location = await this.locator.locate(
+      module.path,
+      target.functionInfo,
+      argument?.text,
+    );
+    if (!location) {
+      return undefined;
+    }
+
+    const targetPosition = new vscode.Position(
+      location.line,
+      location.character,
+    );
+    return [
+      {
+        originSelectionRange: new vscode.Range(
+          position.line,
+          origin.start,
+          position.line,
+          origin.end,
+        ),
+        targetUri: vscode.Uri.file(location.file),
+        targetRange: new vscode.Range(targetPosition, targetPosition),
+      },
+    ];
+  }
+}
+
+/**
+ * Finds the working directory of the task a line belongs to, shell tasks run
+ * in their cwd and `dagger` tasks in their module
+ */
+const taskDirectory = (document: vscode.TextDocument, line: string): string => {
+  const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+  const folderPath =
+    folder?.uri.fsPath ?? path.dirname(path.dirname(document.uri.fsPath));
+
+  let cwd: string | undefined;
+  try {
+    const { tasks = [] } = JSON.parse(document.getText()) as {
+      tasks?: {
+        type?: string;
+        command?: unknown;
+        function?: unknown;
+        module?: string;
+        options?: { cwd?: string };
+      }[];
+    };
+    const task = tasks.find(
+      (task) =>
+        (typeof task.command === "string" &&
+          line.includes(JSON.stringify(task.command).slice(1, -1))) ||
+        (task.type === DAGGER_TASK_TYPE &&
+          typeof task.function === "string" &&
+          line.includes(JSON.stringify(task.function))),
+    );
+    cwd = task?.type === DAGGER_TASK_TYPE ? task.module : task?.options?.cwd;
+  } catch {
+    // tasks.json can have comments, the task then runs in the folder
+  }
+  if (!cwd) {
+    return folderPath;
+  }
+
+  // ${workspaceFolder} is the folder tasks.json is in
+  const folders = [
+    ...(folder ? [folder] : []),
+    ...(vscode.workspace.workspaceFolders ?? []).filter((f) => f !== folder),
+  ];
+  return resolveContextDirectory(cwd, folders) ?? path.resolve(folderPath, cwd);
+};
+
+/**
+ * Registers go to definition for the commands in tasks.json
+ */
+export const registerTaskDefinitionProvider = (
+  context: vscode.ExtensionContext,
+  dagger: DaggerCLI,
+  modules: ModuleRegistry,
+  locator: SourceLocator,
+): void => {
+  context.subscriptions.push(
+    vscode.languages.registerDefinitionProvider(
+      { scheme: "file", pattern: "**/.vscode/tasks.json" },
+      new TaskDefinitionProvider(dagger, modules, locator),
+    ),
+  );
+};
@@ -0,0 +1,103 @@
+import * as vscode from "vscode";
+import { FunctionInfo } from "../types/types";
+
+export const DAGGER_TASK_TYPE = "dagger";
+
+// argument values, lists repeat the flag, e.g. --ports 8080:80 --ports 8443:443
+export type TaskArgs = Record<string, string | number | boolean | string[]>;
+
+/**
+ * A function called on the result of the previous function
+ */
+export interface DaggerChainCall {
+  readonly function: string;
+  readonly args?: TaskArgs;
+}
+
+/**
+ * The definition of a `dagger` task in tasks.json, the schema is contributed
+ * in package.json
+ */
+export interface DaggerTaskDefinition extends vscode.TaskDefinition {
+  readonly type: typeof DAGGER_TASK_TYPE;
+  readonly module?: string; // path relative to the workspace folder or a remote module, e.g. github.com/org/repo
+  readonly function: string; // kebab-case, prefixed by submodules, e.g. "sub test"
+  readonly args?: TaskArgs;
+  readonly chain?: (string | DaggerChainCall)[];
+  readonly export?: string; // path to export the result to
+}
+
+/**
+ * Builds the definition of a task that calls a function
+ * @param functionInfo The function to call
+ * @param module The module path relative to the workspace folder
+ * @param args The argument values
+ * @returns The task definition
+ */
+export const toTaskDefinition = (
+  functionInfo: FunctionInfo,
+  module: string,
+  args: TaskArgs = {},
+): DaggerTaskDefinition => ({
+  type: DAGGER_TASK_TYPE,
+  module,
+  function: functionPath(functionInfo),
+  ...(Object.keys(args).length > 0 ? { args } : {}),
+});
+
+/**
+ * Checks if a function has arguments that must be set to call it, i.e.
+ * required arguments without a default value or path
+ */
+export const hasRequiredArguments = (functionInfo: FunctionInfo): boolean =>
+  functionInfo.args.some(
+    (arg) =>
+      arg.required &&
+      arg.defaultValue === undefined &&
+      arg.defaultPath === undefined,
+  );
+
+/**
+ * The words `dagger call` needs to reach a function, the same order as
+ * buildFunctionCommandArgs, e.g. "sub test" for test in the submodule sub
+ */
+export const functionPath = (functionInfo: FunctionInfo): string =>
+  [
+    functionInfo.module,
+    functionInfo.module ? functionInfo.parentModule : undefined,
+    functionInfo.name,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+/**
+ * Builds the arguments of the Dagger CLI for a task
+ * @param definition The task definition
+ * @param includeModule Whether to pass the module with -m, e.g. for remote modules
+ * @returns The arguments after `dagger`
+ */
+export const buildTaskCommandArgs = (
+  definition: DaggerTaskDefinition,
+  includeModule = false,
+): string[] => [
+  ...(includeModule && definition.module ? ["-m", definition.module] : []),
+  "call",
+  ...words(definition.function),
+  ...flags(definition.args),
+  ...(definition.chain ?? []).flatMap((call) =>
+    typeof call === "string"
+      ? words(call)
+      : [...words(call.function), ...flags(call.args)],
+  ),
+  ...(definition.export ? ["export", "--path", definition.export] : []),
+];
+
+const words = (text: string): string[] => text.trim().split(/\s+/);
+
+const flags = (args: TaskArgs = {}): string[] =>
+  Object.entries(args).flatMap(([name, value]) =>
+    (Array.isArray(value) ? value : [value]).flatMap((item) => [
+      `--${name}`,
+      String(item),
+    ]),
+  );
@@ -0,0 +1,164 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { DaggerCLI } from "../cli";
+import { DAGGER_PROBLEM_MATCHERS } from "../const";
+import { DaggerSettings } from "../settings";
+import { ModuleRegistry } from "../workspace";
+import { SecretStore } from "../secrets";
+import {
+  buildTaskCommandArgs,
+  DAGGER_TASK_TYPE,
+  DaggerTaskDefinition,
+  functionPath,
+  hasRequiredArguments,
+  toTaskDefinition,
+} from "./definition";
+
+/**
+ * Provides a `dagger` task for every function in the workspace, and resolves
+ * the `dagger` tasks saved in tasks.json to executions
+ */
+export class DaggerTaskProvider implements vscode.TaskProvider {
+  constructor(
+    private readonly dagger: DaggerCLI,
+    private readonly modules: ModuleRegistry,
+    private readonly settings: DaggerSettings,
+    private readonly secrets: SecretStore,
+  ) {}
+
+  async provideTasks(): Promise<vscode.Task[]> {
+    if (!this.settings.autoDetectTasks) {
+      return [];
+    }
+
+    // one module at a time, listing tasks shouldn't start an engine query per module
+    const modules = await this.modules.getModules();
+    const tasks: vscode.Task[] = [];
+    for (const module of modules) {
+      const folder =
+        module.workspaceFolder ??
+        vscode.workspace.getWorkspaceFolder(vscode.Uri.file(module.path));
+      if (!folder) {
+        continue;
+      }
+
+      try {
+        const functions = await this.dagger.getFunctions(module.path);
+        // functions with required arguments fail without them, save them as tasks instead
+        for (const fn of functions.filter((fn) => !hasRequiredArguments(fn))) {
+          const name = functionPath(fn);
+          tasks.push(
+            createDaggerTask(
+              toTaskDefinition(fn, taskModulePath(folder, module.path)),
+              folder,
+              modules.length > 1 ? `${module.name}: ${name}` : name,
+            ),
+          );
+        }
+      } catch (error) {
+        console.error(`Failed to detect tasks for ${module.path}:`, error);
+      }
+    }
+
+    return tasks;
+  }
+
+  async resolveTask(task: vscode.Task): Promise<vscode.Task | undefined> {
+    const definition = task.definition as DaggerTaskDefinition;
+    if (!definition.function) {
+      return undefined;
+    }
+
+    const folder =
+      typeof task.scope === "object"
+        ? task.scope
+        : vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+      return undefined;
+    }
+
+    // the definition must be the one of the task for VS Code to match them,
+    // stored secrets the arguments reference are only added to the environment
+    return createDaggerTask(
+      definition,
+      folder,
+      task.name,
+      await this.secrets.environment(buildTaskCommandArgs(definition)),
+    );
+  }
+}
+
+/**
+ * Creates a task that runs `dagger call` for a task definition. Local modules
+ * run in their directory, so relative paths in the arguments work like they
+ * do in a terminal, remote modules run in the workspace folder.
+ *
+ * @param definition The task definition
+ * @param folder The workspace folder of the task
+ * @param name The name of the task
+ * @param env Environment variables added to the environment of the task, such as secrets
+ */
+export const createDaggerTask = (
+  definition: DaggerTaskDefinition,
+  folder: vscode.WorkspaceFolder,
+  name: string,
+  env?: Record<string, string>,
+): vscode.Task => {
+  const modulePath = path.resolve(folder.uri.fsPath, definition.module ?? ".");
+  const local = fs.existsSync(path.join(modulePath, "dagger.json"));
+  const args = buildTaskCommandArgs(definition, !local);
+
+  const task = new vscode.Task(
+    definition,
+    folder,
+    name,
+    DAGGER_TASK_TYPE,
+    new vscode.ProcessExecution("dagger", args, {
+      cwd: local ? modulePath : folder.uri.fsPath,
+      env,
+    }),
+    DAGGER_PROBLEM_MATCHERS,
+  );
+  task.detail = ["dagger", ...args].join(" ");
+
+  return task;
+};
+
+/**
+ * Gets the module of a task relative to its workspace folder
+ * @param folder The workspace folder the task is saved in
+ * @param modulePath The path of the module the task runs
+ */
+export const taskModulePath = (
+  folder: vscode.WorkspaceFolder,
+  modulePath: string,
+): string => {
+  const relative = path.relative(folder.uri.fsPath, modulePath);
+  if (!relative) {
+    return ".";
+  }
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    return modulePath;
+  }
+
+  return relative.split(path.sep).join("/");
+};
+
+/**
+ * Registers the provider of `dagger` tasks
+ */
+export const registerDaggerTaskProvider = (
+  context: vscode.ExtensionContext,
+  dagger: DaggerCLI,
+  modules: ModuleRegistry,
+  settings: DaggerSettings,
+  secrets: SecretStore,
+): void => {
+  context.subscriptions.push(
+    vscode.tasks.registerTaskProvider(
+      DAGGER_TASK_TYPE,
+      new DaggerTaskProvider(dagger, modules, settings, secrets),
+    ),
+  );
+};
@@ -0,0 +1,425 @@
+import * as vscode from "vscode";
+import { HistoryEntry, HistoryStore } from "../history";
+import { PresetStore } from "../presets";
+import { DaggerCLI } from "../cli";
+import { SecretStore } from "../secrets";
+import { DaggerSettings } from "../settings";
+import { showFunctionCallForm } from "../webview/call-form";
+import {
+  buildFunctionCommandArgs,
+  CollectedFunctionInput,
+  runFunction,
+} from "../utils/function-helpers";
+
+const HISTORY_VIEW_ID = "daggerHistoryView";
+const OUTPUT_SCHEME = "dagger-history";
+
+interface HistoryViewConfig {
+  history: HistoryStore;
+  presets: PresetStore;
+  daggerCli: DaggerCLI;
+  secrets: SecretStore;
+  settings: DaggerSettings;
+}
+
+/**
+ * Tree item for a recorded function call
+ */
+export class HistoryTreeItem extends vscode.TreeItem {
+  constructor(readonly entry: HistoryEntry) {
+    super(
+      entry.moduleName
+        ? `${entry.moduleName} ${entry.functionName}`
+        : entry.functionName,
+      vscode.TreeItemCollapsibleState.None,
+    );
+
+    const failed = entry.exitCode !== undefined && entry.exitCode !== 0;
+    this.id = entry.id;
+    // e.g. historyEntry.editable.output, calls that needed a TTY have no output
+    this.contextValue = [
+      "historyEntry",
+      entry.functionInfo && "editable",
+      entry.outputFile !== undefined && "output",
+    ]
+      .filter(Boolean)
+      .join(".");
+    this.iconPath = new vscode.ThemeIcon(
+      failed ? "error" : "pass",
+      new vscode.ThemeColor(
+        failed ? "testing.iconFailed" : "testing.iconPassed",
+      ),
+    );
+    this.description = [
+      entry.exitCode !== undefined ? `exit ${entry.exitCode}` : undefined,
+      formatDuration(entry.duration),
+      formatAge(entry.startedAt),
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    this.tooltip = new vscode.MarkdownString().appendCodeblock(
+      entry.commandLine,
+      "shell",
+    );
+    if (entry.outputFile !== undefined) {
+      this.command = {
+        command: "dagger.history.showOutput",
+        title: "Show Output",
+        arguments: [this],
+      };
+    }
+  }
+}
+
+/**
+ * Lists the recorded function calls, most recent first
+ */
+class HistoryDataProvider implements vscode.TreeDataProvider<HistoryTreeItem> {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(private readonly history: HistoryStore) {
+    history.onDidChange(() => this._onDidChangeTreeData.fire());
+  }
+
+  getTreeItem(element: HistoryTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: HistoryTreeItem): HistoryTreeItem[] {
+    if (element) {
+      return [];
+    }
+
+    return this.history.list().map((entry) => new HistoryTreeItem(entry));
+  }
+}
+
+/**
+ * Serves the output of recorded calls as read-only documents so they can be opened and diffed
+ */
+class HistoryOutputProvider implements vscode.TextDocumentContentProvider {
+  constructor(private readonly history: HistoryStore) {}
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const entry = this.history.get(uri.query);
+    if (!entry) {
+      return "This call is no longer in the history.";
+    }
+
+    const header = [
+      `$ ${entry.commandLine}`,
+      `# started ${new Date(entry.startedAt).toLocaleString()}, took ${formatDuration(entry.duration)}${entry.exitCode !== undefined ? `, exit code ${entry.exitCode}` : ""}`,
+    ];
+
+    return [
+      ...header,
+      "",
+      (await this.history.getOutput(entry)) ??
+        "No output was captured for this call.",
+    ].join("\n");
+  }
+}
+
+const outputUri = (entry: HistoryEntry): vscode.Uri =>
+  vscode.Uri.from({
+    scheme: OUTPUT_SCHEME,
+    path: `/${entry.functionName}.log`,
+    query: entry.id,
+  });
+
+/**
+ * Registers the call history view and its commands
+ * @param context The extension context
+ * @param config The stores used by the view
+ */
+export const registerHistoryView = (
+  context: vscode.ExtensionContext,
+  config: HistoryViewConfig,
+): void => {
+  const { history, presets, daggerCli, secrets, settings } = config;
+
+  const treeView = vscode.window.createTreeView(HISTORY_VIEW_ID, {
+    treeDataProvider: new HistoryDataProvider(history),
+  });
+
+  context.subscriptions.push(
+    treeView,
+    vscode.workspace.registerTextDocumentContentProvider(
+      OUTPUT_SCHEME,
+      new HistoryOutputProvider(history),
+    ),
+    vscode.commands.registerCommand(
+      "dagger.history.showOutput",
+      async (item?: HistoryTreeItem) => {
+        const entry =
+          item?.entry ?? (await pickEntry(history, { withOutput: true }));
+        if (!entry) {
+          return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(
+          outputUri(entry),
+        );
+        await vscode.window.showTextDocument(document, { preview: true });
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dagger.history.rerun",
+      async (item?: HistoryTreeItem) => {
+        const entry = item?.entry ?? (await pickEntry(history));
+        if (!entry) {
+          return;
+        }
+
+        await rerun(history, daggerCli, settings, secrets, entry, {
+          functionName: entry.functionName,
+          moduleName: entry.moduleName,
+          returnType: entry.functionInfo?.returnType ?? "",
+          argValues: entry.argValues,
+          commandArgs: entry.commandArgs,
+          functionInfo: entry.functionInfo,
+        });
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dagger.history.editAndRerun",
+      async (item?: HistoryTreeItem) => {
+        const entry = item?.entry ?? (await pickEntry(history));
+        if (!entry) {
+          return;
+        }
+
+        const functionInfo = entry.functionInfo;
+        if (!functionInfo) {
+          vscode.window.showErrorMessage(
+            `The arguments of \`${entry.functionName}\` can't be edited because the call was recorded without its function details.`,
+          );
+          return;
+        }
+
+        const argValues = await showFunctionCallForm(
+          functionInfo,
+          presets,
+          entry.workspacePath,
+          entry.argValues,
+          secrets,
+        );
+        if (!argValues) {
+          return;
+        }
+
+        // keep anything appended after the arguments, such as `export --path`
+        const trailingArgs = entry.commandArgs.slice(
+          buildFunctionCommandArgs(functionInfo, entry.argValues).length,
+        );
+
+        await rerun(history, daggerCli, settings, secrets, entry, {
+          functionName: functionInfo.name,
+          moduleName: functionInfo.module,
+          returnType: functionInfo.returnType,
+          argValues,
+          commandArgs: [
+            ...buildFunctionCommandArgs(functionInfo, argValues),
+            ...trailingArgs,
+          ],
+          functionInfo,
+        });
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dagger.history.copyCommand",
+      async (item?: HistoryTreeItem) => {
+        const entry = item?.entry ?? (await pickEntry(history));
+        if (!entry) {
+          return;
+        }
+
+        await vscode.env.clipboard.writeText(entry.commandLine);
+        vscode.window.showInformationMessage("Command copied to clipboard.");
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dagger.history.compare",
+      async (item?: HistoryTreeItem) => {
+        const entry =
+          item?.entry ?? (await pickEntry(history, { withOutput: true }));
+        if (!entry) {
+          return;
+        }
+
+        const other = await pickEntry(history, {
+          placeHolder: "Select a call to compare with",
+          exclude: entry,
+          withOutput: true,
+        });
+        if (!other) {
+          return;
+        }
+
+        // show the older call on the left
+        const [left, right] =
+          other.startedAt < entry.startedAt ? [other, entry] : [entry, other];
+        await vscode.commands.executeCommand(
+          "vscode.diff",
+          outputUri(left),
+          outputUri(right),
+          `${left.functionName} (${formatAge(left.startedAt)}) ↔ ${right.functionName} (${formatAge(right.startedAt)})`,
+        );
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dagger.history.remove",
+      async (item?: HistoryTreeItem) => {
+        if (item) {
+          await history.remove(item.entry.id);
+        }
+      },
+    ),
+    vscode.commands.registerCommand("dagger.history.clear", async () => {
+      const confirm = await vscode.window.showWarningMessage(
+        "Clear the call history?",
+        { modal: true },
+        "Clear",
+      );
+      if (confirm === "Clear") {
+        await history.clear();
+      }
+    }),
+  );
+};
+
+/**
+ * Runs a call again and records it in the history, in the Dagger output channel
+ * or a terminal task depending on the run mode. Calls that needed a TTY run in
+ * a shell task again.
+ */
+const rerun = async (
+  history: HistoryStore,
+  daggerCli: DaggerCLI,
+  settings: DaggerSettings,
+  secrets: SecretStore,
+  entry: HistoryEntry,
+  input: CollectedFunctionInput,
+): Promise<void> => {
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "Dagger",
+      cancellable: true,
+    },
+    async (progress, token) => {
+      progress.report({
+        message: `Running function \`${input.functionName}\`${input.moduleName ? ` in module ${input.moduleName}` : ""}`,
+      });
+
+      try {
+        const interactive = entry.outputFile === undefined;
+        const result = await runFunction(token, entry.workspacePath, input, {
+          history,
+          cli:
+            !interactive && settings.runMode === "output"
+              ? daggerCli
+              : undefined,
+          secrets,
+          interactive,
+        });
+        if (!result.Result.success && !token.isCancellationRequested) {
+          vscode.window.showErrorMessage(
+            `Function \`${input.functionName}\` failed with exit code ${result.Result.exitCode}.`,
+          );
+        }
+      } catch (error) {
+        if (token.isCancellationRequested) {
+          console.log("Function call cancelled by user during execution");
+          return;
+        }
+
+        console.error("Error re-running function:", error);
+        vscode.window.showErrorMessage(
+          `Failed to run function \`${input.functionName}\`: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    },
+  );
+};
+
+/**
+ * Shows a quick pick of the recorded calls
+ * @param options.exclude An entry to leave out of the list, calls to the same function are listed first
+ * @param options.withOutput Only list the calls that have their output captured
+ */
+const pickEntry = async (
+  history: HistoryStore,
+  options: {
+    placeHolder?: string;
+    exclude?: HistoryEntry;
+    withOutput?: boolean;
+  } = {},
+): Promise<HistoryEntry | undefined> => {
+  const { placeHolder = "Select a call", exclude, withOutput } = options;
+  const entries = history
+    .list()
+    .filter((entry) => entry.id !== exclude?.id)
+    .filter((entry) => !withOutput || entry.outputFile !== undefined)
+    .sort((a, b) =>
+      exclude
+        ? Number(b.functionName === exclude.functionName) -
+          Number(a.functionName === exclude.functionName)
+        : 0,
+    );
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage(
+      withOutput
+        ? "No calls with captured output have been recorded yet."
+        : "No calls have been recorded yet.",
+    );
+    return undefined;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    entries.map((entry) => ({
+      label: new HistoryTreeItem(entry).label as string,
+      description: formatAge(entry.startedAt),
+      detail: entry.commandLine,
+      entry,
+    })),
+    { placeHolder, matchOnDetail: true },
+  );
+
+  return picked?.entry;
+};
+
+/**
+ * Formats a duration in milliseconds, e.g. 850ms, 12.3s or 2m 5s
+ */
+export const formatDuration = (duration: number): string => {
+  if (duration < 1000) {
+    return `${duration}ms`;
+  }
+  if (duration < 60_000) {
+    return `${(duration / 1000).toFixed(1)}s`;
+  }
+
+  const minutes = Math.floor(duration / 60_000);
+  const seconds = Math.round((duration % 60_000) / 1000);
+  return `${minutes}m ${seconds}s`;
+};
+
+/**
+ * Formats how long ago a timestamp was, e.g. just now, 5m ago or 3d ago
+ */
+export const formatAge = (timestamp: number, now = Date.now()): string => {
+  const seconds = Math.floor((now - timestamp) / 1000);
+  if (seconds < 60) {
+    return "just now";
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m ago`;
+  }
+  if (seconds < 86_400) {
+    return `${Math.floor(seconds / 3600)}h ago`;
+  }
+
+  return `${Math.floor(seconds / 86_400)}d ago`;
+};
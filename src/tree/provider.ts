@@ -1,15 +1,36 @@
 import * as vscode from "vscode";
-import { FunctionInfo } from "../types/types";
+import { FunctionArgument, FunctionInfo } from "../types/types";
 import { DaggerSettings } from "../settings";
 import { DaggerCLI, kebab } from "../cli";
-
-type ItemType = "function" | "argument" | "empty" | "action" | "module";
+import { getArgumentTypeInfo } from "../utils/type-helpers";
+import { FunctionResult, ResultStore } from "../results";
+import { functionPath } from "../tasks";
+import { formatAge } from "./history";
+import {
+  ActiveModule,
+  DaggerModule,
+  describeModule,
+  ModuleWatcher,
+} from "../workspace";
+
+type ItemType =
+  | "function"
+  | "argument"
+  | "empty"
+  | "action"
+  | "module"
+  | "folder"
+  | "project"
+  | "result";
 
 interface TreeViewConfig {
   path?: string;
+  activeModule?: ActiveModule; // when set the tree shows every module in the workspace
+  watcher?: ModuleWatcher; // reloads functions when modules change
   daggerCli: DaggerCLI;
   registerTreeCommands?: boolean; // Flag to control command registration
   settings: DaggerSettings;
+  results?: ResultStore; // shows the results pinned to functions
 }
 
 // Constants to eliminate magic strings and numbers
@@ -18,6 +39,9 @@ const FUNCTION_ICON_NAME = "symbol-namespace";
 const ARGUMENT_ICON_NAME = "symbol-parameter";
 const ACTION_ICON_NAME = "arrow-right";
 const MODULE_ICON_NAME = "package"; // Icon for module (package represents something modular)
+const FOLDER_ICON_NAME = "root-folder";
+const PROJECT_ICON_NAME = "folder-library"; // Icon for a dagger.json module
+const RESULT_ICON_NAME = "json";
 const TREE_VIEW_OPTIONS = {
   SHOW_COLLAPSE_ALL: true,
   CAN_SELECT_MANY: false,
@@ -32,7 +56,11 @@ export const registerTreeView = (
   const daggerCli = config.daggerCli;
 
   // Pass the extension context to the data provider
-  const dataProvider = new DataProvider(daggerCli, path);
+  const dataProvider = new DataProvider(
+    daggerCli,
+    config.activeModule ?? path,
+    config.results,
+  );
 
   const treeView = vscode.window.createTreeView(TREE_VIEW_ID, {
     treeDataProvider: dataProvider,
@@ -55,7 +83,35 @@ export const registerTreeView = (
     },
   );
 
-  context.subscriptions.push(treeView, reloadCommand);
+  context.subscriptions.push(
+    treeView,
+    reloadCommand,
+    // cached functions are shown first, then updated once loaded again
+    daggerCli.onDidRevalidateFunctions((modulePath) =>
+      dataProvider.refreshModules([modulePath]),
+    ),
+    // folders can add or remove modules
+    vscode.workspace.onDidChangeWorkspaceFolders(() =>
+      dataProvider.reloadFunctions(),
+    ),
+  );
+
+  if (config.watcher) {
+    context.subscriptions.push(
+      config.watcher.onDidChange(async ({ modules, layoutChanged }) => {
+        // stale functions are shown until they are revalidated
+        await Promise.all(
+          modules.map((modulePath) => daggerCli.invalidateSource(modulePath)),
+        );
+
+        if (layoutChanged) {
+          await dataProvider.reloadFunctions();
+        } else {
+          await dataProvider.refreshModules(modules);
+        }
+      }),
+    );
+  }
 };
 
 /**
@@ -64,6 +120,10 @@ export const registerTreeView = (
  */
 export class DaggerTreeItem extends vscode.TreeItem {
   children?: DaggerTreeItem[];
+  parent?: DaggerTreeItem;
+  modulePath?: string; // path of the dagger.json module the item belongs to
+  argument?: FunctionArgument; // the argument an argument item shows
+  result?: FunctionResult; // the result a result item shows
   readonly type: ItemType;
   readonly originalName: string;
   readonly functionInfo?: FunctionInfo;
@@ -150,6 +210,18 @@ export class DaggerTreeItem extends vscode.TreeItem {
         this.tooltip = `Argument: ${label}`;
         this.contextValue = "argument";
         break;
+      case "folder":
+        this.iconPath = new vscode.ThemeIcon(FOLDER_ICON_NAME);
+        this.contextValue = "folder";
+        break;
+      case "project":
+        this.iconPath = new vscode.ThemeIcon(PROJECT_ICON_NAME);
+        this.contextValue = "project";
+        break;
+      case "result":
+        this.iconPath = new vscode.ThemeIcon(RESULT_ICON_NAME);
+        this.contextValue = "result";
+        break;
       case "action":
         this.iconPath = new vscode.ThemeIcon(ACTION_ICON_NAME);
         this.contextValue = "action";
@@ -163,6 +235,41 @@ export class DaggerTreeItem extends vscode.TreeItem {
   }
 }
 
+/**
+ * Creates the tree item for a function argument, including its type details in the tooltip
+ * @param arg The function argument
+ * @returns The argument tree item
+ */
+const createArgumentItem = (arg: FunctionArgument): DaggerTreeItem => {
+  const item = new DaggerTreeItem(
+    `--${kebab(arg.name)} (${arg.type})${arg.required ? " [required]" : ""}`,
+    "argument",
+  );
+
+  const typeInfo = getArgumentTypeInfo(arg);
+  let tooltip = `Argument: --${kebab(arg.name)}\nType: ${typeInfo.name}`;
+  if (arg.description) {
+    tooltip += `\n\n${arg.description}`;
+  }
+  if (typeInfo.kind === "Enum" && typeInfo.enumValues?.length) {
+    tooltip += `\n\nValues: ${typeInfo.enumValues.map((value) => value.name).join(", ")}`;
+  }
+  if (arg.defaultValue !== undefined) {
+    tooltip += `\nDefault: ${arg.defaultValue}`;
+  }
+  if (arg.defaultPath) {
+    tooltip += `\nDefault path: ${arg.defaultPath}`;
+  }
+  item.tooltip = tooltip;
+  item.argument = arg;
+
+  if (arg.defaultValue !== undefined) {
+    item.description = `= ${arg.defaultValue}`;
+  }
+
+  return item;
+};
+
 export class DataProvider implements vscode.TreeDataProvider<DaggerTreeItem> {
   private _onDidChangeTreeData: vscode.EventEmitter<
     DaggerTreeItem | DaggerTreeItem[] | void | null | undefined
@@ -174,18 +281,51 @@ export class DataProvider implements vscode.TreeDataProvider<DaggerTreeItem> {
   > = this._onDidChangeTreeData.event;
 
   private items: DaggerTreeItem[] = [];
+  /** Resolves once the functions shown when the view opens have loaded */
+  readonly loaded: Promise<void>;
+  // the functions each loaded module had, used to only update modules that changed
+  private signatures = new Map<string, string>();
 
+  /**
+   * @param dagger The Dagger CLI
+   * @param source The path of a single module, or the active module service to show every module in the workspace
+   * @param results The store of the results pinned to functions
+   */
   constructor(
     private dagger: DaggerCLI,
-    private path: string,
+    private source: string | ActiveModule,
+    private results?: ResultStore,
   ) {
+    results?.onDidChange(() => this.refresh());
+
+    // highlight the module commands run in when it changes
+    if (typeof source !== "string") {
+      source.onDidChange(() => this.markActiveModule());
+    }
+
     // Show loading state immediately
     this.items = [new DaggerTreeItem("Loading functions...", "empty")];
     // Load data asynchronously without blocking
-    this.loadData();
+    this.loaded = this.loadData();
   }
 
   private async loadData(): Promise<void> {
+    let path: string;
+    if (typeof this.source === "string") {
+      path = this.source;
+    } else {
+      const modules = await this.source.modules.refresh();
+
+      // with several modules each one loads its functions when it is expanded
+      if (modules.length !== 1) {
+        this.items = this.buildWorkspaceItems(modules);
+        this.markActiveModule();
+        return;
+      }
+
+      path = modules[0].path;
+    }
+
     try {
       // Show progress while loading functions
       await vscode.window.withProgress(
@@ -212,7 +352,7 @@ export class DataProvider implements vscode.TreeDataProvider<DaggerTreeItem> {
 
             try {
               // Get functions grouped by module using the new getFunctionsAsTree method
-              const moduleMap = await this.dagger.getFunctionsAsTree(this.path);
+              const moduleMap = await this.dagger.getFunctionsAsTree(path);
 
               // Clear the timeout since we're done loading
               clearTimeout(timeoutHandle);
@@ -223,28 +363,13 @@ export class DataProvider implements vscode.TreeDataProvider<DaggerTreeItem> {
                 0,
               );
 
+              this.signatures.set(path, functionsSignature(moduleMap));
               if (totalFunctions === 0) {
-                this.items = [
-                  new DaggerTreeItem("No functions found", "empty"),
-                  new DaggerTreeItem(
-                    "Learn how to create functions",
-                    "action",
-                    vscode.TreeItemCollapsibleState.None,
-                    {
-                      command: "vscode.open",
-                      title: "Learn about Dagger functions",
-                      arguments: [
-                        vscode.Uri.parse("https://docs.dagger.io/quickstart"),
-                      ],
-                    },
-                  ),
-                ];
+                this.items = createNoFunctionsItems();
                 this.refresh();
                 return;
               }
 
-              this.items = [];
-
               // Report progress
               progress.report({
                 message: `Processing ${totalFunctions} functions...`,
@@ -254,7 +379,7 @@ export class DataProvider implements vscode.TreeDataProvider<DaggerTreeItem> {
               progress.report({ message: "Building tree view..." });
 
               // Build the tree items from the module map
-              await this.buildTreeItems(moduleMap);
+              this.items = this.buildTreeItems(moduleMap, path);
 
               // Refresh the tree view with the new items
               this.refresh();
@@ -265,6 +390,8 @@ export class DataProvider implements vscode.TreeDataProvider<DaggerTreeItem> {
             }
           } catch (error) {
             console.error("Error loading functions:", error);
+            // reload once the module changes, the error may be fixed by then
+            this.signatures.set(path, "");
             this.items = [
               new DaggerTreeItem("Error loading functions", "empty"),
             ];
@@ -283,13 +410,91 @@ export class DataProvider implements vscode.TreeDataProvider<DaggerTreeItem> {
     }
   }
 
+  /**
+   * Builds the items for a workspace with several modules. Modules are grouped
+   * by workspace folder when there is more than one folder.
+   * @param modules The modules in the workspace
+   */
+  private buildWorkspaceItems(modules: DaggerModule[]): DaggerTreeItem[] {
+    if (modules.length === 0) {
+      return [
+        new DaggerTreeItem("No Dagger modules found", "empty"),
+        new DaggerTreeItem(
+          "Initialize a project",
+          "action",
+          vscode.TreeItemCollapsibleState.None,
+          { command: "dagger.init", title: "Initialize a Dagger project" },
+        ),
+      ];
+    }
+
+    const folders = new Map<string, DaggerModule[]>();
+    for (const module of modules) {
+      const key = module.workspaceFolder?.uri.fsPath ?? "";
+      folders.set(key, [...(folders.get(key) ?? []), module]);
+    }
+
+    if (folders.size === 1) {
+      return modules.map((module) => createProjectItem(module));
+    }
+
+    return [...folders.values()].map((folderModules) => {
+      const folder = folderModules[0].workspaceFolder;
+      const folderItem = new DaggerTreeItem(
+        folder?.name ?? "Other",
+        "folder",
+        vscode.TreeItemCollapsibleState.Expanded,
+      );
+      folderItem.id = `folder:${folder?.uri.fsPath ?? ""}`;
+      folderItem.children = folderModules.map((module) =>
+        createProjectItem(module, folderItem),
+      );
+
+      return folderItem;
+    });
+  }
+
+  /**
+   * Loads the functions of a module when its item is expanded
+   * @param project The item of the module
+   */
+  private async loadProjectItems(
+    project: DaggerTreeItem,
+  ): Promise<DaggerTreeItem[]> {
+    const path = project.modulePath!;
+
+    try {
+      const moduleMap = await vscode.window.withProgress(
+        { location: { viewId: TREE_VIEW_ID } },
+        () => this.dagger.getFunctionsAsTree(path),
+      );
+      const items = this.buildTreeItems(moduleMap, path, project);
+      this.signatures.set(path, functionsSignature(moduleMap));
+
+      return items.length > 0 ? items : createNoFunctionsItems();
+    } catch (error) {
+      console.error(`Failed to load functions for ${path}:`, error);
+      this.signatures.set(path, "");
+      return [new DaggerTreeItem("Failed to load functions", "empty")];
+    }
+  }
+
   /**
    * Builds the tree items from the module map
    * @param moduleMap Map of module names to function arrays
+   * @param modulePath The path of the module the functions belong to
+   * @param parent The item of the module when the workspace has several modules
+   * @returns The items to show under the parent or at the top level
    */
-  private async buildTreeItems(
+  private buildTreeItems(
     moduleMap: Map<string, Array<{ fn: FunctionInfo; index: number }>>,
-  ): Promise<void> {
+    modulePath: string,
+    parent?: DaggerTreeItem,
+  ): DaggerTreeItem[] {
+    const items: DaggerTreeItem[] = [];
+    // function IDs are only unique within a module
+    const idPrefix = parent ? `${modulePath}:` : "";
+
     // If there's only one module, don't nest under module
     if (moduleMap.size === 1) {
       const moduleEntries = [...moduleMap.entries()][0];
@@ -298,95 +503,30 @@ export class DataProvider implements vscode.TreeDataProvider<DaggerTreeItem> {
       // Create function items directly
       for (const { fn } of moduleFunctions) {
         const functionName = fn.name.trim();
-        const functionId = fn.id; // Use the function ID directly
 
-        if (!functionId) {
+        if (!fn.id) {
           console.warn(`Function ${functionName} has no ID, skipping`);
           continue;
         }
 
-        // Create function item with FunctionInfo
-        const functionItem = new DaggerTreeItem(
-          fn, // Pass the FunctionInfo object directly
-          "function",
-          fn.args && fn.args.length > 0
-            ? vscode.TreeItemCollapsibleState.Collapsed
-            : vscode.TreeItemCollapsibleState.None,
-        );
-
-        // Set the command after creating the item so we can pass the item itself
-        functionItem.command = {
-          command: "dagger.call",
-          title: "Call Function",
-          arguments: [functionItem], // Pass the tree item itself
-        };
-
-        // Pre-load function arguments as children
-        if (fn.args && fn.args.length > 0) {
-          functionItem.children = fn.args.map(
-            (arg: { name: string; type: string; required: boolean }) =>
-              new DaggerTreeItem(
-                `--${kebab(arg.name)} (${arg.type})${
-                  arg.required ? " [required]" : ""
-                }`,
-                "argument",
-              ),
-          );
-        }
-
-        this.items.push(functionItem);
+        items.push(createFunctionItem(fn, modulePath, idPrefix, parent));
       }
     } else {
       // Multiple modules - handle root module separately and nest other functions under module tree items
 
       // First, add root module functions (empty module name) at the top level
       const rootModuleFunctions = moduleMap.get("") || [];
-      if (rootModuleFunctions.length > 0) {
-        for (const { fn } of rootModuleFunctions) {
-          const functionName = fn.name.trim();
-          const functionId = fn.id;
-
-          if (!functionId) {
-            console.warn(
-              `Root module function ${functionName} has no ID, skipping`,
-            );
-            continue;
-          }
+      for (const { fn } of rootModuleFunctions) {
+        const functionName = fn.name.trim();
 
-          // Create function item for root module with FunctionInfo
-          const functionItem = new DaggerTreeItem(
-            fn, // Pass FunctionInfo directly
-            "function",
-            fn.args && fn.args.length > 0
-              ? vscode.TreeItemCollapsibleState.Collapsed
-              : vscode.TreeItemCollapsibleState.None,
+        if (!fn.id) {
+          console.warn(
+            `Root module function ${functionName} has no ID, skipping`,
           );
-
-          // Set the command
-          functionItem.command = {
-            command: "dagger.call",
-            title: "Call Function",
-            arguments: [functionItem],
-          };
-
-          // Pre-load function arguments as children
-          if (fn.args && fn.args.length > 0) {
-            functionItem.children = fn.args.map(
-              (arg: { name: string; type: string; required: boolean }) =>
-                new DaggerTreeItem(
-                  `--${kebab(arg.name)} (${arg.type})${
-                    arg.required ? " [required]" : ""
-                  }`,
-                  "argument",
-                ),
-            );
-          }
-
-          this.items.push(functionItem);
+          continue;
         }
 
-        // Remove the root module from the map so we don't process it again
-        moduleMap.delete("");
+        items.push(createFunctionItem(fn, modulePath, idPrefix, parent));
       }
 
       // Then handle the remaining modules
@@ -404,36 +544,29 @@ export class DataProvider implements vscode.TreeDataProvider<DaggerTreeItem> {
           undefined, // No command for module
           moduleName, // Pass module name
         );
+        moduleItem.id = `${idPrefix}module:${moduleName}`;
+        moduleItem.modulePath = modulePath;
+        moduleItem.parent = parent;
 
         // Add functions as children of the module
         moduleItem.children = moduleFunctions.map(({ fn }) => {
           // For display, use the function name as-is since it should already be clean
           const displayName = fn.name.trim();
-          const functionId = fn.id; // Use the function ID directly
 
-          if (!functionId) {
+          if (!fn.id) {
             console.warn(
               `Function ${displayName} in module ${moduleName} has no ID, skipping`,
             );
             return new DaggerTreeItem(`${displayName} (error: no ID)`, "empty");
           }
 
-          // Create function item with FunctionInfo
-          const functionItem = new DaggerTreeItem(
-            fn, // Pass FunctionInfo directly
-            "function",
-            fn.args && fn.args.length > 0
-              ? vscode.TreeItemCollapsibleState.Collapsed
-              : vscode.TreeItemCollapsibleState.None,
+          const functionItem = createFunctionItem(
+            fn,
+            modulePath,
+            idPrefix,
+            moduleItem,
           );
 
-          // Set the command after creating the item so we can pass the item itself
-          functionItem.command = {
-            command: "dagger.call",
-            title: "Call Function",
-            arguments: [functionItem], // Pass the tree item itself
-          };
-
           // Set tooltip with full information
           let tooltip = `Function: ${fn.name.trim()}`;
           if (fn.description) {
@@ -442,30 +575,20 @@ export class DataProvider implements vscode.TreeDataProvider<DaggerTreeItem> {
           tooltip += `\n\nReturns: ${fn.returnType || "unknown"}`;
           functionItem.tooltip = tooltip;
 
-          // Pre-load function arguments as children
-          if (fn.args && fn.args.length > 0) {
-            functionItem.children = fn.args.map(
-              (arg: { name: string; type: string; required: boolean }) =>
-                new DaggerTreeItem(
-                  `--${kebab(arg.name)} (${arg.type})${
-                    arg.required ? " [required]" : ""
-                  }`,
-                  "argument",
-                ),
-            );
-          }
-
           return functionItem;
         });
 
-        this.items.push(moduleItem);
+        items.push(moduleItem);
       }
     }
+
+    return items;
   }
 
   async reloadFunctions(): Promise<void> {
     // Show loading state
     this.items = [new DaggerTreeItem("Reloading functions...", "empty")];
+    this.signatures.clear();
     this.refresh();
 
     try {
@@ -485,11 +608,90 @@ export class DataProvider implements vscode.TreeDataProvider<DaggerTreeItem> {
     }
   }
 
+  /**
+   * Loads the functions of modules again and updates only the modules whose
+   * functions changed. Modules that haven't been loaded yet are skipped.
+   * @param modulePaths The paths of the modules that changed
+   */
+  async refreshModules(modulePaths: string[]): Promise<void> {
+    for (const modulePath of modulePaths) {
+      if (!this.signatures.has(modulePath)) {
+        continue;
+      }
+
+      let moduleMap: Awaited<ReturnType<DaggerCLI["getFunctionsAsTree"]>>;
+      try {
+        moduleMap = await vscode.window.withProgress(
+          { location: { viewId: TREE_VIEW_ID } },
+          () => this.dagger.getFunctionsAsTree(modulePath),
+        );
+      } catch (error) {
+        // keep the current functions, the errors are shown as diagnostics
+        console.error(`Failed to refresh functions for ${modulePath}:`, error);
+        continue;
+      }
+
+      const signature = functionsSignature(moduleMap);
+      if (signature === this.signatures.get(modulePath)) {
+        console.debug(`Functions of ${modulePath} are unchanged`);
+        continue;
+      }
+      this.signatures.set(modulePath, signature);
+
+      const project = this.projectItems().find(
+        (item) => item.modulePath === modulePath,
+      );
+      if (project) {
+        const items = this.buildTreeItems(moduleMap, modulePath, project);
+        project.children = items.length > 0 ? items : createNoFunctionsItems();
+        this._onDidChangeTreeData.fire(project);
+      } else {
+        const items = this.buildTreeItems(moduleMap, modulePath);
+        this.items = items.length > 0 ? items : createNoFunctionsItems();
+        this.refresh();
+      }
+    }
+  }
+
   refresh(): void {
     this._onDidChangeTreeData.fire();
   }
 
+  /**
+   * The items of the modules in a workspace with several modules
+   */
+  private projectItems(): DaggerTreeItem[] {
+    return this.items
+      .flatMap((item) =>
+        item.type === "folder" ? (item.children ?? []) : [item],
+      )
+      .filter((item) => item.type === "project");
+  }
+
+  /**
+   * Marks the item of the active module in a workspace with several modules
+   */
+  private markActiveModule(): void {
+    if (typeof this.source === "string") {
+      return;
+    }
+
+    const activePath = this.source.current?.path;
+    for (const project of this.projectItems()) {
+      setProjectActive(project, project.modulePath === activePath);
+    }
+
+    this.refresh();
+  }
+
   getTreeItem(element: DaggerTreeItem): vscode.TreeItem {
+    // functions without arguments can be expanded while they have a pinned result
+    if (element.type === "function" && !element.children?.length) {
+      element.collapsibleState = this.pinnedResult(element)
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None;
+    }
+
     return element;
   }
 
@@ -498,46 +700,169 @@ export class DataProvider implements vscode.TreeDataProvider<DaggerTreeItem> {
       return this.items;
     }
 
+    // modules in a multi-module workspace load their functions on first expand
+    if (element.type === "project" && element.children === undefined) {
+      element.children = await this.loadProjectItems(element);
+    }
+
+    // the pinned result is listed before the arguments
+    const result =
+      element.type === "function" ? this.pinnedResult(element) : undefined;
+    if (result) {
+      return [createResultItem(result, element), ...(element.children ?? [])];
+    }
+
     // Return the pre-loaded children if available
     return element.children ?? [];
   }
 
-  getParent(element: DaggerTreeItem): DaggerTreeItem | undefined {
-    // For root items
-    if (this.items.includes(element)) {
+  private pinnedResult(element: DaggerTreeItem): FunctionResult | undefined {
+    if (!this.results || !element.functionInfo || !element.modulePath) {
       return undefined;
     }
 
-    // For function items - find their module parent
-    if (element.type === "function" && element.functionInfo?.module) {
-      // Find module with matching name
-      return this.items.find(
-        (item) =>
-          item.type === "module" &&
-          item.originalName === element.functionInfo?.module,
-      );
-    }
-
-    // For argument items - find their function parent
-    if (element.type === "argument") {
-      // Search all items and their children
-      for (const item of this.items) {
-        // Direct child of root function
-        if (item.type === "function" && item.children?.includes(element)) {
-          return item;
-        }
-
-        // Child of a function under a module
-        if (item.type === "module" && item.children) {
-          for (const functionItem of item.children) {
-            if (functionItem.children?.includes(element)) {
-              return functionItem;
-            }
-          }
-        }
-      }
-    }
+    return this.results.pinned(
+      element.modulePath,
+      functionPath(element.functionInfo),
+    );
+  }
 
-    return undefined;
+  getParent(element: DaggerTreeItem): DaggerTreeItem | undefined {
+    return element.parent;
   }
 }
+
+/**
+ * Creates the tree item for a function with its arguments as children
+ * @param fn The function
+ * @param modulePath The path of the module the function belongs to
+ * @param idPrefix Prefix for the item ID so functions of different modules don't clash
+ * @param parent The parent item, if any
+ */
+const createFunctionItem = (
+  fn: FunctionInfo,
+  modulePath: string,
+  idPrefix: string,
+  parent?: DaggerTreeItem,
+): DaggerTreeItem => {
+  const functionItem = new DaggerTreeItem(
+    fn, // Pass the FunctionInfo object directly
+    "function",
+    fn.args && fn.args.length > 0
+      ? vscode.TreeItemCollapsibleState.Collapsed
+      : vscode.TreeItemCollapsibleState.None,
+  );
+  functionItem.id = `${idPrefix}${fn.id}`;
+  functionItem.modulePath = modulePath;
+  functionItem.parent = parent;
+
+  // Set the command after creating the item so we can pass the item itself
+  functionItem.command = {
+    command: "dagger.call",
+    title: "Call Function",
+    arguments: [functionItem], // Pass the tree item itself
+  };
+
+  // Pre-load function arguments as children
+  if (fn.args && fn.args.length > 0) {
+    functionItem.children = fn.args.map((arg) => {
+      const argumentItem = createArgumentItem(arg);
+      argumentItem.modulePath = modulePath;
+      argumentItem.parent = functionItem;
+      return argumentItem;
+    });
+  }
+
+  return functionItem;
+};
+
+/**
+ * Creates the tree item for the result pinned to a function, it opens the result
+ * @param result The pinned result
+ * @param parent The item of the function
+ */
+const createResultItem = (
+  result: FunctionResult,
+  parent: DaggerTreeItem,
+): DaggerTreeItem => {
+  const item = new DaggerTreeItem("Last result", "result");
+  item.id = `${parent.id}:result`;
+  item.modulePath = parent.modulePath;
+  item.parent = parent;
+  item.result = result;
+  item.description = formatAge(result.createdAt);
+  item.tooltip = new vscode.MarkdownString().appendCodeblock(
+    result.commandLine,
+    "shell",
+  );
+  item.command = {
+    command: "dagger.result.open",
+    title: "Open Result",
+    arguments: [result.id],
+  };
+
+  return item;
+};
+
+/**
+ * Creates the collapsed tree item for a module in a multi-module workspace
+ * @param module The module
+ * @param parent The workspace folder item, if any
+ */
+const createProjectItem = (
+  module: DaggerModule,
+  parent?: DaggerTreeItem,
+): DaggerTreeItem => {
+  const item = new DaggerTreeItem(
+    module.name,
+    "project",
+    vscode.TreeItemCollapsibleState.Collapsed,
+  );
+  item.id = `project:${module.path}`;
+  item.modulePath = module.path;
+  item.parent = parent;
+  item.description = describeModule(module);
+  item.tooltip = `Module: ${module.name}\n${module.path}`;
+
+  return item;
+};
+
+/**
+ * Shows whether a module item is the module commands run in by default
+ */
+const setProjectActive = (item: DaggerTreeItem, active: boolean): void => {
+  const description = (item.description as string).replace(/ · active$/, "");
+  item.description = active ? `${description} · active` : description;
+  item.iconPath = new vscode.ThemeIcon(
+    PROJECT_ICON_NAME,
+    active ? new vscode.ThemeColor("charts.green") : undefined,
+  );
+};
+
+/**
+ * Serializes the functions of a module so loads can be compared. Function IDs
+ * are left out because they differ between loads.
+ */
+const functionsSignature = (
+  moduleMap: Map<string, Array<{ fn: FunctionInfo; index: number }>>,
+): string =>
+  JSON.stringify(
+    [...moduleMap.entries()].map(([moduleName, functions]) => [
+      moduleName,
+      functions.map(({ fn }) => ({ ...fn, id: undefined })),
+    ]),
+  );
+
+const createNoFunctionsItems = (): DaggerTreeItem[] => [
+  new DaggerTreeItem("No functions found", "empty"),
+  new DaggerTreeItem(
+    "Learn how to create functions",
+    "action",
+    vscode.TreeItemCollapsibleState.None,
+    {
+      command: "vscode.open",
+      title: "Learn about Dagger functions",
+      arguments: [vscode.Uri.parse("https://docs.dagger.io/quickstart")],
+    },
+  ),
+];
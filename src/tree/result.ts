@@ -0,0 +1,229 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import {
+  describeJsonValue,
+  FunctionResult,
+  isJsonContainer,
+  JsonEntry,
+  jsonEntries,
+  ResultStore,
+} from "../results";
+import { formatAge } from "./history";
+
+const RESULT_VIEW_ID = "daggerResultView";
+const RESULT_SCHEME = "dagger-result";
+
+interface ResultViewConfig {
+  results: ResultStore;
+}
+
+/**
+ * Tree item for a property or element of a JSON result
+ */
+export class JsonTreeItem extends vscode.TreeItem {
+  constructor(readonly entry: JsonEntry) {
+    const expandable =
+      isJsonContainer(entry.value) && jsonEntries(entry.value).length > 0;
+    super(
+      entry.key,
+      expandable
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None,
+    );
+
+    this.id = entry.path;
+    this.description = describeJsonValue(entry.value);
+    this.tooltip = entry.path;
+    this.contextValue = "jsonValue";
+    this.iconPath = new vscode.ThemeIcon(
+      Array.isArray(entry.value)
+        ? "symbol-array"
+        : isJsonContainer(entry.value)
+          ? "symbol-object"
+          : "symbol-field",
+    );
+  }
+}
+
+/**
+ * Shows the JSON result that was opened last as a tree of its properties
+ */
+class ResultDataProvider implements vscode.TreeDataProvider<JsonTreeItem> {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private shown?: { result: FunctionResult; value: unknown };
+
+  get result(): FunctionResult | undefined {
+    return this.shown?.result;
+  }
+
+  show(result: FunctionResult): void {
+    this.shown = { result, value: JSON.parse(result.json) };
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: JsonTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: JsonTreeItem): JsonTreeItem[] {
+    if (!this.shown) {
+      return [];
+    }
+
+    const entries = element
+      ? jsonEntries(element.entry.value, element.entry.path)
+      : isJsonContainer(this.shown.value)
+        ? jsonEntries(this.shown.value)
+        : [{ key: "result", value: this.shown.value, path: "$" }];
+
+    return entries.map((entry) => new JsonTreeItem(entry));
+  }
+}
+
+/**
+ * Serves JSON results as read-only documents
+ */
+class ResultDocumentProvider implements vscode.TextDocumentContentProvider {
+  constructor(private readonly results: ResultStore) {}
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return (
+      this.results.get(uri.query)?.json ??
+      "This result is no longer available, call the function again."
+    );
+  }
+}
+
+const resultUri = (result: FunctionResult): vscode.Uri =>
+  vscode.Uri.from({
+    scheme: RESULT_SCHEME,
+    path: `/${result.functionName}.json`,
+    query: result.id,
+  });
+
+/**
+ * Registers the view of JSON results and its commands
+ * @param context The extension context
+ * @param config The store of the results
+ */
+export const registerResultView = (
+  context: vscode.ExtensionContext,
+  config: ResultViewConfig,
+): void => {
+  const { results } = config;
+  const dataProvider = new ResultDataProvider();
+  const treeView = vscode.window.createTreeView(RESULT_VIEW_ID, {
+    treeDataProvider: dataProvider,
+    showCollapseAll: true,
+  });
+
+  // the result that commands without an item act on
+  const current = (): FunctionResult | undefined => {
+    const result = dataProvider.result ?? results.latest;
+    if (!result) {
+      vscode.window.showInformationMessage(
+        "No JSON result yet, call a function as JSON first.",
+      );
+    }
+    return result;
+  };
+
+  context.subscriptions.push(
+    treeView,
+    vscode.workspace.registerTextDocumentContentProvider(
+      RESULT_SCHEME,
+      new ResultDocumentProvider(results),
+    ),
+    vscode.commands.registerCommand(
+      "dagger.result.open",
+      async (id?: string) => {
+        const result = id ? results.get(id) : current();
+        if (!result) {
+          return;
+        }
+
+        dataProvider.show(result);
+        treeView.description = `${result.functionPath} · ${formatAge(result.createdAt)}`;
+        treeView.message = result.commandLine;
+
+        const document = await vscode.workspace.openTextDocument(
+          resultUri(result),
+        );
+        await vscode.window.showTextDocument(document, {
+          preview: true,
+          preserveFocus: true,
+        });
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dagger.result.copy",
+      async (item?: JsonTreeItem) => {
+        const json = item
+          ? JSON.stringify(item.entry.value, null, 2)
+          : current()?.json;
+        if (json === undefined) {
+          return;
+        }
+
+        await vscode.env.clipboard.writeText(json);
+        vscode.window.showInformationMessage("Result copied to clipboard.");
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dagger.result.copyPath",
+      async (item?: JsonTreeItem) => {
+        if (item) {
+          await vscode.env.clipboard.writeText(item.entry.path);
+        }
+      },
+    ),
+    vscode.commands.registerCommand("dagger.result.save", async () => {
+      const result = current();
+      if (!result) {
+        return;
+      }
+
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(
+          vscode.Uri.file(result.workspacePath),
+          `${result.functionName}.json`,
+        ),
+        filters: { JSON: ["json"] },
+      });
+      if (!uri) {
+        return;
+      }
+
+      try {
+        await fs.promises.writeFile(uri.fsPath, `${result.json}\n`);
+        vscode.window.showInformationMessage(`Result saved to ${uri.fsPath}.`);
+      } catch (error) {
+        console.error("Error saving result:", error);
+        vscode.window.showErrorMessage(
+          `Failed to save the result: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }),
+    vscode.commands.registerCommand("dagger.result.pin", async () => {
+      const result = current();
+      if (!result) {
+        return;
+      }
+
+      await results.pin(result);
+      vscode.window.showInformationMessage(
+        `Result pinned to \`${result.functionPath}\` in the functions view.`,
+      );
+    }),
+    vscode.commands.registerCommand(
+      "dagger.result.unpin",
+      async (item?: { result?: FunctionResult }) => {
+        if (item?.result) {
+          await results.unpin(item.result.id);
+        }
+      },
+    ),
+  );
+};
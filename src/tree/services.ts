@@ -0,0 +1,540 @@
+import * as vscode from "vscode";
+import {
+  describeProbe,
+  editPortMappings,
+  formatPortMapping,
+  isServiceRunning,
+  PortMapping,
+  PortProfileStore,
+  ReadinessProbe,
+  resolvePortConflicts,
+  saveServicePorts,
+  serviceTaskChain,
+  ServiceInfo,
+  ServiceManager,
+  servicePort,
+  ServiceStatus,
+} from "../services";
+import { formatAge } from "./history";
+import { DaggerSettings } from "../settings";
+import { functionPath } from "../tasks";
+import { ContainerType, ServiceType } from "../types/types";
+import { saveFunctionTask } from "../utils/function-helpers";
+
+const SERVICES_VIEW_ID = "daggerServicesView";
+const UPTIME_REFRESH_INTERVAL = 30_000;
+
+interface ServicesViewConfig {
+  services: ServiceManager;
+  settings: DaggerSettings;
+  portProfiles: PortProfileStore;
+}
+
+const STATUS_ICONS: Record<ServiceStatus, [string, string | undefined]> = {
+  starting: ["loading~spin", undefined],
+  ready: ["radio-tower", "testing.iconPassed"],
+  unhealthy: ["warning", "list.warningForeground"],
+  running: ["radio-tower", undefined],
+  stopped: ["debug-stop", undefined],
+  failed: ["error", "testing.iconFailed"],
+};
+
+/**
+ * Tree item for a service started from the extension
+ */
+export class ServiceTreeItem extends vscode.TreeItem {
+  constructor(readonly service: ServiceInfo) {
+    super(
+      service.moduleName
+        ? `${service.moduleName} ${service.functionName}`
+        : service.functionName,
+      service.ports.length > 0
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.None,
+    );
+
+    const running = isServiceRunning(service);
+    const [icon, color] = STATUS_ICONS[service.status];
+    this.id = service.id;
+    // menus only tell running services from the others
+    this.contextValue = running
+      ? "service.running"
+      : `service.${service.status}`;
+    this.iconPath = new vscode.ThemeIcon(
+      icon,
+      color ? new vscode.ThemeColor(color) : undefined,
+    );
+    this.description = [
+      service.status,
+      service.ports.map(formatPortMapping).join(", "),
+      running
+        ? `up ${formatUptime(Date.now() - service.startedAt)}`
+        : service.stoppedAt !== undefined
+          ? formatAge(service.stoppedAt)
+          : undefined,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    this.tooltip = new vscode.MarkdownString().appendCodeblock(
+      service.commandArgs.join(" "),
+      "shell",
+    );
+    if (service.probe) {
+      this.tooltip.appendMarkdown(
+        `Readiness probe: \`${describeProbe(service.probe, service.ports)}\``,
+      );
+    }
+  }
+}
+
+/**
+ * Tree item for a host port a service is mapped to
+ */
+export class ServicePortTreeItem extends vscode.TreeItem {
+  constructor(
+    readonly service: ServiceInfo,
+    readonly mapping: PortMapping,
+  ) {
+    super(`localhost:${mapping.host}`, vscode.TreeItemCollapsibleState.None);
+
+    this.id = `${service.id}:${formatPortMapping(mapping)}`;
+    this.description = `→ ${mapping.container}${mapping.protocol === "udp" ? "/udp" : ""}`;
+    this.contextValue = isServiceRunning(service)
+      ? "servicePort.running"
+      : "servicePort";
+    this.iconPath = new vscode.ThemeIcon("plug");
+    if (isServiceRunning(service)) {
+      this.command = {
+        command: "dagger.services.openInBrowser",
+        title: "Open in Browser",
+        arguments: [this],
+      };
+    }
+  }
+}
+
+type ServicesTreeItem = ServiceTreeItem | ServicePortTreeItem;
+
+/**
+ * Lists the services started from the extension, most recent first
+ */
+class ServicesDataProvider
+  implements vscode.TreeDataProvider<ServicesTreeItem>
+{
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(private readonly services: ServiceManager) {
+    services.onDidChange(() => this.refresh());
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: ServicesTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: ServicesTreeItem): ServicesTreeItem[] {
+    if (element instanceof ServicePortTreeItem) {
+      return [];
+    }
+    if (element) {
+      return element.service.ports.map(
+        (mapping) => new ServicePortTreeItem(element.service, mapping),
+      );
+    }
+
+    return this.services.list().map((service) => new ServiceTreeItem(service));
+  }
+}
+
+/**
+ * Registers the view of running services and its commands
+ * @param context The extension context
+ * @param config The service manager
+ */
+export const registerServicesView = (
+  context: vscode.ExtensionContext,
+  config: ServicesViewConfig,
+): void => {
+  const { services, settings, portProfiles } = config;
+  const dataProvider = new ServicesDataProvider(services);
+  const treeView = vscode.window.createTreeView(SERVICES_VIEW_ID, {
+    treeDataProvider: dataProvider,
+  });
+
+  // keep the uptime of running services current while the view is shown
+  const timer = setInterval(() => {
+    if (treeView.visible && services.list().some(isServiceRunning)) {
+      dataProvider.refresh();
+    }
+  }, UPTIME_REFRESH_INTERVAL);
+
+  const updateBadge = () => {
+    const running = services.list().filter(isServiceRunning).length;
+    treeView.badge =
+      running > 0
+        ? {
+            value: running,
+            tooltip: `${running} running ${running === 1 ? "service" : "services"}`,
+          }
+        : undefined;
+  };
+
+  context.subscriptions.push(
+    treeView,
+    { dispose: () => clearInterval(timer) },
+    services.onDidChange(updateBadge),
+    services.onDidBecomeReady(async (service) => {
+      // browsers only reach TCP ports
+      const port = servicePort(service.probe, service.ports);
+      const selected = await vscode.window.showInformationMessage(
+        `The service of \`${service.functionName}\` is ready${port !== undefined ? ` on localhost:${port}` : ""}.`,
+        ...(port !== undefined ? ["Open in Browser"] : []),
+      );
+      if (selected === "Open in Browser") {
+        await vscode.env.openExternal(
+          vscode.Uri.parse(`http://localhost:${port}`),
+        );
+      }
+    }),
+    vscode.commands.registerCommand(
+      "dagger.services.stop",
+      async (item?: ServiceTreeItem) => {
+        const service = item?.service ?? (await pickService(services, true));
+        if (service) {
+          await services.stop(service.id);
+        }
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dagger.services.restart",
+      async (item?: ServiceTreeItem) => {
+        const service = item?.service ?? (await pickService(services));
+        if (!service) {
+          return;
+        }
+
+        const ports = await resolvePortConflicts(
+          services,
+          service.ports,
+          service.id,
+        );
+        if (ports) {
+          await services.restart(service.id, ports);
+        }
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dagger.services.openInBrowser",
+      async (item?: ServicesTreeItem) => {
+        const service = item?.service ?? (await pickService(services, true));
+        if (!service) {
+          return;
+        }
+
+        const mapping =
+          item instanceof ServicePortTreeItem
+            ? item.mapping
+            : await pickPort(service);
+        if (mapping) {
+          await vscode.env.openExternal(
+            vscode.Uri.parse(`http://localhost:${mapping.host}`),
+          );
+        }
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dagger.services.remove",
+      (item?: ServiceTreeItem) => {
+        if (item) {
+          services.remove(item.service.id);
+        }
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dagger.services.configureProbe",
+      async (item?: ServiceTreeItem) => {
+        const service = item?.service ?? (await pickService(services));
+        if (!service) {
+          return;
+        }
+
+        const probe = await askForReadinessProbe(service);
+        if (!probe) {
+          return;
+        }
+
+        // probes are looked up by the path the function is called with
+        const key = service.functionInfo
+          ? functionPath(service.functionInfo)
+          : service.functionName;
+        await settings.update(
+          "readinessProbes",
+          { ...settings.readinessProbes, [key]: probe },
+          vscode.ConfigurationTarget.Workspace,
+        );
+
+        const restart = await vscode.window.showInformationMessage(
+          `Readiness probe of \`${key}\` saved to the workspace settings. It is used the next time the service starts.`,
+          ...(isServiceRunning(service) ? ["Restart Service"] : []),
+        );
+        if (restart === "Restart Service") {
+          await services.restart(service.id);
+        }
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dagger.services.editPorts",
+      async (item?: ServiceTreeItem) => {
+        const service = item?.service ?? (await pickService(services));
+        if (!service) {
+          return;
+        }
+
+        const edited = await editPortMappings(
+          service.functionName,
+          service.ports,
+        );
+        const ports =
+          edited && (await resolvePortConflicts(services, edited, service.id));
+        if (!ports) {
+          return;
+        }
+
+        // the service runs again with the new ports, which become the default of its function
+        await services.restart(service.id, ports);
+        const restarted = services.get(service.id);
+        if (restarted && restarted.status !== "failed") {
+          await saveServicePorts(portProfiles, restarted);
+        }
+      },
+    ),
+    vscode.commands.registerCommand(
+      "dagger.services.saveTask",
+      async (item?: ServiceTreeItem) => {
+        const service = item?.service ?? (await pickService(services));
+        if (!service) {
+          return;
+        }
+
+        const returnType =
+          service.functionInfo?.returnType ??
+          (service.commandArgs.includes("as-service")
+            ? ContainerType
+            : ServiceType);
+        await saveFunctionTask(
+          service.functionInfo ?? {
+            id: "",
+            name: service.functionName,
+            module: service.moduleName,
+            returnType,
+            args: [],
+          },
+          service.argValues,
+          service.workspacePath,
+          { chain: serviceTaskChain(returnType, service.ports) },
+        );
+      },
+    ),
+    vscode.commands.registerCommand("dagger.services.stopAll", async () => {
+      await Promise.all(
+        services.list().map((service) => services.stop(service.id)),
+      );
+    }),
+  );
+};
+
+/**
+ * Prompts for a service when a command is run from the command palette
+ * @param services The service manager
+ * @param running Whether to only list running services
+ */
+const pickService = async (
+  services: ServiceManager,
+  running = false,
+): Promise<ServiceInfo | undefined> => {
+  const candidates = services
+    .list()
+    .filter((service) => !running || isServiceRunning(service));
+  if (candidates.length === 0) {
+    vscode.window.showInformationMessage(
+      running ? "No services are running." : "No services have been started.",
+    );
+    return undefined;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    candidates.map((service) => {
+      const item = new ServiceTreeItem(service);
+      return {
+        label: String(item.label),
+        description: String(item.description),
+        service,
+      };
+    }),
+    { placeHolder: "Select a service" },
+  );
+
+  return selected?.service;
+};
+
+/**
+ * Prompts for the port to open when a service maps more than one
+ */
+const pickPort = async (
+  service: ServiceInfo,
+): Promise<PortMapping | undefined> => {
+  if (service.ports.length <= 1) {
+    if (service.ports.length === 0) {
+      vscode.window.showInformationMessage(
+        `The service of \`${service.functionName}\` has no ports mapped to the host.`,
+      );
+    }
+    return service.ports[0];
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    service.ports.map((mapping) => ({
+      label: `localhost:${mapping.host}`,
+      description: `→ ${mapping.container}`,
+      mapping,
+    })),
+    { placeHolder: "Select the port to open" },
+  );
+
+  return selected?.mapping;
+};
+
+/**
+ * Formats how long a service has been running, e.g. <1m, 5m, 2h 5m or 1d 3h
+ */
+export const formatUptime = (duration: number): string => {
+  const minutes = Math.floor(duration / 60_000);
+  if (minutes < 1) {
+    return "<1m";
+  }
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours}h ${minutes % 60}m`;
+  }
+
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+/**
+ * Prompts for the type of a readiness probe and its options
+ * @param service The service the probe is for, its first port is the default
+ */
+const askForReadinessProbe = async (
+  service: ServiceInfo,
+): Promise<ReadinessProbe | undefined> => {
+  const type = await vscode.window.showQuickPick(
+    [
+      {
+        label: "TCP",
+        description: "Ready once a connection to a port can be opened",
+        type: "tcp" as const,
+      },
+      {
+        label: "HTTP",
+        description: "Ready once a GET request returns the expected status",
+        type: "http" as const,
+      },
+      {
+        label: "Log Line",
+        description: "Ready once an output line matches a regular expression",
+        type: "log" as const,
+      },
+    ],
+    {
+      title: `Readiness Probe: ${service.functionName}`,
+      placeHolder: "Select how to tell that the service is ready",
+    },
+  );
+  if (!type) {
+    return undefined;
+  }
+
+  if (type.type === "log") {
+    const pattern = await vscode.window.showInputBox({
+      title: `Readiness Probe: ${service.functionName}`,
+      prompt:
+        "Enter the regular expression of the line logged once the service is ready",
+      placeHolder: "listening on",
+      ignoreFocusOut: true,
+      validateInput: (value) => {
+        if (!value) {
+          return "A regular expression is required.";
+        }
+        try {
+          new RegExp(value);
+          return undefined;
+        } catch (error) {
+          return error instanceof Error ? error.message : String(error);
+        }
+      },
+    });
+    return pattern ? { type: "log", pattern } : undefined;
+  }
+
+  const port = await vscode.window.showInputBox({
+    title: `Readiness Probe: ${service.functionName}`,
+    prompt: "Enter the host port to probe",
+    value: String(service.ports[0]?.host ?? ""),
+    ignoreFocusOut: true,
+    validateInput: (value) =>
+      /^\d+$/.test(value) && Number(value) <= 65535
+        ? undefined
+        : "Enter a port number.",
+  });
+  if (!port) {
+    return undefined;
+  }
+  // the first mapped port is the default, so it doesn't need to be saved
+  const probePort =
+    Number(port) === service.ports[0]?.host ? {} : { port: Number(port) };
+
+  if (type.type === "tcp") {
+    return { type: "tcp", ...probePort };
+  }
+
+  const path = await vscode.window.showInputBox({
+    title: `Readiness Probe: ${service.functionName}`,
+    prompt: "Enter the path to request",
+    value: "/",
+    ignoreFocusOut: true,
+    validateInput: (value) =>
+      value.startsWith("/") ? undefined : "The path must start with /.",
+  });
+  if (!path) {
+    return undefined;
+  }
+
+  const status = await vscode.window.showInputBox({
+    title: `Readiness Probe: ${service.functionName}`,
+    prompt:
+      "Enter the expected status, or leave empty to accept any 2xx or 3xx status",
+    ignoreFocusOut: true,
+    validateInput: (value) =>
+      value === "" || /^[1-5]\d\d$/.test(value)
+        ? undefined
+        : "Enter an HTTP status code.",
+  });
+  if (status === undefined) {
+    return undefined;
+  }
+
+  return {
+    type: "http",
+    ...probePort,
+    ...(path !== "/" ? { path } : {}),
+    ...(status ? { status: Number(status) } : {}),
+  };
+};
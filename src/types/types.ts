@@ -5,6 +5,7 @@ export const ServiceType = "Service";
 export const ContainerType = "Container";
 export const FileType = "File";
 export const DirectoryType = "Directory";
+export const SecretType = "Secret";
 
 // GraphQL query: host { directory(path: $path) { id } }
 export interface DirectoryIdResult {
@@ -15,6 +16,12 @@ export interface DirectoryIdResult {
   };
 }
 
+// GraphQL field: asEnum.members
+export interface EnumMemberTypeDef {
+  name: string; // GraphQL: members.name
+  description?: string; // GraphQL: members.description
+}
+
 // GraphQL field: args.typeDef and returnType in functions
 export interface FunctionArgTypeDef {
   kind: string; // GraphQL: typeDef.kind or returnType.kind
@@ -22,13 +29,31 @@ export interface FunctionArgTypeDef {
   asObject?: {
     // GraphQL: typeDef.asObject or returnType.asObject
     name: string; // GraphQL: asObject.name
-  };
+  } | null;
+  asInterface?: {
+    name: string; // GraphQL: asInterface.name
+  } | null;
+  asInput?: {
+    name: string; // GraphQL: asInput.name
+  } | null;
+  asScalar?: {
+    name: string; // GraphQL: asScalar.name
+  } | null;
+  asEnum?: {
+    name: string; // GraphQL: asEnum.name
+    members?: EnumMemberTypeDef[]; // GraphQL: asEnum.members
+  } | null;
+  asList?: {
+    elementTypeDef: FunctionArgTypeDef; // GraphQL: asList.elementTypeDef
+  } | null;
 }
 
 // GraphQL field: args in functions
 export interface FunctionArg {
   name: string; // GraphQL: args.name
   description?: string; // GraphQL: args.description
+  defaultValue?: string | null; // GraphQL: args.defaultValue (JSON encoded)
+  defaultPath?: string | null; // GraphQL: args.defaultPath
   typeDef: FunctionArgTypeDef; // GraphQL: args.typeDef
 }
 
@@ -65,11 +90,102 @@ export interface ModuleResult {
   };
 }
 
+// GraphQL field: sourceMap of functions and args, only available in newer Dagger versions
+export interface SourceMapInfo {
+  module?: string; // GraphQL: sourceMap.module
+  filename: string; // GraphQL: sourceMap.filename
+  line: number; // GraphQL: sourceMap.line (1-based)
+  column: number; // GraphQL: sourceMap.column (1-based)
+}
+
+// GraphQL response: source maps of the functions in loadDirectoryFromID
+export interface SourceMapResult {
+  loadDirectoryFromID: {
+    asModule: {
+      name: string; // GraphQL: asModule.name
+      objects: {
+        asObject?: {
+          name: string; // GraphQL: asObject.name
+          functions: {
+            name: string; // GraphQL: functions.name
+            sourceMap?: SourceMapInfo | null; // GraphQL: functions.sourceMap
+            args: {
+              name: string; // GraphQL: args.name
+              sourceMap?: SourceMapInfo | null; // GraphQL: args.sourceMap
+            }[];
+          }[];
+        };
+      }[];
+    };
+  };
+}
+
+// GraphQL introspection: __Type reference, wrapped in NON_NULL and LIST
+export interface GraphQLTypeRef {
+  kind: string; // GraphQL: type.kind, e.g. NON_NULL, LIST, SCALAR, OBJECT
+  name?: string | null; // GraphQL: type.name, null for NON_NULL and LIST
+  ofType?: GraphQLTypeRef | null; // GraphQL: type.ofType
+}
+
+// GraphQL response: __type(name: $name) with the fields of an object
+export interface TypeFieldsResult {
+  __type?: {
+    name: string; // GraphQL: __type.name
+    fields?:
+      | {
+          name: string; // GraphQL: fields.name
+          description?: string | null; // GraphQL: fields.description
+          type: GraphQLTypeRef; // GraphQL: fields.type
+          args: {
+            name: string; // GraphQL: args.name
+            description?: string | null; // GraphQL: args.description
+            defaultValue?: string | null; // GraphQL: args.defaultValue (GraphQL literal)
+            type: GraphQLTypeRef; // GraphQL: args.type
+          }[];
+        }[]
+      | null;
+  } | null;
+}
+
+// Internal kinds of Dagger types, mapped from the GraphQL TypeDefKind
+export type TypeKind =
+  | "String"
+  | "Int"
+  | "Float"
+  | "Boolean"
+  | "Scalar"
+  | "Enum"
+  | "List"
+  | "Object"
+  | "Interface"
+  | "Input"
+  | "Void"
+  | "unknown";
+
+// Internal type for enum members in VS Code extension
+export interface EnumValue {
+  name: string;
+  description?: string;
+}
+
+// Internal type describing an argument or return type in VS Code extension
+export interface TypeInfo {
+  kind: TypeKind;
+  name: string; // Display name (e.g., "String", "Container", "Platform", "[String]")
+  optional: boolean;
+  elementType?: TypeInfo; // Element type when kind is "List"
+  enumValues?: EnumValue[]; // Known members when kind is "Enum"
+}
+
 // Internal type for function arguments in VS Code extension
 export interface FunctionArgument {
   name: string;
-  type: string;
+  type: string; // Display name of the type, same as typeInfo.name
   required: boolean;
+  description?: string;
+  defaultValue?: string; // Decoded default value (e.g., "latest")
+  defaultPath?: string; // Default path for Directory and File arguments
+  typeInfo?: TypeInfo;
 }
 
 // Internal type for function information in VS Code extension
@@ -80,5 +196,15 @@ export interface FunctionInfo {
   module?: string; // Display grouping (e.g., "go-sdk")
   parentModule?: string; // CLI call parent (e.g., "sdk" for "dagger call sdk go ...")
   returnType: string;
+  returnTypeInfo?: TypeInfo;
   args: FunctionArgument[];
 }
+
+// Where a function and its arguments are declared, from Dagger introspection
+export interface FunctionSourceMap {
+  name: string; // kebab-case function name, as in FunctionInfo
+  module?: string; // same as FunctionInfo.module
+  parentModule?: string; // same as FunctionInfo.parentModule
+  sourceMap?: SourceMapInfo;
+  args: Record<string, SourceMapInfo>; // keyed by kebab-case argument name
+}
@@ -1,8 +1,23 @@
 import * as vscode from "vscode";
-import { executeTaskAndWait, TaskExecutionResult } from "./terminal";
+import {
+  executeCapturedTaskAndWait,
+  executeTaskAndWait,
+  TaskExecutionResult,
+} from "./terminal";
 import { DaggerSettings } from "../settings";
-import { saveTaskToTasksJson } from "../commands/task";
-import { FunctionArgument, FunctionInfo } from "../types/types";
+import { SavedTask, saveTaskToTasksJson } from "../commands/task";
+import { FunctionArgument, FunctionInfo, TypeInfo } from "../types/types";
+import { askForArgumentValue } from "./user-input";
+import { ArgumentPreset, PresetStore } from "../presets";
+import { showFunctionCallForm } from "../webview/call-form";
+import { HistoryStore } from "../history";
+import { DaggerCLI } from "../cli";
+import { DAGGER_PROBLEM_MATCHERS } from "../const";
+import { getOutputChannel, showFunctionResult } from "../output";
+import { typeInfoFromName } from "./type-helpers";
+import { parseJsonOutput, ResultStore } from "../results";
+import { functionPath } from "../tasks";
+import { SecretStore } from "../secrets";
 
 interface ArgumentPick {
   readonly label: string;
@@ -16,24 +31,21 @@ interface CollectArgumentsResult {
 }
 
 /**
- * Collects argument values from user input
+ * Collects argument values from user input, using a prompt that matches the type of each argument
  * @param args The function arguments to collect values for
+ * @param workspacePath The path the command is run from, used to make picked paths relative
+ * @param secrets The stored secrets offered for Secret arguments
  * @returns Object containing collected argument values and cancellation status
  */
 export const collectArgumentValues = async (
   args: readonly FunctionArgument[],
+  workspacePath?: string,
+  secrets?: SecretStore,
 ): Promise<CollectArgumentsResult> => {
   const argValues: Record<string, string> = {};
 
   for (const arg of args) {
-    const value = await vscode.window.showInputBox({
-      prompt: `Enter value for --${arg.name} (${arg.type})${
-        arg.required ? " [required]" : ""
-      }`,
-      ignoreFocusOut: true,
-      validateInput: (input) =>
-        arg.required && !input ? "This value is required." : undefined,
-    });
+    const value = await askForArgumentValue(arg, workspacePath, secrets);
 
     if (arg.required && !value) {
       vscode.window.showErrorMessage(
@@ -64,8 +76,11 @@ export const selectOptionalArguments = async (
 
   const argsPicks: readonly ArgumentPick[] = optionalArgs.map((arg) => ({
     label: `${arg.name} (${arg.type})`,
-    description: "Optional",
-    detail: `Type: ${arg.type}`,
+    description:
+      arg.defaultValue !== undefined
+        ? `Optional, default: ${arg.defaultValue}`
+        : "Optional",
+    detail: arg.description ? arg.description : `Type: ${arg.type}`,
   }));
 
   const selected = await vscode.window.showQuickPick(argsPicks, {
@@ -130,105 +145,230 @@ export interface CollectedFunctionInput {
   argValues: Record<string, string>;
   /** The final command arguments */
   commandArgs: string[];
+  /** The function the input was collected for */
+  functionInfo?: FunctionInfo;
+  /** The type of the result when more functions are called on the result */
+  resultTypeInfo?: TypeInfo;
 }
 
 /**
- * Collects function argument values and options from the user
- * @param token Cancellation token to allow cancellation of the operation
- * @param context VS Code extension context
- * @param functionInfo The function information including name, arguments, and module
- * @returns A promise that resolves to the collected function input or undefined if cancelled
+ * Options for collecting function input
  */
-export const collectFunctionInput = async (
-  token: vscode.CancellationToken,
+export interface FunctionInputOptions {
+  /** The path the function is called from, used to make picked paths relative */
+  workspacePath?: string;
+  /** The preset store used to offer and save argument presets */
+  presets?: PresetStore;
+  /** Whether to collect the arguments with the webview form instead of prompts */
+  useForm?: boolean;
+  /** The stored secrets offered for Secret arguments */
+  secrets?: SecretStore;
+}
+
+interface ArgumentSourcePick extends vscode.QuickPickItem {
+  readonly source: "preset" | "prompt" | "form";
+  readonly preset?: ArgumentPreset;
+}
+
+/**
+ * Collects the argument values for a function from a saved preset, the webview form or prompts
+ * @param functionInfo The function to collect the argument values for
+ * @param options Options for collecting the values
+ * @returns The argument values or undefined if cancelled
+ */
+export const collectFunctionArgValues = async (
   functionInfo: FunctionInfo,
-): Promise<CollectedFunctionInput | undefined> => {
-  const {
-    name: functionName,
-    args,
-    module: moduleName,
-    returnType,
-  } = functionInfo;
+  options: FunctionInputOptions = {},
+): Promise<Record<string, string> | undefined> => {
+  const { workspacePath, presets, useForm, secrets } = options;
+
+  if (useForm && presets) {
+    return showFunctionCallForm(
+      functionInfo,
+      presets,
+      workspacePath,
+      {},
+      secrets,
+    );
+  }
 
-  // Check if operation has been cancelled
-  if (token.isCancellationRequested) {
-    return undefined;
+  // offer the saved presets when there are any for this function
+  const saved = presets?.list(functionInfo) ?? [];
+  if (presets && saved.length > 0) {
+    const picks: ArgumentSourcePick[] = [
+      ...saved.map((preset) => ({
+        label: `$(bookmark) ${preset.name}`,
+        description: Object.entries(preset.argValues)
+          .map(([name, value]) => `--${name} ${value}`)
+          .join(" "),
+        source: "preset" as const,
+        preset,
+      })),
+      {
+        label: "",
+        kind: vscode.QuickPickItemKind.Separator,
+        source: "prompt",
+      },
+      { label: "$(edit) Enter values", source: "prompt" },
+      { label: "$(preview) Open form...", source: "form" },
+    ];
+
+    const picked = await vscode.window.showQuickPick(picks, {
+      placeHolder: `Select a preset for \`${functionInfo.name}\` or enter new values`,
+    });
+
+    if (!picked) {
+      return undefined;
+    }
+    if (picked.preset) {
+      return { ...picked.preset.argValues };
+    }
+    if (picked.source === "form") {
+      return showFunctionCallForm(
+        functionInfo,
+        presets,
+        workspacePath,
+        {},
+        secrets,
+      );
+    }
   }
 
   // Separate required and optional arguments
-  const requiredArgs = args.filter((arg) => arg.required);
-  const optionalArgs = args.filter((arg) => !arg.required);
+  const requiredArgs = functionInfo.args.filter((arg) => arg.required);
+  const optionalArgs = functionInfo.args.filter((arg) => !arg.required);
 
   // Select optional arguments to include
   const selectedOptionalArgs = await selectOptionalArguments(optionalArgs);
 
-  // Check if operation has been cancelled
-  if (token.isCancellationRequested) {
-    return undefined;
-  }
-
   // Combine required and selected optional arguments
   const allSelectedArgs = [...requiredArgs, ...selectedOptionalArgs];
 
   // Collect values for all arguments
-  const { argValues, cancelled } = await collectArgumentValues(allSelectedArgs);
+  const { argValues, cancelled } = await collectArgumentValues(
+    allSelectedArgs,
+    workspacePath,
+    secrets,
+  );
 
-  if (cancelled || token.isCancellationRequested) {
-    return undefined;
-  }
+  return cancelled ? undefined : argValues;
+};
 
-  let commandArgs: string[];
+/**
+ * Builds the `dagger call` command arguments for a function, including its module path
+ * @param functionInfo The function to call
+ * @param argValues The argument values
+ * @returns Command arguments array
+ */
+export const buildFunctionCommandArgs = (
+  functionInfo: FunctionInfo,
+  argValues: Record<string, string>,
+): string[] => {
   // if this is the root module, don't include module name
   if (functionInfo.parentModule && functionInfo.module) {
     // Handle nested modules - format: dagger call module parentModule func-name args
-    commandArgs = [
+    return [
       "dagger",
       "call",
       functionInfo.module,
       functionInfo.parentModule,
-      functionName,
+      functionInfo.name,
       ...Object.entries(argValues).flatMap(([name, value]) => [
         `--${name}`,
         value,
       ]),
     ];
-  } else if (functionInfo.module === undefined) {
+  }
+
+  if (functionInfo.module === undefined) {
     // Root module case
-    commandArgs = buildCommandArgs(functionName, argValues);
-  } else {
-    // Normal module case
-    commandArgs = buildCommandArgs(functionName, argValues, moduleName);
+    return buildCommandArgs(functionInfo.name, argValues);
   }
 
+  // Normal module case
+  return buildCommandArgs(functionInfo.name, argValues, functionInfo.module);
+};
+
+/**
+ * Collects function argument values and options from the user
+ * @param token Cancellation token to allow cancellation of the operation
+ * @param functionInfo The function information including name, arguments, and module
+ * @param options Options for collecting the input, such as the preset store
+ * @returns A promise that resolves to the collected function input or undefined if cancelled
+ */
+export const collectFunctionInput = async (
+  token: vscode.CancellationToken,
+  functionInfo: FunctionInfo,
+  options?: FunctionInputOptions,
+): Promise<CollectedFunctionInput | undefined> => {
+  const { name: functionName, module: moduleName, returnType } = functionInfo;
+
   // Check if operation has been cancelled
   if (token.isCancellationRequested) {
     return undefined;
   }
 
+  const argValues = await collectFunctionArgValues(functionInfo, options);
+  if (!argValues || token.isCancellationRequested) {
+    return undefined;
+  }
+
+  const commandArgs = buildFunctionCommandArgs(functionInfo, argValues);
+
   return {
     functionName,
     moduleName,
     returnType,
     argValues,
     commandArgs,
+    functionInfo,
   };
 };
 
+/**
+ * Options for running a function
+ */
+export interface RunFunctionOptions {
+  /** History store to record the call in */
+  history?: HistoryStore;
+  /**
+   * When set the call runs through the CLI instead of a terminal task, its
+   * output is streamed to the Dagger output channel and the result is shown
+   * based on the return type
+   */
+  cli?: DaggerCLI;
+  /**
+   * When set together with cli the call runs with --json, and its result is
+   * recorded in the store and opened in the result viewer
+   */
+  results?: ResultStore;
+  /** The stored secrets passed as environment variables when the call references them */
+  secrets?: SecretStore;
+  /**
+   * When set the call needs a TTY, e.g. `terminal`, so it runs in a shell task
+   * and its output isn't captured
+   */
+  interactive?: boolean;
+}
+
 /**
  * Executes a Dagger function with the collected input
  * @param token Cancellation token
  * @param workspacePath The workspace path where the command will be executed
  * @param input The collected function input
+ * @param options Options for recording and capturing the call
  * @returns The task execution result along with command arguments and values
  */
 export const runFunction = async (
   token: vscode.CancellationToken,
   workspacePath: string,
   input: CollectedFunctionInput,
+  options: RunFunctionOptions = {},
 ): Promise<{
   Result: TaskExecutionResult;
   commandArgs: string[];
   argValues: Record<string, string>;
+  output?: string;
 }> => {
   // Check if operation has been cancelled
   if (token.isCancellationRequested) {
@@ -239,11 +379,100 @@ export const runFunction = async (
     };
   }
 
-  // Execute the command as a task and wait for completion
-  const result = await executeTaskAndWait(token, input.commandArgs.join(" "), {
-    taskName: `dagger`,
-    workingDirectory: workspacePath,
-  });
+  const startedAt = Date.now();
+  const commandLine = input.commandArgs.join(" ");
+  // the values of stored secrets are only passed in the environment of the call
+  const env = options.secrets
+    ? await options.secrets.environment(input.commandArgs)
+    : {};
+  let result: TaskExecutionResult;
+  let output: string | undefined;
+
+  if (options.cli && options.results) {
+    const captured = await runJson(
+      token,
+      options.cli,
+      workspacePath,
+      input,
+      options.results,
+      env,
+    );
+    result = {
+      success: captured.exitCode === 0,
+      exitCode: captured.exitCode,
+      execution: undefined,
+    };
+    output = captured.output;
+  } else if (options.cli) {
+    const captured = await runCaptured(
+      token,
+      options.cli,
+      workspacePath,
+      input,
+      env,
+    );
+    result = {
+      success: captured.exitCode === 0,
+      exitCode: captured.exitCode,
+      execution: undefined,
+    };
+    output = captured.output;
+
+    if (result.success) {
+      options.cli.clearErrors(workspacePath);
+    } else if (!token.isCancellationRequested) {
+      options.cli.reportErrors(captured.output, workspacePath);
+    }
+
+    if (result.success && !token.isCancellationRequested) {
+      await showFunctionResult(
+        input.functionName,
+        input.resultTypeInfo ??
+          input.functionInfo?.returnTypeInfo ??
+          typeInfoFromName(input.returnType),
+        captured.stdout,
+      );
+    }
+  } else if (options.interactive) {
+    // Execute the command as a task and wait for completion
+    result = await executeTaskAndWait(token, commandLine, {
+      taskName: `dagger`,
+      workingDirectory: workspacePath,
+      problemMatchers: DAGGER_PROBLEM_MATCHERS,
+      environment: env,
+    });
+  } else {
+    // the output is shown in the task terminal and kept for the history
+    const captured = await executeCapturedTaskAndWait(token, commandLine, {
+      taskName: `dagger`,
+      workingDirectory: workspacePath,
+      problemMatchers: DAGGER_PROBLEM_MATCHERS,
+      environment: env,
+    });
+    result = {
+      success: captured.success,
+      exitCode: captured.exitCode,
+      execution: captured.execution,
+    };
+    output = captured.output;
+  }
+
+  // cancelled calls are not recorded
+  if (options.history && !token.isCancellationRequested) {
+    await options.history.add({
+      functionName: input.functionName,
+      moduleName: input.moduleName,
+      functionInfo: input.functionInfo,
+      argValues: input.argValues,
+      commandArgs: input.commandArgs,
+      commandLine,
+      workspacePath,
+      exitCode: result.exitCode,
+      startedAt,
+      duration: Date.now() - startedAt,
+      output,
+    });
+  }
 
   return {
     Result: {
@@ -253,23 +482,143 @@ export const runFunction = async (
     },
     commandArgs: input.commandArgs,
     argValues: input.argValues,
+    output,
+  };
+};
+
+/**
+ * Runs a function through the CLI and streams stdout and stderr to the Dagger output channel
+ * @returns The exit code, the stdout and the combined output in the order it was received
+ */
+const runCaptured = async (
+  token: vscode.CancellationToken,
+  cli: DaggerCLI,
+  workspacePath: string,
+  input: CollectedFunctionInput,
+  env: Record<string, string>,
+): Promise<{ exitCode: number; stdout: string; output: string }> => {
+  const channel = getOutputChannel();
+  const startedAt = Date.now();
+  let output = "";
+  const append = (chunk: string) => {
+    output += chunk;
+    channel.append(chunk);
   };
+
+  channel.show(true);
+  channel.appendLine(
+    `[${new Date(startedAt).toLocaleTimeString()}] $ ${input.commandArgs.join(" ")}`,
+  );
+
+  let exitCode: number;
+  let stdout = "";
+  let status: string;
+  try {
+    // the command args start with the dagger binary, run through the shell like the terminal task
+    const result = await cli.stream(input.commandArgs.slice(1), {
+      cwd: workspacePath,
+      env,
+      shell: process.env.SHELL ?? true,
+      token,
+      onStdout: append,
+      onStderr: append,
+    }).result;
+    exitCode = result.exitCode;
+    stdout = result.stdout;
+    status = result.cancelled ? "cancelled" : `exit code ${exitCode}`;
+  } catch (error) {
+    // the process failed to start
+    exitCode = 1;
+    status = `failed to start: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  if (output !== "" && !output.endsWith("\n")) {
+    channel.appendLine("");
+  }
+  channel.appendLine(
+    `[${status}, took ${((Date.now() - startedAt) / 1000).toFixed(1)}s]`,
+  );
+  channel.appendLine("");
+
+  return { exitCode, stdout, output };
+};
+
+/**
+ * Runs a function with --json through the CLI. Progress on stderr is streamed
+ * to the Dagger output channel, the result is recorded and opened as JSON.
+ * @returns The exit code and the output of the call
+ */
+const runJson = async (
+  token: vscode.CancellationToken,
+  cli: DaggerCLI,
+  workspacePath: string,
+  input: CollectedFunctionInput,
+  results: ResultStore,
+  env: Record<string, string>,
+): Promise<{ exitCode: number; output: string }> => {
+  const channel = getOutputChannel();
+  // the command args start with `dagger call`
+  const args = ["call", "--json", ...input.commandArgs.slice(2)];
+  channel.show(true);
+  channel.appendLine(
+    `[${new Date().toLocaleTimeString()}] $ dagger ${args.join(" ")}`,
+  );
+
+  const { exitCode, stdout, stderr } = await cli.run(args, {
+    cwd: workspacePath,
+    env,
+    timeout: 0,
+    token,
+    onStderr: (chunk) => channel.append(chunk),
+  });
+  const output = `${stderr}${stdout}`;
+
+  if (exitCode !== 0) {
+    if (!token.isCancellationRequested) {
+      cli.reportErrors(output, workspacePath);
+    }
+    return { exitCode, output };
+  }
+  cli.clearErrors(workspacePath);
+
+  const value = parseJsonOutput(stdout);
+  if (value === undefined) {
+    channel.appendLine(stdout);
+    vscode.window.showWarningMessage(
+      `\`${input.functionName}\` didn't return JSON, the output is in the Dagger output channel.`,
+    );
+    return { exitCode, output };
+  }
+
+  const recorded = results.add({
+    functionName: input.functionName,
+    functionPath: input.functionInfo
+      ? functionPath(input.functionInfo)
+      : input.functionName,
+    workspacePath,
+    commandLine: ["dagger", ...args].join(" "),
+    json: JSON.stringify(value, null, 2),
+    createdAt: Date.now(),
+  });
+  await vscode.commands.executeCommand("dagger.result.open", recorded.id);
+
+  return { exitCode, output };
 };
 
 /**
  * Shows a notification after a Dagger function call, prompting to save as a task
- * @param functionName The name of the function called
+ * @param functionInfo The function called
  * @param argValues The argument values used in the call
  * @param workspacePath The workspace path
  * @param settings The Dagger settings
- * @param moduleName Optional module name for non-root modules
+ * @param result What the call did with the result, e.g. the export path
  */
 export const showSaveTaskPrompt = async (
-  functionName: string,
+  functionInfo: FunctionInfo,
   argValues: Record<string, string>,
   workspacePath: string,
   settings: DaggerSettings,
-  moduleName?: string,
+  result: Pick<SavedTask, "chain" | "export"> = {},
 ): Promise<void> => {
   // Use settings instead of directly accessing configuration
   if (settings.saveTaskPromptDismissed) {
@@ -284,39 +633,7 @@ export const showSaveTaskPrompt = async (
   );
 
   if (choice === "Save") {
-    // Ask for task name
-    const defaultTaskName = `dagger-${functionName}`;
-    const taskName = await vscode.window.showInputBox({
-      prompt: "Enter a name for this VS Code task",
-      value: defaultTaskName,
-      validateInput: (input) => {
-        if (!input || input.trim() === "") {
-          return "Task name cannot be empty";
-        }
-        if (!/^[a-zA-Z0-9\-_\s]+$/.test(input)) {
-          return "Task name can only contain letters, numbers, spaces, hyphens, and underscores";
-        }
-        return undefined;
-      },
-    });
-    if (!taskName) {
-      return;
-    }
-
-    // Build the command
-    // TODO(jasonmccallister): handle the logic for parent modules to ensure the command is not appended
-    // with the parent module name if its the root or only module
-    const commandArgs = buildCommandArgs(functionName, argValues, moduleName);
-
-    // Save the task using existing logic
-    await saveTaskToTasksJson(
-      taskName.trim(),
-      commandArgs.join(" "),
-      workspacePath,
-    );
-    vscode.window.showInformationMessage(
-      `Task "${taskName.trim()}" saved! You can run it from the Run Task menu.`,
-    );
+    await saveFunctionTask(functionInfo, argValues, workspacePath, result);
   } else if (choice === "Don't show again") {
     await settings.update(
       "saveTaskPromptDismissed",
@@ -326,6 +643,52 @@ export const showSaveTaskPrompt = async (
   }
 };
 
+/**
+ * Asks for the name of a task and saves a function call as that task
+ * @param functionInfo The function, with the module and parent module it is called through
+ * @param argValues The argument values of the call
+ * @param workspacePath The path of the module the task runs
+ * @param result What the task does with the result, such as calling more functions
+ */
+export const saveFunctionTask = async (
+  functionInfo: FunctionInfo,
+  argValues: Record<string, string>,
+  workspacePath: string,
+  result: Pick<SavedTask, "chain" | "export"> = {},
+): Promise<void> => {
+  // Ask for task name
+  const defaultTaskName = `dagger-${functionInfo.name}`;
+  const taskName = await vscode.window.showInputBox({
+    prompt: "Enter a name for this VS Code task",
+    value: defaultTaskName,
+    validateInput: (input) => {
+      if (!input || input.trim() === "") {
+        return "Task name cannot be empty";
+      }
+      if (!/^[a-zA-Z0-9\-_\s]+$/.test(input)) {
+        return "Task name can only contain letters, numbers, spaces, hyphens, and underscores";
+      }
+      return undefined;
+    },
+  });
+  if (!taskName) {
+    return;
+  }
+
+  await saveTaskToTasksJson(
+    taskName.trim(),
+    {
+      function: functionPath(functionInfo),
+      ...(Object.keys(argValues).length > 0 ? { args: argValues } : {}),
+      ...result,
+    },
+    workspacePath,
+  );
+  vscode.window.showInformationMessage(
+    `Task "${taskName.trim()}" saved! You can run it from the Run Task menu.`,
+  );
+};
+
 /**
  * Interface for quick pick items that carry function info
  */
@@ -409,3 +772,15 @@ export const createCustomFilter = (
 ): FunctionFilterCallback => {
   return predicate;
 };
+
+/**
+ * Checks if a command argument is a function, e.g. one passed by a code lens
+ * rather than a tree item or URI
+ * @param value The argument the command was invoked with
+ */
+export const isFunctionInfo = (value: unknown): value is FunctionInfo =>
+  typeof value === "object" &&
+  value !== null &&
+  "name" in value &&
+  "returnType" in value &&
+  Array.isArray((value as FunctionInfo).args);
@@ -0,0 +1,164 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+
+// source files of the Go, TypeScript, Python, PHP, Java and Elixir SDKs
+export const SOURCE_FILE_GLOB =
+  "**/{*.go,go.mod,*.ts,*.js,*.mjs,package.json,*.py,pyproject.toml,*.php,composer.json,*.java,pom.xml,*.ex,*.exs}";
+const SOURCE_FILE =
+  /\.(go|ts|js|mjs|py|php|java|ex|exs)$|^(go\.mod|package\.json|pyproject\.toml|composer\.json|pom\.xml)$/;
+
+// lock data that pins the dependencies of a module
+const LOCK_FILES = [
+  "go.sum",
+  "package-lock.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lockb",
+  "uv.lock",
+  "poetry.lock",
+  "requirements.lock",
+  "composer.lock",
+];
+
+// files the SDKs generate while loading a module
+const GENERATED_PATH =
+  /(^|\/)(internal\/(dagger|querybuilder|telemetry)|sdk|node_modules|\.venv|__pycache__|vendor|\.git)\/|(^|\/)dagger\.gen\.go$/;
+
+// stop hashing huge source trees, changes to them are still picked up by the file watcher
+const MAX_SOURCE_FILES = 5_000;
+
+/**
+ * Checks if a path is in a directory the SDKs generate or install into
+ * @param relativePath The path relative to the module or workspace folder
+ */
+export const isGeneratedPath = (relativePath: string): boolean =>
+  GENERATED_PATH.test(relativePath.split(path.sep).join("/"));
+
+/**
+ * Hashes everything the functions of a module depend on: dagger.json, the lock
+ * files, the SDK source files and the same for local dependencies.
+ *
+ * @param modulePath The directory that contains dagger.json
+ * @returns The SHA256 hash, or undefined if the module can't be read
+ */
+export const hashModuleSource = async (
+  modulePath: string,
+): Promise<string | undefined> => {
+  const hash = crypto.createHash("sha256");
+
+  try {
+    await hashModule(hash, path.resolve(modulePath), new Set());
+  } catch (error) {
+    console.debug(`Failed to hash module source at ${modulePath}:`, error);
+    return undefined;
+  }
+
+  return hash.digest("hex");
+};
+
+const hashModule = async (
+  hash: crypto.Hash,
+  modulePath: string,
+  visited: Set<string>,
+): Promise<void> => {
+  if (visited.has(modulePath)) {
+    return;
+  }
+  visited.add(modulePath);
+
+  const configFile = path.join(modulePath, "dagger.json");
+  const config = await fs.promises.readFile(configFile, "utf8");
+  hashFile(hash, configFile, config);
+
+  const { source = ".", dependencies = [] } = JSON.parse(config) as {
+    source?: string;
+    dependencies?: { source?: string }[];
+  };
+  const sourcePath = path.resolve(modulePath, source);
+
+  const files = new Set<string>();
+  for (const directory of new Set([modulePath, sourcePath])) {
+    for (const lockFile of LOCK_FILES) {
+      files.add(path.join(directory, lockFile));
+    }
+  }
+  for (const file of await listSourceFiles(sourcePath)) {
+    files.add(file);
+  }
+
+  for (const file of [...files].sort()) {
+    try {
+      hashFile(hash, file, await fs.promises.readFile(file));
+    } catch {
+      // lock files are optional
+    }
+  }
+
+  // local dependencies are loaded from disk, remote ones are pinned in dagger.json
+  for (const dependency of dependencies) {
+    if (dependency.source && !dependency.source.includes("://")) {
+      const dependencyPath = path.resolve(modulePath, dependency.source);
+      if (fs.existsSync(path.join(dependencyPath, "dagger.json"))) {
+        await hashModule(hash, dependencyPath, visited);
+      }
+    }
+  }
+};
+
+const hashFile = (
+  hash: crypto.Hash,
+  file: string,
+  content: string | Buffer,
+): void => {
+  hash.update(file);
+  hash.update("\0");
+  hash.update(content);
+  hash.update("\0");
+};
+
+/**
+ * Lists the source files under a directory, skipping generated and hidden directories
+ * @param sourcePath The source directory of a module
+ */
+export const listSourceFiles = async (
+  sourcePath: string,
+): Promise<string[]> => {
+  const files: string[] = [];
+  const directories = [sourcePath];
+
+  while (directories.length > 0 && files.length < MAX_SOURCE_FILES) {
+    const directory = directories.pop()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(directory, entry.name);
+      // directories get a trailing separator so they match the generated paths
+      const relativePath =
+        path.relative(sourcePath, entryPath) +
+        (entry.isDirectory() ? path.sep : "");
+      if (entry.name.startsWith(".") || isGeneratedPath(relativePath)) {
+        continue;
+      }
+
+      if (entry.isDirectory()) {
+        directories.push(entryPath);
+      } else if (entry.isFile() && SOURCE_FILE.test(entry.name)) {
+        files.push(entryPath);
+      }
+    }
+  }
+
+  if (files.length >= MAX_SOURCE_FILES) {
+    console.debug(
+      `Module source at ${sourcePath} has more than ${MAX_SOURCE_FILES} files, only hashing the first ones`,
+    );
+  }
+
+  return files.slice(0, MAX_SOURCE_FILES);
+};
@@ -0,0 +1,183 @@
+import * as vscode from "vscode";
+import { ChildProcess, spawn } from "child_process";
+
+// how long a stopped process gets to exit before it is killed
+const STOP_GRACE_PERIOD = 5_000;
+
+export interface ProcessOptions {
+  cwd: string;
+  stdin?: string;
+  env?: Record<string, string>;
+  timeout?: number; // milliseconds, no timeout when not set or 0
+  shell?: string | boolean; // run the command through a shell
+  token?: vscode.CancellationToken; // stops the process when cancelled
+  onStdout?: (chunk: string) => void; // called as stdout is received
+  onStderr?: (chunk: string) => void; // called as stderr is received
+}
+
+export interface ProcessResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  cancelled: boolean; // stopped by the token or stop()
+  timedOut: boolean;
+}
+
+/**
+ * A handle to a running process. The process runs in its own process group so
+ * stopping it also stops anything it started, such as services or a shell's children.
+ */
+export class ManagedProcess {
+  /** Resolves once the process has exited and its output is closed */
+  readonly result: Promise<ProcessResult>;
+
+  private readonly child: ChildProcess;
+  private exited = false;
+  private cancelled = false;
+  private timedOut = false;
+  private killTimer: NodeJS.Timeout | undefined;
+
+  constructor(command: string, args: string[], options: ProcessOptions) {
+    this.child = spawn(command, args, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      shell: options.shell,
+      // a new process group lets stop() signal the whole tree
+      detached: process.platform !== "win32",
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    this.result = this.watch(options);
+  }
+
+  /** The ID of the process, undefined if it failed to start */
+  get pid(): number | undefined {
+    return this.child.pid;
+  }
+
+  /** Whether the process is still running */
+  get running(): boolean {
+    return !this.exited;
+  }
+
+  /**
+   * Stops the process and its children. The process is killed if it has not
+   * exited after a grace period.
+   */
+  stop(): void {
+    if (this.exited) {
+      return;
+    }
+
+    this.cancelled = true;
+    this.signal("SIGTERM");
+    this.killTimer ??= setTimeout(
+      () => this.signal("SIGKILL"),
+      STOP_GRACE_PERIOD,
+    );
+  }
+
+  private async watch(options: ProcessOptions): Promise<ProcessResult> {
+    let stdout = "";
+    let stderr = "";
+
+    // characters split across chunks are decoded once they are complete
+    this.child.stdout?.setEncoding("utf8");
+    this.child.stderr?.setEncoding("utf8");
+    this.child.stdout?.on("data", (chunk: string) => {
+      stdout += chunk;
+      options.onStdout?.(chunk);
+    });
+    this.child.stderr?.on("data", (chunk: string) => {
+      stderr += chunk;
+      options.onStderr?.(chunk);
+    });
+
+    // the child may exit before reading stdin
+    this.child.stdin?.on("error", (error: Error) => {
+      if (error.message.includes("EPIPE")) {
+        console.warn(
+          "SIGPIPE/EPIPE error when writing to stdin, child process may have exited early",
+        );
+      } else {
+        console.error("Stdin pipe error:", error.message);
+      }
+    });
+    if (options.stdin) {
+      this.child.stdin?.write(options.stdin);
+    }
+    this.child.stdin?.end();
+
+    const cancellation = options.token?.onCancellationRequested(() =>
+      this.stop(),
+    );
+    if (options.token?.isCancellationRequested) {
+      this.stop();
+    }
+
+    const timer = options.timeout
+      ? setTimeout(() => {
+          this.timedOut = true;
+          this.stop();
+        }, options.timeout)
+      : undefined;
+
+    try {
+      const exitCode = await new Promise<number>((resolve, reject) => {
+        this.child.on("error", reject);
+        // close fires once the process has exited and its output is flushed
+        this.child.on("close", (code: number | null, signal: string | null) => {
+          if (signal) {
+            console.warn(`Child process terminated by signal: ${signal}`);
+          }
+          resolve(code ?? 1);
+        });
+      });
+
+      return {
+        exitCode,
+        stdout,
+        stderr,
+        cancelled: this.cancelled && !this.timedOut,
+        timedOut: this.timedOut,
+      };
+    } finally {
+      this.exited = true;
+      clearTimeout(timer);
+      clearTimeout(this.killTimer);
+      cancellation?.dispose();
+    }
+  }
+
+  private signal(signal: NodeJS.Signals): void {
+    const pid = this.child.pid;
+    if (pid === undefined || this.exited) {
+      return;
+    }
+
+    try {
+      if (process.platform === "win32") {
+        // taskkill stops the whole tree on Windows
+        spawn("taskkill", ["/pid", String(pid), "/T", "/F"]);
+      } else {
+        process.kill(-pid, signal);
+      }
+    } catch (error) {
+      // the process group may already be gone
+      console.debug(`Failed to send ${signal} to process ${pid}:`, error);
+    }
+  }
+}
+
+/**
+ * Starts a process and streams its output
+ * @param command The command to run
+ * @param args The arguments to pass to the command
+ * @param options Options for running the process
+ * @returns A handle to the running process
+ */
+export const startProcess = (
+  command: string,
+  args: string[],
+  options: ProcessOptions,
+): ManagedProcess => new ManagedProcess(command, args, options);
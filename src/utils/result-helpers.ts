@@ -0,0 +1,82 @@
+import { TypeInfo } from "../types/types";
+
+/**
+ * How the result of a function call should be shown
+ * - editor: open the output in an editor tab
+ * - message: show the value in a notification
+ * - none: the output is only written to the output channel
+ */
+export type ResultView = "editor" | "message" | "none";
+
+/**
+ * Decides how to show the result of a function based on its return type.
+ * Strings, scalars and lists of them can be large so they open in an editor,
+ * small values like numbers are shown in a notification and objects such as
+ * containers are left in the output channel.
+ *
+ * @param typeInfo The return type of the function
+ * @returns How the result should be shown
+ */
+export const getResultView = (typeInfo: TypeInfo): ResultView => {
+  switch (typeInfo.kind) {
+    case "String":
+    case "Scalar":
+      return "editor";
+    case "Int":
+    case "Float":
+    case "Boolean":
+    case "Enum":
+      return "message";
+    case "List":
+      return typeInfo.elementType &&
+        getResultView(typeInfo.elementType) !== "none"
+        ? "editor"
+        : "none";
+    default:
+      return "none";
+  }
+};
+
+/**
+ * Detects the language mode to open a result with
+ * @param output The output of the function call
+ * @param typeInfo The return type of the function
+ * @returns A VS Code language identifier
+ */
+export const getResultLanguage = (
+  output: string,
+  typeInfo?: TypeInfo,
+): string => {
+  const trimmed = output.trim();
+
+  if (typeInfo?.name === "JSON" || isJsonDocument(trimmed)) {
+    return "json";
+  }
+  if (trimmed.startsWith("<?xml")) {
+    return "xml";
+  }
+  if (trimmed.startsWith("---\n") || /^apiVersion:\s/m.test(trimmed)) {
+    return "yaml";
+  }
+  if (trimmed.startsWith("#!")) {
+    return "shellscript";
+  }
+
+  return "plaintext";
+};
+
+/**
+ * Only objects and arrays count as JSON documents, a bare number or string is plain text
+ */
+const isJsonDocument = (value: string): boolean => {
+  if (!value.startsWith("{") && !value.startsWith("[")) {
+    return false;
+  }
+
+  try {
+    JSON.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import { ICON_PATH_BLACK, ICON_PATH_WHITE } from "../const";
+import { ManagedProcess, startProcess } from "./process";
 
 const TERMINAL_CONFIG = {
   NAME: "Dagger",
@@ -61,6 +62,7 @@ export const executeTaskAndWait = async (
     taskName?: string;
     workingDirectory?: string;
     environment?: { [key: string]: string };
+    problemMatchers?: string[];
   },
 ): Promise<TaskExecutionResult> => {
   return new Promise((resolve, reject) => {
@@ -75,6 +77,7 @@ export const executeTaskAndWait = async (
       taskName = TERMINAL_CONFIG.NAME,
       workingDirectory,
       environment,
+      problemMatchers,
     } = options || {};
 
     // Create environment variables
@@ -102,6 +105,7 @@ export const executeTaskAndWait = async (
       taskName,
       "shell",
       taskExecution,
+      problemMatchers,
     );
 
     task.presentationOptions = {
@@ -179,3 +183,147 @@ export const executeTaskAndWait = async (
     );
   });
 };
+
+/**
+ * Result interface for a task whose output is captured
+ */
+export interface CapturedTaskExecutionResult extends TaskExecutionResult {
+  output: string;
+}
+
+/**
+ * Creates a pseudoterminal that runs a command through the shell when it is
+ * opened. The output is shown in the terminal and kept, so it can be recorded.
+ * @param command The command to execute
+ * @param options The working directory, environment and cancellation token of the command
+ * @returns The pseudoterminal and the exit code and output once the command has exited
+ */
+export const createCapturingPseudoterminal = (
+  command: string,
+  options: {
+    workingDirectory: string;
+    environment?: { [key: string]: string };
+    token?: vscode.CancellationToken;
+  },
+): {
+  pty: vscode.Pseudoterminal;
+  result: Promise<{ exitCode: number; output: string }>;
+} => {
+  const writeEmitter = new vscode.EventEmitter<string>();
+  const closeEmitter = new vscode.EventEmitter<number>();
+  let handle: ManagedProcess | undefined;
+  let output = "";
+  let resolveResult: (result: { exitCode: number; output: string }) => void;
+  const result = new Promise<{ exitCode: number; output: string }>(
+    (resolve) => (resolveResult = resolve),
+  );
+
+  // terminals need carriage returns to start new lines at the left
+  const append = (chunk: string) => {
+    output += chunk;
+    writeEmitter.fire(chunk.replace(/\r?\n/g, "\r\n"));
+  };
+
+  const pty: vscode.Pseudoterminal = {
+    onDidWrite: writeEmitter.event,
+    onDidClose: closeEmitter.event,
+    open: () => {
+      writeEmitter.fire(`$ ${command}\r\n`);
+      handle = startProcess(command, [], {
+        cwd: options.workingDirectory,
+        env: options.environment,
+        shell: process.env.SHELL ?? true,
+        token: options.token,
+        onStdout: append,
+        onStderr: append,
+      });
+      handle.result
+        .then(
+          ({ exitCode }) => exitCode,
+          (error) => {
+            // the process failed to start
+            append(
+              `${error instanceof Error ? error.message : String(error)}\n`,
+            );
+            return 1;
+          },
+        )
+        .then((exitCode) => {
+          resolveResult({ exitCode, output });
+          closeEmitter.fire(exitCode);
+        });
+    },
+    close: () => handle?.stop(),
+    handleInput: (data) => {
+      if (data === TERMINAL_CONFIG.CTRL_C) {
+        handle?.stop();
+      }
+    },
+  };
+
+  return { pty, result };
+};
+
+/**
+ * Executes a command in a VS Code task and waits for completion. The command
+ * runs in a pseudoterminal, so its output is shown in the task terminal,
+ * matched by the problem matchers and returned.
+ * @param command The command to execute
+ * @param options Optional execution options
+ * @returns Promise with execution results including the exit code and the output
+ */
+export const executeCapturedTaskAndWait = async (
+  token: vscode.CancellationToken,
+  command: string,
+  options: {
+    taskName?: string;
+    workingDirectory: string;
+    environment?: { [key: string]: string };
+    problemMatchers?: string[];
+  },
+): Promise<CapturedTaskExecutionResult> => {
+  if (token.isCancellationRequested) {
+    throw new Error("Task execution was cancelled");
+  }
+
+  const {
+    taskName = TERMINAL_CONFIG.NAME,
+    workingDirectory,
+    environment,
+    problemMatchers,
+  } = options;
+  const { pty, result } = createCapturingPseudoterminal(command, {
+    workingDirectory,
+    environment,
+    token,
+  });
+
+  const task = new vscode.Task(
+    { type: "shell" },
+    vscode.TaskScope.Workspace,
+    taskName,
+    "shell",
+    new vscode.CustomExecution(async () => pty),
+    problemMatchers,
+  );
+  task.presentationOptions = {
+    reveal: vscode.TaskRevealKind.Always,
+    panel: vscode.TaskPanelKind.Shared,
+    showReuseMessage: false,
+    clear: false,
+  };
+  task.detail = command;
+  task.group = vscode.TaskGroup.Build;
+
+  let execution: vscode.TaskExecution;
+  try {
+    execution = await vscode.tasks.executeTask(task);
+  } catch (error) {
+    throw new Error(
+      `Failed to execute task: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const { exitCode, output } = await result;
+  return { success: exitCode === 0, exitCode, execution, output };
+};
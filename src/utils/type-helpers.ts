@@ -1,4 +1,11 @@
-import { FunctionArg, FunctionArgument } from "../types/types";
+import {
+  FunctionArg,
+  FunctionArgTypeDef,
+  FunctionArgument,
+  GraphQLTypeRef,
+  TypeInfo,
+  TypeKind,
+} from "../types/types";
 import { nameToKebabCase } from "./modules";
 
 /**
@@ -16,6 +23,14 @@ export const getReturnTypeName = (typeInfo: any): string => {
       return typeInfo.asObject.name;
     }
 
+    // Use the full type definition when available (lists, enums, scalars, etc.)
+    if (typeInfo.kind) {
+      const converted = typeDefToTypeInfo(typeInfo);
+      if (converted.kind !== "unknown") {
+        return converted.name;
+      }
+    }
+
     // Fall back to kind-based conversion
     if (typeInfo.kind) {
       return convertGraphQLType(typeInfo.kind);
@@ -70,36 +85,292 @@ export const getArgumentTypeName = (typeInfo: any): string => {
 export const functionArgTypeToFunctionArgument = (
   arg: FunctionArg,
 ): FunctionArgument => {
-  let funcArg: FunctionArgument = {
+  const typeInfo = typeDefToTypeInfo(arg.typeDef);
+
+  const funcArg: FunctionArgument = {
     name: nameToKebabCase(arg.name),
-    type: "unknown",
+    type: typeInfo.name,
     required: !arg.typeDef.optional,
+    typeInfo,
   };
 
-  if (arg.typeDef.asObject && arg.typeDef.asObject.name) {
-    funcArg.type = arg.typeDef.asObject.name;
+  if (arg.description) {
+    funcArg.description = arg.description;
+  }
 
-    return funcArg;
+  const defaultValue = parseDefaultValue(arg.defaultValue);
+  if (defaultValue !== undefined) {
+    funcArg.defaultValue = defaultValue;
   }
 
-  switch (arg.typeDef.kind) {
-    case "STRING_KIND":
-      funcArg.type = "String";
-      break;
-    case "INT_KIND":
-      funcArg.type = "Int";
-      break;
-    case "FLOAT_KIND":
-      funcArg.type = "Float";
-      break;
-    case "BOOLEAN_KIND":
-      funcArg.type = "Boolean";
-      break;
+  if (arg.defaultPath) {
+    funcArg.defaultPath = arg.defaultPath;
   }
 
   return funcArg;
 };
 
+/**
+ * Maps a GraphQL TypeDefKind to the internal TypeKind.
+ */
+const TYPE_KINDS: Record<string, TypeKind> = {
+  STRING_KIND: "String",
+  INTEGER_KIND: "Int",
+  INT_KIND: "Int",
+  FLOAT_KIND: "Float",
+  BOOLEAN_KIND: "Boolean",
+  SCALAR_KIND: "Scalar",
+  ENUM_KIND: "Enum",
+  LIST_KIND: "List",
+  OBJECT_KIND: "Object",
+  INTERFACE_KIND: "Interface",
+  INPUT_KIND: "Input",
+  VOID_KIND: "Void",
+};
+
+/**
+ * Converts a GraphQL type definition to the internal TypeInfo model.
+ * Lists are converted recursively so nested element types are preserved.
+ *
+ * @param typeDef The GraphQL type definition from the introspection query
+ * @returns The TypeInfo describing the type
+ */
+export const typeDefToTypeInfo = (typeDef: FunctionArgTypeDef): TypeInfo => {
+  const kind = TYPE_KINDS[typeDef.kind] ?? "unknown";
+  const optional = typeDef.optional ?? false;
+
+  switch (kind) {
+    case "List": {
+      const elementType = typeDef.asList?.elementTypeDef
+        ? typeDefToTypeInfo(typeDef.asList.elementTypeDef)
+        : undefined;
+
+      return {
+        kind,
+        name: `[${elementType?.name ?? "unknown"}]`,
+        optional,
+        elementType,
+      };
+    }
+    case "Enum":
+      return {
+        kind,
+        name: typeDef.asEnum?.name ?? "Enum",
+        optional,
+        enumValues: (typeDef.asEnum?.members ?? []).map((member) => ({
+          name: member.name,
+          description: member.description || undefined,
+        })),
+      };
+    case "Object":
+      return { kind, name: typeDef.asObject?.name ?? "Object", optional };
+    case "Interface":
+      return {
+        kind,
+        name: typeDef.asInterface?.name ?? "Interface",
+        optional,
+      };
+    case "Input":
+      return { kind, name: typeDef.asInput?.name ?? "Input", optional };
+    case "Scalar":
+      return { kind, name: typeDef.asScalar?.name ?? "Scalar", optional };
+    case "unknown":
+      // older responses may still carry an object name without a known kind
+      return {
+        kind: typeDef.asObject?.name ? "Object" : "unknown",
+        name: typeDef.asObject?.name ?? "unknown",
+        optional,
+      };
+    default:
+      return { kind, name: kind, optional };
+  }
+};
+
+/**
+ * Maps the built-in GraphQL scalars to a TypeDefKind.
+ */
+const SCALAR_KINDS: Record<string, string> = {
+  String: "STRING_KIND",
+  Int: "INTEGER_KIND",
+  Float: "FLOAT_KIND",
+  Boolean: "BOOLEAN_KIND",
+  Void: "VOID_KIND",
+};
+
+/**
+ * Converts a type reference from GraphQL introspection to a type definition,
+ * so the fields of core types like Container can be used like functions.
+ * IDs such as ContainerID are the object they identify when they are passed
+ * as arguments, the CLI takes a path or an address for them.
+ *
+ * @param ref The type reference from the introspection query
+ * @param idsAsObjects Whether ID scalars are converted to their object
+ * @param optional Whether the type can be null, cleared by NON_NULL
+ * @returns The type definition
+ */
+export const graphQLTypeToTypeDef = (
+  ref: GraphQLTypeRef,
+  idsAsObjects = true,
+  optional = true,
+): FunctionArgTypeDef => {
+  const name = ref.name ?? "";
+
+  switch (ref.kind) {
+    case "NON_NULL":
+      return ref.ofType
+        ? graphQLTypeToTypeDef(ref.ofType, idsAsObjects, false)
+        : { kind: "unknown", optional };
+    case "LIST":
+      return {
+        kind: "LIST_KIND",
+        optional,
+        asList: ref.ofType
+          ? { elementTypeDef: graphQLTypeToTypeDef(ref.ofType, idsAsObjects) }
+          : null,
+      };
+    case "SCALAR": {
+      const id = name.match(/^(\w+)ID$/);
+      if (SCALAR_KINDS[name]) {
+        return { kind: SCALAR_KINDS[name], optional };
+      }
+      if (id && idsAsObjects) {
+        return { kind: "OBJECT_KIND", optional, asObject: { name: id[1] } };
+      }
+
+      return { kind: "SCALAR_KIND", optional, asScalar: { name } };
+    }
+    case "ENUM":
+      return { kind: "ENUM_KIND", optional, asEnum: { name } };
+    case "OBJECT":
+      return { kind: "OBJECT_KIND", optional, asObject: { name } };
+    case "INTERFACE":
+      return { kind: "INTERFACE_KIND", optional, asInterface: { name } };
+    case "INPUT_OBJECT":
+      return { kind: "INPUT_KIND", optional, asInput: { name } };
+    default:
+      return { kind: "unknown", optional };
+  }
+};
+
+/**
+ * Builds a TypeInfo from a display type name such as "String", "[Int]" or "Container".
+ * This is used when only the flattened type name is available.
+ *
+ * @param name The display name of the type
+ * @param optional Whether the type is optional
+ * @returns The TypeInfo for the name
+ */
+export const typeInfoFromName = (name: string, optional = false): TypeInfo => {
+  const listMatch = name.match(/^\[(.*)\]$/);
+  if (listMatch) {
+    const elementType = typeInfoFromName(listMatch[1]);
+
+    return { kind: "List", name, optional, elementType };
+  }
+
+  switch (name) {
+    case "String":
+    case "Int":
+    case "Float":
+    case "Boolean":
+    case "Void":
+      return { kind: name, name, optional };
+    case "":
+    case "unknown":
+      return { kind: "unknown", name: "unknown", optional };
+    default:
+      return { kind: "Object", name, optional };
+  }
+};
+
+/**
+ * Gets the TypeInfo of an argument, falling back to the flattened type name.
+ * @param arg The function argument
+ * @returns The TypeInfo for the argument
+ */
+export const getArgumentTypeInfo = (arg: FunctionArgument): TypeInfo =>
+  arg.typeInfo ?? typeInfoFromName(arg.type, !arg.required);
+
+/**
+ * Decodes the JSON encoded default value of an argument.
+ * @param raw The raw JSON value from the introspection query
+ * @returns The default value as a string or undefined if there is none
+ */
+export const parseDefaultValue = (
+  raw: string | null | undefined,
+): string | undefined => {
+  if (raw === undefined || raw === null || raw === "") {
+    return undefined;
+  }
+
+  try {
+    const value = JSON.parse(raw);
+    if (value === null) {
+      return undefined;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => String(item)).join(",");
+    }
+
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  } catch {
+    // not valid JSON, return the raw value
+    return raw;
+  }
+};
+
+/**
+ * Validates a value entered for an argument of the given type.
+ * List values are comma separated and each element is validated against the element type.
+ *
+ * @param typeInfo The type of the argument
+ * @param value The value to validate
+ * @returns An error message or undefined if the value is valid
+ */
+export const validateArgumentValue = (
+  typeInfo: TypeInfo,
+  value: string,
+): string | undefined => {
+  switch (typeInfo.kind) {
+    case "Int":
+      return /^-?\d+$/.test(value.trim())
+        ? undefined
+        : `Expected a whole number for ${typeInfo.name}.`;
+    case "Float":
+      return value.trim() !== "" && !isNaN(Number(value))
+        ? undefined
+        : `Expected a number for ${typeInfo.name}.`;
+    case "Boolean":
+      return ["true", "false"].includes(value.trim().toLowerCase())
+        ? undefined
+        : "Expected true or false.";
+    case "Enum": {
+      const members = typeInfo.enumValues?.map((member) => member.name) ?? [];
+      if (members.length === 0 || members.includes(value.trim())) {
+        return undefined;
+      }
+
+      return `Expected one of: ${members.join(", ")}.`;
+    }
+    case "List": {
+      if (!typeInfo.elementType) {
+        return undefined;
+      }
+
+      for (const element of value.split(",")) {
+        const error = validateArgumentValue(typeInfo.elementType, element);
+        if (error) {
+          return `Invalid list element "${element.trim()}": ${error}`;
+        }
+      }
+
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+};
+
 /**
  * @deprecated Use functionArgTypeToFunctionArgument instead.
  *
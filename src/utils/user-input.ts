@@ -1,44 +1,14 @@
 import * as vscode from "vscode";
-
-/**
- * Prompts the user for the ports to expose for a specific function. This is
- * used when exposing services for functions.
- * @param functionName The name of the function for which to expose ports.
- * @returns An array of ports to expose or undefined if cancelled.
- */
-export const askForPorts = async (
-  functionName: string,
-): Promise<string[] | undefined> => {
-  const portsInput = await vscode.window.showInputBox({
-    prompt: `Enter ports to expose for function \`${functionName}\` (comma-separated, e.g. 8080:8080)`,
-    placeHolder: "e.g. 8080:8080",
-    value: "8080:8080",
-    validateInput: (value) => {
-      // Simple validation for port format - this should be improved
-      const regex = /^\d+(:\d+)?(,\d+(:\d+)?)*$/;
-      return regex.test(value)
-        ? null
-        : "Invalid port format. Use '8080:8080' or '8080,9090:9090'";
-    },
-  });
-
-  if (!portsInput) {
-    return undefined; // User cancelled input
-  }
-
-  const ports = portsInput.split(",").reduce(
-    (acc, port) => {
-      const [host, container] = port.split(":");
-      acc[Number(host)] = Number(container);
-      return acc;
-    },
-    {} as Record<number, number>,
-  );
-
-  return Object.entries(ports).map(
-    ([host, container]) => `${host}:${container}`,
-  );
-};
+import * as path from "path";
+import {
+  DirectoryType,
+  FileType,
+  FunctionArgument,
+  SecretType,
+  TypeInfo,
+} from "../types/types";
+import { getArgumentTypeInfo, validateArgumentValue } from "./type-helpers";
+import { SECRET_NAME_PATTERN, secretReference, SecretStore } from "../secrets";
 
 /**
  * Prompts the user for the Dagger module address. This is used when installing a module for a workflow.
@@ -147,3 +117,367 @@ export const askForFileName = async (): Promise<string | undefined> => {
 
   return fileName;
 };
+
+export interface SecretProviderPick extends vscode.QuickPickItem {
+  readonly scheme: "env:" | "file:" | "cmd:" | "op://" | "vault://";
+  readonly prompt: string;
+  readonly placeHolder: string;
+}
+
+/**
+ * Where the value of a Secret argument can be read from
+ */
+export const SECRET_PROVIDERS: readonly SecretProviderPick[] = [
+  {
+    label: "Environment variable",
+    description: "env:",
+    scheme: "env:",
+    prompt: "Enter the name of the environment variable",
+    placeHolder: "GITHUB_TOKEN",
+  },
+  {
+    label: "File",
+    description: "file:",
+    scheme: "file:",
+    prompt: "Enter the path of the file containing the secret",
+    placeHolder: "./secrets/token.txt",
+  },
+  {
+    label: "Command",
+    description: "cmd:",
+    scheme: "cmd:",
+    prompt: "Enter the command that prints the secret",
+    placeHolder: "gh auth token",
+  },
+  {
+    label: "1Password",
+    description: "op://",
+    scheme: "op://",
+    prompt: "Enter the 1Password reference (vault/item/field)",
+    placeHolder: "Private/GitHub/token",
+  },
+  {
+    label: "HashiCorp Vault",
+    description: "vault://",
+    scheme: "vault://",
+    prompt: "Enter the Vault path and key (path.key)",
+    placeHolder: "secret/github.token",
+  },
+];
+
+interface SecretPick extends vscode.QuickPickItem {
+  readonly name?: string; // unset for the option that adds a secret
+}
+
+const BROWSE_OPTION = "$(folder-opened) Browse...";
+const CURRENT_DIRECTORY_OPTION = "$(root-folder) Current directory (.)";
+const ENTER_MANUALLY_OPTION = "$(edit) Enter a path or URL";
+
+/**
+ * Prompts the user for the value of a function argument. The prompt depends on the type of the argument:
+ * - Directory and File arguments use a file picker (or a path or Git URL entered manually)
+ * - Secret arguments ask for a stored secret, or a secret provider and then its reference
+ * - Boolean arguments use a true/false pick
+ * - Enum arguments use a pick of the known values
+ * - Everything else uses an input box validated against the type
+ *
+ * @param arg The function argument to prompt for
+ * @param workspacePath The path the command is run from, used to make picked paths relative
+ * @param secrets The stored secrets offered for Secret arguments
+ * @returns The value entered by the user or undefined if cancelled
+ */
+export const askForArgumentValue = async (
+  arg: FunctionArgument,
+  workspacePath?: string,
+  secrets?: SecretStore,
+): Promise<string | undefined> => {
+  const typeInfo = getArgumentTypeInfo(arg);
+  const title = `--${arg.name} (${arg.type})${arg.required ? " [required]" : ""}`;
+
+  switch (getArgumentPrompt(typeInfo)) {
+    case "path":
+      return askForPathArgument(
+        arg,
+        title,
+        typeInfo.name === DirectoryType,
+        workspacePath,
+      );
+    case "secret":
+      return askForSecretArgument(title, secrets);
+    case "boolean": {
+      const picked = await vscode.window.showQuickPick(["true", "false"], {
+        title,
+        placeHolder:
+          arg.defaultValue !== undefined
+            ? `Default: ${arg.defaultValue}`
+            : arg.description,
+        ignoreFocusOut: true,
+      });
+
+      return picked;
+    }
+    case "enum": {
+      const picked = await vscode.window.showQuickPick(
+        (typeInfo.enumValues ?? []).map((value) => ({
+          label: value.name,
+          description: value.name === arg.defaultValue ? "default" : undefined,
+          detail: value.description,
+        })),
+        {
+          title,
+          placeHolder: arg.description ?? `Select a ${typeInfo.name} value`,
+          ignoreFocusOut: true,
+        },
+      );
+
+      return picked?.label;
+    }
+  }
+
+  return vscode.window.showInputBox({
+    title,
+    prompt: `Enter value for ${title}${
+      typeInfo.kind === "List" ? " (comma-separated)" : ""
+    }`,
+    placeHolder:
+      arg.defaultValue !== undefined
+        ? `Default: ${arg.defaultValue}`
+        : arg.description,
+    ignoreFocusOut: true,
+    validateInput: (input) => validateArgumentInput(arg, input),
+  });
+};
+
+/**
+ * How the value of an argument is prompted for, see askForArgumentValue
+ */
+export type ArgumentPrompt = "path" | "secret" | "boolean" | "enum" | "input";
+
+/**
+ * Chooses the prompt for an argument from its type. Enums without known values use an input box.
+ * @param typeInfo The type of the argument
+ * @returns The prompt to use
+ */
+export const getArgumentPrompt = (typeInfo: TypeInfo): ArgumentPrompt => {
+  switch (typeInfo.kind === "Object" ? typeInfo.name : typeInfo.kind) {
+    case DirectoryType:
+    case FileType:
+      return "path";
+    case SecretType:
+      return "secret";
+    case "Boolean":
+      return "boolean";
+    case "Enum":
+      return typeInfo.enumValues && typeInfo.enumValues.length > 0
+        ? "enum"
+        : "input";
+    default:
+      return "input";
+  }
+};
+
+/**
+ * Validates a value entered for an argument in the input box
+ * @param arg The function argument
+ * @param input The entered value
+ * @returns An error message or undefined if the value is valid
+ */
+export const validateArgumentInput = (
+  arg: FunctionArgument,
+  input: string,
+): string | undefined => {
+  if (!input) {
+    return arg.required ? "This value is required." : undefined;
+  }
+
+  return validateArgumentValue(getArgumentTypeInfo(arg), input);
+};
+
+/**
+ * Gets the value passed for a picked path, relative to where dagger is called from when it is inside it
+ * @param workspacePath The path the command is run from
+ * @param pickedPath The absolute path picked by the user
+ * @returns The relative path, "." for the workspace itself, or the picked path when it is outside
+ */
+export const getRelativeArgumentPath = (
+  workspacePath: string,
+  pickedPath: string,
+): string => {
+  const relativePath = path.relative(workspacePath, pickedPath);
+
+  return relativePath === ""
+    ? "."
+    : relativePath.startsWith("..") || path.isAbsolute(relativePath)
+      ? pickedPath
+      : relativePath;
+};
+
+/**
+ * Prompts for a Directory or File argument using a file picker, or a path or URL entered manually
+ */
+const askForPathArgument = async (
+  arg: FunctionArgument,
+  title: string,
+  isDirectory: boolean,
+  workspacePath?: string,
+): Promise<string | undefined> => {
+  const options = [BROWSE_OPTION, ENTER_MANUALLY_OPTION];
+  if (isDirectory) {
+    options.unshift(CURRENT_DIRECTORY_OPTION);
+  }
+
+  const choice = await vscode.window.showQuickPick(options, {
+    title,
+    placeHolder: arg.defaultPath
+      ? `Default path: ${arg.defaultPath}`
+      : (arg.description ?? `Select a ${isDirectory ? "directory" : "file"}`),
+    ignoreFocusOut: true,
+  });
+
+  switch (choice) {
+    case CURRENT_DIRECTORY_OPTION:
+      return ".";
+    case BROWSE_OPTION: {
+      const picked = await vscode.window.showOpenDialog({
+        title,
+        canSelectFiles: !isDirectory,
+        canSelectFolders: isDirectory,
+        canSelectMany: false,
+        defaultUri: workspacePath ? vscode.Uri.file(workspacePath) : undefined,
+        openLabel: `Use ${isDirectory ? "Directory" : "File"}`,
+      });
+      if (!picked || picked.length === 0) {
+        return undefined;
+      }
+
+      return workspacePath
+        ? getRelativeArgumentPath(workspacePath, picked[0].fsPath)
+        : picked[0].fsPath;
+    }
+    case ENTER_MANUALLY_OPTION:
+      return vscode.window.showInputBox({
+        title,
+        prompt: `Enter a ${isDirectory ? "directory" : "file"} path or Git URL`,
+        placeHolder: isDirectory
+          ? "./src or https://github.com/user/repo#main"
+          : "./Dockerfile",
+        ignoreFocusOut: true,
+        validateInput: (value) =>
+          arg.required && !value ? "This value is required." : undefined,
+      });
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Prompts for a Secret argument by selecting a stored secret, or the secret
+ * provider and then its reference. Stored secrets are passed as env:NAME.
+ */
+const askForSecretArgument = async (
+  title: string,
+  secrets?: SecretStore,
+): Promise<string | undefined> => {
+  const stored: SecretPick[] = secrets
+    ? [
+        ...secrets.list().map((name) => ({
+          label: `$(key) ${name}`,
+          description: secretReference(name),
+          name,
+        })),
+        { label: "$(add) New secret...", description: "Stored in VS Code" },
+        { label: "", kind: vscode.QuickPickItemKind.Separator },
+      ]
+    : [];
+  const picked = await vscode.window.showQuickPick<
+    SecretPick | SecretProviderPick
+  >([...stored, ...SECRET_PROVIDERS], {
+    title,
+    placeHolder: "Select a stored secret or where the secret is read from",
+    ignoreFocusOut: true,
+  });
+  if (!picked) {
+    return undefined;
+  }
+  if (!("scheme" in picked)) {
+    const name = picked.name ?? (await askForNewSecret(secrets!));
+    return name ? secretReference(name) : undefined;
+  }
+
+  const provider = picked;
+
+  const reference = await vscode.window.showInputBox({
+    title,
+    prompt: provider.prompt,
+    placeHolder: provider.placeHolder,
+    ignoreFocusOut: true,
+    validateInput: (value) => validateSecretReference(provider, value),
+  });
+  if (!reference) {
+    return undefined;
+  }
+
+  // the value is passed to the shell so commands are quoted by buildCommandArgs
+  return `${provider.scheme}${reference.trim()}`;
+};
+
+/**
+ * Validates the reference entered for a secret provider
+ * @param provider The provider the secret is read from
+ * @param value The entered reference
+ * @returns An error message or undefined if the reference is valid
+ */
+export const validateSecretReference = (
+  provider: Pick<SecretProviderPick, "scheme">,
+  value: string,
+): string | undefined => {
+  if (!value || value.trim() === "") {
+    return "A secret reference is required.";
+  }
+  if (provider.scheme === "env:" && !/^[A-Za-z_][A-Za-z0-9_]*$/.test(value)) {
+    return "Environment variable names can only contain letters, numbers and underscores.";
+  }
+
+  return undefined;
+};
+
+/**
+ * Prompts for the name and value of a secret and stores it
+ * @param secrets The store to add the secret to
+ * @returns The name of the stored secret or undefined if cancelled
+ */
+export const askForNewSecret = async (
+  secrets: SecretStore,
+): Promise<string | undefined> => {
+  const name = await vscode.window.showInputBox({
+    title: "New Secret",
+    prompt:
+      "Enter a name for the secret, calls read it from the environment variable with this name",
+    placeHolder: "GITHUB_TOKEN",
+    ignoreFocusOut: true,
+    validateInput: (value) =>
+      SECRET_NAME_PATTERN.test(value)
+        ? undefined
+        : "Secret names can only contain letters, numbers and underscores.",
+  });
+  if (!name) {
+    return undefined;
+  }
+
+  const value = await vscode.window.showInputBox({
+    title: `New Secret: ${name}`,
+    prompt: secrets.list().includes(name)
+      ? `Enter the new value of ${name}, it replaces the stored value`
+      : `Enter the value of ${name}`,
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: (input) =>
+      input ? undefined : "A secret value is required.",
+  });
+  if (!value) {
+    return undefined;
+  }
+
+  await secrets.set(name, value);
+  return name;
+};
@@ -0,0 +1,478 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as crypto from "crypto";
+import {
+  DirectoryType,
+  FileType,
+  FunctionInfo,
+  SecretType,
+} from "../types/types";
+import { PresetStore } from "../presets";
+import { secretReference, SecretStore } from "../secrets";
+import {
+  getArgumentTypeInfo,
+  validateArgumentValue,
+} from "../utils/type-helpers";
+import { SECRET_PROVIDERS } from "../utils/user-input";
+
+const VIEW_TYPE = "dagger.callForm";
+
+// Messages sent from the webview to the extension
+type FormMessage =
+  | { type: "validate"; values: Record<string, string> }
+  | { type: "submit"; values: Record<string, string> }
+  | { type: "browse"; name: string }
+  | { type: "savePreset"; values: Record<string, string> }
+  | { type: "deletePreset"; name: string }
+  | { type: "cancel" };
+
+// Field description rendered by the webview
+interface FormField {
+  name: string;
+  type: string;
+  required: boolean;
+  description?: string;
+  defaultValue?: string;
+  input: "text" | "select" | "path" | "secret";
+  options?: string[]; // the values of a select, the stored secret references of a secret
+  providers?: { scheme: string; label: string; placeHolder: string }[];
+}
+
+/**
+ * Shows a form for all the arguments of a function in a webview panel
+ * @param functionInfo The function to show the form for
+ * @param presets The preset store used to load and save argument presets
+ * @param workspacePath The path the function is called from, used to make picked paths relative
+ * @param initialValues Values to prefill the form with, keyed by argument name
+ * @param secrets The stored secrets offered for Secret arguments
+ * @returns The entered argument values or undefined if the form was closed
+ */
+export const showFunctionCallForm = async (
+  functionInfo: FunctionInfo,
+  presets: PresetStore,
+  workspacePath?: string,
+  initialValues: Record<string, string> = {},
+  secrets?: SecretStore,
+): Promise<Record<string, string> | undefined> => {
+  const panel = vscode.window.createWebviewPanel(
+    VIEW_TYPE,
+    `Call ${functionInfo.name}`,
+    vscode.ViewColumn.Active,
+    { enableScripts: true, retainContextWhenHidden: true },
+  );
+
+  const storedSecrets = (secrets?.list() ?? []).map(secretReference);
+  const fields = functionInfo.args.map((arg) =>
+    toFormField(arg, storedSecrets),
+  );
+  panel.webview.html = getFormHtml(
+    panel.webview,
+    functionInfo,
+    fields,
+    presets,
+    initialValues,
+  );
+
+  return new Promise((resolve) => {
+    let resolved = false;
+    const finish = (values: Record<string, string> | undefined) => {
+      if (!resolved) {
+        resolved = true;
+        resolve(values);
+      }
+    };
+
+    const postPresets = () =>
+      panel.webview.postMessage({
+        type: "presets",
+        presets: presets.list(functionInfo),
+      });
+
+    panel.webview.onDidReceiveMessage(async (message: FormMessage) => {
+      switch (message.type) {
+        case "validate":
+          panel.webview.postMessage({
+            type: "validation",
+            errors: validateFormValues(functionInfo, message.values),
+          });
+          break;
+        case "submit": {
+          const errors = validateFormValues(functionInfo, message.values);
+          if (Object.keys(errors).length > 0) {
+            panel.webview.postMessage({ type: "validation", errors });
+            return;
+          }
+
+          finish(omitEmptyValues(message.values));
+          panel.dispose();
+          break;
+        }
+        case "browse": {
+          const field = fields.find((f) => f.name === message.name);
+          const picked = await vscode.window.showOpenDialog({
+            canSelectFiles: field?.type !== DirectoryType,
+            canSelectFolders: field?.type === DirectoryType,
+            canSelectMany: false,
+            defaultUri: workspacePath
+              ? vscode.Uri.file(workspacePath)
+              : undefined,
+          });
+          if (!picked || picked.length === 0) {
+            return;
+          }
+
+          const relativePath = workspacePath
+            ? path.relative(workspacePath, picked[0].fsPath)
+            : picked[0].fsPath;
+          panel.webview.postMessage({
+            type: "path",
+            name: message.name,
+            value:
+              relativePath === ""
+                ? "."
+                : relativePath.startsWith("..")
+                  ? picked[0].fsPath
+                  : relativePath,
+          });
+          break;
+        }
+        case "savePreset": {
+          const name = await vscode.window.showInputBox({
+            prompt: `Enter a name for this \`${functionInfo.name}\` preset`,
+            validateInput: (value) =>
+              value && value.trim() !== ""
+                ? undefined
+                : "Preset name cannot be empty",
+          });
+          if (!name) {
+            return;
+          }
+
+          await presets.save(
+            functionInfo,
+            name.trim(),
+            omitEmptyValues(message.values),
+          );
+          postPresets();
+          break;
+        }
+        case "deletePreset": {
+          const confirm = await vscode.window.showWarningMessage(
+            `Delete the preset "${message.name}"?`,
+            { modal: true },
+            "Delete",
+          );
+          if (confirm !== "Delete") {
+            return;
+          }
+
+          await presets.remove(functionInfo, message.name);
+          postPresets();
+          break;
+        }
+        case "cancel":
+          finish(undefined);
+          panel.dispose();
+          break;
+      }
+    });
+
+    panel.onDidDispose(() => finish(undefined));
+  });
+};
+
+/**
+ * Validates the values entered in the form
+ * @param functionInfo The function the values are for
+ * @param values The entered values keyed by argument name
+ * @returns The errors keyed by argument name
+ */
+export const validateFormValues = (
+  functionInfo: FunctionInfo,
+  values: Record<string, string>,
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  for (const arg of functionInfo.args) {
+    const value = values[arg.name] ?? "";
+    if (value === "") {
+      if (arg.required) {
+        errors[arg.name] = "This value is required.";
+      }
+      continue;
+    }
+
+    const error = validateArgumentValue(getArgumentTypeInfo(arg), value);
+    if (error) {
+      errors[arg.name] = error;
+    }
+  }
+
+  return errors;
+};
+
+const omitEmptyValues = (
+  values: Record<string, string>,
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(values).filter(([_, value]) => value !== ""),
+  );
+
+const toFormField = (
+  arg: FunctionInfo["args"][number],
+  storedSecrets: string[],
+): FormField => {
+  const typeInfo = getArgumentTypeInfo(arg);
+  const field: FormField = {
+    name: arg.name,
+    type: arg.type,
+    required: arg.required,
+    description: arg.description,
+    defaultValue: arg.defaultValue ?? arg.defaultPath,
+    input: "text",
+  };
+
+  if (typeInfo.kind === "Boolean") {
+    field.input = "select";
+    field.options = ["true", "false"];
+  } else if (typeInfo.kind === "Enum" && typeInfo.enumValues?.length) {
+    field.input = "select";
+    field.options = typeInfo.enumValues.map((value) => value.name);
+  } else if (typeInfo.name === DirectoryType || typeInfo.name === FileType) {
+    field.input = "path";
+  } else if (typeInfo.name === SecretType) {
+    // like the prompt, a stored secret or where the secret is read from
+    field.input = "secret";
+    field.options = storedSecrets;
+    field.providers = SECRET_PROVIDERS.map(
+      ({ scheme, label, placeHolder }) => ({ scheme, label, placeHolder }),
+    );
+  }
+
+  return field;
+};
+
+const getFormHtml = (
+  webview: vscode.Webview,
+  functionInfo: FunctionInfo,
+  fields: FormField[],
+  presets: PresetStore,
+  initialValues: Record<string, string>,
+): string => {
+  const nonce = crypto.randomBytes(16).toString("base64");
+  // escape "<" so the JSON can't close the script tag
+  const state = JSON.stringify({
+    fields,
+    presets: presets.list(functionInfo),
+    initialValues,
+  }).replace(/</g, "\\u003c");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Call ${escapeHtml(functionInfo.name)}</title>
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; }
+    .field { margin-bottom: 16px; }
+    label { display: block; font-weight: 600; margin-bottom: 4px; }
+    .type { font-weight: normal; color: var(--vscode-descriptionForeground); }
+    .description { color: var(--vscode-descriptionForeground); margin-bottom: 4px; }
+    .row { display: flex; gap: 6px; }
+    input, select { flex: 1; width: 100%; box-sizing: border-box; padding: 4px; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); }
+    .invalid input, .invalid select { border-color: var(--vscode-inputValidation-errorBorder); }
+    .error { color: var(--vscode-errorForeground); margin-top: 4px; min-height: 1em; }
+    button { padding: 4px 12px; color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; cursor: pointer; }
+    button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
+    .toolbar { display: flex; gap: 6px; align-items: center; margin: 12px 0 20px; }
+    .toolbar select { flex: 0 1 240px; }
+    .row select.source { flex: 0 1 200px; }
+    .actions { display: flex; gap: 6px; margin-top: 20px; }
+  </style>
+</head>
+<body>
+  <h2>${escapeHtml(functionInfo.name)} <span class="type">→ ${escapeHtml(functionInfo.returnType)}</span></h2>
+  ${functionInfo.description ? `<p class="description">${escapeHtml(functionInfo.description)}</p>` : ""}
+  <div class="toolbar">
+    <select id="preset"></select>
+    <button class="secondary" id="save-preset">Save as Preset…</button>
+    <button class="secondary" id="delete-preset">Delete Preset</button>
+  </div>
+  <form id="form"></form>
+  <div class="actions">
+    <button id="submit">Call</button>
+    <button class="secondary" id="cancel">Cancel</button>
+  </div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const state = ${state};
+    const form = document.getElementById("form");
+    const presetSelect = document.getElementById("preset");
+
+    const values = () => Object.fromEntries(
+      state.fields.map((field) => [field.name, document.getElementById("arg-" + field.name).value]),
+    );
+
+    const renderPresets = () => {
+      presetSelect.replaceChildren(new Option("Load a preset…", ""));
+      for (const preset of state.presets) {
+        presetSelect.add(new Option(preset.name, preset.name));
+      }
+    };
+
+    for (const field of state.fields) {
+      const container = document.createElement("div");
+      container.className = "field";
+      container.id = "field-" + field.name;
+
+      const label = document.createElement("label");
+      label.htmlFor = "arg-" + field.name;
+      label.textContent = "--" + field.name + (field.required ? " *" : "");
+      const type = document.createElement("span");
+      type.className = "type";
+      type.textContent = " " + field.type;
+      label.appendChild(type);
+      container.appendChild(label);
+
+      if (field.description) {
+        const description = document.createElement("div");
+        description.className = "description";
+        description.textContent = field.description;
+        container.appendChild(description);
+      }
+
+      const row = document.createElement("div");
+      row.className = "row";
+      let input;
+      if (field.input === "select") {
+        input = document.createElement("select");
+        input.add(new Option(field.defaultValue !== undefined ? "Default (" + field.defaultValue + ")" : "", ""));
+        for (const option of field.options) {
+          input.add(new Option(option, option));
+        }
+      } else {
+        input = document.createElement("input");
+        input.type = "text";
+        input.placeholder = field.defaultValue !== undefined ? "Default: " + field.defaultValue : "";
+      }
+      input.id = "arg-" + field.name;
+      input.value = state.initialValues[field.name] ?? "";
+      input.addEventListener("change", () => vscode.postMessage({ type: "validate", values: values() }));
+      row.appendChild(input);
+
+      if (field.input === "secret") {
+        const source = document.createElement("select");
+        source.className = "source";
+        source.add(new Option("Select a secret…", ""));
+        if (field.options.length > 0) {
+          const stored = document.createElement("optgroup");
+          stored.label = "Stored secrets";
+          for (const option of field.options) {
+            stored.appendChild(new Option(option, option));
+          }
+          source.appendChild(stored);
+        }
+        const providers = document.createElement("optgroup");
+        providers.label = "Read from";
+        for (const provider of field.providers) {
+          providers.appendChild(new Option(provider.label + " (" + provider.scheme + ")", provider.scheme));
+        }
+        source.appendChild(providers);
+        source.addEventListener("change", () => {
+          const provider = field.providers.find((p) => p.scheme === source.value);
+          input.value = source.value;
+          if (provider) {
+            input.placeholder = provider.scheme + provider.placeHolder;
+            input.focus();
+          }
+          source.value = "";
+          vscode.postMessage({ type: "validate", values: values() });
+        });
+        row.insertBefore(source, input);
+      }
+
+      if (field.input === "path") {
+        const browse = document.createElement("button");
+        browse.type = "button";
+        browse.className = "secondary";
+        browse.textContent = "Browse…";
+        browse.addEventListener("click", () => vscode.postMessage({ type: "browse", name: field.name }));
+        row.appendChild(browse);
+      }
+      container.appendChild(row);
+
+      const error = document.createElement("div");
+      error.className = "error";
+      error.id = "error-" + field.name;
+      container.appendChild(error);
+
+      form.appendChild(container);
+    }
+
+    if (state.fields.length === 0) {
+      form.textContent = "This function takes no arguments.";
+    }
+
+    renderPresets();
+
+    presetSelect.addEventListener("change", () => {
+      const preset = state.presets.find((p) => p.name === presetSelect.value);
+      if (!preset) {
+        return;
+      }
+      for (const field of state.fields) {
+        document.getElementById("arg-" + field.name).value = preset.argValues[field.name] ?? "";
+      }
+      vscode.postMessage({ type: "validate", values: values() });
+    });
+
+    document.getElementById("save-preset").addEventListener("click", () =>
+      vscode.postMessage({ type: "savePreset", values: values() }));
+    document.getElementById("delete-preset").addEventListener("click", () => {
+      if (presetSelect.value) {
+        vscode.postMessage({ type: "deletePreset", name: presetSelect.value });
+      }
+    });
+    document.getElementById("submit").addEventListener("click", () =>
+      vscode.postMessage({ type: "submit", values: values() }));
+    document.getElementById("cancel").addEventListener("click", () =>
+      vscode.postMessage({ type: "cancel" }));
+    form.addEventListener("submit", (event) => {
+      event.preventDefault();
+      vscode.postMessage({ type: "submit", values: values() });
+    });
+
+    window.addEventListener("message", (event) => {
+      const message = event.data;
+      switch (message.type) {
+        case "validation":
+          for (const field of state.fields) {
+            const error = message.errors[field.name] ?? "";
+            document.getElementById("error-" + field.name).textContent = error;
+            document.getElementById("field-" + field.name).classList.toggle("invalid", error !== "");
+          }
+          break;
+        case "path":
+          document.getElementById("arg-" + message.name).value = message.value;
+          vscode.postMessage({ type: "validate", values: values() });
+          break;
+        case "presets":
+          state.presets = message.presets;
+          renderPresets();
+          break;
+      }
+    });
+  </script>
+</body>
+</html>`;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
@@ -0,0 +1,245 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { DaggerSettings } from "../settings";
+import {
+  DaggerModule,
+  findClosestModule,
+  isModuleTarget,
+  ModuleRegistry,
+} from "./registry";
+
+// the folder fields the context directory is resolved against
+type WorkspaceFolderLike = Pick<vscode.WorkspaceFolder, "name" | "uri">;
+
+// ${workspaceFolder} or ${workspaceFolder:name}
+const WORKSPACE_FOLDER_VARIABLE = /\$\{workspaceFolder(?::([^}]+))?\}/g;
+
+/**
+ * Tracks the module commands run in by default. The module is pinned by the
+ * `dagger.contextDirectory` setting, otherwise it follows the active editor.
+ */
+export class ActiveModule implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<
+    DaggerModule | undefined
+  >();
+  readonly onDidChange: vscode.Event<DaggerModule | undefined> =
+    this._onDidChange.event;
+
+  private _current: DaggerModule | undefined;
+  private _pinned = false;
+  private readonly disposables: vscode.Disposable[];
+
+  constructor(
+    readonly modules: ModuleRegistry,
+    private readonly settings: DaggerSettings,
+  ) {
+    this.disposables = [
+      modules.onDidChange(() => this.update()),
+      vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+    ];
+    this.update();
+  }
+
+  /**
+   * The active module, undefined when there is none or it is ambiguous
+   */
+  get current(): DaggerModule | undefined {
+    return this._current;
+  }
+
+  /**
+   * Whether the active module is pinned by the context directory setting
+   */
+  get pinned(): boolean {
+    return this._pinned;
+  }
+
+  /**
+   * The path commands fall back to when they don't need a module, the active
+   * module or the first workspace folder
+   */
+  get defaultPath(): string {
+    return (
+      this._current?.path ??
+      vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ??
+      ""
+    );
+  }
+
+  /**
+   * Works out the active module again, firing onDidChange when it changed
+   */
+  update(): void {
+    const [current, pinned] = this.compute();
+    if (current?.path === this._current?.path && pinned === this._pinned) {
+      return;
+    }
+
+    this._current = current;
+    this._pinned = pinned;
+    this._onDidChange.fire(current);
+  }
+
+  /**
+   * Pins a module by saving it as the context directory in the workspace settings
+   * @param module The module to pin, or undefined to follow the active editor again
+   */
+  async select(module: DaggerModule | undefined): Promise<void> {
+    await this.settings.update(
+      "contextDirectory",
+      module
+        ? toContextDirectory(
+            module.path,
+            vscode.workspace.workspaceFolders ?? [],
+          )
+        : undefined,
+      vscode.ConfigurationTarget.Workspace,
+    );
+    this.update();
+  }
+
+  /**
+   * Resolves the module a command should run in. In order it uses the module
+   * of the target the command was invoked on, the active module, or asks when
+   * the workspace has several modules.
+   *
+   * @param target The tree item or URI the command was invoked on
+   * @returns The module path, or undefined if the user cancelled the picker
+   */
+  async resolve(target?: unknown): Promise<string | undefined> {
+    if (isModuleTarget(target)) {
+      return target.modulePath;
+    }
+
+    const modules = await this.modules.getModules();
+    if (target instanceof vscode.Uri) {
+      const module = findClosestModule(modules, target.fsPath);
+      if (module) {
+        return module.path;
+      }
+    }
+
+    if (this._current) {
+      return this._current.path;
+    }
+    if (modules.length === 0) {
+      return this.defaultPath;
+    }
+
+    return (await this.modules.pick())?.path;
+  }
+
+  dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this._onDidChange.dispose();
+  }
+
+  private compute(): [DaggerModule | undefined, boolean] {
+    const modules = this.modules.modules;
+    const contextDirectory = resolveContextDirectory(
+      this.settings.contextDirectory,
+      vscode.workspace.workspaceFolders ?? [],
+    );
+    if (contextDirectory) {
+      const module = modules.find((module) => module.path === contextDirectory);
+      return [
+        module ?? {
+          name: path.basename(contextDirectory),
+          path: contextDirectory,
+          workspaceFolder: vscode.workspace.getWorkspaceFolder(
+            vscode.Uri.file(contextDirectory),
+          ),
+        },
+        true,
+      ];
+    }
+
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    if (activeUri?.scheme === "file") {
+      const module = findClosestModule(modules, activeUri.fsPath);
+      if (module) {
+        return [module, false];
+      }
+    }
+
+    // keep the module while editing files outside of any module, or while the
+    // focus is on a panel
+    const previous = this._pinned
+      ? undefined
+      : modules.find((module) => module.path === this._current?.path);
+
+    return [previous ?? (modules.length === 1 ? modules[0] : undefined), false];
+  }
+}
+
+/**
+ * Resolves the `dagger.contextDirectory` setting to an absolute path. Relative
+ * paths are resolved against the first workspace folder and `${workspaceFolder}`
+ * or `${workspaceFolder:name}` are replaced with the folder path.
+ *
+ * @param value The value of the setting
+ * @param folders The workspace folders
+ * @returns The directory, or undefined when it is not set or can't be resolved
+ */
+export const resolveContextDirectory = (
+  value: string,
+  folders: readonly WorkspaceFolderLike[],
+): string | undefined => {
+  // <workspacePath> is the placeholder older versions documented for the default
+  if (!value.trim() || value.includes("<workspacePath>")) {
+    return undefined;
+  }
+
+  let unresolved = false;
+  const expanded = value
+    .trim()
+    .replace(WORKSPACE_FOLDER_VARIABLE, (variable, name?: string) => {
+      const folder = name
+        ? folders.find((folder) => folder.name === name)
+        : folders[0];
+      unresolved ||= folder === undefined;
+      return folder?.uri.fsPath ?? variable;
+    });
+  if (unresolved) {
+    return undefined;
+  }
+  if (path.isAbsolute(expanded)) {
+    return path.resolve(expanded);
+  }
+
+  const root = folders[0]?.uri.fsPath;
+  return root ? path.resolve(root, expanded) : undefined;
+};
+
+/**
+ * Turns a directory into a context directory setting that still works when the
+ * workspace is opened somewhere else
+ * @param directory The absolute path of the directory
+ * @param folders The workspace folders
+ */
+export const toContextDirectory = (
+  directory: string,
+  folders: readonly WorkspaceFolderLike[],
+): string => {
+  const folder = folders.find((folder) => {
+    const relative = path.relative(folder.uri.fsPath, directory);
+    return !relative.startsWith("..") && !path.isAbsolute(relative);
+  });
+  if (!folder) {
+    return directory;
+  }
+
+  const relative = path
+    .relative(folder.uri.fsPath, directory)
+    .split(path.sep)
+    .join("/");
+  if (folders.length === 1 && relative) {
+    return relative;
+  }
+
+  const variable =
+    folders.length === 1
+      ? "${workspaceFolder}"
+      : `\${workspaceFolder:${folder.name}}`;
+  return relative ? `${variable}/${relative}` : variable;
+};
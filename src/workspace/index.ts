@@ -0,0 +1,4 @@
+export * from "./registry";
+export * from "./active";
+export * from "./status";
+export * from "./watcher";
@@ -0,0 +1,189 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+export const MODULE_FILE = "dagger.json";
+export const MODULE_EXCLUDE_GLOB = "**/{node_modules,.git,vendor}/**";
+
+/**
+ * A Dagger module in the workspace, i.e. a directory with a dagger.json file
+ */
+export interface DaggerModule {
+  readonly name: string; // name from dagger.json, falls back to the directory name
+  readonly path: string; // directory that contains dagger.json
+  readonly source?: string; // directory of the SDK source, the `source` in dagger.json
+  readonly workspaceFolder?: vscode.WorkspaceFolder;
+}
+
+/**
+ * Anything a command can be invoked on that knows its module, such as a tree item
+ */
+export interface ModuleTarget {
+  readonly modulePath?: string;
+}
+
+/**
+ * Discovers the Dagger modules in every workspace folder
+ */
+export class ModuleRegistry implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  private _modules: DaggerModule[] = [];
+  private discovery: Promise<DaggerModule[]> | undefined;
+
+  /**
+   * The modules found by the last discovery
+   */
+  get modules(): DaggerModule[] {
+    return this._modules;
+  }
+
+  /**
+   * Gets the discovered modules, discovering them on first use
+   */
+  async getModules(): Promise<DaggerModule[]> {
+    return this.discovery ?? this.refresh();
+  }
+
+  /**
+   * Discovers the modules in all workspace folders again
+   */
+  refresh(): Promise<DaggerModule[]> {
+    this.discovery = this.discover().then((modules) => {
+      this._modules = modules;
+      this._onDidChange.fire();
+      return modules;
+    });
+
+    return this.discovery;
+  }
+
+  /**
+   * Finds the module a file belongs to, which is the closest module above it
+   * @param uri The file or directory
+   */
+  findModule(uri: vscode.Uri): DaggerModule | undefined {
+    return findClosestModule(this._modules, uri.fsPath);
+  }
+
+  /**
+   * Shows a quick pick of the discovered modules
+   * @param placeHolder The placeholder of the quick pick
+   */
+  async pick(
+    placeHolder = "Select a Dagger module",
+  ): Promise<DaggerModule | undefined> {
+    const modules = await this.getModules();
+    const picked = await vscode.window.showQuickPick(
+      modules.map((module) => ({
+        label: module.name,
+        description: describeModule(module),
+        module,
+      })),
+      { placeHolder, matchOnDescription: true },
+    );
+
+    return picked?.module;
+  }
+
+  /**
+   * Resolves the workspace folder a command should run in, asking when there are several
+   * @returns The folder path, or undefined if there is no folder or the user cancelled
+   */
+  async resolveWorkspaceFolder(): Promise<string | undefined> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length <= 1) {
+      return folders[0]?.uri.fsPath;
+    }
+
+    const folder = await vscode.window.showWorkspaceFolderPick({
+      placeHolder: "Select a workspace folder",
+    });
+
+    return folder?.uri.fsPath;
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+
+  private async discover(): Promise<DaggerModule[]> {
+    const files = await vscode.workspace.findFiles(
+      `**/${MODULE_FILE}`,
+      MODULE_EXCLUDE_GLOB,
+    );
+    const modules = files.map((file) => {
+      const directory = path.dirname(file.fsPath);
+      const config = readModuleConfig(directory);
+      return {
+        name: config.name ?? path.basename(directory),
+        path: directory,
+        source: path.resolve(directory, config.source ?? "."),
+        workspaceFolder: vscode.workspace.getWorkspaceFolder(file),
+      };
+    });
+
+    return modules.sort(
+      (a, b) =>
+        (a.workspaceFolder?.index ?? 0) - (b.workspaceFolder?.index ?? 0) ||
+        a.path.localeCompare(b.path),
+    );
+  }
+}
+
+/**
+ * Finds the closest module that contains a path
+ * @param modules The modules to search
+ * @param filePath The path of a file or directory
+ */
+export const findClosestModule = (
+  modules: DaggerModule[],
+  filePath: string,
+): DaggerModule | undefined =>
+  modules
+    .filter(
+      (module) =>
+        filePath === module.path || filePath.startsWith(module.path + path.sep),
+    )
+    .sort((a, b) => b.path.length - a.path.length)[0];
+
+/**
+ * Describes where a module is, relative to its workspace folder
+ */
+export const describeModule = (module: DaggerModule): string => {
+  if (!module.workspaceFolder) {
+    return module.path;
+  }
+
+  const relative = path.relative(
+    module.workspaceFolder.uri.fsPath,
+    module.path,
+  );
+  return relative
+    ? `${module.workspaceFolder.name}/${relative.split(path.sep).join("/")}`
+    : module.workspaceFolder.name;
+};
+
+export const isModuleTarget = (
+  target: unknown,
+): target is Required<ModuleTarget> =>
+  typeof target === "object" &&
+  target !== null &&
+  typeof (target as ModuleTarget).modulePath === "string";
+
+const readModuleConfig = (
+  directory: string,
+): { name?: string; source?: string } => {
+  try {
+    const config = JSON.parse(
+      fs.readFileSync(path.join(directory, MODULE_FILE), "utf8"),
+    );
+    return {
+      name: typeof config.name === "string" ? config.name : undefined,
+      source: typeof config.source === "string" ? config.source : undefined,
+    };
+  } catch {
+    return {};
+  }
+};
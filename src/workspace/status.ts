@@ -0,0 +1,59 @@
+import * as vscode from "vscode";
+import { ActiveModule } from "./active";
+import { describeModule } from "./registry";
+
+const STATUS_BAR_ID = "dagger.activeModule";
+const STATUS_BAR_PRIORITY = 100;
+
+/**
+ * Shows the active module in the status bar, clicking it switches the module
+ * @param context The extension context
+ * @param active The active module service
+ */
+export const registerActiveModuleStatusBar = (
+  context: vscode.ExtensionContext,
+  active: ActiveModule,
+): void => {
+  const item = vscode.window.createStatusBarItem(
+    STATUS_BAR_ID,
+    vscode.StatusBarAlignment.Left,
+    STATUS_BAR_PRIORITY,
+  );
+  item.name = "Dagger Module";
+  item.command = "dagger.context";
+
+  const update = () => {
+    const module = active.current;
+    if (!module && active.modules.modules.length === 0) {
+      item.hide();
+      return;
+    }
+
+    item.text = module
+      ? `$(package) ${module.name}${active.pinned ? " $(pinned)" : ""}`
+      : "$(package) Select Dagger Module";
+    item.tooltip = new vscode.MarkdownString(
+      module
+        ? [
+            `**Dagger module:** ${module.name}`,
+            "",
+            describeModule(module),
+            "",
+            active.pinned
+              ? "Pinned by the `dagger.contextDirectory` setting."
+              : "Follows the active editor.",
+            "",
+            "Click to switch modules.",
+          ].join("\n")
+        : "Click to select the Dagger module commands run in.",
+    );
+    item.show();
+  };
+
+  update();
+  context.subscriptions.push(
+    item,
+    active.onDidChange(update),
+    active.modules.onDidChange(update),
+  );
+};
@@ -0,0 +1,116 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { DaggerSettings } from "../settings";
+import { isGeneratedPath, SOURCE_FILE_GLOB } from "../utils/module-source";
+import { findClosestModule, MODULE_FILE, ModuleRegistry } from "./registry";
+
+/**
+ * A batch of changes to the modules in the workspace
+ */
+export interface ModuleChangeEvent {
+  readonly modules: string[]; // paths of the modules whose source changed
+  readonly layoutChanged: boolean; // a dagger.json was created or deleted
+}
+
+/**
+ * Watches dagger.json files and the SDK source of every module, and fires a
+ * debounced event when modules need to be loaded again
+ */
+export class ModuleWatcher implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<ModuleChangeEvent>();
+  readonly onDidChange: vscode.Event<ModuleChangeEvent> =
+    this._onDidChange.event;
+
+  private readonly disposables: vscode.Disposable[];
+  private sourceWatchers: vscode.Disposable[] = [];
+  private pending = new Set<string>();
+  private layoutChanged = false;
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly modules: ModuleRegistry,
+    private readonly settings: DaggerSettings,
+  ) {
+    const moduleFiles = vscode.workspace.createFileSystemWatcher(
+      `**/${MODULE_FILE}`,
+    );
+    this.disposables = [
+      moduleFiles,
+      moduleFiles.onDidCreate((uri) => this.onModuleFile(uri, true)),
+      moduleFiles.onDidDelete((uri) => this.onModuleFile(uri, true)),
+      moduleFiles.onDidChange((uri) => this.onModuleFile(uri, false)),
+      // the source directories come from the discovered modules
+      modules.onDidChange(() => this.watchSources()),
+    ];
+    this.watchSources();
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.sourceWatchers.forEach((watcher) => watcher.dispose());
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this._onDidChange.dispose();
+  }
+
+  private watchSources(): void {
+    this.sourceWatchers.forEach((watcher) => watcher.dispose());
+    this.sourceWatchers = this.modules.modules.map((module) => {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(
+          vscode.Uri.file(module.source ?? module.path),
+          SOURCE_FILE_GLOB,
+        ),
+      );
+      const onSource = (uri: vscode.Uri) => this.onSourceFile(uri);
+
+      return vscode.Disposable.from(
+        watcher,
+        watcher.onDidCreate(onSource),
+        watcher.onDidChange(onSource),
+        watcher.onDidDelete(onSource),
+      );
+    });
+  }
+
+  private onModuleFile(uri: vscode.Uri, created: boolean): void {
+    if (isGeneratedPath(vscode.workspace.asRelativePath(uri, false))) {
+      return;
+    }
+
+    this.schedule(path.dirname(uri.fsPath), created);
+  }
+
+  private onSourceFile(uri: vscode.Uri): void {
+    const module = findClosestModule(this.modules.modules, uri.fsPath);
+    if (!module || isGeneratedPath(path.relative(module.path, uri.fsPath))) {
+      return;
+    }
+
+    this.schedule(module.path, false);
+  }
+
+  /**
+   * Collects a change and fires once no more changes arrive for the configured delay
+   */
+  private schedule(modulePath: string, layoutChanged: boolean): void {
+    if (!this.settings.autoRefresh) {
+      return;
+    }
+
+    this.pending.add(modulePath);
+    this.layoutChanged ||= layoutChanged;
+
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      const event: ModuleChangeEvent = {
+        modules: [...this.pending],
+        layoutChanged: this.layoutChanged,
+      };
+      this.pending = new Set();
+      this.layoutChanged = false;
+
+      console.debug("Dagger modules changed:", event);
+      this._onDidChange.fire(event);
+    }, this.settings.autoRefreshDelay);
+  }
+}
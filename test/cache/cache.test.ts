@@ -1,7 +1,9 @@
 import { describe, it, beforeEach } from "mocha";
 import * as assert from "assert";
 import * as crypto from "crypto";
-import { CliCache, CacheItem } from "../../src/cache/types";
+import { CliCache, CacheItem, CacheEntryInfo } from "../../src/cache/types";
+import { VSCodeWorkspaceCache } from "../../src/cache/vscode-storage";
+import { MockMemento } from "../helpers/memento";
 
 // Mock cache implementation for testing
 class MockCache implements CliCache {
@@ -72,6 +74,18 @@ class MockCache implements CliCache {
     }
   }
 
+  async clearNamespace(namespace: string): Promise<void> {
+    for (const key of this.storage.keys()) {
+      if (key.endsWith(`-${namespace}`)) {
+        this.storage.delete(key);
+      }
+    }
+  }
+
+  async entries(): Promise<CacheEntryInfo[]> {
+    return [];
+  }
+
   async has(key: string): Promise<boolean> {
     const item = await this.get(key);
     return item !== undefined;
@@ -231,3 +245,104 @@ describe("CliCache", () => {
     assert.strictEqual(numberValue, 42);
   });
 });
+
+describe("VSCodeWorkspaceCache", () => {
+  const INDEX_KEY = "dagger.cache.index";
+  let memento: MockMemento;
+  let now: number;
+
+  const createCache = (options = {}) =>
+    new VSCodeWorkspaceCache(memento, options, () => now);
+
+  beforeEach(() => {
+    memento = new MockMemento();
+    now = 1_000;
+  });
+
+  it("should expire items after their TTL", async () => {
+    const cache = createCache({ ttl: 100 });
+    await cache.set("default", "value");
+    await cache.set("longer", "value", { ttl: 500 });
+
+    now += 200;
+
+    assert.strictEqual(await cache.get("default"), undefined);
+    assert.strictEqual(await cache.get("longer"), "value");
+    assert.deepStrictEqual(
+      (await cache.entries()).map((entry) => entry.key),
+      ["longer"],
+    );
+  });
+
+  it("should evict the least recently used items over the entry limit", async () => {
+    const cache = createCache({ maxEntries: 2 });
+    await cache.set("a", 1);
+    now++;
+    await cache.set("b", 2);
+    now++;
+    await cache.get("a"); // a is now used more recently than b
+    now++;
+    await cache.set("c", 3);
+
+    assert.strictEqual(await cache.has("a"), true);
+    assert.strictEqual(await cache.has("b"), false);
+    assert.strictEqual(await cache.has("c"), true);
+  });
+
+  it("should write the accesses of items with the next change", async () => {
+    const cache = createCache();
+    await cache.set("a", 1);
+    const index = memento.get(INDEX_KEY);
+    now++;
+
+    await cache.get("a");
+    assert.strictEqual(memento.get(INDEX_KEY), index);
+    assert.strictEqual((await cache.entries())[0].accessedAt, now);
+
+    await cache.dispose();
+    assert.strictEqual(
+      (memento.get(INDEX_KEY) as Record<string, { accessedAt: number }>).a
+        .accessedAt,
+      now,
+    );
+  });
+
+  it("should evict items over the size limit", async () => {
+    const cache = createCache({ maxBytes: 20 });
+    await cache.set("a", "0123456789");
+    now++;
+    await cache.set("b", "0123456789");
+
+    assert.strictEqual(await cache.has("a"), false);
+    assert.strictEqual(await cache.has("b"), true);
+  });
+
+  it("should list and clear items by namespace", async () => {
+    const cache = createCache();
+    await cache.set(cache.generateKey("functions", "/repo/api"), []);
+    await cache.set(cache.generateKey("directory", "/repo/api"), {});
+    await cache.set(cache.generateKey("functions", "/repo/web"), []);
+
+    const entries = await cache.entries("/repo/api");
+    assert.deepStrictEqual(entries.map((entry) => entry.prefix).sort(), [
+      "directory",
+      "functions",
+    ]);
+
+    await cache.clearNamespace("/repo/api");
+
+    assert.strictEqual((await cache.entries("/repo/api")).length, 0);
+    assert.strictEqual((await cache.entries()).length, 1);
+  });
+
+  it("should only clear cache items from the workspace state", async () => {
+    const cache = createCache();
+    await memento.update("dagger.presets", { build: [] });
+    await memento.update("legacy-md5-key", { data: 1, sha256: "abc" });
+    await cache.set("key", "value");
+
+    await cache.clear();
+
+    assert.deepStrictEqual(memento.keys(), ["dagger.presets"]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, beforeEach, afterEach } from "mocha";
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileSystemCache } from "../../src/cache/filesystem";
+
+describe("FileSystemCache", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "dagger-cache-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should share items between instances", async () => {
+    const first = new FileSystemCache(directory);
+    const second = new FileSystemCache(directory);
+    const key = first.generateKey("functions", "/repo");
+
+    await first.set(key, [{ name: "build" }]);
+
+    assert.deepStrictEqual(await second.get(key), [{ name: "build" }]);
+    assert.strictEqual((await second.entries("/repo")).length, 1);
+  });
+
+  it("should not lose index entries when instances write at the same time", async () => {
+    const first = new FileSystemCache(directory);
+    const second = new FileSystemCache(directory);
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        (i % 2 ? first : second).set(first.generateKey("item", `/${i}`), i),
+      ),
+    );
+
+    assert.strictEqual((await first.entries()).length, 10);
+    assert.deepStrictEqual(
+      fs.readdirSync(directory).filter((file) => file.endsWith(".tmp")),
+      [],
+    );
+  });
+
+  it("should remove stale locks left by crashed processes", async () => {
+    const cache = new FileSystemCache(directory);
+    const lock = path.join(directory, ".lock");
+    fs.writeFileSync(lock, "12345");
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(lock, old, old);
+
+    await cache.set("key", "value");
+
+    assert.strictEqual(await cache.get("key"), "value");
+    assert.strictEqual(fs.existsSync(lock), false);
+  });
+
+  it("should take over a stale lock once when instances wait for it", async () => {
+    const first = new FileSystemCache(directory);
+    const second = new FileSystemCache(directory);
+    const lock = path.join(directory, ".lock");
+    fs.writeFileSync(lock, "12345");
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(lock, old, old);
+
+    await Promise.all([first.set("a", 1), second.set("b", 2)]);
+
+    assert.strictEqual((await first.entries()).length, 2);
+    assert.deepStrictEqual(
+      fs.readdirSync(directory).filter((file) => file.startsWith(".lock")),
+      [],
+    );
+  });
+
+  it("should keep a lock that another process took over", async () => {
+    const cache = new FileSystemCache(directory);
+    const lock = path.join(directory, ".lock");
+
+    await (cache as any).lock(async () => fs.writeFileSync(lock, "other"));
+
+    assert.strictEqual(fs.readFileSync(lock, "utf8"), "other");
+  });
+
+  it("should remove items and clear the cache", async () => {
+    const cache = new FileSystemCache(directory);
+    await cache.set("a", 1);
+    await cache.set("b", 2);
+
+    await cache.remove("a");
+    assert.strictEqual(await cache.has("a"), false);
+    assert.strictEqual(await cache.has("b"), true);
+
+    await cache.clear();
+    assert.strictEqual(await cache.has("b"), false);
+    assert.deepStrictEqual(fs.readdirSync(path.join(directory, "items")), []);
+  });
+});
@@ -0,0 +1,84 @@
+import * as assert from "assert";
+import { describe, it } from "mocha";
+import {
+  buildChainCommandArgs,
+  ChainStep,
+  isChainable,
+  isInteractiveChain,
+  toChainCalls,
+} from "../../src/chain/builder";
+import { FunctionInfo } from "../../src/types/types";
+
+const fn = (
+  name: string,
+  returnType: string,
+  module?: string,
+): FunctionInfo => ({ id: name, name, module, returnType, args: [] });
+
+const step = (
+  functionInfo: FunctionInfo,
+  argValues: Record<string, string> = {},
+): ChainStep => ({ functionInfo, argValues });
+
+describe("chain builder", () => {
+  describe("buildChainCommandArgs", () => {
+    it("should call the functions on the result of the first function", () => {
+      assert.deepStrictEqual(
+        buildChainCommandArgs([
+          step(fn("build", "Container", "backend"), { src: "." }),
+          step(fn("with-exec", "Container"), { args: "go,test" }),
+          step(fn("directory", "Directory"), { path: "/out dir" }),
+          step(fn("entries", "[String]")),
+        ]),
+        [
+          "dagger",
+          "call",
+          "backend",
+          "build",
+          "--src",
+          ".",
+          "with-exec",
+          "--args",
+          "go,test",
+          "directory",
+          "--path",
+          '"/out dir"',
+          "entries",
+        ],
+      );
+    });
+  });
+
+  describe("toChainCalls", () => {
+    it("should only include arguments that are set", () => {
+      assert.deepStrictEqual(
+        toChainCalls([
+          step(fn("with-exec", "Container"), { args: "make" }),
+          step(fn("stdout", "String")),
+        ]),
+        [{ function: "with-exec", args: { args: "make" } }, "stdout"],
+      );
+    });
+  });
+
+  describe("isChainable", () => {
+    it("should chain objects but not scalars", () => {
+      assert.strictEqual(isChainable(fn("build", "Container")), true);
+      assert.strictEqual(isChainable(fn("builder", "MyModuleBuilder")), true);
+      assert.strictEqual(isChainable(fn("stdout", "String")), false);
+      assert.strictEqual(isChainable(fn("entries", "[String]")), false);
+    });
+  });
+
+  describe("isInteractiveChain", () => {
+    it("should detect calls that keep running", () => {
+      const build = step(fn("build", "Container"));
+
+      assert.strictEqual(isInteractiveChain([build]), false);
+      assert.strictEqual(
+        isInteractiveChain([build, step(fn("terminal", "Container"))]),
+        true,
+      );
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import * as assert from "assert";
+import { describe, it } from "mocha";
+import {
+  findFunction,
+  formatCallCommand,
+  formatFunctionList,
+} from "../../src/chat";
+import { FunctionInfo } from "../../src/types/types";
+
+const functions: FunctionInfo[] = [
+  {
+    id: "build",
+    name: "build",
+    description: "Builds the API image",
+    returnType: "Container",
+    args: [
+      { name: "source", type: "Directory", required: true },
+      { name: "tag", type: "String", required: false },
+    ],
+  },
+  {
+    id: "go-build",
+    name: "build",
+    module: "go",
+    returnType: "File",
+    args: [],
+  },
+  {
+    id: "lint",
+    name: "lint",
+    returnType: "String",
+    args: [],
+  },
+];
+
+describe("Chat Participant", () => {
+  describe("findFunction", () => {
+    it("should find a root module function by name", () => {
+      assert.strictEqual(findFunction(functions, "build")?.id, "build");
+    });
+
+    it("should prefer a module qualified match", () => {
+      assert.strictEqual(findFunction(functions, "go build")?.id, "go-build");
+    });
+
+    it("should ignore case and surrounding whitespace", () => {
+      assert.strictEqual(findFunction(functions, "  LINT ")?.id, "lint");
+    });
+
+    it("should return undefined when nothing matches", () => {
+      assert.strictEqual(
+        findFunction(functions, "which function builds the image?"),
+        undefined,
+      );
+      assert.strictEqual(findFunction(functions, ""), undefined);
+    });
+  });
+
+  describe("formatCallCommand", () => {
+    it("should include placeholders for required arguments only", () => {
+      assert.strictEqual(
+        formatCallCommand(functions[0]),
+        "dagger call build --source <Directory>",
+      );
+    });
+
+    it("should include the module name for submodule functions", () => {
+      assert.strictEqual(
+        formatCallCommand(functions[1]),
+        "dagger call go build",
+      );
+    });
+  });
+
+  describe("formatFunctionList", () => {
+    it("should group functions by module", () => {
+      const markdown = formatFunctionList(functions);
+
+      assert.ok(markdown.includes("**Root module**"));
+      assert.ok(markdown.includes("**go**"));
+      assert.ok(
+        markdown.includes("`build` → `Container` — Builds the API image"),
+      );
+    });
+
+    it("should handle an empty function list", () => {
+      assert.strictEqual(
+        formatFunctionList([]),
+        "No functions were found in this Dagger module.",
+      );
+    });
+  });
+});
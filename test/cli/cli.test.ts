@@ -2,7 +2,10 @@ import * as assert from "assert";
 import { DaggerCLI } from "../../src/cli";
 import { CliCache } from "../../src/cache";
 import { DaggerSettings } from "../../src/settings";
+import { FunctionInfo } from "../../src/types/types";
+import { hashModuleSource } from "../../src/utils/module-source";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 
 describe("DaggerCLI", () => {
@@ -17,6 +20,8 @@ describe("DaggerCLI", () => {
       get: async () => null,
       set: async () => {},
       clear: async () => {},
+      clearNamespace: async () => {},
+      entries: async () => [],
       remove: async () => {},
       has: async () => false,
       getSHA256: async () => "mock-sha",
@@ -255,5 +260,366 @@ describe("DaggerCLI", () => {
         );
       }
     });
+
+    it("should list functions without the fields older versions don't have", async () => {
+      (cli as any).isDaggerProject = async () => true;
+      (cli as any).getDirectoryID = async () => "dir-id";
+      const queries: string[] = [];
+      cli.execQuery = async (query) => {
+        queries.push(query);
+        return queries.length === 1
+          ? {
+              exitCode: 1,
+              stderr: 'Error: Cannot query field "asInput" on type "TypeDef".',
+              stdout: "",
+            }
+          : {
+              exitCode: 0,
+              stderr: "",
+              stdout: JSON.stringify({
+                loadDirectoryFromID: {
+                  asModule: {
+                    id: "module-id",
+                    name: "test",
+                    objects: [
+                      {
+                        asObject: {
+                          name: "Test",
+                          functions: [
+                            {
+                              id: "build",
+                              name: "build",
+                              returnType: {
+                                kind: "STRING_KIND",
+                                optional: false,
+                              },
+                              args: [],
+                            },
+                          ],
+                        },
+                      },
+                    ],
+                  },
+                },
+              }),
+            };
+      };
+
+      const functions = await cli.getFunctions("/mock/path");
+
+      assert.deepStrictEqual(
+        functions.map((fn) => fn.name),
+        ["build"],
+      );
+      assert.strictEqual(queries.length, 2);
+      assert.ok(queries[0].includes("defaultPath"));
+      assert.ok(!/asInput|members|defaultPath/.test(queries[1]));
+    });
+  });
+
+  describe("run and stream", () => {
+    let binDir: string;
+    let env: Record<string, string>;
+
+    before(function () {
+      if (process.platform === "win32" || !process.env.SHELL) {
+        this.skip();
+      }
+
+      // a fake dagger binary on PATH so the real CLI isn't needed
+      binDir = fs.mkdtempSync(path.join(os.tmpdir(), "fake-dagger-"));
+      fs.writeFileSync(
+        path.join(binDir, "dagger"),
+        '#!/bin/sh\nif [ "$1" = "listen" ]; then sleep 30; fi\nprintf "%s\\n" "$*"\n',
+        { mode: 0o755 },
+      );
+      env = { PATH: `${binDir}${path.delimiter}${process.env.PATH}` };
+    });
+
+    after(() => {
+      if (binDir) {
+        fs.rmSync(binDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should run the dagger binary and return its output", async () => {
+      const output = await cli.run(["version"], { cwd: binDir, env });
+
+      assert.strictEqual(output.exitCode, 0);
+      assert.strictEqual(output.stdout.trim(), "version");
+    });
+
+    it("should pass query variables to dagger as they are", async () => {
+      const value = '$HOME/`echo hi` $(echo hi) "quoted" \\n';
+      const originalPath = process.env.PATH;
+      process.env.PATH = env.PATH;
+      try {
+        const output = await cli.execQuery("{ version }", { value }, binDir, {
+          reportErrors: false,
+        });
+
+        assert.strictEqual(output.stdout.trim(), `query --var value=${value}`);
+      } finally {
+        process.env.PATH = originalPath;
+      }
+    });
+
+    it("should stop streamed commands", async () => {
+      const proc = cli.stream(["listen"], { cwd: binDir, env });
+      assert.strictEqual(proc.running, true);
+
+      proc.stop();
+      const result = await proc.result;
+
+      assert.strictEqual(result.cancelled, true);
+      assert.strictEqual(proc.running, false);
+    });
+  });
+
+  describe("function cache", () => {
+    let moduleDir: string;
+    let stored: Map<string, unknown>;
+
+    const cached: FunctionInfo[] = [
+      { id: "build", name: "build", returnType: "Container", args: [] },
+    ];
+    const loaded: FunctionInfo[] = [
+      { id: "test", name: "test", returnType: "String", args: [] },
+    ];
+
+    beforeEach(() => {
+      moduleDir = fs.mkdtempSync(path.join(os.tmpdir(), "dagger-module-"));
+      fs.writeFileSync(
+        path.join(moduleDir, "dagger.json"),
+        JSON.stringify({ name: "test", sdk: { source: "go" } }),
+      );
+      fs.writeFileSync(path.join(moduleDir, "main.go"), "package main\n");
+
+      stored = new Map();
+      mockCache.generateKey = (prefix, keyPath) => `${prefix}:${keyPath}`;
+      mockCache.get = async <T>(key: string) => stored.get(key) as T;
+      mockCache.set = async (key, value) => {
+        stored.set(key, value);
+      };
+      cli = new DaggerCLI(mockCache, { enableCache: true } as DaggerSettings);
+    });
+
+    afterEach(() => {
+      fs.rmSync(moduleDir, { recursive: true, force: true });
+    });
+
+    it("should use cached functions while the module source is unchanged", async () => {
+      stored.set(`functions:${moduleDir}`, {
+        sourceHash: await hashModuleSource(moduleDir),
+        functions: cached,
+      });
+      (cli as any).loadFunctions = async () =>
+        assert.fail("functions should not be loaded");
+
+      assert.deepStrictEqual(await cli.getFunctions(moduleDir), cached);
+    });
+
+    it("should return stale functions and revalidate them in the background", async () => {
+      stored.set(`functions:${moduleDir}`, {
+        sourceHash: "stale",
+        functions: cached,
+      });
+      (cli as any).loadFunctions = async () => loaded;
+      const revalidated = new Promise<string>((resolve) =>
+        cli.onDidRevalidateFunctions(resolve),
+      );
+
+      assert.deepStrictEqual(await cli.getFunctions(moduleDir), cached);
+      assert.strictEqual(await revalidated, moduleDir);
+    });
+
+    it("should share the load of the functions of a module", async () => {
+      let loads = 0;
+      // a query takes a while, the second call comes while the first loads
+      (cli as any).loadFunctions = async () => {
+        loads++;
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        return loaded;
+      };
+
+      const [first, second] = await Promise.all([
+        cli.getFunctions(moduleDir),
+        cli.getFunctions(moduleDir),
+      ]);
+
+      assert.strictEqual(loads, 1);
+      assert.strictEqual(first, second);
+    });
+
+    it("should load the functions in the background when none are loaded", async () => {
+      (cli as any).loadFunctions = async () => loaded;
+      const revalidated = new Promise<string>((resolve) =>
+        cli.onDidRevalidateFunctions(resolve),
+      );
+
+      assert.strictEqual(await cli.getLoadedFunctions(moduleDir), undefined);
+      assert.strictEqual(await revalidated, moduleDir);
+    });
+
+    it("should clear the cache namespace of a module when invalidated", async () => {
+      let cleared: string | undefined;
+      mockCache.clearNamespace = async (namespace) => {
+        cleared = namespace;
+      };
+
+      await cli.invalidateCache(moduleDir);
+
+      assert.strictEqual(cleared, moduleDir);
+    });
+
+    it("should keep the functions of a module when its source changed", async () => {
+      stored.set(`directory:${moduleDir}`, {
+        host: { directory: { id: "1" } },
+      });
+      stored.set(`functions:${moduleDir}`, {
+        sourceHash: await hashModuleSource(moduleDir),
+        functions: cached,
+      });
+      mockCache.remove = async (key) => {
+        stored.delete(key);
+      };
+      (cli as any).loadFunctions = async () => loaded;
+      const revalidated = new Promise<string>((resolve) =>
+        cli.onDidRevalidateFunctions(resolve),
+      );
+
+      fs.writeFileSync(path.join(moduleDir, "main.go"), "package main\n\n");
+      await cli.invalidateSource(moduleDir);
+
+      assert.strictEqual(stored.has(`directory:${moduleDir}`), false);
+      assert.deepStrictEqual(await cli.getFunctions(moduleDir), cached);
+      assert.strictEqual(await revalidated, moduleDir);
+    });
+
+    it("should map source maps to the functions and arguments", async () => {
+      (cli as any).getDirectoryID = async () => "dir-id";
+      cli.execQuery = async () => ({
+        exitCode: 0,
+        stderr: "",
+        stdout: JSON.stringify({
+          loadDirectoryFromID: {
+            asModule: {
+              name: "test",
+              objects: [
+                {
+                  asObject: {
+                    name: "Test",
+                    functions: [
+                      {
+                        name: "buildImage",
+                        sourceMap: { filename: "main.go", line: 12, column: 1 },
+                        args: [
+                          {
+                            name: "sourceDir",
+                            sourceMap: {
+                              filename: "main.go",
+                              line: 14,
+                              column: 2,
+                            },
+                          },
+                          { name: "tag", sourceMap: null },
+                        ],
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+          },
+        }),
+      });
+
+      const sourceMaps = await cli.getSourceMaps(moduleDir);
+
+      assert.deepStrictEqual(sourceMaps, [
+        {
+          name: "build-image",
+          sourceMap: { filename: "main.go", line: 12, column: 1 },
+          args: {
+            "source-dir": { filename: "main.go", line: 14, column: 2 },
+          },
+        },
+      ]);
+      assert.deepStrictEqual(
+        (stored.get(`sourceMaps:${moduleDir}`) as any).sourceMaps,
+        sourceMaps,
+      );
+    });
+
+    it("should map the fields of a type to functions", async () => {
+      const nonNull = (name: string) => ({
+        kind: "NON_NULL",
+        ofType: { kind: "SCALAR", name },
+      });
+      let variables: Record<string, any> | undefined;
+      cli.execQuery = async (_query, vars) => {
+        variables = vars;
+        return {
+          exitCode: 0,
+          stderr: "",
+          stdout: JSON.stringify({
+            __type: {
+              name: "Container",
+              fields: [
+                {
+                  name: "withDirectory",
+                  description: "Copies a directory",
+                  type: {
+                    kind: "NON_NULL",
+                    ofType: { kind: "OBJECT", name: "Container" },
+                  },
+                  args: [
+                    { name: "path", type: nonNull("String") },
+                    { name: "source", type: nonNull("DirectoryID") },
+                    {
+                      name: "owner",
+                      defaultValue: '""',
+                      type: nonNull("String"),
+                    },
+                  ],
+                },
+                { name: "sync", type: nonNull("ContainerID"), args: [] },
+              ],
+            },
+          }),
+        };
+      };
+
+      const functions = await cli.getTypeFunctions(moduleDir, "Container");
+
+      assert.deepStrictEqual(variables, { name: "Container" });
+      assert.deepStrictEqual(
+        functions.map((fn) => [fn.name, fn.returnType]),
+        [
+          ["with-directory", "Container"],
+          ["sync", "ContainerID"],
+        ],
+      );
+      assert.deepStrictEqual(
+        functions[0].args.map((arg) => [arg.name, arg.type, arg.required]),
+        [
+          ["path", "String", true],
+          ["source", "Directory", true],
+          ["owner", "String", true],
+        ],
+      );
+      assert.ok(stored.has(`typeFunctions.Container:${moduleDir}`));
+    });
+
+    it("should fail when the Dagger version has no source maps", async () => {
+      (cli as any).getDirectoryID = async () => "dir-id";
+      cli.execQuery = async () => ({
+        exitCode: 1,
+        stdout: "",
+        stderr: 'Cannot query field "sourceMap" on type "Function".',
+      });
+
+      await assert.rejects(cli.getSourceMaps(moduleDir), /sourceMap/);
+    });
   });
 });
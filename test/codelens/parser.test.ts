@@ -0,0 +1,226 @@
+import * as assert from "assert";
+import { describe, it } from "mocha";
+import {
+  findArgumentDeclaration,
+  findFunctionDeclarations,
+  matchFunction,
+} from "../../src/codelens/parser";
+import { FunctionInfo } from "../../src/types/types";
+
+const fn = (name: string, module?: string): FunctionInfo => ({
+  id: `${module ?? "root"}.${name}`,
+  name,
+  module,
+  returnType: "Container",
+  args: [],
+});
+
+describe("code lens parser", () => {
+  describe("findFunctionDeclarations", () => {
+    it("should find exported methods in Go", () => {
+      const source = [
+        "package main",
+        "",
+        "type MyModule struct{}",
+        "",
+        "// Builds the app",
+        "func (m *MyModule) BuildContainer(ctx context.Context) *dagger.Container {",
+        "\treturn nil",
+        "}",
+        "",
+        "func (m *MyModule) helper() {}",
+        "",
+        "func (b Builder) Lint(src *dagger.Directory) error {",
+      ].join("\n");
+
+      assert.deepStrictEqual(findFunctionDeclarations(source, "go"), [
+        {
+          name: "BuildContainer",
+          functionName: "build-container",
+          objectName: "MyModule",
+          line: 5,
+          character: 19,
+        },
+        {
+          name: "Lint",
+          functionName: "lint",
+          objectName: "Builder",
+          line: 11,
+          character: 17,
+        },
+      ]);
+    });
+
+    it("should find decorated functions and fields in TypeScript", () => {
+      const source = [
+        "@object()",
+        "export class MyModule {",
+        "  @func()",
+        "  greeting: string",
+        "",
+        "  @func()",
+        "  async buildContainer(source: Directory): Promise<Container> {",
+        "    return dag.container()",
+        "  }",
+        "",
+        '  @func("lint-all")',
+        "  lint(): Promise<string> {}",
+        "",
+        "  private helper() {}",
+        "}",
+      ].join("\n");
+
+      const declarations = findFunctionDeclarations(source, "typescript");
+
+      assert.deepStrictEqual(
+        declarations.map((d) => [d.functionName, d.objectName, d.line]),
+        [
+          ["greeting", "MyModule", 3],
+          ["build-container", "MyModule", 6],
+          ["lint-all", "MyModule", 11],
+        ],
+      );
+      assert.strictEqual(declarations[1].character, 8);
+    });
+
+    it("should find decorated functions in Python", () => {
+      const source = [
+        "@object_type",
+        "class MyModule:",
+        "    @function",
+        "    def build_container(self, source: dagger.Directory) -> dagger.Container:",
+        "        return dag.container()",
+        "",
+        '    @dagger.function(name="lint-all")',
+        "    @some_other_decorator",
+        "    async def lint(self) -> str:",
+        "        pass",
+        "",
+        "    @function",
+        "    def import_(self) -> str:",
+        "        pass",
+        "",
+        "    def helper(self):",
+        "        pass",
+      ].join("\n");
+
+      const declarations = findFunctionDeclarations(source, "python");
+
+      assert.deepStrictEqual(
+        declarations.map((d) => [d.name, d.functionName, d.line, d.character]),
+        [
+          ["build_container", "build-container", 3, 8],
+          ["lint", "lint-all", 8, 14],
+          ["import_", "import", 12, 8],
+        ],
+      );
+      assert.strictEqual(declarations[0].objectName, "MyModule");
+    });
+
+    it("should not find declarations in other languages", () => {
+      assert.deepStrictEqual(
+        findFunctionDeclarations("func (m *MyModule) Build() {}", "rust"),
+        [],
+      );
+    });
+  });
+
+  describe("findArgumentDeclaration", () => {
+    it("should find parameters by their kebab-case name", () => {
+      const source = [
+        "func (m *MyModule) Build(",
+        "\tctx context.Context,",
+        "\t// +optional",
+        "\tsourceDir *dagger.Directory,",
+        ") *dagger.Container {",
+        "\treturn build(sourceDir)",
+        "}",
+      ].join("\n");
+      const [declaration] = findFunctionDeclarations(source, "go");
+
+      assert.deepStrictEqual(
+        findArgumentDeclaration(source, declaration, "source-dir"),
+        { line: 3, character: 1 },
+      );
+      assert.strictEqual(
+        findArgumentDeclaration(source, declaration, "tag"),
+        undefined,
+      );
+    });
+
+    it("should find snake_case parameters in Python", () => {
+      const source = [
+        "@object_type",
+        "class MyModule:",
+        "    @function",
+        "    def build(self, source_dir: dagger.Directory) -> str:",
+      ].join("\n");
+      const [declaration] = findFunctionDeclarations(source, "python");
+
+      assert.deepStrictEqual(
+        findArgumentDeclaration(source, declaration, "source-dir"),
+        { line: 3, character: 20 },
+      );
+    });
+  });
+
+  describe("matchFunction", () => {
+    const declaration = {
+      name: "Build",
+      functionName: "build",
+      line: 0,
+      character: 0,
+    };
+
+    it("should match functions by their kebab-case name", () => {
+      const functions = [fn("build"), fn("test")];
+
+      assert.strictEqual(matchFunction(declaration, functions), functions[0]);
+      assert.strictEqual(
+        matchFunction({ ...declaration, functionName: "deploy" }, functions),
+        undefined,
+      );
+    });
+
+    it("should match functions of other objects by the object name", () => {
+      const functions = [fn("build"), fn("build", "builder")];
+
+      assert.strictEqual(
+        matchFunction({ ...declaration, objectName: "MyModule" }, functions),
+        functions[0],
+      );
+      assert.strictEqual(
+        matchFunction({ ...declaration, objectName: "Builder" }, functions),
+        functions[1],
+      );
+      assert.strictEqual(
+        matchFunction(
+          { ...declaration, objectName: "MyModuleBuilder" },
+          functions,
+        ),
+        functions[1],
+      );
+    });
+
+    it("should not match other objects with a single candidate", () => {
+      const functions = [fn("build"), fn("test", "builder")];
+
+      assert.strictEqual(
+        matchFunction({ ...declaration, objectName: "Builder" }, functions),
+        undefined,
+      );
+      assert.strictEqual(
+        matchFunction({ ...declaration, objectName: "MyModule" }, [
+          fn("build", "builder"),
+        ]),
+        undefined,
+      );
+    });
+
+    it("should not match functions of dependencies", () => {
+      const dependency = { ...fn("build"), parentModule: "other" };
+
+      assert.strictEqual(matchFunction(declaration, [dependency]), undefined);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import * as assert from "assert";
+import * as path from "path";
+import { describe, it } from "mocha";
+import {
+  parseDaggerErrors,
+  resolveErrorFile,
+} from "../../src/diagnostics/parser";
+
+describe("diagnostics parser", () => {
+  describe("parseDaggerErrors", () => {
+    it("should parse Go compile errors", () => {
+      const errors = parseDaggerErrors(
+        [
+          '! process "go build -o /runtime ." did not complete successfully: exit code: 1',
+          "┃ ./main.go:25:2: undefined: foo",
+        ].join("\n"),
+      );
+
+      assert.deepStrictEqual(errors, [
+        {
+          source: "exec",
+          message: "`go build -o /runtime .` failed with exit code 1",
+        },
+        {
+          source: "go",
+          file: "./main.go",
+          line: 25,
+          column: 2,
+          message: "undefined: foo",
+        },
+      ]);
+    });
+
+    it("should parse TypeScript errors in both formats", () => {
+      const errors = parseDaggerErrors(
+        [
+          "src/index.ts(12,5): error TS2304: Cannot find name 'foo'.",
+          "src/index.ts:14:1 - error TS1005: ';' expected.",
+        ].join("\n"),
+      );
+
+      assert.strictEqual(errors.length, 2);
+      assert.strictEqual(errors[0].code, "TS2304");
+      assert.strictEqual(errors[0].line, 12);
+      assert.strictEqual(errors[1].line, 14);
+      assert.strictEqual(errors[1].message, "';' expected.");
+    });
+
+    it("should use the last user frame of Python tracebacks", () => {
+      const errors = parseDaggerErrors(
+        [
+          "Traceback (most recent call last):",
+          '  File "/src/.dagger/src/main/__init__.py", line 12, in build',
+          "    return foo",
+          '  File "/usr/local/lib/python3.12/site-packages/dagger/mod.py", line 80, in call',
+          "    raise",
+          "NameError: name 'foo' is not defined",
+        ].join("\n"),
+      );
+
+      assert.deepStrictEqual(errors, [
+        {
+          source: "python",
+          file: "/src/.dagger/src/main/__init__.py",
+          line: 12,
+          message: "NameError: name 'foo' is not defined",
+        },
+      ]);
+    });
+
+    it("should parse GraphQL errors", () => {
+      assert.deepStrictEqual(
+        parseDaggerErrors(
+          'Error: input:3:5: Cannot query field "foo" on type "Query".',
+        ),
+        [
+          {
+            source: "graphql",
+            line: 3,
+            column: 5,
+            message: 'Cannot query field "foo" on type "Query".',
+          },
+        ],
+      );
+      assert.strictEqual(
+        parseDaggerErrors('{"errors": [{"message": "unknown directory"}]}')[0]
+          .message,
+        "unknown directory",
+      );
+    });
+
+    it("should skip duplicates and unrelated output", () => {
+      const line = "main.go:1:1: expected 'package', found 'EOF'";
+      assert.strictEqual(
+        parseDaggerErrors(`${line}\n${line}\nConnected to engine`).length,
+        1,
+      );
+    });
+  });
+
+  describe("resolveErrorFile", () => {
+    const cwd = path.join(path.sep, "workspace");
+    const files = new Set([
+      path.join(cwd, ".dagger", "main.go"),
+      path.join(cwd, ".dagger", "src", "main", "__init__.py"),
+    ]);
+    const exists = (file: string) => files.has(file);
+
+    it("should resolve paths relative to the module source", () => {
+      assert.strictEqual(
+        resolveErrorFile("./main.go", cwd, ".dagger", exists),
+        path.join(cwd, ".dagger", "main.go"),
+      );
+    });
+
+    it("should map container paths to the workspace", () => {
+      assert.strictEqual(
+        resolveErrorFile(
+          "/src/.dagger/src/main/__init__.py",
+          cwd,
+          ".dagger",
+          exists,
+        ),
+        path.join(cwd, ".dagger", "src", "main", "__init__.py"),
+      );
+    });
+
+    it("should return undefined for unknown files", () => {
+      assert.strictEqual(
+        resolveErrorFile(
+          "/usr/lib/go/src/fmt/print.go",
+          cwd,
+          undefined,
+          exists,
+        ),
+        undefined,
+      );
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import * as net from "net";
+import { ProcessOptions, startProcess } from "../../src/utils/process";
+
+/**
+ * Runs a shell script instead of the dagger command and records the arguments
+ * and environment of each call. The default script keeps running like `up`
+ * and `listen` do.
+ */
+export class MockDaggerCLI {
+  readonly calls: { args: string[]; env?: Record<string, string> }[] = [];
+
+  constructor(private readonly script = "sleep 30") {}
+
+  stream(args: string[], options: ProcessOptions) {
+    this.calls.push({ args, env: options.env });
+    return startProcess("sh", ["-c", this.script], {
+      ...options,
+      shell: false,
+    });
+  }
+}
+
+/**
+ * Listens on a free port to take it
+ */
+export const listen = (): Promise<net.Server> =>
+  new Promise((resolve) => {
+    const server = net.createServer();
+    server.listen(0, () => resolve(server));
+  });
@@ -0,0 +1,24 @@
+import * as vscode from "vscode";
+
+/**
+ * Minimal in-memory Memento for testing
+ */
+export class MockMemento implements vscode.Memento {
+  private storage = new Map<string, any>();
+
+  keys(): readonly string[] {
+    return [...this.storage.keys()];
+  }
+
+  get<T>(key: string, defaultValue?: T): T | undefined {
+    return this.storage.has(key) ? this.storage.get(key) : defaultValue;
+  }
+
+  async update(key: string, value: any): Promise<void> {
+    if (value === undefined) {
+      this.storage.delete(key);
+      return;
+    }
+    this.storage.set(key, value);
+  }
+}
@@ -0,0 +1,99 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { HistoryRecord, HistoryStore } from "../../src/history";
+import { HistoryTreeItem } from "../../src/tree/history";
+import { MockMemento } from "../helpers/memento";
+
+const call = (overrides: Partial<HistoryRecord> = {}): HistoryRecord => ({
+  functionName: "build",
+  argValues: { tag: "v1.0.0" },
+  commandArgs: ["dagger", "call", "build", "--tag", "v1.0.0"],
+  commandLine: "dagger call build --tag v1.0.0",
+  workspacePath: "/workspace",
+  exitCode: 0,
+  startedAt: Date.now(),
+  duration: 1200,
+  ...overrides,
+});
+
+describe("HistoryStore", () => {
+  let outputDirectory: string;
+  let history: HistoryStore;
+
+  beforeEach(() => {
+    outputDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "dagger-history-"));
+    history = new HistoryStore(new MockMemento(), outputDirectory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDirectory, { recursive: true, force: true });
+  });
+
+  it("should list the most recent calls first", async () => {
+    await history.add(call({ functionName: "build" }));
+    const test = await history.add(call({ functionName: "test" }));
+
+    const entries = history.list();
+    assert.strictEqual(entries.length, 2);
+    assert.strictEqual(entries[0].id, test.id);
+    assert.strictEqual(history.get(test.id)?.functionName, "test");
+  });
+
+  it("should keep only the most recent 100 calls and their output", async () => {
+    for (let i = 0; i < 105; i++) {
+      await history.add(call({ startedAt: i, output: `${i}` }));
+    }
+
+    const entries = history.list();
+    assert.strictEqual(entries.length, 100);
+    assert.strictEqual(entries[0].startedAt, 104);
+    assert.strictEqual(fs.readdirSync(outputDirectory).length, 100);
+  });
+
+  it("should keep the output in a file and truncate it", async () => {
+    const entry = await history.add(call({ output: "x".repeat(200_000) }));
+    const output = await history.getOutput(entry);
+
+    assert.strictEqual("output" in history.list()[0], false);
+    assert.ok(output!.length < 200_000);
+    assert.ok(output!.endsWith("... output truncated ..."));
+  });
+
+  it("should remove and clear calls and notify listeners", async () => {
+    let changes = 0;
+    history.onDidChange(() => changes++);
+
+    const entry = await history.add(call({ output: "first" }));
+    await history.add(call({ output: "second" }));
+    await history.remove(entry.id);
+    assert.strictEqual(fs.readdirSync(outputDirectory).length, 1);
+    assert.strictEqual(history.list().length, 1);
+
+    await history.clear();
+    assert.strictEqual(history.list().length, 0);
+    assert.strictEqual(changes, 4);
+    assert.deepStrictEqual(fs.readdirSync(outputDirectory), []);
+  });
+});
+
+describe("HistoryTreeItem", () => {
+  it("should only offer the output of calls that have it captured", async () => {
+    const outputDirectory = fs.mkdtempSync(
+      path.join(os.tmpdir(), "dagger-history-"),
+    );
+    const history = new HistoryStore(new MockMemento(), outputDirectory);
+    const captured = new HistoryTreeItem(
+      await history.add(call({ output: "done" })),
+    );
+    const interactive = new HistoryTreeItem(await history.add(call()));
+    fs.rmSync(outputDirectory, { recursive: true, force: true });
+
+    assert.strictEqual(captured.contextValue, "historyEntry.output");
+    assert.strictEqual(captured.command?.command, "dagger.history.showOutput");
+    assert.strictEqual(interactive.contextValue, "historyEntry");
+    assert.strictEqual(interactive.command, undefined);
+  });
+});
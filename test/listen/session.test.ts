@@ -0,0 +1,162 @@
+import * as assert from "assert";
+import * as net from "net";
+import * as vscode from "vscode";
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { DaggerCLI } from "../../src/cli";
+import {
+  basicAuthHeader,
+  buildListenArgs,
+  ListenSession,
+} from "../../src/listen";
+import { listen, MockDaggerCLI } from "../helpers/dagger";
+
+// Minimal in-memory SecretStorage for testing
+class MockSecretStorage implements vscode.SecretStorage {
+  private readonly values = new Map<string, string>();
+  private readonly emitter =
+    new vscode.EventEmitter<vscode.SecretStorageChangeEvent>();
+  readonly onDidChange = this.emitter.event;
+
+  async get(key: string): Promise<string | undefined> {
+    return this.values.get(key);
+  }
+
+  async store(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+describe("dagger listen sessions", () => {
+  let dagger: MockDaggerCLI;
+  let session: ListenSession;
+
+  beforeEach(() => {
+    dagger = new MockDaggerCLI();
+    session = new ListenSession(
+      dagger as unknown as DaggerCLI,
+      new MockSecretStorage(),
+    );
+  });
+
+  afterEach(() => {
+    session.dispose();
+  });
+
+  it("should build the arguments of dagger listen", () => {
+    const options = { workspacePath: "/app", host: "127.0.0.1", port: 8080 };
+
+    assert.deepStrictEqual(buildListenArgs(options, 8081), [
+      "listen",
+      "--listen",
+      "127.0.0.1:8081",
+    ]);
+    assert.deepStrictEqual(
+      buildListenArgs(
+        { ...options, allowCors: true, allowLLM: ["a", "b"] },
+        8080,
+      ),
+      [
+        "listen",
+        "--listen",
+        "127.0.0.1:8080",
+        "--allow-cors",
+        "--allow-llm=a,b",
+      ],
+    );
+    assert.strictEqual(basicAuthHeader("test"), "Basic dGVzdDo=");
+  });
+
+  it("should keep the session token across restarts", async () => {
+    const token = await session.getToken();
+    assert.strictEqual(await session.getToken(), token);
+
+    await session.start({
+      workspacePath: process.cwd(),
+      host: "127.0.0.1",
+      port: 48180,
+    });
+    await session.restart();
+
+    assert.strictEqual(dagger.calls.length, 2);
+    for (const call of dagger.calls) {
+      assert.strictEqual(call.env?.DAGGER_SESSION_TOKEN, token);
+    }
+  });
+
+  it("should listen on the next free port when the port is taken", async () => {
+    const server = await listen();
+    const port = (server.address() as net.AddressInfo).port;
+    try {
+      const state = await session.start({
+        workspacePath: process.cwd(),
+        host: "127.0.0.1",
+        port,
+      });
+
+      assert.notStrictEqual(state.port, port);
+      assert.strictEqual(session.address, `127.0.0.1:${state.port}`);
+      assert.strictEqual(state.status, "starting");
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("should be running once the server listens on its port", async () => {
+    const server = await listen();
+    const port = (server.address() as net.AddressInfo).port;
+    await new Promise((resolve) => server.close(resolve));
+    // a node server stands in for dagger listen
+    dagger = new MockDaggerCLI(
+      `exec "${process.execPath}" -e "require('net').createServer().listen(${port}, '127.0.0.1')"`,
+    );
+    session = new ListenSession(
+      dagger as unknown as DaggerCLI,
+      new MockSecretStorage(),
+    );
+
+    const state = await session.start({
+      workspacePath: process.cwd(),
+      host: "127.0.0.1",
+      port,
+    });
+    assert.strictEqual(state.status, "starting");
+
+    assert.strictEqual((await session.whenStarted())?.status, "running");
+  });
+
+  it("should fail to start when the server exits", async () => {
+    dagger = new MockDaggerCLI("exit 1");
+    session = new ListenSession(
+      dagger as unknown as DaggerCLI,
+      new MockSecretStorage(),
+    );
+
+    await session.start({
+      workspacePath: process.cwd(),
+      host: "127.0.0.1",
+      port: 48180,
+    });
+
+    assert.strictEqual((await session.whenStarted())?.status, "failed");
+  });
+
+  it("should be stopped once the server is stopped", async () => {
+    await session.start({
+      workspacePath: process.cwd(),
+      host: "127.0.0.1",
+      port: 48180,
+    });
+    assert.strictEqual(session.running, true);
+
+    await session.stop();
+    // the state is updated after the output is closed
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.strictEqual(session.running, false);
+    assert.strictEqual(session.state?.status, "stopped");
+  });
+});
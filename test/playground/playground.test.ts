@@ -0,0 +1,210 @@
+import * as assert from "assert";
+import { describe, it } from "mocha";
+import {
+  buildOperationQuery,
+  declaredVariables,
+  findCompletionTarget,
+  findOperation,
+  formatTypeRef,
+  GraphQLSchema,
+  parseOperations,
+  parseSchema,
+  parseVariables,
+  PLAYGROUND_SAMPLES,
+  SchemaTypeRef,
+} from "../../src/playground";
+
+const named = (name: string): SchemaTypeRef => ({ kind: "OBJECT", name });
+const nonNull = (ofType: SchemaTypeRef): SchemaTypeRef => ({
+  kind: "NON_NULL",
+  name: null,
+  ofType,
+});
+const string = nonNull({ kind: "SCALAR", name: "String" });
+
+// A small part of the Dagger schema
+const schema = parseSchema(
+  JSON.stringify({
+    __schema: {
+      queryType: { name: "Query" },
+      types: [
+        {
+          kind: "OBJECT",
+          name: "Query",
+          fields: [
+            {
+              name: "container",
+              args: [],
+              type: nonNull(named("Container")),
+            },
+            {
+              name: "host",
+              args: [],
+              type: nonNull(named("Host")),
+            },
+          ],
+        },
+        {
+          kind: "OBJECT",
+          name: "Host",
+          fields: [
+            {
+              name: "directory",
+              args: [
+                { name: "path", type: string },
+                { name: "exclude", type: { kind: "LIST", name: null } },
+              ],
+              type: nonNull(named("Directory")),
+            },
+          ],
+        },
+        {
+          kind: "OBJECT",
+          name: "Directory",
+          fields: [{ name: "id", args: [], type: string }],
+        },
+        {
+          kind: "OBJECT",
+          name: "Container",
+          fields: [{ name: "from", args: [], type: named("Container") }],
+        },
+      ],
+    },
+  }),
+) as GraphQLSchema;
+
+describe("GraphQL playground", () => {
+  describe("document", () => {
+    const text = `# variables: { "path": "." }
+fragment DirectoryInfo on Directory {
+  id # a comment with a }
+}
+
+query hostDirectory($path: String!, $exclude: [String!]) {
+  host {
+    directory(path: $path, exclude: $exclude) {
+      ...DirectoryInfo
+    }
+  }
+}
+
+# variables:
+# {
+#   "name": "}"
+# }
+{ version }
+`;
+
+    it("should split a document into operations and fragments", () => {
+      const operations = parseOperations(text);
+
+      assert.deepStrictEqual(
+        operations.map(({ kind, name }) => [kind, name]),
+        [
+          ["fragment", "DirectoryInfo"],
+          ["query", "hostDirectory"],
+          ["query", undefined],
+        ],
+      );
+      assert.strictEqual(
+        findOperation(operations, text.indexOf("host {")),
+        operations[1],
+      );
+      assert.strictEqual(findOperation(operations, 0), operations[1]);
+      assert.ok(
+        buildOperationQuery(operations, operations[1]).endsWith(
+          operations[0].text,
+        ),
+      );
+      assert.deepStrictEqual(declaredVariables(operations[1]), [
+        { name: "path", type: "String!" },
+        { name: "exclude", type: "[String!]" },
+      ]);
+    });
+
+    it("should read the variables from the comment above an operation", () => {
+      const operations = parseOperations(text);
+
+      assert.deepStrictEqual(parseVariables(text, operations, operations[1]), {
+        path: ".",
+      });
+      assert.deepStrictEqual(parseVariables(text, operations, operations[2]), {
+        name: "}",
+      });
+      const invalid = `# variables: [1]\nquery { version }`;
+      const [operation] = parseOperations(invalid);
+      assert.throws(() => parseVariables(invalid, [operation], operation));
+    });
+
+    it("should keep the definition that is being typed", () => {
+      const operations = parseOperations("query {\n  host {\n    dir");
+
+      assert.strictEqual(operations.length, 1);
+      assert.strictEqual(operations[0].end, operations[0].text.length);
+    });
+
+    it("should have runnable samples", () => {
+      for (const sample of PLAYGROUND_SAMPLES) {
+        const operations = parseOperations(sample.content);
+        const operation = findOperation(operations, 0);
+        assert.ok(operation, sample.label);
+        for (const { name } of declaredVariables(operation)) {
+          assert.ok(
+            name in
+              (parseVariables(sample.content, operations, operation) ?? {}),
+            `${sample.label} sets $${name}`,
+          );
+        }
+      }
+    });
+  });
+
+  describe("completion", () => {
+    it("should parse the schema returned by the GraphQL server", () => {
+      const served = parseSchema(
+        JSON.stringify({
+          data: { __schema: { queryType: { name: "Query" }, types: [] } },
+        }),
+      );
+
+      assert.strictEqual(served?.queryType, "Query");
+      assert.strictEqual(served?.mutationType, undefined);
+      assert.strictEqual(parseSchema('{ "data": null }'), undefined);
+      assert.strictEqual(parseSchema("[]"), undefined);
+    });
+
+    const targetAt = (text: string) => {
+      const operation = parseOperations(text)[0];
+      return findCompletionTarget(schema, operation, text.length);
+    };
+
+    it("should complete the fields of the selected type", () => {
+      const root = targetAt("query {\n  ");
+      const nested = targetAt('{ host { directory(path: ".") { ');
+      const fragment = targetAt("fragment Info on Container { ");
+
+      assert.strictEqual(root?.kind === "field" && root.type.name, "Query");
+      assert.strictEqual(
+        nested?.kind === "field" && nested.type.name,
+        "Directory",
+      );
+      assert.strictEqual(
+        fragment?.kind === "field" && fragment.type.name,
+        "Container",
+      );
+      assert.strictEqual(
+        formatTypeRef({ kind: "LIST", name: null, ofType: string }),
+        "[String!]",
+      );
+    });
+
+    it("should complete the arguments of a field", () => {
+      const target = targetAt('{ host { directory(path: ".", ');
+
+      assert.strictEqual(target?.kind, "argument");
+      assert.deepStrictEqual(target?.kind === "argument" && target.used, [
+        "path",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import * as assert from "assert";
+import { describe, it, beforeEach } from "mocha";
+import { PresetStore } from "../../src/presets";
+import { FunctionInfo } from "../../src/types/types";
+import { MockMemento } from "../helpers/memento";
+
+const build: FunctionInfo = {
+  id: "build",
+  name: "build",
+  returnType: "Container",
+  args: [{ name: "tag", type: "String", required: false }],
+};
+
+const goBuild: FunctionInfo = { ...build, id: "go-build", module: "go" };
+
+describe("PresetStore", () => {
+  let memento: MockMemento;
+  let presets: PresetStore;
+
+  beforeEach(() => {
+    memento = new MockMemento();
+    presets = new PresetStore(memento);
+  });
+
+  it("should save and load presets per function", async () => {
+    await presets.save(build, "release", { tag: "v1.0.0" });
+
+    assert.deepStrictEqual(presets.get(build, "release")?.argValues, {
+      tag: "v1.0.0",
+    });
+    assert.strictEqual(presets.list(goBuild).length, 0);
+  });
+
+  it("should replace a preset with the same name", async () => {
+    await presets.save(build, "release", { tag: "v1.0.0" });
+    await presets.save(build, "release", { tag: "v2.0.0" });
+
+    const saved = presets.list(build);
+    assert.strictEqual(saved.length, 1);
+    assert.strictEqual(saved[0].argValues.tag, "v2.0.0");
+  });
+
+  it("should remove presets and clean up the key", async () => {
+    await presets.save(build, "release", { tag: "v1.0.0" });
+    await presets.remove(build, "release");
+
+    assert.strictEqual(presets.get(build, "release"), undefined);
+    assert.strictEqual(memento.keys().length, 0);
+  });
+});
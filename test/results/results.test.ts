@@ -0,0 +1,97 @@
+import * as assert from "assert";
+import { describe, it, beforeEach } from "mocha";
+import {
+  describeJsonValue,
+  FunctionResult,
+  jsonEntries,
+  parseJsonOutput,
+  ResultStore,
+} from "../../src/results";
+import { MockMemento } from "../helpers/memento";
+
+const result = (
+  overrides: Partial<FunctionResult> = {},
+): Omit<FunctionResult, "id"> => ({
+  functionName: "build",
+  functionPath: "build",
+  workspacePath: "/workspace",
+  commandLine: "dagger call --json build",
+  json: '{\n  "ok": true\n}',
+  createdAt: Date.now(),
+  ...overrides,
+});
+
+describe("function results", () => {
+  describe("parseJsonOutput", () => {
+    it("should parse JSON output and ignore anything else", () => {
+      assert.deepStrictEqual(parseJsonOutput('\n{"a": [1, 2]}\n'), {
+        a: [1, 2],
+      });
+      assert.strictEqual(parseJsonOutput("42"), 42);
+      assert.strictEqual(parseJsonOutput("not json"), undefined);
+      assert.strictEqual(parseJsonOutput("  "), undefined);
+    });
+  });
+
+  describe("jsonEntries", () => {
+    it("should list properties and elements with their paths", () => {
+      const value = { name: "app", "exposed-ports": [80, 443] };
+
+      assert.deepStrictEqual(jsonEntries(value), [
+        { key: "name", value: "app", path: "$.name" },
+        {
+          key: "exposed-ports",
+          value: [80, 443],
+          path: '$["exposed-ports"]',
+        },
+      ]);
+      assert.deepStrictEqual(
+        jsonEntries(value["exposed-ports"], '$["exposed-ports"]').map(
+          (entry) => entry.path,
+        ),
+        ['$["exposed-ports"][0]', '$["exposed-ports"][1]'],
+      );
+      assert.deepStrictEqual(jsonEntries("text"), []);
+    });
+  });
+
+  describe("describeJsonValue", () => {
+    it("should summarize objects and arrays", () => {
+      assert.strictEqual(describeJsonValue({ a: 1, b: 2 }), "{2 properties}");
+      assert.strictEqual(describeJsonValue([1]), "[1 item]");
+      assert.strictEqual(describeJsonValue("text"), '"text"');
+      assert.strictEqual(describeJsonValue(null), "null");
+    });
+  });
+
+  describe("ResultStore", () => {
+    let store: ResultStore;
+
+    beforeEach(() => {
+      store = new ResultStore(new MockMemento());
+    });
+
+    it("should keep the latest result", () => {
+      const first = store.add(result());
+      const second = store.add(result({ functionName: "test" }));
+
+      assert.strictEqual(store.latest, second);
+      assert.strictEqual(store.get(second.id), second);
+      assert.strictEqual(store.get(first.id), undefined);
+    });
+
+    it("should pin one result per function", async () => {
+      const first = store.add(result());
+      await store.pin(first);
+      const second = store.add(result({ json: "[]" }));
+      await store.pin(second);
+      await store.pin(store.add(result({ workspacePath: "/other" })));
+
+      assert.strictEqual(store.pinned("/workspace", "build")?.id, second.id);
+      assert.strictEqual(store.listPinned().length, 2);
+
+      await store.unpin(second.id);
+      assert.strictEqual(store.pinned("/workspace", "build"), undefined);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { describe, it, beforeEach } from "mocha";
+import {
+  findSecretReferences,
+  secretReference,
+  SecretStore,
+} from "../../src/secrets";
+import { MockMemento } from "../helpers/memento";
+
+// Minimal in-memory SecretStorage for testing
+class MockSecretStorage {
+  readonly values = new Map<string, string>();
+  readonly onDidChange = () => ({ dispose: () => {} });
+
+  async keys(): Promise<string[]> {
+    return [...this.values.keys()];
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return this.values.get(key);
+  }
+
+  async store(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+describe("secrets", () => {
+  describe("findSecretReferences", () => {
+    it("should find env references in command args and argument values", () => {
+      assert.deepStrictEqual(
+        findSecretReferences([
+          "dagger",
+          "call",
+          "publish",
+          "--token",
+          "env:GITHUB_TOKEN",
+          "--password=env://REGISTRY_PASSWORD",
+          "--key",
+          "'env:GITHUB_TOKEN'",
+          "--file",
+          "file:./env:NOT_A_SECRET",
+        ]),
+        ["GITHUB_TOKEN", "REGISTRY_PASSWORD"],
+      );
+      assert.deepStrictEqual(
+        findSecretReferences([["env:A", "env:B"], 42, undefined]),
+        ["A", "B"],
+      );
+    });
+  });
+
+  describe("SecretStore", () => {
+    let storage: MockSecretStorage;
+    let state: MockMemento;
+    let secrets: SecretStore;
+
+    beforeEach(() => {
+      storage = new MockSecretStorage();
+      state = new MockMemento();
+      secrets = new SecretStore(
+        storage as unknown as vscode.SecretStorage,
+        state,
+      );
+    });
+
+    it("should keep the values in the secret storage and only list the names", async () => {
+      await secrets.set("TOKEN", "s3cr3t");
+      await secrets.set("API_KEY", "key");
+      await secrets.set("TOKEN", "updated");
+
+      assert.deepStrictEqual(secrets.list(), ["API_KEY", "TOKEN"]);
+      assert.strictEqual(await secrets.get("TOKEN"), "updated");
+      assert.ok(
+        !JSON.stringify(state.keys().map((key) => state.get(key))).includes(
+          "updated",
+        ),
+      );
+      assert.strictEqual(secretReference("TOKEN"), "env:TOKEN");
+
+      await secrets.delete("TOKEN");
+      assert.deepStrictEqual(secrets.list(), ["API_KEY"]);
+      assert.strictEqual(await secrets.get("TOKEN"), undefined);
+    });
+
+    it("should reject names that aren't environment variable names", async () => {
+      await assert.rejects(secrets.set("MY-TOKEN", "value"));
+      await assert.rejects(secrets.set("1TOKEN", "value"));
+      assert.deepStrictEqual(secrets.list(), []);
+    });
+
+    it("should only add the stored secrets a call references to its environment", async () => {
+      await secrets.set("TOKEN", "s3cr3t");
+      await secrets.set("UNUSED", "value");
+
+      assert.deepStrictEqual(
+        await secrets.environment([
+          "dagger",
+          "call",
+          "publish",
+          "--token",
+          "env:TOKEN",
+          "--other",
+          "env:HOME",
+        ]),
+        { TOKEN: "s3cr3t" },
+      );
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import * as assert from "assert";
+import * as http from "http";
+import * as net from "net";
+import { describe, it, before, after, afterEach } from "mocha";
+import { DaggerCLI } from "../../src/cli";
+import { DaggerSettings } from "../../src/settings";
+import {
+  checkProbe,
+  createLogMatcher,
+  describeProbe,
+  ReadinessProbe,
+  resolveProbe,
+  ServiceInfo,
+  ServiceManager,
+  servicePort,
+} from "../../src/services";
+import { MockDaggerCLI } from "../helpers/dagger";
+
+// Prints a line and keeps running like `up` does
+const UP_SCRIPT = "echo 'tunnel started'; sleep 30";
+
+// Stub server: /health is OK, /starting is unavailable
+const startStubServer = (): Promise<http.Server> =>
+  new Promise((resolve) => {
+    const server = http.createServer((request, response) => {
+      response.statusCode = request.url === "/health" ? 200 : 503;
+      response.end();
+    });
+    server.listen(0, "127.0.0.1", () => resolve(server));
+  });
+
+// A port nothing listens on
+const closedPort = (): Promise<number> =>
+  new Promise((resolve) => {
+    const server = net.createServer();
+    server.listen(0, () => {
+      const port = (server.address() as net.AddressInfo).port;
+      server.close(() => resolve(port));
+    });
+  });
+
+describe("readiness probes", () => {
+  let server: http.Server;
+  let ports: { host: number; container: number }[];
+
+  before(async () => {
+    server = await startStubServer();
+    ports = [
+      { host: (server.address() as net.AddressInfo).port, container: 80 },
+    ];
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("should default to a TCP probe of the first port", () => {
+    assert.deepStrictEqual(resolveProbe(undefined, ports), { type: "tcp" });
+    assert.strictEqual(resolveProbe(undefined, []), undefined);
+    assert.deepStrictEqual(resolveProbe({ type: "log", pattern: "ok" }, []), {
+      type: "log",
+      pattern: "ok",
+    });
+    assert.deepStrictEqual(
+      resolveProbe({ type: "log", pattern: "(unclosed" }, ports),
+      { type: "tcp" },
+    );
+    assert.strictEqual(
+      describeProbe({ type: "http", path: "/health", status: 200 }, ports),
+      `GET :${ports[0].host}/health → 200`,
+    );
+  });
+
+  it("should reach services on the probed port or the first TCP port", () => {
+    const mapped = [
+      { host: 5353, container: 53, protocol: "udp" as const },
+      { host: 8080, container: 80 },
+      { host: 9090, container: 90 },
+    ];
+
+    assert.strictEqual(servicePort(undefined, mapped), 8080);
+    assert.strictEqual(servicePort({ type: "tcp", port: 9090 }, mapped), 9090);
+    assert.strictEqual(
+      servicePort({ type: "log", pattern: "ok" }, mapped),
+      8080,
+    );
+    assert.strictEqual(servicePort(undefined, [mapped[0]]), undefined);
+  });
+
+  it("should pass TCP probes once the port accepts connections", async () => {
+    assert.strictEqual(
+      await checkProbe({ type: "tcp" }, ports, "127.0.0.1"),
+      true,
+    );
+    assert.strictEqual(
+      await checkProbe({ type: "tcp", port: await closedPort() }, ports),
+      false,
+    );
+  });
+
+  it("should pass HTTP probes that get the expected status", async () => {
+    const check = (probe: ReadinessProbe) =>
+      checkProbe(probe, ports, "127.0.0.1");
+
+    assert.strictEqual(await check({ type: "http", path: "/health" }), true);
+    assert.strictEqual(await check({ type: "http", path: "/starting" }), false);
+    assert.strictEqual(
+      await check({ type: "http", path: "/starting", status: 503 }),
+      true,
+    );
+    assert.strictEqual(
+      await check({ type: "http", port: await closedPort() }),
+      false,
+    );
+  });
+
+  it("should match log lines split across chunks", () => {
+    const matches = createLogMatcher("listening on :\\d+");
+
+    assert.strictEqual(matches("starting\nlisten"), false);
+    assert.strictEqual(matches("ing on :8080\n"), true);
+    assert.strictEqual(matches("anything"), true);
+  });
+
+  describe("ServiceManager", () => {
+    let services: ServiceManager;
+
+    afterEach(() => {
+      services.dispose();
+    });
+
+    it("should be ready once the log probe matches", async () => {
+      services = new ServiceManager(
+        new MockDaggerCLI(UP_SCRIPT) as unknown as DaggerCLI,
+        undefined,
+        undefined,
+        {
+          readinessProbes: {
+            serve: { type: "log", pattern: "tunnel started" },
+          },
+        } as unknown as DaggerSettings,
+      );
+
+      const ready = new Promise<ServiceInfo>((resolve) =>
+        services.onDidBecomeReady(resolve),
+      );
+      const service = await services.start({
+        functionName: "serve",
+        argValues: {},
+        commandArgs: ["dagger", "call", "serve", "up"],
+        workspacePath: process.cwd(),
+        ports: [],
+      });
+      assert.strictEqual(service.status, "starting");
+
+      assert.strictEqual((await ready).id, service.id);
+      assert.strictEqual(services.get(service.id)?.status, "ready");
+    });
+
+    it("should probe services without a configured probe on their first port", async () => {
+      services = new ServiceManager(
+        new MockDaggerCLI(UP_SCRIPT) as unknown as DaggerCLI,
+      );
+
+      const ready = new Promise<ServiceInfo>((resolve) =>
+        services.onDidBecomeReady(resolve),
+      );
+      // the stub server stands in for the service
+      const service = await services.start({
+        functionName: "serve",
+        argValues: {},
+        commandArgs: ["dagger", "call", "serve", "up"],
+        workspacePath: process.cwd(),
+        ports,
+      });
+
+      assert.deepStrictEqual(service.probe, { type: "tcp" });
+      assert.strictEqual((await ready).status, "ready");
+    });
+  });
+});
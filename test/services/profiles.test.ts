@@ -0,0 +1,66 @@
+import * as assert from "assert";
+import { describe, it, beforeEach } from "mocha";
+import { PortProfileStore, serviceTaskChain } from "../../src/services";
+import { MockMemento } from "../helpers/memento";
+
+describe("port profiles", () => {
+  let profiles: PortProfileStore;
+
+  beforeEach(() => {
+    profiles = new PortProfileStore(new MockMemento());
+  });
+
+  it("should remember the ports of each function per module", async () => {
+    await profiles.save({
+      workspacePath: "/app",
+      functionPath: "serve",
+      ports: [{ host: 8080, container: 80 }],
+    });
+    await profiles.save({
+      workspacePath: "/app",
+      functionPath: "backend serve",
+      ports: [{ host: 5353, container: 53, protocol: "udp" }],
+    });
+
+    assert.deepStrictEqual(profiles.get("/app", "serve"), [
+      { host: 8080, container: 80 },
+    ]);
+    assert.deepStrictEqual(profiles.get("/app", "backend serve"), [
+      { host: 5353, container: 53, protocol: "udp" },
+    ]);
+    assert.strictEqual(profiles.get("/other", "serve"), undefined);
+  });
+
+  it("should replace the ports saved before", async () => {
+    await profiles.save({
+      workspacePath: "/app",
+      functionPath: "serve",
+      ports: [{ host: 8080, container: 80 }],
+    });
+    await profiles.save({
+      workspacePath: "/app",
+      functionPath: "serve",
+      ports: [{ host: 8081, container: 80 }],
+    });
+
+    assert.strictEqual(profiles.list().length, 1);
+    assert.deepStrictEqual(profiles.get("/app", "serve"), [
+      { host: 8081, container: 80 },
+    ]);
+  });
+
+  it("should build the task chain of a service with its ports", () => {
+    const ports = [
+      { host: 8080, container: 80 },
+      { host: 5353, container: 53, protocol: "udp" as const },
+    ];
+
+    assert.deepStrictEqual(serviceTaskChain("Service", ports), [
+      { function: "up", args: { ports: ["8080:80", "5353:53/udp"] } },
+    ]);
+    assert.deepStrictEqual(serviceTaskChain("Container", []), [
+      "as-service",
+      { function: "up" },
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+import * as assert from "assert";
+import * as net from "net";
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { DaggerCLI } from "../../src/cli";
+import {
+  buildPortArgs,
+  formatPortMapping,
+  isPortAvailable,
+  isSameHostPort,
+  parsePortMappings,
+  ServiceDefinition,
+  ServiceManager,
+} from "../../src/services";
+import { formatUptime } from "../../src/tree/services";
+import { listen, MockDaggerCLI } from "../helpers/dagger";
+
+const definition = (
+  overrides: Partial<ServiceDefinition> = {},
+): ServiceDefinition => ({
+  functionName: "serve",
+  argValues: {},
+  commandArgs: ["dagger", "call", "serve", "up"],
+  workspacePath: process.cwd(),
+  ports: [{ host: 48080, container: 80 }],
+  ...overrides,
+});
+
+describe("services", () => {
+  describe("ports", () => {
+    it("should parse port mappings as passed to up --ports", () => {
+      assert.deepStrictEqual(parsePortMappings(["8080:80", "9000,5432:5433"]), [
+        { host: 8080, container: 80 },
+        { host: 9000, container: 9000 },
+        { host: 5432, container: 5433 },
+      ]);
+      assert.deepStrictEqual(parsePortMappings(["8080:80", "8080:81", "x"]), [
+        { host: 8080, container: 81 },
+      ]);
+      assert.deepStrictEqual(
+        buildPortArgs([
+          { host: 8080, container: 80 },
+          { host: 9000, container: 9000 },
+        ]),
+        ["--ports", "8080:80", "--ports", "9000:9000"],
+      );
+    });
+
+    it("should keep the protocol of UDP mappings", () => {
+      const mappings = parsePortMappings(["5353:53/udp", "5353:53", "80/TCP"]);
+
+      assert.deepStrictEqual(mappings, [
+        { host: 5353, container: 53, protocol: "udp" },
+        { host: 5353, container: 53 },
+        { host: 80, container: 80 },
+      ]);
+      assert.deepStrictEqual(mappings.map(formatPortMapping), [
+        "5353:53/udp",
+        "5353:53",
+        "80:80",
+      ]);
+      assert.strictEqual(isSameHostPort(mappings[0], mappings[1]), false);
+      assert.strictEqual(
+        isSameHostPort(mappings[1], { host: 5353, container: 8080 }),
+        true,
+      );
+    });
+
+    it("should detect host ports that are in use", async () => {
+      const server = await listen();
+      const port = (server.address() as net.AddressInfo).port;
+      try {
+        assert.strictEqual(await isPortAvailable(port), false);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+      assert.strictEqual(await isPortAvailable(port), true);
+    });
+
+    it("should format the uptime of services", () => {
+      assert.strictEqual(formatUptime(30_000), "<1m");
+      assert.strictEqual(formatUptime(5 * 60_000), "5m");
+      assert.strictEqual(formatUptime(125 * 60_000), "2h 5m");
+      assert.strictEqual(formatUptime(27 * 3_600_000), "1d 3h");
+    });
+  });
+
+  describe("ServiceManager", () => {
+    let dagger: MockDaggerCLI;
+    let services: ServiceManager;
+
+    beforeEach(() => {
+      dagger = new MockDaggerCLI();
+      services = new ServiceManager(dagger as unknown as DaggerCLI);
+    });
+
+    afterEach(() => {
+      services.dispose();
+    });
+
+    it("should track services until they are stopped", async () => {
+      const service = await services.start(definition());
+      assert.strictEqual(service.status, "starting");
+      assert.deepStrictEqual(dagger.calls[0].args, [
+        "call",
+        "serve",
+        "up",
+        "--ports",
+        "48080:80",
+      ]);
+
+      await services.stop(service.id);
+      // the status is updated once the process has exited
+      await new Promise((resolve) => setImmediate(resolve));
+      assert.strictEqual(services.get(service.id)?.status, "stopped");
+
+      services.remove(service.id);
+      assert.deepStrictEqual(services.list(), []);
+    });
+
+    it("should report host ports used by running services", async () => {
+      const service = await services.start(definition());
+
+      const conflicts = await services.findConflicts([
+        { host: 48080, container: 3000 },
+      ]);
+      assert.strictEqual(conflicts.length, 1);
+      assert.strictEqual(conflicts[0].service?.id, service.id);
+
+      // a restart doesn't conflict with itself
+      assert.deepStrictEqual(
+        await services.findConflicts(service.ports, service.id),
+        [],
+      );
+    });
+
+    it("should restart services with new ports", async () => {
+      const service = await services.start(definition());
+
+      await services.restart(service.id, [{ host: 48081, container: 80 }]);
+
+      const restarted = services.get(service.id);
+      assert.strictEqual(restarted?.status, "starting");
+      assert.deepStrictEqual(restarted?.ports, [
+        { host: 48081, container: 80 },
+      ]);
+      assert.deepStrictEqual(dagger.calls[1].args.slice(-2), [
+        "--ports",
+        "48081:80",
+      ]);
+      assert.strictEqual(services.list().length, 1);
+    });
+  });
+});
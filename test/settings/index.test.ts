@@ -108,6 +108,34 @@ describe("DaggerSettings", () => {
     });
   });
 
+  describe("autoRefresh settings", () => {
+    it("should load autoRefresh settings from configuration", () => {
+      mockConfiguration.get.withArgs("autoRefresh", true).returns(false);
+      mockConfiguration.get.withArgs("autoRefreshDelay", 1000).returns(250);
+
+      settings.reload();
+
+      assert.strictEqual(settings.autoRefresh, false);
+      assert.strictEqual(settings.autoRefreshDelay, 250);
+    });
+  });
+
+  describe("cache backend settings", () => {
+    it("should load cache backend settings from configuration", () => {
+      mockConfiguration.get
+        .withArgs("cacheBackend", "workspace")
+        .returns("filesystem");
+      mockConfiguration.get
+        .withArgs("cacheDirectory", "")
+        .returns("/tmp/dagger-cache");
+
+      settings.reload();
+
+      assert.strictEqual(settings.cacheBackend, "filesystem");
+      assert.strictEqual(settings.cacheDirectory, "/tmp/dagger-cache");
+    });
+  });
+
   describe("reload method", () => {
     it("should reload all settings when called", () => {
       // First check default values
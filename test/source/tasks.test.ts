@@ -0,0 +1,102 @@
+import * as assert from "assert";
+import { describe, it } from "mocha";
+import {
+  parseCallCommand,
+  parseTaskFunction,
+  resolveCallFunction,
+} from "../../src/source/tasks";
+import { FunctionInfo } from "../../src/types/types";
+
+const fn = (
+  name: string,
+  module?: string,
+  parentModule?: string,
+): FunctionInfo => ({
+  id: name,
+  name,
+  module,
+  parentModule,
+  returnType: "Container",
+  args: [],
+});
+
+const texts = (tokens: { text: string }[] | undefined) =>
+  tokens?.map((token) => token.text);
+
+describe("tasks.json commands", () => {
+  describe("parseCallCommand", () => {
+    it("should parse the command of a saved task", () => {
+      const line =
+        '      "command": "dagger call build --source . --tag \\\\"v1 beta\\\\"",';
+      const command = parseCallCommand(line);
+
+      assert.deepStrictEqual(texts(command?.chain), ["build"]);
+      assert.deepStrictEqual(texts(command?.args), ["source", "tag"]);
+      assert.strictEqual(
+        line.slice(command!.args[0].start, command!.args[0].end),
+        "source",
+      );
+    });
+
+    it("should skip flags of dagger and read the module", () => {
+      const command = parseCallCommand(
+        "dagger --progress plain -m ./ci call --debug sub test --name=x terminal",
+      );
+
+      assert.strictEqual(command?.module, "./ci");
+      assert.deepStrictEqual(texts(command?.chain), ["sub", "test"]);
+      assert.deepStrictEqual(texts(command?.args), ["name"]);
+    });
+
+    it("should ignore other commands", () => {
+      assert.strictEqual(parseCallCommand("dagger functions"), undefined);
+      assert.strictEqual(parseCallCommand("go test ./..."), undefined);
+    });
+  });
+
+  describe("parseTaskFunction", () => {
+    it("should parse the function of a dagger task", () => {
+      const line = '      "function": "sub test",';
+      const command = parseTaskFunction(line);
+
+      assert.deepStrictEqual(texts(command?.chain), ["sub", "test"]);
+      assert.strictEqual(
+        line.slice(command!.chain[1].start, command!.chain[1].end),
+        "test",
+      );
+      assert.strictEqual(parseTaskFunction('"label": "build"'), undefined);
+    });
+  });
+
+  describe("resolveCallFunction", () => {
+    const tokens = (...names: string[]) =>
+      names.map((text) => ({ text, start: 0, end: text.length }));
+
+    it("should resolve root functions and ignore calls on the result", () => {
+      const functions = [fn("build"), fn("terminal", "build")];
+
+      assert.strictEqual(
+        resolveCallFunction(tokens("build", "terminal"), functions)
+          ?.functionInfo,
+        functions[0],
+      );
+    });
+
+    it("should resolve functions of submodules", () => {
+      const functions = [fn("test"), fn("test", "sub"), fn("lint", "a", "b")];
+
+      assert.strictEqual(
+        resolveCallFunction(tokens("sub", "test"), functions)?.functionInfo,
+        functions[1],
+      );
+      assert.strictEqual(
+        resolveCallFunction(tokens("a", "b", "lint"), functions)?.functionInfo,
+        functions[2],
+      );
+      assert.strictEqual(
+        resolveCallFunction(tokens("deploy"), functions),
+        undefined,
+      );
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import * as assert from "assert";
+import { describe, it } from "mocha";
+import {
+  buildTaskCommandArgs,
+  functionPath,
+  hasRequiredArguments,
+  toTaskDefinition,
+} from "../../src/tasks/definition";
+import { FunctionInfo } from "../../src/types/types";
+
+const fn = (
+  name: string,
+  module?: string,
+  parentModule?: string,
+): FunctionInfo => ({
+  id: name,
+  name,
+  module,
+  parentModule,
+  returnType: "Container",
+  args: [],
+});
+
+describe("dagger task definition", () => {
+  describe("functionPath", () => {
+    it("should prefix functions of submodules", () => {
+      assert.strictEqual(functionPath(fn("build")), "build");
+      assert.strictEqual(functionPath(fn("test", "sub")), "sub test");
+      assert.strictEqual(functionPath(fn("lint", "sdk", "go")), "sdk go lint");
+      // functions of dependencies are called like root functions
+      assert.strictEqual(functionPath(fn("lint", undefined, "go")), "lint");
+    });
+  });
+
+  describe("hasRequiredArguments", () => {
+    it("should only count required arguments without a default", () => {
+      const withArgs = (args: FunctionInfo["args"]) => ({
+        ...fn("build"),
+        args,
+      });
+
+      assert.strictEqual(hasRequiredArguments(fn("build")), false);
+      assert.strictEqual(
+        hasRequiredArguments(
+          withArgs([{ name: "tag", type: "String", required: true }]),
+        ),
+        true,
+      );
+      assert.strictEqual(
+        hasRequiredArguments(
+          withArgs([
+            { name: "tag", type: "String", required: false },
+            {
+              name: "source",
+              type: "Directory",
+              required: true,
+              defaultPath: ".",
+            },
+            {
+              name: "version",
+              type: "String",
+              required: true,
+              defaultValue: "latest",
+            },
+          ]),
+        ),
+        false,
+      );
+    });
+  });
+
+  describe("toTaskDefinition", () => {
+    it("should only include arguments that are set", () => {
+      assert.deepStrictEqual(toTaskDefinition(fn("build"), "ci"), {
+        type: "dagger",
+        module: "ci",
+        function: "build",
+      });
+      assert.deepStrictEqual(
+        toTaskDefinition(fn("test", "sub"), ".", { verbose: true }),
+        {
+          type: "dagger",
+          module: ".",
+          function: "sub test",
+          args: { verbose: true },
+        },
+      );
+    });
+  });
+
+  describe("buildTaskCommandArgs", () => {
+    it("should build the call with arguments, chain and export", () => {
+      assert.deepStrictEqual(
+        buildTaskCommandArgs({
+          type: "dagger",
+          module: ".",
+          function: "sub build",
+          args: { source: ".", tag: "v1 beta", replicas: 2 },
+          chain: [
+            "with-label",
+            { function: "directory", args: { path: "/out" } },
+          ],
+          export: "./dist",
+        }),
+        [
+          "call",
+          "sub",
+          "build",
+          "--source",
+          ".",
+          "--tag",
+          "v1 beta",
+          "--replicas",
+          "2",
+          "with-label",
+          "directory",
+          "--path",
+          "/out",
+          "export",
+          "--path",
+          "./dist",
+        ],
+      );
+    });
+
+    it("should repeat list arguments and pass remote modules with -m", () => {
+      assert.deepStrictEqual(
+        buildTaskCommandArgs(
+          {
+            type: "dagger",
+            module: "github.com/org/repo",
+            function: "serve",
+            chain: [
+              { function: "up", args: { ports: ["8080:80", "8443:443"] } },
+            ],
+          },
+          true,
+        ),
+        [
+          "-m",
+          "github.com/org/repo",
+          "call",
+          "serve",
+          "up",
+          "--ports",
+          "8080:80",
+          "--ports",
+          "8443:443",
+        ],
+      );
+    });
+  });
+});
@@ -3,6 +3,8 @@ import { describe, it, beforeEach } from "mocha";
 import { DataProvider, DaggerTreeItem } from "../../src/tree/provider";
 import { DaggerCLI } from "../../src/cli";
 import { FunctionInfo } from "../../src/types/types";
+import { ResultStore } from "../../src/results";
+import { MockMemento } from "../helpers/memento";
 
 describe("Tree Provider", () => {
   let mockCli: Partial<DaggerCLI>;
@@ -273,4 +275,49 @@ describe("Tree Provider", () => {
       "Should have optional number argument with kebab case name",
     );
   });
+
+  it("should show the result pinned to a function before its arguments", async () => {
+    const fn: FunctionInfo = {
+      name: "status",
+      id: "func1",
+      args: [],
+      returnType: "JSON",
+    };
+    mockCli.getFunctionsAsTree = async () =>
+      new Map([["", [{ fn, index: 0 }]]]);
+
+    const results = new ResultStore(new MockMemento());
+
+    dataProvider = new DataProvider(
+      mockCli as DaggerCLI,
+      "/workspace",
+      results,
+    );
+    await dataProvider.loaded;
+    const [functionItem] = await dataProvider.getChildren();
+
+    assert.strictEqual(
+      dataProvider.getTreeItem(functionItem).collapsibleState,
+      0, // None
+    );
+
+    await results.pin(
+      results.add({
+        functionName: "status",
+        functionPath: "status",
+        workspacePath: "/workspace",
+        commandLine: "dagger call --json status",
+        json: "{}",
+        createdAt: Date.now(),
+      }),
+    );
+
+    assert.strictEqual(
+      dataProvider.getTreeItem(functionItem).collapsibleState,
+      1, // Collapsed
+    );
+    const [resultItem] = await dataProvider.getChildren(functionItem);
+    assert.strictEqual(resultItem.label, "Last result");
+    assert.strictEqual(resultItem.type, "result");
+  });
 });
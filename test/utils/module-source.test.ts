@@ -0,0 +1,87 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it, beforeEach, afterEach } from "mocha";
+import {
+  hashModuleSource,
+  isGeneratedPath,
+} from "../../src/utils/module-source";
+
+describe("Module Source", () => {
+  let moduleDir: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(moduleDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(moduleDir, file), content);
+  };
+
+  beforeEach(() => {
+    moduleDir = fs.mkdtempSync(path.join(os.tmpdir(), "dagger-module-"));
+    write("dagger.json", JSON.stringify({ name: "test", source: ".dagger" }));
+    write(".dagger/main.go", "package main\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(moduleDir, { recursive: true, force: true });
+  });
+
+  describe("hashModuleSource", () => {
+    it("should change when the source or lock files change", async () => {
+      const initial = await hashModuleSource(moduleDir);
+      assert.strictEqual(await hashModuleSource(moduleDir), initial);
+
+      write(".dagger/main.go", "package main\n\nfunc Build() {}\n");
+      const edited = await hashModuleSource(moduleDir);
+      assert.notStrictEqual(edited, initial);
+
+      write(".dagger/go.sum", "example.com/dep v1.0.0 h1:abc=\n");
+      assert.notStrictEqual(await hashModuleSource(moduleDir), edited);
+    });
+
+    it("should ignore generated files", async () => {
+      const initial = await hashModuleSource(moduleDir);
+
+      write(".dagger/internal/dagger/dagger.gen.go", "package dagger\n");
+      write(".dagger/dagger.gen.go", "package main\n");
+
+      assert.strictEqual(await hashModuleSource(moduleDir), initial);
+    });
+
+    it("should include local dependencies", async () => {
+      write("lib/dagger.json", JSON.stringify({ name: "lib" }));
+      write("lib/main.go", "package main\n");
+      write(
+        "dagger.json",
+        JSON.stringify({
+          name: "test",
+          source: ".dagger",
+          dependencies: [{ name: "lib", source: "lib" }],
+        }),
+      );
+      const initial = await hashModuleSource(moduleDir);
+
+      write("lib/main.go", "package main\n\nfunc Lint() {}\n");
+
+      assert.notStrictEqual(await hashModuleSource(moduleDir), initial);
+    });
+
+    it("should return undefined when dagger.json is missing", async () => {
+      fs.rmSync(path.join(moduleDir, "dagger.json"));
+
+      assert.strictEqual(await hashModuleSource(moduleDir), undefined);
+    });
+  });
+
+  describe("isGeneratedPath", () => {
+    it("should match the directories the SDKs generate", () => {
+      assert.strictEqual(
+        isGeneratedPath("internal/dagger/dagger.gen.go"),
+        true,
+      );
+      assert.strictEqual(isGeneratedPath("sdk/src/api/client.gen.ts"), true);
+      assert.strictEqual(isGeneratedPath("node_modules/x/index.js"), true);
+      assert.strictEqual(isGeneratedPath("src/index.ts"), false);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it, before, after } from "mocha";
+import { startProcess } from "../../src/utils/process";
+
+// A fake dagger binary so the tests don't need the real CLI
+const FAKE_DAGGER = `#!/bin/sh
+case "$1" in
+  version) echo "dagger v0.0.0-test" ;;
+  fail) echo "something went wrong" >&2; exit 3 ;;
+  stream) echo one; sleep 0.2; echo two ;;
+  stdin) cat ;;
+  listen) sleep 30 & echo $!; wait ;;
+esac
+`;
+
+const isRunning = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+
+  // a killed process stays a zombie until it is reaped
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, "utf8");
+    return stat.split(" ")[2] !== "Z";
+  } catch {
+    return true;
+  }
+};
+
+// orphaned children are reaped asynchronously, so give them a moment
+const waitForExit = async (pid: number, timeout = 2_000): Promise<boolean> => {
+  const deadline = Date.now() + timeout;
+  while (isRunning(pid) && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+
+  return !isRunning(pid);
+};
+
+describe("startProcess", function () {
+  let binDir: string;
+  let env: Record<string, string>;
+
+  before(function () {
+    if (process.platform === "win32") {
+      this.skip();
+    }
+
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), "fake-dagger-"));
+    fs.writeFileSync(path.join(binDir, "dagger"), FAKE_DAGGER, {
+      mode: 0o755,
+    });
+    env = { PATH: `${binDir}${path.delimiter}${process.env.PATH}` };
+  });
+
+  after(() => {
+    if (binDir) {
+      fs.rmSync(binDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should capture stdout, stderr and the exit code", async () => {
+    const ok = await startProcess("dagger", ["version"], {
+      cwd: binDir,
+      env,
+    }).result;
+    assert.strictEqual(ok.exitCode, 0);
+    assert.strictEqual(ok.stdout.trim(), "dagger v0.0.0-test");
+
+    const failed = await startProcess("dagger", ["fail"], {
+      cwd: binDir,
+      env,
+    }).result;
+    assert.strictEqual(failed.exitCode, 3);
+    assert.strictEqual(failed.stderr.trim(), "something went wrong");
+  });
+
+  it("should stream output as it is received", async () => {
+    const chunks: string[] = [];
+    const result = await startProcess("dagger", ["stream"], {
+      cwd: binDir,
+      env,
+      onStdout: (chunk) => chunks.push(chunk),
+    }).result;
+
+    assert.ok(chunks.length >= 2, `expected 2 chunks, got ${chunks.length}`);
+    assert.strictEqual(chunks.join(""), result.stdout);
+  });
+
+  it("should decode characters split across chunks", async () => {
+    const chunks: string[] = [];
+    // the two bytes of é are written separately
+    const result = await startProcess(
+      process.execPath,
+      [
+        "-e",
+        "process.stdout.write(Buffer.from([0xc3])); setTimeout(() => process.stdout.write(Buffer.from([0xa9])), 100);",
+      ],
+      { cwd: binDir, onStdout: (chunk) => chunks.push(chunk) },
+    ).result;
+
+    assert.strictEqual(result.stdout, "é");
+    assert.strictEqual(chunks.join(""), "é");
+  });
+
+  it("should write stdin", async () => {
+    const result = await startProcess("dagger", ["stdin"], {
+      cwd: binDir,
+      env,
+      stdin: "query { version }",
+    }).result;
+
+    assert.strictEqual(result.stdout, "query { version }");
+  });
+
+  it("should stop the whole process group when cancelled", async () => {
+    let cancel: () => void = () => {};
+    const token = {
+      isCancellationRequested: false,
+      onCancellationRequested: (listener: () => void) => {
+        cancel = listener;
+        return { dispose: () => {} };
+      },
+    };
+
+    let childPid: number | undefined;
+    const proc = startProcess("dagger", ["listen"], {
+      cwd: binDir,
+      env,
+      token: token as any,
+      onStdout: (chunk) => {
+        childPid = Number(chunk.trim());
+        cancel();
+      },
+    });
+
+    const result = await proc.result;
+    assert.strictEqual(result.cancelled, true);
+    assert.strictEqual(proc.running, false);
+    assert.ok(childPid, "expected the child pid to be printed");
+    assert.strictEqual(await waitForExit(childPid!), true);
+  });
+
+  it("should stop long running processes after the timeout", async () => {
+    const result = await startProcess("dagger", ["listen"], {
+      cwd: binDir,
+      env,
+      timeout: 200,
+    }).result;
+
+    assert.strictEqual(result.timedOut, true);
+    assert.strictEqual(result.cancelled, false);
+    assert.notStrictEqual(result.exitCode, 0);
+  });
+
+  it("should reject when the command can't be started", async () => {
+    await assert.rejects(
+      startProcess("dagger-missing", [], { cwd: binDir, env }).result,
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from "assert";
+import { describe, it } from "mocha";
+import {
+  getResultLanguage,
+  getResultView,
+} from "../../src/utils/result-helpers";
+import { typeInfoFromName } from "../../src/utils/type-helpers";
+
+describe("result helpers", () => {
+  describe("getResultView", () => {
+    it("should open strings and lists of strings in an editor", () => {
+      assert.strictEqual(getResultView(typeInfoFromName("String")), "editor");
+      assert.strictEqual(getResultView(typeInfoFromName("[String]")), "editor");
+    });
+
+    it("should show small values in a message", () => {
+      assert.strictEqual(getResultView(typeInfoFromName("Int")), "message");
+      assert.strictEqual(getResultView(typeInfoFromName("Boolean")), "message");
+    });
+
+    it("should leave objects in the output channel", () => {
+      assert.strictEqual(getResultView(typeInfoFromName("Container")), "none");
+      assert.strictEqual(
+        getResultView(typeInfoFromName("[Container]")),
+        "none",
+      );
+    });
+  });
+
+  describe("getResultLanguage", () => {
+    it("should detect JSON documents", () => {
+      assert.strictEqual(getResultLanguage('{"name": "dagger"}'), "json");
+      assert.strictEqual(getResultLanguage("[1, 2, 3]\n"), "json");
+      assert.strictEqual(getResultLanguage("[not json"), "plaintext");
+      assert.strictEqual(getResultLanguage("42"), "plaintext");
+    });
+
+    it("should use the JSON scalar type", () => {
+      assert.strictEqual(
+        getResultLanguage("null", {
+          kind: "Scalar",
+          name: "JSON",
+          optional: false,
+        }),
+        "json",
+      );
+    });
+
+    it("should detect other common formats", () => {
+      assert.strictEqual(getResultLanguage("<?xml version='1.0'?>"), "xml");
+      assert.strictEqual(
+        getResultLanguage("apiVersion: v1\nkind: Pod"),
+        "yaml",
+      );
+      assert.strictEqual(
+        getResultLanguage("#!/bin/sh\necho hi"),
+        "shellscript",
+      );
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import * as assert from "assert";
+import { describe, it } from "mocha";
+import { createCapturingPseudoterminal } from "../../src/utils/terminal";
+
+describe("createCapturingPseudoterminal", () => {
+  it("should show the output of the command and keep it", async () => {
+    const { pty, result } = createCapturingPseudoterminal(
+      "echo one; echo two >&2; exit 3",
+      { workingDirectory: process.cwd() },
+    );
+    let written = "";
+    let closedWith: number | void = undefined;
+    pty.onDidWrite((data) => (written += data));
+    pty.onDidClose?.((code) => (closedWith = code));
+
+    pty.open(undefined);
+    const { exitCode, output } = await result;
+
+    assert.strictEqual(exitCode, 3);
+    assert.strictEqual(output, "one\ntwo\n");
+    assert.ok(written.endsWith("one\r\ntwo\r\n"));
+    assert.strictEqual(closedWith, 3);
+  });
+
+  it("should stop the command when the terminal is closed", async () => {
+    const { pty, result } = createCapturingPseudoterminal("sleep 30", {
+      workingDirectory: process.cwd(),
+    });
+
+    pty.open(undefined);
+    pty.close();
+    const { exitCode } = await result;
+
+    assert.notStrictEqual(exitCode, 0);
+  });
+});
@@ -0,0 +1,209 @@
+import * as assert from "assert";
+import { describe, it } from "mocha";
+import {
+  functionArgTypeToFunctionArgument,
+  graphQLTypeToTypeDef,
+  parseDefaultValue,
+  typeDefToTypeInfo,
+  typeInfoFromName,
+  validateArgumentValue,
+} from "../../src/utils/type-helpers";
+
+describe("type helpers", () => {
+  describe("typeDefToTypeInfo", () => {
+    it("should convert scalar kinds", () => {
+      assert.deepStrictEqual(
+        typeDefToTypeInfo({ kind: "INTEGER_KIND", optional: false }),
+        { kind: "Int", name: "Int", optional: false },
+      );
+      assert.deepStrictEqual(
+        typeDefToTypeInfo({
+          kind: "SCALAR_KIND",
+          optional: true,
+          asScalar: { name: "Platform" },
+        }),
+        { kind: "Scalar", name: "Platform", optional: true },
+      );
+    });
+
+    it("should keep list element types", () => {
+      const typeInfo = typeDefToTypeInfo({
+        kind: "LIST_KIND",
+        optional: false,
+        asList: {
+          elementTypeDef: {
+            kind: "LIST_KIND",
+            optional: false,
+            asList: {
+              elementTypeDef: { kind: "STRING_KIND", optional: false },
+            },
+          },
+        },
+      });
+
+      assert.strictEqual(typeInfo.kind, "List");
+      assert.strictEqual(typeInfo.name, "[[String]]");
+      assert.strictEqual(typeInfo.elementType?.elementType?.kind, "String");
+    });
+
+    it("should keep enum members", () => {
+      const typeInfo = typeDefToTypeInfo({
+        kind: "ENUM_KIND",
+        optional: false,
+        asEnum: {
+          name: "NetworkProtocol",
+          members: [{ name: "TCP" }, { name: "UDP", description: "" }],
+        },
+      });
+
+      assert.strictEqual(typeInfo.name, "NetworkProtocol");
+      assert.deepStrictEqual(typeInfo.enumValues, [
+        { name: "TCP", description: undefined },
+        { name: "UDP", description: undefined },
+      ]);
+    });
+
+    it("should use the name of objects, interfaces and inputs", () => {
+      assert.strictEqual(
+        typeDefToTypeInfo({
+          kind: "OBJECT_KIND",
+          optional: false,
+          asObject: { name: "Container" },
+        }).name,
+        "Container",
+      );
+      assert.strictEqual(
+        typeDefToTypeInfo({
+          kind: "INTERFACE_KIND",
+          optional: false,
+          asInterface: { name: "Fooer" },
+        }).kind,
+        "Interface",
+      );
+      assert.strictEqual(
+        typeDefToTypeInfo({
+          kind: "INPUT_KIND",
+          optional: false,
+          asInput: { name: "BuildArg" },
+        }).name,
+        "BuildArg",
+      );
+    });
+  });
+
+  describe("functionArgTypeToFunctionArgument", () => {
+    it("should decode default values and keep descriptions", () => {
+      const arg = functionArgTypeToFunctionArgument({
+        name: "baseImage",
+        description: "The base image",
+        defaultValue: '"alpine:latest"',
+        typeDef: { kind: "STRING_KIND", optional: true },
+      });
+
+      assert.strictEqual(arg.name, "base-image");
+      assert.strictEqual(arg.type, "String");
+      assert.strictEqual(arg.required, false);
+      assert.strictEqual(arg.description, "The base image");
+      assert.strictEqual(arg.defaultValue, "alpine:latest");
+    });
+  });
+
+  describe("parseDefaultValue", () => {
+    it("should decode JSON values", () => {
+      assert.strictEqual(parseDefaultValue("42"), "42");
+      assert.strictEqual(parseDefaultValue("true"), "true");
+      assert.strictEqual(parseDefaultValue('["a","b"]'), "a,b");
+      assert.strictEqual(parseDefaultValue("null"), undefined);
+      assert.strictEqual(parseDefaultValue(undefined), undefined);
+    });
+  });
+
+  describe("graphQLTypeToTypeDef", () => {
+    it("should convert non-null lists of scalars", () => {
+      const typeInfo = typeDefToTypeInfo(
+        graphQLTypeToTypeDef({
+          kind: "NON_NULL",
+          ofType: {
+            kind: "LIST",
+            ofType: {
+              kind: "NON_NULL",
+              ofType: { kind: "SCALAR", name: "String" },
+            },
+          },
+        }),
+      );
+
+      assert.strictEqual(typeInfo.name, "[String]");
+      assert.strictEqual(typeInfo.optional, false);
+      assert.strictEqual(typeInfo.elementType?.kind, "String");
+    });
+
+    it("should convert IDs to their object unless they are results", () => {
+      const id = { kind: "SCALAR", name: "DirectoryID" };
+
+      assert.deepStrictEqual(typeDefToTypeInfo(graphQLTypeToTypeDef(id)), {
+        kind: "Object",
+        name: "Directory",
+        optional: true,
+      });
+      assert.deepStrictEqual(
+        typeDefToTypeInfo(graphQLTypeToTypeDef(id, false)),
+        { kind: "Scalar", name: "DirectoryID", optional: true },
+      );
+    });
+  });
+
+  describe("typeInfoFromName", () => {
+    it("should parse list names", () => {
+      const typeInfo = typeInfoFromName("[Int]");
+
+      assert.strictEqual(typeInfo.kind, "List");
+      assert.strictEqual(typeInfo.elementType?.kind, "Int");
+    });
+
+    it("should treat unknown names as objects", () => {
+      assert.strictEqual(typeInfoFromName("Directory").kind, "Object");
+    });
+  });
+
+  describe("validateArgumentValue", () => {
+    it("should validate numbers", () => {
+      assert.strictEqual(
+        validateArgumentValue(typeInfoFromName("Int"), "3"),
+        undefined,
+      );
+      assert.ok(validateArgumentValue(typeInfoFromName("Int"), "3.5"));
+      assert.strictEqual(
+        validateArgumentValue(typeInfoFromName("Float"), "3.5"),
+        undefined,
+      );
+      assert.ok(validateArgumentValue(typeInfoFromName("Float"), "abc"));
+    });
+
+    it("should validate booleans", () => {
+      assert.strictEqual(
+        validateArgumentValue(typeInfoFromName("Boolean"), "TRUE"),
+        undefined,
+      );
+      assert.ok(validateArgumentValue(typeInfoFromName("Boolean"), "yes"));
+    });
+
+    it("should validate enum members when known", () => {
+      const typeInfo = typeDefToTypeInfo({
+        kind: "ENUM_KIND",
+        optional: false,
+        asEnum: { name: "Protocol", members: [{ name: "TCP" }] },
+      });
+
+      assert.strictEqual(validateArgumentValue(typeInfo, "TCP"), undefined);
+      assert.ok(validateArgumentValue(typeInfo, "SCTP"));
+    });
+
+    it("should validate each list element", () => {
+      const typeInfo = typeInfoFromName("[Int]");
+
+      assert.strictEqual(validateArgumentValue(typeInfo, "1,2,3"), undefined);
+      assert.ok(validateArgumentValue(typeInfo, "1,two"));
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import * as assert from "assert";
+import * as path from "path";
+import { describe, it } from "mocha";
+import {
+  typeDefToTypeInfo,
+  typeInfoFromName,
+} from "../../src/utils/type-helpers";
+import {
+  getArgumentPrompt,
+  getRelativeArgumentPath,
+  validateArgumentInput,
+  validateSecretReference,
+} from "../../src/utils/user-input";
+
+describe("user input", () => {
+  describe("getArgumentPrompt", () => {
+    it("should pick paths for directories and files", () => {
+      assert.strictEqual(
+        getArgumentPrompt(typeInfoFromName("Directory")),
+        "path",
+      );
+      assert.strictEqual(getArgumentPrompt(typeInfoFromName("File")), "path");
+    });
+
+    it("should pick a secret for secrets", () => {
+      assert.strictEqual(
+        getArgumentPrompt(typeInfoFromName("Secret")),
+        "secret",
+      );
+    });
+
+    it("should pick true or false for booleans", () => {
+      assert.strictEqual(
+        getArgumentPrompt(typeInfoFromName("Boolean")),
+        "boolean",
+      );
+    });
+
+    it("should pick enum members only when they are known", () => {
+      const typeInfo = typeDefToTypeInfo({
+        kind: "ENUM_KIND",
+        optional: false,
+        asEnum: { name: "Protocol", members: [{ name: "TCP" }] },
+      });
+
+      assert.strictEqual(getArgumentPrompt(typeInfo), "enum");
+      assert.strictEqual(
+        getArgumentPrompt({ ...typeInfo, enumValues: [] }),
+        "input",
+      );
+    });
+
+    it("should use an input box for other types", () => {
+      for (const name of ["String", "Int", "Float", "[String]", "Container"]) {
+        assert.strictEqual(
+          getArgumentPrompt(typeInfoFromName(name)),
+          "input",
+          name,
+        );
+      }
+    });
+  });
+
+  describe("validateArgumentInput", () => {
+    it("should require values of required arguments only", () => {
+      assert.ok(
+        validateArgumentInput(
+          { name: "tag", type: "String", required: true },
+          "",
+        ),
+      );
+      assert.strictEqual(
+        validateArgumentInput(
+          { name: "tag", type: "String", required: false },
+          "",
+        ),
+        undefined,
+      );
+    });
+
+    it("should validate numbers against the type of the argument", () => {
+      const count = { name: "count", type: "Int", required: true };
+      const ratio = { name: "ratio", type: "Float", required: true };
+
+      assert.strictEqual(validateArgumentInput(count, "3"), undefined);
+      assert.ok(validateArgumentInput(count, "3.5"));
+      assert.strictEqual(validateArgumentInput(ratio, "3.5"), undefined);
+      assert.ok(validateArgumentInput(ratio, "abc"));
+    });
+  });
+
+  describe("getRelativeArgumentPath", () => {
+    const workspace = path.resolve("/workspace/project");
+
+    it("should pass paths inside the workspace relative to it", () => {
+      assert.strictEqual(
+        getRelativeArgumentPath(workspace, path.join(workspace, "src")),
+        "src",
+      );
+      assert.strictEqual(getRelativeArgumentPath(workspace, workspace), ".");
+    });
+
+    it("should pass paths outside the workspace as they are", () => {
+      const outside = path.resolve("/workspace/other");
+
+      assert.strictEqual(getRelativeArgumentPath(workspace, outside), outside);
+    });
+  });
+
+  describe("validateSecretReference", () => {
+    it("should require a reference", () => {
+      assert.ok(validateSecretReference({ scheme: "file:" }, " "));
+      assert.strictEqual(
+        validateSecretReference({ scheme: "file:" }, "./token"),
+        undefined,
+      );
+    });
+
+    it("should only accept variable names for environment variables", () => {
+      assert.strictEqual(
+        validateSecretReference({ scheme: "env:" }, "GITHUB_TOKEN"),
+        undefined,
+      );
+      assert.ok(validateSecretReference({ scheme: "env:" }, "GITHUB-TOKEN"));
+    });
+  });
+});
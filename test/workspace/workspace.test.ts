@@ -0,0 +1,125 @@
+import * as assert from "assert";
+import * as path from "path";
+import * as vscode from "vscode";
+import { describe, it } from "mocha";
+import {
+  DaggerModule,
+  describeModule,
+  findClosestModule,
+  resolveContextDirectory,
+  toContextDirectory,
+} from "../../src/workspace";
+
+const root = path.join(path.sep, "repo");
+const folder = {
+  name: "repo",
+  index: 0,
+  uri: { fsPath: root },
+} as vscode.WorkspaceFolder;
+
+const modules: DaggerModule[] = [
+  { name: "repo", path: root, workspaceFolder: folder },
+  {
+    name: "api",
+    path: path.join(root, "services", "api"),
+    workspaceFolder: folder,
+  },
+  {
+    name: "api-tools",
+    path: path.join(root, "services", "api-tools"),
+    workspaceFolder: folder,
+  },
+];
+
+describe("workspace modules", () => {
+  describe("findClosestModule", () => {
+    it("should pick the closest module above a file", () => {
+      assert.strictEqual(
+        findClosestModule(
+          modules,
+          path.join(root, "services", "api", "main.go"),
+        )?.name,
+        "api",
+      );
+      assert.strictEqual(
+        findClosestModule(modules, path.join(root, "README.md"))?.name,
+        "repo",
+      );
+    });
+
+    it("should not match modules that only share a prefix", () => {
+      assert.strictEqual(
+        findClosestModule(
+          modules.slice(1, 2),
+          path.join(root, "services", "api-tools", "main.go"),
+        ),
+        undefined,
+      );
+    });
+  });
+
+  describe("describeModule", () => {
+    it("should describe modules relative to their workspace folder", () => {
+      assert.strictEqual(describeModule(modules[0]), "repo");
+      assert.strictEqual(describeModule(modules[1]), "repo/services/api");
+    });
+  });
+
+  describe("resolveContextDirectory", () => {
+    const other = {
+      name: "other",
+      index: 1,
+      uri: { fsPath: path.join(path.sep, "other") },
+    } as vscode.WorkspaceFolder;
+
+    it("should resolve relative paths against the first folder", () => {
+      assert.strictEqual(
+        resolveContextDirectory("services/api", [folder]),
+        path.join(root, "services", "api"),
+      );
+    });
+
+    it("should replace workspace folder variables", () => {
+      assert.strictEqual(
+        resolveContextDirectory("${workspaceFolder}", [folder, other]),
+        root,
+      );
+      assert.strictEqual(
+        resolveContextDirectory("${workspaceFolder:other}/ci", [folder, other]),
+        path.join(path.sep, "other", "ci"),
+      );
+    });
+
+    it("should ignore empty values, placeholders and unknown folders", () => {
+      assert.strictEqual(resolveContextDirectory("", [folder]), undefined);
+      assert.strictEqual(
+        resolveContextDirectory("<workspacePath>", [folder]),
+        undefined,
+      );
+      assert.strictEqual(
+        resolveContextDirectory("${workspaceFolder:missing}", [folder]),
+        undefined,
+      );
+    });
+
+    it("should round trip directories saved as settings", () => {
+      const api = path.join(root, "services", "api");
+      assert.strictEqual(toContextDirectory(api, [folder]), "services/api");
+      assert.strictEqual(
+        toContextDirectory(root, [folder]),
+        "${workspaceFolder}",
+      );
+      assert.strictEqual(
+        toContextDirectory(api, [folder, other]),
+        "${workspaceFolder:repo}/services/api",
+      );
+      assert.strictEqual(
+        resolveContextDirectory(toContextDirectory(api, [folder, other]), [
+          folder,
+          other,
+        ]),
+        api,
+      );
+    });
+  });
+});